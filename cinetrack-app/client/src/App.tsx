@@ -3,6 +3,7 @@ import { FiSettings, FiSearch, FiBell, FiGithub, FiArrowLeft } from "react-icons
 import { ErrorBoundary } from "./components/common/ErrorBoundary";
 import { WatchlistProvider } from "./contexts/WatchlistContext";
 import { useWatchlistStore, getWatchlistIds } from "./store/useWatchlistStore";
+import { useNotificationStore } from "./store/useNotificationStore";
 import { UIProvider, useUIContext } from "./contexts/UIContext";
 import { DiscoverProvider } from "./contexts/DiscoverContext";
 import { AuthProvider, useAuthContext } from "./contexts/AuthContext";
@@ -10,19 +11,24 @@ import { DemoWelcomeModal, useDemoWelcome } from "./components/common/DemoWelcom
 import { SearchBar } from "./components/common/SearchBar";
 import { SearchPalette } from "./components/common/SearchPalette";
 import { NotificationsModal } from "./components/common/NotificationsModal";
+import { SyncStatusIndicator } from "./components/common/SyncStatusIndicator";
 import { LoadingPosterAnimation } from "./components/common/LoadingPosterAnimation";
 import { BottomNavBar } from "./components/layout/BottomNavBar";
 import { SideNavBar } from "./components/layout/SideNavBar";
 import { MediaGrid } from "./components/media/MediaGrid";
 import { useLocalStorage } from "./hooks/useLocalStorage";
 import { getTVSeasonDetails } from "./services/tmdbService";
+import { getShareTokenFromPath } from "./utils/shareLinks";
 
 const AuthPage = lazy(() => import("./pages/AuthPage").then(m => ({ default: m.AuthPage })));
 const DiscoverPage = lazy(() => import("./pages/DiscoverPage").then(m => ({ default: m.DiscoverPage })));
 const ListsPage = lazy(() => import("./pages/ListsPage").then(m => ({ default: m.ListsPage })));
+const CalendarPage = lazy(() => import("./pages/CalendarPage").then(m => ({ default: m.CalendarPage })));
 const RecommendationsPage = lazy(() => import("./pages/RecommendationsPage").then(m => ({ default: m.RecommendationsPage })));
 const StatisticsPage = lazy(() => import("./pages/StatisticsPage").then(m => ({ default: m.StatisticsPage })));
+const AdminPage = lazy(() => import("./pages/AdminPage").then(m => ({ default: m.AdminPage })));
 const ViewAllPage = lazy(() => import("./pages/ViewAllPage").then(m => ({ default: m.ViewAllPage })));
+const SharedPage = lazy(() => import("./pages/SharedPage").then(m => ({ default: m.SharedPage })));
 
 // Lazy load heavy modal components
 const MediaDetailModal = lazy(() =>
@@ -46,6 +52,7 @@ const ModalLoadingFallback: React.FC = () => (
 // Header component
 const Header: React.FC = memo(() => {
   const { handleSearch, isSearchLoading, isSearchExpanded, setIsSearchExpanded, openSettings, openNotifications } = useUIContext();
+  const hasUnreadNotifications = useNotificationStore(state => state.unreadCount > 0);
 
   return (
     <header className="sticky top-0 z-20 bg-brand-bg/80 backdrop-blur-lg">
@@ -75,7 +82,9 @@ const Header: React.FC = memo(() => {
               aria-label="Notifications"
             >
               <FiBell className="h-6 w-6" />
-              <span className="absolute top-1 right-1 w-2 h-2 bg-brand-primary rounded-full" />
+              {hasUnreadNotifications && (
+                <span className="absolute top-1 right-1 w-2 h-2 bg-brand-primary rounded-full" />
+              )}
             </button>
             <button
               onClick={openSettings}
@@ -138,7 +147,9 @@ const Header: React.FC = memo(() => {
                   aria-label="Notifications"
                 >
                   <FiBell className="h-6 w-6" />
-                  <span className="absolute top-1 right-1 w-2 h-2 bg-brand-primary rounded-full" />
+                  {hasUnreadNotifications && (
+                    <span className="absolute top-1 right-1 w-2 h-2 bg-brand-primary rounded-full" />
+                  )}
                 </button>
                 <button
                   onClick={openSettings}
@@ -161,6 +172,7 @@ Header.displayName = "Header";
 // Main content component
 const MainContent: React.FC = memo(() => {
   const { activeTab, searchResults, selectedMediaId, handleSelectMedia, error, handleSearch, isSearchLoading } = useUIContext();
+  const { user } = useAuthContext();
   const watchlist = useWatchlistStore(state => state.watchlist);
   const watchlistIds = useMemo(() => getWatchlistIds(watchlist), [watchlist]);
   const isDbLoading = useWatchlistStore(state => state.isLoading);
@@ -222,8 +234,10 @@ const MainContent: React.FC = memo(() => {
           }>
             {activeTab === "discover" && <DiscoverPage />}
             {activeTab === "lists" && <ListsPage />}
+            {activeTab === "calendar" && <CalendarPage />}
             {activeTab === "recommendations" && <RecommendationsPage />}
             {activeTab === "stats" && <StatisticsPage />}
+            {activeTab === "admin" && user?.role === "admin" && <AdminPage />}
           </Suspense>
         )}
       </div>
@@ -252,14 +266,18 @@ const Modals: React.FC = () => {
   const toggleEpisodeWatched = useWatchlistStore(state => state.toggleEpisodeWatched);
   const toggleSeasonWatched = useWatchlistStore(state => state.toggleSeasonWatched);
   const updateTags = useWatchlistStore(state => state.updateTags);
+  const logRewatch = useWatchlistStore(state => state.logRewatch);
+  const updateRating = useWatchlistStore(state => state.updateRating);
+  const setStatusOverride = useWatchlistStore(state => state.setStatusOverride);
   const exportWatchlist = useWatchlistStore(state => state.exportWatchlist);
+  const exportLetterboxd = useWatchlistStore(state => state.exportLetterboxd);
   const storeImportWatchlist = useWatchlistStore(state => state.importWatchlist);
 
   // Adapter for importWatchlist to match previous Context signature
   const handleImportWatchlist = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (window.confirm("Are you sure you want to overwrite your current watchlist? This action cannot be undone.")) {
+      if (window.confirm("Are you sure you want to overwrite your current watchlist? A backup of it is saved first, and you can restore it from Settings.")) {
         storeImportWatchlist(file);
       }
     }
@@ -286,6 +304,9 @@ const Modals: React.FC = () => {
             onSearch={handleSearch}
             onToggleSeasonWatched={toggleSeasonWatched}
             onUpdateTags={updateTags}
+            onLogRewatch={logRewatch}
+            onUpdateRating={updateRating}
+            onSetStatusOverride={setStatusOverride}
           />
         </Suspense>
       )}
@@ -295,6 +316,7 @@ const Modals: React.FC = () => {
           isOpen={isSettingsOpen}
           onClose={closeSettings}
           onExport={exportWatchlist}
+          onExportLetterboxd={exportLetterboxd}
           onImport={handleImportWatchlist}
         />
       </Suspense>
@@ -313,7 +335,7 @@ const AppLayout: React.FC = () => {
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useLocalStorage("sidebarCollapsed", false);
 
   // Handle tab change - clear search results if any
-  const handleTabChange = (tab: "discover" | "lists" | "recommendations" | "stats") => {
+  const handleTabChange = (tab: "discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin") => {
     if (searchResults.length > 0) {
       handleSearch(""); // Clear search results
     }
@@ -364,6 +386,7 @@ const AppLayout: React.FC = () => {
         <BottomNavBar activeTab={activeTab} onTabChange={handleTabChange} />
       )}
 
+      <SyncStatusIndicator />
       <Modals />
     </div>
   );
@@ -371,6 +394,22 @@ const AppLayout: React.FC = () => {
 
 // Main App component
 const App: React.FC = () => {
+  // Public share links render on their own, without logging in
+  const shareToken = getShareTokenFromPath(window.location.pathname);
+  if (shareToken) {
+    return (
+      <ErrorBoundary>
+        <Suspense fallback={
+          <div className="min-h-screen bg-brand-bg flex items-center justify-center">
+            <div className="animate-pulse text-brand-text-dim">Loading...</div>
+          </div>
+        }>
+          <SharedPage token={shareToken} />
+        </Suspense>
+      </ErrorBoundary>
+    );
+  }
+
   return (
     <ErrorBoundary>
       <AuthProvider>
@@ -1,17 +1,112 @@
-import React from "react";
-import { FiBell, FiX } from "react-icons/fi";
+import React, { useEffect } from "react";
+import { FiBell, FiX, FiRefreshCw, FiCheck, FiLoader, FiFilm, FiTv } from "react-icons/fi";
+import { useNotificationStore } from "../../store/useNotificationStore";
+import { useUIContext } from "../../contexts/UIContext";
+import { TMDB_IMAGE_BASE_URL_MOBILE } from "../../constants/constants";
+import type { AppNotification, SearchResult } from "../../types/types";
 
 interface NotificationsModalProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
+const formatAirDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const describeNotification = (notification: AppNotification) => {
+    if (notification.type === "episode") {
+        const code = `S${notification.seasonNumber}E${notification.episodeNumber}`;
+        return notification.episodeName
+            ? `New episode ${code} · ${notification.episodeName}`
+            : `New episode ${code}`;
+    }
+    return "Now released";
+};
+
+const NotificationRow: React.FC<{
+    notification: AppNotification;
+    onOpen: (notification: AppNotification, rect: DOMRect) => void;
+    onDismiss: (id: string) => void;
+}> = ({ notification, onOpen, onDismiss }) => (
+    <li
+        className={`group flex items-center gap-3 p-2 rounded-xl cursor-pointer transition-colors ${notification.read ? "hover:bg-white/5" : "bg-brand-primary/10 hover:bg-brand-primary/15"
+            }`}
+        onClick={(e) => onOpen(notification, e.currentTarget.getBoundingClientRect())}
+    >
+        <div className="relative shrink-0">
+            {notification.poster_path ? (
+                <img
+                    src={`${TMDB_IMAGE_BASE_URL_MOBILE}${notification.poster_path}`}
+                    alt=""
+                    className="w-10 h-14 object-cover rounded-md bg-brand-surface"
+                    loading="lazy"
+                />
+            ) : (
+                <div className="w-10 h-14 rounded-md bg-brand-surface flex items-center justify-center text-brand-text-dim">
+                    {notification.media_type === "tv" ? <FiTv className="h-4 w-4" /> : <FiFilm className="h-4 w-4" />}
+                </div>
+            )}
+            {!notification.read && (
+                <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-brand-primary rounded-full" />
+            )}
+        </div>
+        <div className="flex-1 min-w-0">
+            <p className={`text-sm truncate ${notification.read ? "text-brand-text-light" : "text-white font-semibold"}`}>
+                {notification.title}
+            </p>
+            <p className="text-xs text-brand-text-dim truncate">{describeNotification(notification)}</p>
+            <p className="text-xs text-brand-text-muted mt-0.5">{formatAirDate(notification.airDate)}</p>
+        </div>
+        <button
+            onClick={(e) => {
+                e.stopPropagation();
+                onDismiss(notification._id);
+            }}
+            className="p-1 rounded-lg text-brand-text-dim opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/10 transition-all"
+            aria-label={`Dismiss notification for ${notification.title}`}
+        >
+            <FiX className="h-4 w-4" />
+        </button>
+    </li>
+);
+
 export const NotificationsModal: React.FC<NotificationsModalProps> = ({
     isOpen,
     onClose,
 }) => {
+    const notifications = useNotificationStore(state => state.notifications);
+    const unreadCount = useNotificationStore(state => state.unreadCount);
+    const isLoading = useNotificationStore(state => state.isLoading);
+    const isRefreshing = useNotificationStore(state => state.isRefreshing);
+    const error = useNotificationStore(state => state.error);
+    const loadNotifications = useNotificationStore(state => state.loadNotifications);
+    const refreshNotifications = useNotificationStore(state => state.refreshNotifications);
+    const markRead = useNotificationStore(state => state.markRead);
+    const markAllRead = useNotificationStore(state => state.markAllRead);
+    const dismiss = useNotificationStore(state => state.dismiss);
+    const { handleSelectMedia } = useUIContext();
+
+    useEffect(() => {
+        if (isOpen) loadNotifications();
+    }, [isOpen, loadNotifications]);
+
     if (!isOpen) return null;
 
+    const handleOpen = (notification: AppNotification, rect: DOMRect) => {
+        markRead(notification._id);
+        onClose();
+        const media: SearchResult = {
+            id: notification.mediaId,
+            media_type: notification.media_type,
+            title: notification.media_type === "movie" ? notification.title : undefined,
+            name: notification.media_type === "tv" ? notification.title : undefined,
+            overview: "",
+            poster_path: notification.poster_path,
+            backdrop_path: null,
+        };
+        handleSelectMedia(media, rect);
+    };
+
     return (
         <div
             className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4"
@@ -23,36 +118,77 @@ export const NotificationsModal: React.FC<NotificationsModalProps> = ({
                 className="backdrop-blur-xl bg-white/5 border border-white/10 rounded-3xl shadow-2xl w-full max-w-sm p-6 text-brand-text-light"
                 onClick={(e) => e.stopPropagation()}
             >
-                <div className="flex justify-between items-center mb-6">
+                <div className="flex justify-between items-center mb-4">
                     <h2 className="text-xl font-bold text-white flex items-center gap-2">
                         <FiBell className="h-5 w-5 text-brand-primary" />
                         Notifications
                     </h2>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={refreshNotifications}
+                            disabled={isRefreshing}
+                            className="text-brand-text-dim hover:text-white transition-colors p-1 hover:bg-white/10 rounded-lg disabled:opacity-50"
+                            aria-label="Check for new episodes"
+                            title="Check for new episodes"
+                        >
+                            <FiRefreshCw className={`h-5 w-5 ${isRefreshing ? "animate-spin" : ""}`} />
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="text-brand-text-dim hover:text-white transition-colors p-1 hover:bg-white/10 rounded-lg"
+                            aria-label="Close"
+                        >
+                            <FiX className="h-5 w-5" />
+                        </button>
+                    </div>
+                </div>
+
+                {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+                {isLoading && notifications.length === 0 ? (
+                    <div className="flex items-center justify-center py-10">
+                        <FiLoader className="animate-spin h-6 w-6 text-brand-primary" />
+                    </div>
+                ) : notifications.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-8 text-center">
+                        <div className="w-16 h-16 rounded-full bg-brand-primary/20 flex items-center justify-center mb-4">
+                            <FiBell className="h-8 w-8 text-brand-primary" />
+                        </div>
+                        <h3 className="text-lg font-semibold text-white mb-2">All caught up</h3>
+                        <p className="text-brand-text-dim text-sm max-w-xs">
+                            New episodes of your shows and releases from your list will show up here.
+                        </p>
+                    </div>
+                ) : (
+                    <ul className="space-y-1 max-h-[50vh] overflow-y-auto -mx-2 px-2">
+                        {notifications.map((notification) => (
+                            <NotificationRow
+                                key={notification._id}
+                                notification={notification}
+                                onOpen={handleOpen}
+                                onDismiss={dismiss}
+                            />
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex gap-2 mt-4">
+                    {unreadCount > 0 && (
+                        <button
+                            onClick={markAllRead}
+                            className="flex-1 py-2.5 px-4 rounded-xl font-medium bg-brand-primary/20 hover:bg-brand-primary/30 text-brand-primary transition-colors flex items-center justify-center gap-2"
+                        >
+                            <FiCheck className="h-4 w-4" />
+                            Mark all read
+                        </button>
+                    )}
                     <button
                         onClick={onClose}
-                        className="text-brand-text-dim hover:text-white transition-colors p-1 hover:bg-white/10 rounded-lg"
-                        aria-label="Close"
+                        className="flex-1 py-2.5 px-4 rounded-xl font-medium bg-white/10 hover:bg-white/20 text-white transition-colors"
                     >
-                        <FiX className="h-5 w-5" />
+                        Close
                     </button>
                 </div>
-
-                <div className="flex flex-col items-center justify-center py-8 text-center">
-                    <div className="w-16 h-16 rounded-full bg-brand-primary/20 flex items-center justify-center mb-4">
-                        <FiBell className="h-8 w-8 text-brand-primary" />
-                    </div>
-                    <h3 className="text-lg font-semibold text-white mb-2">Coming Soon</h3>
-                    <p className="text-brand-text-dim text-sm max-w-xs">
-                        Notifications are not available yet. Work in progress!!
-                    </p>
-                </div>
-
-                <button
-                    onClick={onClose}
-                    className="w-full mt-4 py-2.5 px-4 rounded-xl font-medium bg-white/10 hover:bg-white/20 text-white transition-colors"
-                >
-                    Got it
-                </button>
             </div>
         </div>
     );
@@ -0,0 +1,60 @@
+import React, { useState } from "react";
+import { FiStar } from "react-icons/fi";
+
+interface StarRatingProps {
+    /** 1-10, shown as half-star steps on five stars */
+    value: number | null | undefined;
+    onChange: (value: number | null) => void;
+    size?: "sm" | "md";
+    label: string;
+}
+
+const STAR_COUNT = 5;
+
+/**
+ * Five-star picker with half stars. Clicking the current value clears it.
+ */
+export const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = "md", label }) => {
+    const [hoverValue, setHoverValue] = useState<number | null>(null);
+    const shown = hoverValue ?? value ?? 0;
+    const iconClass = size === "sm" ? "h-4 w-4" : "h-6 w-6";
+
+    const select = (next: number) => onChange(next === value ? null : next);
+
+    return (
+        <div
+            className="inline-flex items-center"
+            role="radiogroup"
+            aria-label={label}
+            onMouseLeave={() => setHoverValue(null)}
+            onClick={(e) => e.stopPropagation()}
+        >
+            {Array.from({ length: STAR_COUNT }, (_, i) => {
+                const full = (i + 1) * 2;
+                const half = full - 1;
+                const fill = shown >= full ? "100%" : shown === half ? "50%" : "0%";
+
+                return (
+                    <span key={i} className={`relative ${iconClass}`}>
+                        <FiStar className={`${iconClass} text-white/25`} />
+                        <span className="absolute inset-0 overflow-hidden" style={{ width: fill }}>
+                            <FiStar className={`${iconClass} text-yellow-400 fill-yellow-400`} />
+                        </span>
+                        {[half, full].map((step, side) => (
+                            <button
+                                key={step}
+                                type="button"
+                                role="radio"
+                                aria-checked={value === step}
+                                aria-label={`${step / 2} stars`}
+                                className={`absolute inset-y-0 w-1/2 ${side === 0 ? "left-0" : "right-0"}`}
+                                onMouseEnter={() => setHoverValue(step)}
+                                onClick={() => select(step)}
+                            />
+                        ))}
+                    </span>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,35 @@
+import React from "react";
+import { FiCloudOff, FiUploadCloud } from "react-icons/fi";
+import { useWatchlistStore } from "../../store/useWatchlistStore";
+
+/**
+ * Floating pill shown while offline or while changes are waiting to be sent.
+ */
+export const SyncStatusIndicator: React.FC = () => {
+    const isOffline = useWatchlistStore(state => state.isOffline);
+    const pendingMutations = useWatchlistStore(state => state.pendingMutations);
+    const flushMutations = useWatchlistStore(state => state.flushMutations);
+
+    if (!isOffline && pendingMutations === 0) return null;
+
+    const changes = `${pendingMutations} ${pendingMutations === 1 ? "change" : "changes"}`;
+    const label = isOffline
+        ? pendingMutations > 0 ? `Offline · ${changes} not synced` : "Offline · showing saved list"
+        : `Syncing ${changes}…`;
+
+    return (
+        <button
+            onClick={() => flushMutations()}
+            className="fixed bottom-20 lg:bottom-6 right-4 z-30 flex items-center gap-2 px-3 py-2 rounded-full text-xs font-medium backdrop-blur-xl bg-brand-surface/90 border border-white/10 text-brand-text-light shadow-lg hover:bg-brand-surface transition-colors"
+            title="Retry sync now"
+            aria-live="polite"
+        >
+            {isOffline ? (
+                <FiCloudOff className="h-4 w-4 text-yellow-400" />
+            ) : (
+                <FiUploadCloud className="h-4 w-4 text-brand-primary animate-pulse" />
+            )}
+            <span>{label}</span>
+        </button>
+    );
+};
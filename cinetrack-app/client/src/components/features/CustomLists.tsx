@@ -0,0 +1,411 @@
+import React, { useMemo, useState } from "react";
+import {
+  FiPlus,
+  FiTrash2,
+  FiEdit2,
+  FiX,
+  FiMenu,
+  FiChevronUp,
+  FiChevronDown,
+  FiImage,
+  FiLink2,
+  FiCheck,
+} from "react-icons/fi";
+import { TMDB_IMAGE_BASE_URL_MOBILE } from "../../constants/constants";
+import { useListsStore } from "../../store/useListsStore";
+import { useWatchlistStore } from "../../store/useWatchlistStore";
+import { useUIContext } from "../../contexts/UIContext";
+import { useAuthContext } from "../../contexts/AuthContext";
+import { createShareLink } from "../../services/dbService";
+import { getShareUrl } from "../../utils/shareLinks";
+import { ConfirmModal } from "../common/ConfirmModal";
+import type { CustomList, WatchlistItem } from "../../types/types";
+
+const inputClass =
+  "w-full bg-brand-surface/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-brand-text-dim focus:outline-none focus:ring-2 focus:ring-brand-primary";
+
+const itemTitle = (item: WatchlistItem) =>
+  item.media_type === "movie" ? item.title : item.name;
+
+const itemYear = (item: WatchlistItem) =>
+  (item.media_type === "movie" ? item.release_date : item.first_air_date)?.slice(0, 4);
+
+// Move one entry of an array to another index
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+const ListForm: React.FC<{
+  initialName?: string;
+  initialDescription?: string;
+  submitLabel: string;
+  onSubmit: (name: string, description: string) => void;
+  onCancel: () => void;
+}> = ({ initialName = "", initialDescription = "", submitLabel, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initialName);
+  const [description, setDescription] = useState(initialDescription);
+
+  return (
+    <form
+      className="space-y-2 bg-white/5 rounded-xl p-4 border border-white/10"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (name.trim()) onSubmit(name.trim(), description.trim());
+      }}
+    >
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={80}
+        placeholder="List name, e.g. Halloween marathon"
+        className={inputClass}
+        autoFocus
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        maxLength={500}
+        rows={2}
+        placeholder="Description (optional)"
+        className={`${inputClass} resize-y`}
+      />
+      <div className="flex gap-2 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="py-1.5 px-3 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="py-1.5 px-3 text-sm font-semibold rounded-lg bg-brand-primary hover:bg-brand-secondary text-brand-bg transition-colors disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CustomListView: React.FC<{ list: CustomList; onDeleted: () => void }> = ({
+  list,
+  onDeleted,
+}) => {
+  const watchlist = useWatchlistStore((state) => state.watchlist);
+  const updateList = useListsStore((state) => state.updateList);
+  const deleteList = useListsStore((state) => state.deleteList);
+  const removeFromList = useListsStore((state) => state.removeFromList);
+  const reorderList = useListsStore((state) => state.reorderList);
+  const { handleSelectMedia } = useUIContext();
+  const { user } = useAuthContext();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [shareState, setShareState] = useState<"idle" | "copied" | "error">("idle");
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  // Order shown while a drag is in progress; committed on drop
+  const [previewOrder, setPreviewOrder] = useState<number[] | null>(null);
+
+  const itemsById = useMemo(
+    () => new Map(watchlist.map((item) => [item.id, item])),
+    [watchlist]
+  );
+  const order = previewOrder ?? list.itemIds;
+  const items = order
+    .map((id) => itemsById.get(id))
+    .filter((item): item is WatchlistItem => item !== undefined);
+
+  const commitOrder = (itemIds: number[]) => {
+    if (itemIds.some((id, index) => id !== list.itemIds[index])) {
+      reorderList(list._id, itemIds);
+    }
+  };
+
+  // Each click issues a new link; old ones stay valid until revoked in Settings
+  const handleShare = async () => {
+    try {
+      const link = await createShareLink({ type: "list", listId: list._id });
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      setShareState("copied");
+    } catch (err) {
+      console.error(err);
+      setShareState("error");
+    }
+    setTimeout(() => setShareState("idle"), 2000);
+  };
+
+  const handleDragEnd = () => {
+    if (previewOrder) commitOrder(previewOrder);
+    setDragIndex(null);
+    setPreviewOrder(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {isEditing ? (
+        <ListForm
+          initialName={list.name}
+          initialDescription={list.description}
+          submitLabel="Save"
+          onSubmit={(name, description) => {
+            updateList(list._id, { name, description });
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-xl font-bold text-white">{list.name}</h3>
+            {list.description && (
+              <p className="text-sm text-brand-text-dim mt-1 whitespace-pre-line">{list.description}</p>
+            )}
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            {!user?.isDemo && (
+              <button
+                onClick={handleShare}
+                className={`p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors ${shareState === "error" ? "text-red-400" : "text-brand-text-light"}`}
+                aria-label="Copy share link"
+                title={shareState === "copied" ? "Link copied" : shareState === "error" ? "Couldn't create link" : "Copy share link"}
+              >
+                {shareState === "copied" ? <FiCheck className="w-4 h-4 text-green-400" /> : <FiLink2 className="w-4 h-4" />}
+              </button>
+            )}
+            <button
+              onClick={() => setIsEditing(true)}
+              className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-brand-text-light transition-colors"
+              aria-label="Edit list"
+            >
+              <FiEdit2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsConfirmingDelete(true)}
+              className="p-2 rounded-lg bg-white/5 hover:bg-red-500/20 text-brand-text-light hover:text-red-400 transition-colors"
+              aria-label="Delete list"
+            >
+              <FiTrash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-brand-text-dim text-sm py-6 text-center">
+          This list is empty. Open any title on your watchlist to add it here.
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {items.map((item, index) => (
+            <li
+              key={item.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDragIndex(index);
+                setPreviewOrder(list.itemIds.filter((id) => itemsById.has(id)));
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (dragIndex === null || dragIndex === index || !previewOrder) return;
+                setPreviewOrder(moveItem(previewOrder, dragIndex, index));
+                setDragIndex(index);
+              }}
+              onDrop={(e) => e.preventDefault()}
+              onDragEnd={handleDragEnd}
+              className={`flex items-center gap-3 bg-white/5 rounded-xl p-2 pr-3 border border-white/10 transition-opacity ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <FiMenu className="w-4 h-4 text-brand-text-dim cursor-grab flex-shrink-0" aria-hidden />
+              <span className="text-xs text-brand-text-dim w-5 text-right">{index + 1}</span>
+              <button
+                className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                onClick={(e) => handleSelectMedia(item, e.currentTarget.getBoundingClientRect())}
+              >
+                <div className="w-10 aspect-[2/3] rounded overflow-hidden bg-brand-surface flex-shrink-0">
+                  {item.poster_path ? (
+                    <img
+                      src={`${TMDB_IMAGE_BASE_URL_MOBILE}${item.poster_path}`}
+                      alt=""
+                      className="w-full h-full object-cover"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <FiImage className="w-4 h-4 text-brand-text-dim" />
+                    </div>
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{itemTitle(item)}</p>
+                  <p className="text-xs text-brand-text-dim">
+                    {[itemYear(item), item.media_type === "movie" ? "Movie" : "TV"].filter(Boolean).join(" · ")}
+                  </p>
+                </div>
+              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => commitOrder(moveItem(items.map((i) => i.id), index, index - 1))}
+                  disabled={index === 0}
+                  className="p-1 rounded text-brand-text-dim hover:text-white disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  <FiChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => commitOrder(moveItem(items.map((i) => i.id), index, index + 1))}
+                  disabled={index === items.length - 1}
+                  className="p-1 rounded text-brand-text-dim hover:text-white disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  <FiChevronDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => removeFromList(list._id, item.id)}
+                  className="p-1 rounded text-brand-text-dim hover:text-red-400"
+                  aria-label={`Remove ${itemTitle(item)} from list`}
+                >
+                  <FiX className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <ConfirmModal
+        isOpen={isConfirmingDelete}
+        title="Delete list?"
+        message={`"${list.name}" will be deleted. The titles stay on your watchlist.`}
+        confirmText="Delete"
+        confirmStyle="danger"
+        onConfirm={() => {
+          setIsConfirmingDelete(false);
+          deleteList(list._id);
+          onDeleted();
+        }}
+        onCancel={() => setIsConfirmingDelete(false)}
+      />
+    </div>
+  );
+};
+
+/**
+ * User-created lists: pick one to view and reorder it, or create a new one.
+ */
+export const CustomListsSection: React.FC = () => {
+  const lists = useListsStore((state) => state.lists);
+  const error = useListsStore((state) => state.error);
+  const createList = useListsStore((state) => state.createList);
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selectedList = lists.find((list) => list._id === selectedListId);
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-3xl font-bold text-brand-text-light">My Lists 📚</h2>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="flex items-center gap-1.5 py-1.5 px-3 text-sm font-medium rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+          >
+            <FiPlus className="w-4 h-4" /> New list
+          </button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="mb-4">
+          <ListForm
+            submitLabel="Create"
+            onSubmit={async (name, description) => {
+              const list = await createList(name, description);
+              if (list) {
+                setIsCreating(false);
+                setSelectedListId(list._id);
+              }
+            }}
+            onCancel={() => setIsCreating(false)}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      {lists.length === 0 && !isCreating ? (
+        <p className="text-brand-text-dim text-sm">
+          Group titles your own way, like "Halloween marathon" or "Watch with partner".
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {lists.map((list) => (
+            <button
+              key={list._id}
+              onClick={() => setSelectedListId(selectedListId === list._id ? null : list._id)}
+              className={`px-4 py-1 text-sm rounded-full transition-colors ${selectedListId === list._id
+                ? "bg-brand-primary text-white"
+                : "bg-brand-surface hover:bg-brand-surface/70 text-brand-text-light"
+                }`}
+            >
+              {list.name}
+              <span className="ml-1.5 text-xs opacity-70">{list.itemIds.length}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedList && (
+        <CustomListView
+          key={selectedList._id}
+          list={selectedList}
+          onDeleted={() => setSelectedListId(null)}
+        />
+      )}
+    </section>
+  );
+};
+
+/**
+ * Checkbox-style chips for adding a watchlist item to (or removing it from) each list.
+ */
+export const ListMembership: React.FC<{ itemId: number }> = ({ itemId }) => {
+  const lists = useListsStore((state) => state.lists);
+  const addToList = useListsStore((state) => state.addToList);
+  const removeFromList = useListsStore((state) => state.removeFromList);
+
+  if (lists.length === 0) {
+    return (
+      <p className="text-sm text-brand-text-dim">
+        Create a list from the Lists tab to group titles your own way.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {lists.map((list) => {
+        const isMember = list.itemIds.includes(itemId);
+        return (
+          <button
+            key={list._id}
+            onClick={() => (isMember ? removeFromList(list._id, itemId) : addToList(list._id, itemId))}
+            aria-pressed={isMember}
+            className={`flex items-center gap-1 px-3 py-1 text-sm rounded-full transition-colors ${isMember
+              ? "bg-brand-primary text-white"
+              : "bg-white/10 hover:bg-white/20 text-brand-text-light"
+              }`}
+          >
+            {isMember ? <FiX className="w-3 h-3" /> : <FiPlus className="w-3 h-3" />}
+            {list.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { createPortal } from "react-dom";
-import { FiChevronDown, FiLoader, FiImage, FiCheck } from "react-icons/fi";
+import { FiChevronDown, FiLoader, FiImage, FiCheck, FiRepeat } from "react-icons/fi";
 import type { TVDetail, SeasonDetail } from "../../types/types";
 import { TMDB_IMAGE_BASE_URL } from "../../constants/constants";
 import { Confetti } from "../common/Confetti";
+import { StarRating } from "../common/StarRating";
+import { formatWatchSummary, watchKey, type WatchSummary } from "../../utils/watchHistory";
 
 export const EpisodeTracker: React.FC<{
   tvShow: TVDetail;
@@ -22,12 +24,32 @@ export const EpisodeTracker: React.FC<{
     seasonNumber: number,
     allEpisodeNumbers: number[]
   ) => void;
+  watchHistory?: Map<string, WatchSummary>;
+  onRewatchEpisode?: (
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number
+  ) => void;
+  seasonRatings?: Record<number, number>;
+  episodeRatings?: Record<number, Record<number, number>>;
+  onRateSeason?: (seasonNumber: number, rating: number | null) => void;
+  onRateEpisode?: (
+    seasonNumber: number,
+    episodeNumber: number,
+    rating: number | null
+  ) => void;
 }> = ({
   tvShow,
   getSeasonDetails,
   watchedEpisodes,
   onToggleEpisode,
   onToggleSeasonWatched,
+  watchHistory,
+  onRewatchEpisode,
+  seasonRatings,
+  episodeRatings,
+  onRateSeason,
+  onRateEpisode,
 }) => {
     const [selectedSeason, setSelectedSeason] = useState<number>(
       tvShow.seasons[0]?.season_number ?? 1
@@ -151,6 +173,18 @@ export const EpisodeTracker: React.FC<{
           )}
         </div>
 
+        {onRateSeason && (
+          <div className="flex items-center gap-2 mb-4 text-xs text-brand-text-dim">
+            <span>Rate this season</span>
+            <StarRating
+              value={seasonRatings?.[selectedSeason]}
+              onChange={(rating) => onRateSeason(selectedSeason, rating)}
+              size="sm"
+              label={`Rating for season ${selectedSeason}`}
+            />
+          </div>
+        )}
+
         {isLoading && (
           <div className="flex-grow flex items-center justify-center">
             <FiLoader className="animate-spin h-8 w-8 text-white" />
@@ -174,6 +208,10 @@ export const EpisodeTracker: React.FC<{
               const isUnaired = episode.air_date
                 ? new Date(episode.air_date) > new Date()
                 : true;
+              const isWatched = watchedEpisodes[selectedSeason]?.includes(episode.episode_number) ?? false;
+              const watchSummary = isWatched
+                ? watchHistory?.get(watchKey(selectedSeason, episode.episode_number))
+                : undefined;
 
               return (
                 <li
@@ -214,6 +252,21 @@ export const EpisodeTracker: React.FC<{
                       {airDate}
                       {isUnaired && <span className="ml-2 text-yellow-400">(Upcoming)</span>}
                     </p>
+                    {watchSummary && (
+                      <p className="text-xs text-brand-primary/80 mt-0.5">
+                        {formatWatchSummary(watchSummary)}
+                      </p>
+                    )}
+                    {isWatched && onRateEpisode && (
+                      <div className="mt-1">
+                        <StarRating
+                          value={episodeRatings?.[selectedSeason]?.[episode.episode_number]}
+                          onChange={(rating) => onRateEpisode(selectedSeason, episode.episode_number, rating)}
+                          size="sm"
+                          label={`Rating for episode ${episode.episode_number}`}
+                        />
+                      </div>
+                    )}
                     {episode.overview && (
                       <div className="hidden md:block">
                         <p
@@ -244,8 +297,21 @@ export const EpisodeTracker: React.FC<{
                   </div>
 
                   {/* Watched indicator - shows at right */}
-                  <div className="flex-shrink-0 pt-1">
-                    {watchedEpisodes[selectedSeason]?.includes(episode.episode_number) ? (
+                  <div className="flex-shrink-0 pt-1 flex items-center gap-2">
+                    {isWatched && onRewatchEpisode && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRewatchEpisode(tvShow.id, selectedSeason, episode.episode_number);
+                        }}
+                        className="p-1 -m-1 rounded-md text-brand-text-dim hover:text-white hover:bg-white/10 transition-colors"
+                        aria-label={`Log a rewatch of episode ${episode.episode_number}`}
+                        title="Watched again"
+                      >
+                        <FiRepeat className="h-4 w-4" />
+                      </button>
+                    )}
+                    {isWatched ? (
                       <FiCheck className="h-5 w-5 text-brand-primary" />
                     ) : !isUnaired ? (
                       <div className="w-5 h-5 rounded-full border-2 border-white/30" />
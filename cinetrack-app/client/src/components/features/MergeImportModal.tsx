@@ -0,0 +1,508 @@
+import React, { useEffect, useState } from "react";
+import { FiX, FiUpload, FiLoader, FiCheckCircle, FiAlertCircle, FiImage } from "react-icons/fi";
+import { TMDB_IMAGE_BASE_URL_MOBILE } from "../../constants/constants";
+import { resolveImportRows, previewImportEntries } from "../../services/dbService";
+import { useWatchlistStore } from "../../store/useWatchlistStore";
+import { parseLetterboxdFiles } from "../../utils/letterboxd";
+import { parseTraktFiles } from "../../utils/trakt";
+import { parseImdbFiles } from "../../utils/imdb";
+import { batchImportEntries, combineImportEntries, mergeImportPreviews } from "../../utils/importEntries";
+import type {
+  ImportCandidate,
+  ImportConflict,
+  ImportEntry,
+  ImportPreview,
+  ImportSourceEntry,
+  ImportSummary,
+} from "../../types/types";
+
+const RESOLVE_BATCH_SIZE = 50;
+const PREVIEW_LIST_LIMIT = 50;
+
+export type ImportSource = "letterboxd" | "trakt" | "imdb";
+
+const Filename: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <code className="text-white">{children}</code>
+);
+
+const SOURCES: Record<
+  ImportSource,
+  {
+    name: string;
+    accept: string;
+    parse: (files: { name: string; text: string }[]) => ImportSourceEntry[];
+    instructions: React.ReactNode;
+  }
+> = {
+  letterboxd: {
+    name: "Letterboxd",
+    accept: ".csv,text/csv",
+    parse: parseLetterboxdFiles,
+    instructions: (
+      <>
+        In Letterboxd, go to Settings → Data → Export your data, unzip the download, and pick{" "}
+        <Filename>watched.csv</Filename>, <Filename>ratings.csv</Filename> and/or <Filename>watchlist.csv</Filename>.
+      </>
+    ),
+  },
+  trakt: {
+    name: "Trakt",
+    accept: ".json,application/json",
+    parse: parseTraktFiles,
+    instructions: (
+      <>
+        Export your Trakt data, unzip it, and pick <Filename>watched-history.json</Filename> (or{" "}
+        <Filename>watched-movies.json</Filename> and <Filename>watched-shows.json</Filename>), plus any{" "}
+        <Filename>ratings-*.json</Filename> and <Filename>watchlist-*.json</Filename> files.
+      </>
+    ),
+  },
+  imdb: {
+    name: "IMDb",
+    accept: ".csv,text/csv",
+    parse: parseImdbFiles,
+    instructions: (
+      <>
+        On IMDb, open Your Ratings, your Watchlist or any of your lists and use Export. Pick the downloaded{" "}
+        <Filename>.csv</Filename> files. Rated titles are imported as watched.
+      </>
+    ),
+  },
+};
+
+interface ResolvedEntry {
+  entry: ImportSourceEntry;
+  candidates: ImportCandidate[];
+  /** Auto-matched or picked on the review screen; null means skip */
+  selected: ImportCandidate | null;
+  autoMatched: boolean;
+}
+
+type Step =
+  | { name: "select" }
+  | { name: "resolving"; done: number; total: number }
+  | { name: "review" }
+  | { name: "previewing" }
+  | { name: "preview"; preview: ImportPreview; entries: ImportEntry[] }
+  | { name: "importing"; done: number; total: number }
+  | { name: "done"; summary: ImportSummary };
+
+const mediaKey = (item: { id: number; media_type: string }) => `${item.media_type}-${item.id}`;
+
+const toImportEntry = ({ entry, selected }: ResolvedEntry): ImportEntry => ({
+  id: selected!.id,
+  media_type: selected!.media_type,
+  watched: entry.watched,
+  watchedAt: entry.watchedAt,
+  userRating: entry.userRating,
+  review: entry.review?.slice(0, 5000),
+  episodes: selected!.media_type === "tv" ? entry.episodes : undefined,
+});
+
+const describeChanges = (changes: ImportPreview["updated"][number]["changes"]) =>
+  [
+    changes.watched && "mark watched",
+    changes.episodes && `+${changes.episodes} ${changes.episodes === 1 ? "episode" : "episodes"}`,
+    changes.userRating !== undefined && `rating ${changes.userRating}/10`,
+    changes.review && "review",
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+const describeConflict = ({ field, current, incoming }: ImportConflict) =>
+  field === "userRating"
+    ? `rating: yours ${current}/10, imported ${incoming}/10`
+    : "review differs from yours";
+
+const ProgressBar: React.FC<{ label: string; done: number; total: number }> = ({ label, done, total }) => (
+  <div className="py-6">
+    <p className="text-sm text-brand-text-dim mb-2 flex items-center gap-2">
+      <FiLoader className="animate-spin h-4 w-4 text-brand-primary" />
+      {label} {done}/{total}
+    </p>
+    <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-brand-primary transition-all duration-300"
+        style={{ width: `${total > 0 ? (done / total) * 100 : 0}%` }}
+      />
+    </div>
+  </div>
+);
+
+const CandidateButton: React.FC<{
+  candidate: ImportCandidate;
+  isSelected: boolean;
+  onSelect: () => void;
+}> = ({ candidate, isSelected, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className={`flex items-center gap-2 p-1.5 pr-3 rounded-lg text-left transition-colors border ${isSelected
+      ? "bg-brand-primary/20 border-brand-primary"
+      : "bg-white/5 border-white/10 hover:bg-white/10"
+      }`}
+  >
+    <div className="w-8 aspect-[2/3] rounded overflow-hidden bg-brand-surface shrink-0">
+      {candidate.poster_path ? (
+        <img src={`${TMDB_IMAGE_BASE_URL_MOBILE}${candidate.poster_path}`} alt="" className="w-full h-full object-cover" loading="lazy" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <FiImage className="w-3 h-3 text-brand-text-dim" />
+        </div>
+      )}
+    </div>
+    <span className="text-xs text-white">
+      {candidate.title}
+      <span className="text-brand-text-dim">
+        {" "}· {candidate.year ?? "—"} · {candidate.media_type === "movie" ? "Movie" : "TV"}
+      </span>
+    </span>
+  </button>
+);
+
+const PreviewSection: React.FC<{ title: string; lines: { key: string; label: string; detail?: string }[] }> = ({
+  title,
+  lines,
+}) =>
+  lines.length === 0 ? null : (
+    <div className="mb-4">
+      <p className="text-sm font-medium text-white mb-2">
+        {title} <span className="text-brand-text-dim">({lines.length})</span>
+      </p>
+      <ul className="bg-black/30 rounded-xl p-3 space-y-1 max-h-48 overflow-y-auto">
+        {lines.slice(0, PREVIEW_LIST_LIMIT).map((line) => (
+          <li key={line.key} className="text-xs text-brand-text-light">
+            {line.label}
+            {line.detail && <span className="text-brand-text-dim"> · {line.detail}</span>}
+          </li>
+        ))}
+        {lines.length > PREVIEW_LIST_LIMIT && (
+          <li className="text-xs text-brand-text-dim">and {lines.length - PREVIEW_LIST_LIMIT} more</li>
+        )}
+      </ul>
+    </div>
+  );
+
+/**
+ * Merge-import another service's export: parse, match to TMDB on the server, let the
+ * user sort out anything that didn't match, show a dry run of the changes, then import.
+ */
+export const MergeImportModal: React.FC<{ source: ImportSource | null; onClose: () => void }> = ({
+  source,
+  onClose,
+}) => {
+  const mergeImport = useWatchlistStore((state) => state.mergeImport);
+  const [step, setStep] = useState<Step>({ name: "select" });
+  const [resolved, setResolved] = useState<ResolvedEntry[]>([]);
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!source) {
+      setStep({ name: "select" });
+      setResolved([]);
+      setOverwriteConflicts(false);
+      setError(null);
+    }
+  }, [source]);
+
+  if (!source) return null;
+  const config = SOURCES[source];
+
+  const isBusy = step.name === "resolving" || step.name === "previewing" || step.name === "importing";
+  const unmatched = resolved.filter((r) => !r.autoMatched);
+  const selectedCount = resolved.filter((r) => r.selected).length;
+
+  const showPreview = async (results: ResolvedEntry[]) => {
+    const entries = combineImportEntries(results.filter((r) => r.selected).map(toImportEntry));
+    setError(null);
+    setStep({ name: "previewing" });
+    try {
+      const previews = [];
+      for (const batch of batchImportEntries(entries)) {
+        previews.push(await previewImportEntries(batch));
+      }
+      setStep({ name: "preview", preview: mergeImportPreviews(previews), entries });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't preview the import. Please try again.");
+      setStep({ name: "review" });
+    }
+  };
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+    setError(null);
+
+    try {
+      const entries = config.parse(
+        await Promise.all(files.map(async (file) => ({ name: file.name, text: await file.text() })))
+      );
+      if (entries.length === 0) {
+        setError("No titles found in the selected files.");
+        return;
+      }
+
+      // Titles that already carry a TMDB id skip matching
+      const results: ResolvedEntry[] = entries
+        .filter((entry) => entry.tmdbId && entry.media_type)
+        .map((entry) => {
+          const match: ImportCandidate = {
+            id: entry.tmdbId!,
+            media_type: entry.media_type!,
+            title: entry.title,
+            year: entry.year ?? null,
+            poster_path: null,
+          };
+          return { entry, candidates: [match], selected: match, autoMatched: true };
+        });
+      const toResolve = entries.filter((entry) => !(entry.tmdbId && entry.media_type));
+
+      setStep({ name: "resolving", done: results.length, total: entries.length });
+      for (let i = 0; i < toResolve.length; i += RESOLVE_BATCH_SIZE) {
+        const batch = toResolve.slice(i, i + RESOLVE_BATCH_SIZE);
+        const resolutions = await resolveImportRows(
+          batch.map(({ title, year, media_type, imdbId }) => ({ title, year, media_type, imdbId }))
+        );
+        batch.forEach((entry, index) => {
+          const { match, candidates } = resolutions[index];
+          results.push({ entry, candidates, selected: match, autoMatched: match !== null });
+        });
+        setStep({ name: "resolving", done: results.length, total: entries.length });
+      }
+
+      setResolved(results);
+      if (results.every((r) => r.autoMatched)) {
+        await showPreview(results);
+      } else {
+        setStep({ name: "review" });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the selected files.");
+      setStep({ name: "select" });
+    }
+  };
+
+  const selectCandidate = (key: string, candidate: ImportCandidate | null) => {
+    setResolved((prev) => prev.map((r) => (r.entry.key === key ? { ...r, selected: candidate } : r)));
+  };
+
+  const handleImport = async (entries: ImportEntry[]) => {
+    setError(null);
+    setStep({ name: "importing", done: 0, total: entries.length });
+    try {
+      const summary = await mergeImport(entries, {
+        overwriteConflicts,
+        onProgress: (done) => setStep({ name: "importing", done, total: entries.length }),
+      });
+      setStep({ name: "done", summary });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed. Please try again.");
+      setStep({ name: "review" });
+    }
+  };
+
+  // The dry run only knows TMDB ids for new titles, so name them from the export
+  const sourceTitles = new Map(
+    resolved.filter((r) => r.selected).map((r) => [mediaKey(r.selected!), r.selected!.title])
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-60 p-4"
+      onClick={(e) => {
+        // Rendered inside SettingsModal; don't let the click close that too
+        e.stopPropagation();
+        if (!isBusy) onClose();
+      }}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="backdrop-blur-xl bg-brand-bg/95 border border-white/10 rounded-3xl shadow-2xl w-full max-w-lg p-6 text-brand-text-light max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-white">Import from {config.name}</h2>
+          <button
+            onClick={onClose}
+            disabled={isBusy}
+            className="text-brand-text-dim hover:text-white transition-colors text-2xl leading-none p-1 hover:bg-white/10 rounded-lg disabled:opacity-30"
+            aria-label="Close"
+          >
+            <FiX />
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 mb-4 bg-red-500/20 border border-red-500/30 rounded-lg">
+            <FiAlertCircle className="h-5 w-5 text-red-400 shrink-0 mt-0.5" />
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {step.name === "select" && (
+          <>
+            <p className="text-sm text-brand-text-dim mb-2">{config.instructions}</p>
+            <p className="text-xs text-brand-text-dim mb-4">
+              This adds to your watchlist. Nothing you already have is removed, and you'll see every change before it's made.
+            </p>
+            <label className="w-full py-2.5 px-4 rounded-xl font-semibold transition-all flex items-center justify-center gap-2 bg-brand-primary hover:bg-brand-secondary text-white cursor-pointer">
+              <FiUpload className="h-5 w-5" />
+              Choose files
+              <input type="file" accept={config.accept} multiple onChange={handleFiles} className="hidden" />
+            </label>
+          </>
+        )}
+
+        {step.name === "resolving" && (
+          <ProgressBar label="Matching titles on TMDB" done={step.done} total={step.total} />
+        )}
+
+        {step.name === "review" && (
+          <>
+            <p className="text-sm text-brand-text-dim mb-4">
+              {resolved.length - unmatched.length} of {resolved.length} titles matched automatically.
+              {unmatched.length > 0 && " Pick the right title for the rest, or leave them skipped."}
+            </p>
+            {unmatched.length > 0 && (
+              <div className="space-y-4 mb-4">
+                {unmatched.map(({ entry, candidates, selected }) => (
+                  <div key={entry.key} className="bg-black/30 rounded-xl p-3">
+                    <p className="text-sm font-medium text-white mb-2">
+                      {entry.title}
+                      {entry.year && <span className="text-brand-text-dim"> ({entry.year})</span>}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {candidates.map((candidate) => (
+                        <CandidateButton
+                          key={mediaKey(candidate)}
+                          candidate={candidate}
+                          isSelected={selected?.id === candidate.id && selected.media_type === candidate.media_type}
+                          onSelect={() => selectCandidate(entry.key, candidate)}
+                        />
+                      ))}
+                      <button
+                        onClick={() => selectCandidate(entry.key, null)}
+                        className={`px-3 py-1.5 rounded-lg text-xs border transition-colors ${!selected
+                          ? "bg-white/15 border-white/30 text-white"
+                          : "bg-white/5 border-white/10 text-brand-text-dim hover:bg-white/10"
+                          }`}
+                      >
+                        Skip
+                      </button>
+                    </div>
+                    {candidates.length === 0 && (
+                      <p className="text-xs text-brand-text-dim mt-2">No results on TMDB.</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => showPreview(resolved)}
+              disabled={selectedCount === 0}
+              className="w-full py-2.5 px-4 rounded-xl font-semibold transition-all bg-brand-primary hover:bg-brand-secondary text-white disabled:opacity-50"
+            >
+              Preview changes for {selectedCount} {selectedCount === 1 ? "title" : "titles"}
+            </button>
+          </>
+        )}
+
+        {step.name === "previewing" && (
+          <p className="py-6 text-sm text-brand-text-dim flex items-center gap-2">
+            <FiLoader className="animate-spin h-4 w-4 text-brand-primary" />
+            Working out what would change...
+          </p>
+        )}
+
+        {step.name === "preview" && (
+          <>
+            <p className="text-sm text-brand-text-dim mb-4">
+              Nothing has been changed yet. Here's what importing would do
+              {step.preview.unchanged > 0 && ` (${step.preview.unchanged} already up to date)`}:
+            </p>
+            <PreviewSection
+              title="New titles"
+              lines={step.preview.added.map((item) => ({
+                key: mediaKey(item),
+                label: sourceTitles.get(mediaKey(item)) ?? `TMDB #${item.id}`,
+              }))}
+            />
+            <PreviewSection
+              title="Updated"
+              lines={step.preview.updated.map((item) => ({
+                key: mediaKey(item),
+                label: item.title,
+                detail: describeChanges(item.changes),
+              }))}
+            />
+            <PreviewSection
+              title="Conflicts"
+              lines={step.preview.conflicts.map((item) => ({
+                key: mediaKey(item),
+                label: item.title,
+                detail: item.fields.map(describeConflict).join("; "),
+              }))}
+            />
+            {step.preview.conflicts.length > 0 && (
+              <label className="flex items-center gap-2 mb-4 text-sm text-brand-text-light cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={overwriteConflicts}
+                  onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                  className="accent-brand-primary"
+                />
+                Use the imported rating or review for conflicts (otherwise yours are kept)
+              </label>
+            )}
+            <div className="flex gap-3">
+              <button
+                onClick={() => setStep({ name: "review" })}
+                className="flex-1 py-2.5 px-4 rounded-xl font-medium transition-colors bg-white/10 hover:bg-white/20 text-white"
+              >
+                Back
+              </button>
+              <button
+                onClick={() => handleImport(step.entries)}
+                disabled={
+                  step.preview.added.length + step.preview.updated.length === 0 &&
+                  !(overwriteConflicts && step.preview.conflicts.length > 0)
+                }
+                className="flex-1 py-2.5 px-4 rounded-xl font-semibold transition-all bg-brand-primary hover:bg-brand-secondary text-white disabled:opacity-50"
+              >
+                Import
+              </button>
+            </div>
+          </>
+        )}
+
+        {step.name === "importing" && (
+          <ProgressBar label="Importing" done={step.done} total={step.total} />
+        )}
+
+        {step.name === "done" && (
+          <>
+            <div className="flex items-start gap-2 p-3 mb-4 bg-green-500/20 border border-green-500/30 rounded-lg">
+              <FiCheckCircle className="h-5 w-5 text-green-400 shrink-0 mt-0.5" />
+              <div className="text-sm text-green-400">
+                <p className="font-medium">Import complete</p>
+                <p className="text-green-400/80 mt-1">
+                  {step.summary.added} added, {step.summary.updated} updated, {step.summary.unchanged} already up to date
+                  {step.summary.conflicts > 0 && !overwriteConflicts && `, ${step.summary.conflicts} kept your version`}
+                  {step.summary.failed.length > 0 && `, ${step.summary.failed.length} couldn't be fetched from TMDB`}.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white"
+            >
+              Done
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,48 @@
 import React, { useRef, useState, useEffect } from "react";
-import { useAuthContext, getAuthToken } from "../../contexts/AuthContext";
+import { useAuthContext } from "../../contexts/AuthContext";
 import { ConfirmModal } from "../common/ConfirmModal";
+import { MergeImportModal, type ImportSource } from "./MergeImportModal";
+import {
+  getShareLinks,
+  createShareLink,
+  revokeShareLink,
+  getBackups,
+  deleteBackup,
+  getCalendarFeed,
+  createCalendarFeed,
+  deleteCalendarFeed,
+  getSessions,
+  revokeSession,
+  revokeAllSessions,
+  getTwoFactorStatus,
+  startTwoFactorSetup,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  getStorageStats,
+  wipeWatchlist,
+  deleteAccount,
+  changePassword,
+  resendVerificationEmail,
+  getMyInvites,
+  createInvite,
+  revokeInvite,
+} from "../../services/dbService";
+import { useWatchlistStore } from "../../store/useWatchlistStore";
+import { getShareUrl } from "../../utils/shareLinks";
+import { getInviteUrl } from "../../utils/invites";
+import { getCalendarFeedUrl, getCalendarSubscribeUrl } from "../../utils/calendar";
+import type {
+  ShareLink,
+  Backup,
+  CalendarFeed as CalendarFeedInfo,
+  Session,
+  TwoFactorStatus,
+  TwoFactorSetup,
+  StorageStats as StorageStatsInfo,
+  Invite,
+  MyInvites,
+} from "../../types/types";
 import {
   FiEye,
   FiEyeOff,
@@ -17,17 +59,24 @@ import {
   FiAlertTriangle,
   FiChevronRight,
   FiChevronDown,
-  FiClock
+  FiClock,
+  FiLink2,
+  FiCopy,
+  FiCheck,
+  FiRotateCcw,
+  FiCalendar,
+  FiRefreshCw,
+  FiMonitor,
+  FiUserPlus,
+  FiShield
 } from "react-icons/fi";
 
-// API requests use relative URLs - Vite proxy handles forwarding in dev
-const API_BASE_URL = '';
-
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   onExport: () => void;
   onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onExportLetterboxd: () => void;
 }
 
 const PasswordInput: React.FC<{
@@ -64,26 +113,58 @@ const PasswordInput: React.FC<{
   );
 };
 
+// Shown until the address from sign-up is confirmed
+const EmailVerification: React.FC = () => {
+  const [status, setStatus] = useState<"idle" | "sending" | "sent">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResend = async () => {
+    setError(null);
+    setStatus("sending");
+    try {
+      await resendVerificationEmail();
+      setStatus("sent");
+    } catch (err) {
+      setStatus("idle");
+      setError(err instanceof Error ? err.message : 'Failed to send verification email');
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-amber-500/15 border border-amber-500/30 rounded-lg p-3">
+      <p className="text-amber-400 font-medium flex items-center gap-2 text-sm">
+        <FiAlertCircle className="h-4 w-4" />
+        Email not verified
+      </p>
+      <p className="text-xs text-brand-text-dim mt-1">
+        {status === "sent"
+          ? "Sent! Check your inbox for the link."
+          : "Open the link we emailed you when you signed up to confirm your address."}
+      </p>
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      {status !== "sent" && (
+        <button
+          onClick={handleResend}
+          disabled={status === "sending"}
+          className="mt-2 text-xs font-medium text-amber-400 hover:text-amber-300 transition-colors disabled:opacity-50"
+        >
+          {status === "sending" ? "Sending..." : "Resend verification email"}
+        </button>
+      )}
+    </div>
+  );
+};
+
 // Storage Stats component
 const StorageStats: React.FC = () => {
-  const [stats, setStats] = useState<{
-    user: { itemCount: number };
-    collection: { totalDocuments: number; storageSize: number; avgObjSize: number };
-    database: { name: string; dataSize: number };
-  } | null>(null);
+  const [stats, setStats] = useState<StorageStatsInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchStats = async () => {
       try {
-        const token = getAuthToken();
-        const response = await fetch('/api/watchlist/stats', {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (!response.ok) throw new Error('Failed to fetch stats');
-        const data = await response.json();
-        setStats(data);
+        setStats(await getStorageStats());
       } catch (err) {
         setError('Unable to load storage info');
         console.error(err);
@@ -94,14 +175,6 @@ const StorageStats: React.FC = () => {
     fetchStats();
   }, []);
 
-  const formatBytes = (bytes: number) => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   return (
     <section className="pt-4 border-t border-white/10">
       <h3 className="text-sm font-semibold text-white mb-3 flex items-center gap-2">
@@ -115,36 +188,912 @@ const StorageStats: React.FC = () => {
       ) : error ? (
         <p className="text-sm text-red-400">{error}</p>
       ) : stats ? (
-        <div className="grid grid-cols-2 gap-3">
+        <div className="grid grid-cols-3 gap-3">
           <div className="bg-white/5 rounded-xl p-3">
-            <p className="text-xs text-brand-text-dim">Your Items</p>
+            <p className="text-xs text-brand-text-dim">Titles</p>
             <p className="text-lg font-bold text-white">{stats.user.itemCount}</p>
           </div>
           <div className="bg-white/5 rounded-xl p-3">
-            <p className="text-xs text-brand-text-dim">Storage Used</p>
-            <p className="text-lg font-bold text-white">{formatBytes(stats.database.dataSize)}</p>
+            <p className="text-xs text-brand-text-dim">Watches</p>
+            <p className="text-lg font-bold text-white">{stats.user.watchEventCount}</p>
           </div>
-          <div className="bg-white/5 rounded-xl p-3 col-span-2">
-            <p className="text-xs text-brand-text-dim">Database</p>
-            <p className="text-sm font-medium text-white">{stats.database.name}</p>
-            <p className="text-xs text-brand-text-dim mt-1">
-              {stats.collection.totalDocuments} total items in collection
+          <div className="bg-white/5 rounded-xl p-3">
+            <p className="text-xs text-brand-text-dim">Lists</p>
+            <p className="text-lg font-bold text-white">{stats.user.listCount}</p>
+          </div>
+        </div>
+      ) : null}
+    </section>
+  );
+};
+
+// Share Links component
+const ShareLinks: React.FC = () => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getShareLinks()
+      .then(setLinks)
+      .catch((err) => {
+        setError('Unable to load share links');
+        console.error(err);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      setCopiedId(link._id);
+      setTimeout(() => setCopiedId((id) => (id === link._id ? null : id)), 2000);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleShareWatched = async () => {
+    setError(null);
+    try {
+      const link = await createShareLink({ type: "watched" });
+      setLinks((prev) => [link, ...prev]);
+      copyLink(link);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    const previous = links;
+    setLinks((prev) => prev.filter((link) => link._id !== id));
+    try {
+      await revokeShareLink(id);
+    } catch (err) {
+      setLinks(previous);
+      setError('Failed to revoke share link');
+      console.error(err);
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-brand-text-dim mb-3">
+        Share Links
+      </h3>
+      <p className="text-sm text-brand-text-dim mb-4">
+        Anyone with a link can view that list, read-only. Revoke a link to turn it off.
+      </p>
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <FiLoader className="animate-spin h-5 w-5 text-brand-primary" />
+        </div>
+      ) : (
+        <div className="space-y-2 mb-3">
+          {links.map((link) => (
+            <div key={link._id} className="flex items-center gap-3 bg-black/30 rounded-xl p-3">
+              <FiLink2 className="h-4 w-4 text-brand-primary shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{link.title}</p>
+                <p className="text-xs text-brand-text-dim">
+                  Created {new Date(link.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => copyLink(link)}
+                className="p-1.5 rounded-lg text-brand-text-dim hover:text-white hover:bg-white/10 transition-colors"
+                aria-label={`Copy link to ${link.title}`}
+              >
+                {copiedId === link._id ? <FiCheck className="h-4 w-4 text-green-400" /> : <FiCopy className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={() => handleRevoke(link._id)}
+                className="p-1.5 rounded-lg text-brand-text-dim hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                aria-label={`Revoke link to ${link.title}`}
+              >
+                <FiTrash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          {links.length === 0 && (
+            <p className="text-xs text-brand-text-dim">
+              No active links. Share a list from the Lists tab, or your watched history below.
             </p>
+          )}
+        </div>
+      )}
+      <button
+        onClick={handleShareWatched}
+        className="w-full py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2"
+      >
+        <FiLink2 className="h-4 w-4" />
+        Share Watched History
+      </button>
+    </section>
+  );
+};
+
+const CalendarFeed: React.FC = () => {
+  const [feed, setFeed] = useState<CalendarFeedInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+
+  useEffect(() => {
+    getCalendarFeed()
+      .then(setFeed)
+      .catch((err) => {
+        setError('Unable to load your calendar feed');
+        console.error(err);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const copyUrl = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(token));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const created = await createCalendarFeed();
+      setFeed(created);
+      copyUrl(created.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create calendar feed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const previous = feed;
+    setFeed(null);
+    try {
+      await deleteCalendarFeed();
+    } catch (err) {
+      setFeed(previous);
+      setError('Failed to turn off calendar feed');
+      console.error(err);
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-brand-text-dim mb-3">
+        Calendar Feed
+      </h3>
+      <p className="text-sm text-brand-text-dim mb-4">
+        Subscribe in Google Calendar, Apple Calendar or Outlook to see upcoming episodes and releases.
+        Anyone with the URL can see your schedule, so reset it if it gets out.
+      </p>
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <FiLoader className="animate-spin h-5 w-5 text-brand-primary" />
+        </div>
+      ) : feed ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3 bg-black/30 rounded-xl p-3">
+            <FiCalendar className="h-4 w-4 text-brand-primary shrink-0" />
+            <p className="flex-1 min-w-0 text-xs text-brand-text-dim truncate">{getCalendarFeedUrl(feed.token)}</p>
+            <button
+              onClick={() => copyUrl(feed.token)}
+              className="p-1.5 rounded-lg text-brand-text-dim hover:text-white hover:bg-white/10 transition-colors"
+              aria-label="Copy calendar feed URL"
+            >
+              {copied ? <FiCheck className="h-4 w-4 text-green-400" /> : <FiCopy className="h-4 w-4" />}
+            </button>
+            <button
+              onClick={handleDelete}
+              className="p-1.5 rounded-lg text-brand-text-dim hover:text-red-400 hover:bg-red-500/10 transition-colors"
+              aria-label="Turn off calendar feed"
+            >
+              <FiTrash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <a
+              href={getCalendarSubscribeUrl(feed.token)}
+              className="flex-1 py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2"
+            >
+              <FiCalendar className="h-4 w-4" />
+              Open in Calendar App
+            </a>
+            <button
+              onClick={() => setShowResetConfirm(true)}
+              disabled={isSaving}
+              className="py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <FiRefreshCw className="h-4 w-4" />
+              Reset URL
+            </button>
           </div>
         </div>
+      ) : (
+        <button
+          onClick={handleCreate}
+          disabled={isSaving}
+          className="w-full py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isSaving ? <FiLoader className="h-4 w-4 animate-spin" /> : <FiCalendar className="h-4 w-4" />}
+          Create Calendar Feed
+        </button>
+      )}
+      <ConfirmModal
+        isOpen={showResetConfirm}
+        title="Reset calendar feed?"
+        message="The current URL will stop working, and calendars subscribed to it will need the new one."
+        confirmText="Reset"
+        onConfirm={() => {
+          setShowResetConfirm(false);
+          handleCreate();
+        }}
+        onCancel={() => setShowResetConfirm(false)}
+      />
+    </section>
+  );
+};
+
+const INVITE_STATUS_LABELS: Record<Invite["status"], string> = {
+  active: "Unused",
+  used_up: "Used",
+  expired: "Expired",
+  revoked: "Revoked",
+};
+
+// Invites component
+const Invites: React.FC = () => {
+  const [data, setData] = useState<MyInvites | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const load = () =>
+    getMyInvites()
+      .then(setData)
+      .catch((err) => {
+        setError('Unable to load your invites');
+        console.error(err);
+      });
+
+  useEffect(() => {
+    load().finally(() => setIsLoading(false));
+  }, []);
+
+  const copyInvite = async (invite: Invite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite.code));
+      setCopiedId(invite._id);
+      setTimeout(() => setCopiedId((id) => (id === invite._id ? null : id)), 2000);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    setIsCreating(true);
+    try {
+      const invite = await createInvite();
+      setData((prev) => prev && {
+        ...prev,
+        invites: [invite, ...prev.invites],
+        remaining: prev.remaining - 1,
+      });
+      copyInvite(invite);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invite');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    try {
+      await revokeInvite(id);
+      // An unused code gives its slot back, so get the new count from the server
+      await load();
+    } catch (err) {
+      setError('Failed to revoke invite');
+      console.error(err);
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-brand-text-dim mb-3">
+        Invites
+      </h3>
+      <p className="text-sm text-brand-text-dim mb-4">
+        Each invite lets one friend sign up. Unused invites expire, or revoke them to get them back.
+      </p>
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <FiLoader className="animate-spin h-5 w-5 text-brand-primary" />
+        </div>
+      ) : data ? (
+        <div className="space-y-2">
+          {data.invites.map((invite) => (
+            <div key={invite._id} className="flex items-center gap-3 bg-black/30 rounded-xl p-3">
+              <FiUserPlus className="h-4 w-4 text-brand-primary shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-mono truncate ${invite.status === "active" ? "text-white" : "text-brand-text-dim line-through"}`}>
+                  {invite.code}
+                </p>
+                <p className="text-xs text-brand-text-dim">
+                  {INVITE_STATUS_LABELS[invite.status]}
+                  {invite.status === "active" && invite.expiresAt &&
+                    ` · expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              {invite.status === "active" && (
+                <>
+                  <button
+                    onClick={() => copyInvite(invite)}
+                    className="p-1.5 rounded-lg text-brand-text-dim hover:text-white hover:bg-white/10 transition-colors"
+                    aria-label={`Copy invite link for ${invite.code}`}
+                  >
+                    {copiedId === invite._id ? <FiCheck className="h-4 w-4 text-green-400" /> : <FiCopy className="h-4 w-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(invite._id)}
+                    className="p-1.5 rounded-lg text-brand-text-dim hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    aria-label={`Revoke invite ${invite.code}`}
+                  >
+                    <FiTrash2 className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={handleCreate}
+            disabled={isCreating || data.remaining === 0}
+            className="w-full py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {isCreating ? <FiLoader className="h-4 w-4 animate-spin" /> : <FiUserPlus className="h-4 w-4" />}
+            Create Invite ({data.remaining} of {data.perUser} left)
+          </button>
+        </div>
       ) : null}
     </section>
   );
 };
 
+// Sessions component
+// Recovery codes are only ever shown right after they're generated
+const RecoveryCodes: React.FC<{ codes: string[]; onDone: () => void }> = ({ codes, onDone }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="bg-black/30 rounded-xl p-3">
+      <p className="text-sm text-white mb-1">Save your recovery codes</p>
+      <p className="text-xs text-brand-text-dim mb-3">
+        Each one signs you in once if you lose your device. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {codes.map((code) => (
+          <code key={code} className="text-sm font-mono text-white bg-black/40 rounded px-2 py-1 text-center">
+            {code}
+          </code>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={copyCodes}
+          className="flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2"
+        >
+          {copied ? <FiCheck className="h-4 w-4 text-green-400" /> : <FiCopy className="h-4 w-4" />}
+          {copied ? "Copied" : "Copy"}
+        </button>
+        <button
+          onClick={onDone}
+          className="flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors bg-brand-primary hover:bg-brand-secondary text-brand-bg"
+        >
+          I've saved them
+        </button>
+      </div>
+    </div>
+  );
+};
+
+type TwoFactorStep = "idle" | "password" | "scan" | "codes" | "regenerate" | "disable";
+
+const TwoFactor: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [step, setStep] = useState<TwoFactorStep>("idle");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getTwoFactorStatus()
+      .then(setStatus)
+      .catch((err) => {
+        setError('Unable to load two-factor settings');
+        console.error(err);
+      });
+  }, []);
+
+  const goTo = (next: TwoFactorStep) => {
+    setStep(next);
+    setPassword("");
+    setCode("");
+    setError(null);
+  };
+
+  const showCodes = (codes: string[]) => {
+    setRecoveryCodes(codes);
+    setStatus({ enabled: true, recoveryCodesRemaining: codes.length });
+    goTo("codes");
+  };
+
+  const submit = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (step === "password") {
+      submit(async () => {
+        setSetup(await startTwoFactorSetup(password));
+        goTo("scan");
+      });
+    } else if (step === "scan") {
+      submit(async () => showCodes(await enableTwoFactor(code)));
+    } else if (step === "regenerate") {
+      submit(async () => showCodes(await regenerateRecoveryCodes(code)));
+    } else if (step === "disable") {
+      submit(async () => {
+        await disableTwoFactor(password, code);
+        setStatus({ enabled: false, recoveryCodesRemaining: 0 });
+        goTo("idle");
+      });
+    }
+  };
+
+  const needsPassword = step === "password" || step === "disable";
+  const needsCode = step === "scan" || step === "regenerate" || step === "disable";
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-brand-text-dim mb-3">
+        Two-Factor Authentication
+      </h3>
+      <p className="text-sm text-brand-text-dim mb-4">
+        Ask for a code from an authenticator app as well as your password when signing in.
+      </p>
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {!status ? (
+        !error && (
+          <div className="flex items-center justify-center py-4">
+            <FiLoader className="animate-spin h-5 w-5 text-brand-primary" />
+          </div>
+        )
+      ) : step === "codes" ? (
+        <RecoveryCodes codes={recoveryCodes} onDone={() => goTo("idle")} />
+      ) : step === "idle" ? (
+        status.enabled ? (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3 bg-black/30 rounded-xl p-3">
+              <FiShield className="h-4 w-4 text-green-400 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white">On</p>
+                <p className={`text-xs ${status.recoveryCodesRemaining <= 2 ? "text-amber-400" : "text-brand-text-dim"}`}>
+                  {status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? "code" : "codes"} left
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => goTo("regenerate")}
+                className="flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2"
+              >
+                <FiRefreshCw className="h-4 w-4" />
+                New Recovery Codes
+              </button>
+              <button
+                onClick={() => goTo("disable")}
+                className="flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors bg-white/10 hover:bg-red-500/20 text-white hover:text-red-400"
+              >
+                Turn Off
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => goTo("password")}
+            className="w-full py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2"
+          >
+            <FiShield className="h-4 w-4" />
+            Set Up Two-Factor Authentication
+          </button>
+        )
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {step === "scan" && setup && (
+            <div className="bg-black/30 rounded-xl p-3 flex flex-col items-center gap-3">
+              <img src={setup.qrCode} alt="QR code for your authenticator app" className="w-44 h-44 rounded-lg bg-white p-2" />
+              <p className="text-xs text-brand-text-dim text-center">
+                Scan this with your authenticator app, or <a href={setup.otpauthUri} className="text-brand-primary hover:text-brand-secondary">open it</a> on this device.
+                Can't scan? Enter this key:
+              </p>
+              <code className="text-xs font-mono text-white break-all text-center">{setup.secret}</code>
+            </div>
+          )}
+          {step === "regenerate" && (
+            <p className="text-xs text-brand-text-dim">Your current recovery codes stop working once new ones are made.</p>
+          )}
+          {needsPassword && (
+            <div>
+              <label className="block text-sm text-brand-text-dim mb-1">Password</label>
+              <PasswordInput value={password} onChange={setPassword} required />
+            </div>
+          )}
+          {needsCode && (
+            <div>
+              <label className="block text-sm text-brand-text-dim mb-1">
+                {step === "scan" ? "Code from the app" : "Authenticator or recovery code"}
+              </label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                inputMode={step === "scan" ? "numeric" : "text"}
+                autoComplete="one-time-code"
+                className="w-full px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-white font-mono tracking-widest focus:outline-none focus:border-brand-primary transition-colors"
+                required
+              />
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => goTo("idle")}
+              className="flex-1 py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-1 py-2 px-4 rounded-lg font-medium transition-colors bg-brand-primary hover:bg-brand-secondary text-brand-bg disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {isSubmitting && <FiLoader className="h-4 w-4 animate-spin" />}
+              {step === "password" ? "Continue" : step === "scan" ? "Turn On" : step === "regenerate" ? "Make New Codes" : "Turn Off"}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+};
+
+const Sessions: React.FC = () => {
+  const { logout } = useAuthContext();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showRevokeAllConfirm, setShowRevokeAllConfirm] = useState(false);
+
+  useEffect(() => {
+    getSessions()
+      .then(setSessions)
+      .catch((err) => {
+        setError('Unable to load your sessions');
+        console.error(err);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleRevoke = async (session: Session) => {
+    const previous = sessions;
+    setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    try {
+      await revokeSession(session.id);
+      if (session.current) {
+        await logout();
+      }
+    } catch (err) {
+      setSessions(previous);
+      setError('Failed to log out that device');
+      console.error(err);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setShowRevokeAllConfirm(false);
+    try {
+      await revokeAllSessions();
+      await logout();
+    } catch (err) {
+      setError('Failed to log out all devices');
+      console.error(err);
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-brand-text-dim mb-3">
+        Sessions
+      </h3>
+      <p className="text-sm text-brand-text-dim mb-4">
+        Devices where you're logged in. Log out any you don't recognise.
+      </p>
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <FiLoader className="animate-spin h-5 w-5 text-brand-primary" />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map((session) => (
+            <div key={session.id} className="flex items-center gap-3 bg-black/30 rounded-xl p-3">
+              <FiMonitor className="h-4 w-4 text-brand-primary shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">
+                  {session.device}
+                  {session.current && <span className="ml-2 text-xs text-green-400">This device</span>}
+                </p>
+                <p className="text-xs text-brand-text-dim truncate">
+                  {session.ip ? `${session.ip} · ` : ''}Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(session)}
+                className="p-1.5 rounded-lg text-brand-text-dim hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                aria-label={`Log out ${session.device}`}
+              >
+                <FiLogOut className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setShowRevokeAllConfirm(true)}
+            className="w-full py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2"
+          >
+            <FiLogOut className="h-4 w-4" />
+            Log Out All Devices
+          </button>
+        </div>
+      )}
+      <ConfirmModal
+        isOpen={showRevokeAllConfirm}
+        title="Log out all devices?"
+        message="Every device, including this one, will need to log in again."
+        confirmText="Log Out All"
+        confirmStyle="danger"
+        onConfirm={handleRevokeAll}
+        onCancel={() => setShowRevokeAllConfirm(false)}
+      />
+    </section>
+  );
+};
+
+const BACKUP_REASONS: Record<Backup["reason"], string> = {
+  import: "Before import",
+  "merge-import": "Before import from another app",
+  wipe: "Before wipe",
+  restore: "Before restore",
+  scheduled: "Scheduled backup",
+};
+
+const Backups: React.FC = () => {
+  const restoreBackup = useWatchlistStore((state) => state.restoreBackup);
+  const restoreBackupFile = useWatchlistStore((state) => state.restoreBackupFile);
+  const downloadBackup = useWatchlistStore((state) => state.downloadBackup);
+  const restoreFileRef = useRef<HTMLInputElement>(null);
+  const [isRestoringFile, setIsRestoringFile] = useState(false);
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<Backup | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [restoredMessage, setRestoredMessage] = useState<string | null>(null);
+
+  const loadBackups = () =>
+    getBackups()
+      .then(setBackups)
+      .catch((err) => {
+        setError('Unable to load backups');
+        console.error(err);
+      })
+      .finally(() => setIsLoading(false));
+
+  useEffect(() => {
+    loadBackups();
+  }, []);
+
+  const handleRestore = async () => {
+    const backup = restoreTarget;
+    if (!backup) return;
+    setRestoreTarget(null);
+    setRestoringId(backup._id);
+    setError(null);
+    setRestoredMessage(null);
+    try {
+      await restoreBackup(backup._id);
+      setRestoredMessage(`Restored ${backup.itemCount} titles from ${new Date(backup.createdAt).toLocaleString()}.`);
+      // The restore took a snapshot of what it replaced
+      await loadBackups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleRestoreFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setIsRestoringFile(true);
+    setError(null);
+    setRestoredMessage(null);
+    try {
+      await restoreBackupFile(file);
+      setRestoredMessage(`Restored from ${file.name}.`);
+      await loadBackups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore from file');
+    } finally {
+      setIsRestoringFile(false);
+    }
+  };
+
+  const handleDownload = async (backup: Backup) => {
+    try {
+      await downloadBackup(backup._id, backup.createdAt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download backup');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const previous = backups;
+    setBackups((prev) => prev.filter((backup) => backup._id !== id));
+    try {
+      await deleteBackup(id);
+    } catch (err) {
+      setBackups(previous);
+      setError('Failed to delete backup');
+      console.error(err);
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold uppercase tracking-wider text-brand-text-dim mb-3">
+        Backups
+      </h3>
+      <p className="text-sm text-brand-text-dim mb-4">
+        A snapshot of your watchlist, history and lists is saved on a schedule and before every import, wipe or restore. Restoring from a file accepts exports from any Scene Stack version.
+      </p>
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+      {restoredMessage && <p className="text-sm text-green-400 mb-3">{restoredMessage}</p>}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <FiLoader className="animate-spin h-5 w-5 text-brand-primary" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {backups.map((backup) => (
+            <div key={backup._id} className="flex items-center gap-3 bg-black/30 rounded-xl p-3">
+              <FiClock className="h-4 w-4 text-brand-primary shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">
+                  {BACKUP_REASONS[backup.reason]} · {new Date(backup.createdAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-brand-text-dim">
+                  {backup.itemCount} titles, {backup.listCount} lists · kept until {new Date(backup.expiresAt).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDownload(backup)}
+                className="p-1.5 rounded-lg text-brand-text-dim hover:text-white hover:bg-white/10 transition-colors"
+                aria-label="Download this backup"
+              >
+                <FiDownload className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setRestoreTarget(backup)}
+                disabled={restoringId !== null}
+                className="p-1.5 rounded-lg text-brand-text-dim hover:text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+                aria-label="Restore this backup"
+              >
+                {restoringId === backup._id ? <FiLoader className="animate-spin h-4 w-4" /> : <FiRotateCcw className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={() => handleDelete(backup._id)}
+                disabled={restoringId !== null}
+                className="p-1.5 rounded-lg text-brand-text-dim hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                aria-label="Delete this backup"
+              >
+                <FiTrash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          {backups.length === 0 && (
+            <p className="text-xs text-brand-text-dim">No backups yet.</p>
+          )}
+        </div>
+      )}
+      <button
+        onClick={() => restoreFileRef.current?.click()}
+        disabled={isRestoringFile || restoringId !== null}
+        className="w-full mt-3 py-2 px-4 rounded-lg font-medium transition-colors bg-white/10 hover:bg-white/20 text-white flex items-center justify-center gap-2 disabled:opacity-50"
+      >
+        {isRestoringFile ? <FiLoader className="animate-spin h-4 w-4" /> : <FiUpload className="h-4 w-4" />}
+        Restore from File
+      </button>
+      <input
+        type="file"
+        ref={restoreFileRef}
+        onChange={handleRestoreFile}
+        accept="application/json,.json"
+        className="hidden"
+        aria-hidden="true"
+      />
+
+      <ConfirmModal
+        isOpen={restoreTarget !== null}
+        title="Restore Backup"
+        message="Your current watchlist, history and lists will be replaced with this backup. They'll be backed up first, so you can switch back."
+        confirmText="Restore"
+        cancelText="Cancel"
+        onConfirm={handleRestore}
+        onCancel={() => setRestoreTarget(null)}
+      />
+    </section>
+  );
+};
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
   onExport,
   onImport,
+  onExportLetterboxd,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { user, logout } = useAuthContext();
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
 
   // Password change state
   const [showPasswordForm, setShowPasswordForm] = useState(false);
@@ -197,26 +1146,16 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
     setIsProcessingDanger(true);
     try {
-      const token = getAuthToken();
-
       if (dangerAction === "wipe") {
-        const response = await fetch(`${API_BASE_URL}/api/watchlist`, {
-          method: "DELETE",
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (!response.ok) throw new Error("Failed to wipe watchlist");
+        await wipeWatchlist();
 
         setShowDangerConfirm(false);
         onClose();
         window.location.reload();
       } else {
-        const response = await fetch(`${API_BASE_URL}/api/auth`, {
-          method: "DELETE",
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (!response.ok) throw new Error("Failed to delete account");
+        await deleteAccount();
 
-        logout();
+        await logout();
         onClose();
         setShowDangerConfirm(false);
       }
@@ -251,26 +1190,17 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     setIsChangingPassword(true);
 
     try {
-      const token = getAuthToken();
-      const response = await fetch(`${API_BASE_URL}/api/auth/password`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ currentPassword, newPassword }),
-      });
-
-      const data = await response.json();
-
-      if (response.ok) {
-        setPasswordSuccess(true);
-        resetPasswordForm();
-      } else {
-        setPasswordError(data.message || "Failed to change password. Please try again.");
-      }
-    } catch {
-      setPasswordError("Unable to connect to the server. Please check your connection and try again.");
+      await changePassword(currentPassword, newPassword);
+      setPasswordSuccess(true);
+      resetPasswordForm();
+    } catch (err) {
+      setPasswordError(
+        err instanceof TypeError
+          ? "Unable to connect to the server. Please check your connection and try again."
+          : err instanceof Error
+            ? err.message
+            : "Failed to change password. Please try again."
+      );
     } finally {
       setIsChangingPassword(false);
     }
@@ -337,6 +1267,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 </div>
               )}
 
+              {user && !user.isDemo && user.emailVerified === false && <EmailVerification />}
+
               {/* Change Password Toggle - hidden for demo users */}
               {!user?.isDemo && !showPasswordForm ? (
                 <button
@@ -487,8 +1419,53 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 aria-hidden="true"
               />
             </div>
+            {!user?.isDemo && (
+              <div className="mt-4 p-4 bg-black/30 rounded-xl">
+                <p className="text-sm font-medium text-white">Other apps</p>
+                <p className="text-xs text-brand-text-dim mt-1 mb-3">
+                  Merge your history, ratings and watchlist from Letterboxd, Trakt or IMDb into Scene Stack. You'll see a preview before anything changes.
+                </p>
+                <div className="grid grid-cols-3 gap-2 mb-2">
+                  {(["letterboxd", "trakt", "imdb"] as const).map((source) => (
+                    <button
+                      key={source}
+                      onClick={() => setImportSource(source)}
+                      className="py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white"
+                    >
+                      <FiUpload className="h-4 w-4" />
+                      {source === "letterboxd" ? "Letterboxd" : source === "trakt" ? "Trakt" : "IMDb"}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={onExportLetterboxd}
+                  className="w-full py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-brand-text-light"
+                >
+                  <FiDownload className="h-4 w-4" />
+                  Export movies for Letterboxd
+                </button>
+              </div>
+            )}
           </section>
 
+          {/* Backups - demo data expires anyway */}
+          {!user?.isDemo && <Backups />}
+
+          {/* Share Links - demo accounts can't create them */}
+          {!user?.isDemo && <ShareLinks />}
+
+          {/* Invites - demo accounts can't create them */}
+          {!user?.isDemo && <Invites />}
+
+          {/* Calendar Feed - demo accounts can't create one */}
+          {!user?.isDemo && <CalendarFeed />}
+
+          {/* Two-factor - demo accounts can't turn it on */}
+          {!user?.isDemo && <TwoFactor />}
+
+          {/* Sessions - demo sessions end when the demo expires */}
+          {!user?.isDemo && <Sessions />}
+
           {/* Danger Zone - hidden for demo users (auto-deleted) */}
           {!user?.isDemo && (
             <section className="pt-4 border-t border-white/10">
@@ -510,7 +1487,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               {isDangerZoneExpanded && (
                 <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 animate-fadeIn">
                   <p className="text-sm text-brand-text-dim mb-4">
-                    These actions are permanent and cannot be undone.
+                    Deleting your account is permanent. A wiped watchlist can be restored from Backups for a limited time.
                   </p>
                   <div className="flex flex-col gap-3">
                     <button
@@ -567,6 +1544,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         onCancel={() => setShowLogoutConfirm(false)}
       />
 
+      <MergeImportModal source={importSource} onClose={() => setImportSource(null)} />
+
       {/* Danger Confirmation Modal - Nested */}
       {showDangerConfirm && (
         <div
@@ -578,7 +1557,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               {dangerAction === "wipe" ? "Wipe Watchlist?" : "Delete Account?"}
             </h3>
             <p className="text-brand-text-dim text-sm mb-6">
-              This action cannot be undone. This will permanently delete your {dangerAction === "wipe" ? "entire watchlist history" : "account and all associated data"}.
+              {dangerAction === "wipe"
+                ? "This will delete your entire watchlist history. A backup is saved first, which you can restore from Settings until it expires."
+                : "This action cannot be undone. This will permanently delete your account and all associated data."}
             </p>
 
             <div className="mb-6">
@@ -0,0 +1,95 @@
+import React, { memo } from "react";
+import { FiCheck, FiImage } from "react-icons/fi";
+import { TMDB_IMAGE_BASE_URL_MOBILE } from "../../constants/constants";
+import { useWatchlistStore } from "../../store/useWatchlistStore";
+import { useUpNext } from "../../hooks/useUpNext";
+import { formatEpisodeCode, type UpNextEntry } from "../../utils/upNext";
+import type { Media, TVWatchlistItem } from "../../types/types";
+
+const UpNextCard: React.FC<{
+  entry: UpNextEntry;
+  onSelect: (media: Media, rect: DOMRect) => void;
+  onMarkWatched: (entry: UpNextEntry) => void;
+}> = ({ entry, onSelect, onMarkWatched }) => {
+  const { show, seasonNumber, episode } = entry;
+  const image = episode.still_path ?? show.backdrop_path;
+
+  return (
+    <div className="w-72 shrink-0 snap-start rounded-xl overflow-hidden bg-brand-surface/60 border border-white/10">
+      <button
+        type="button"
+        onClick={(e) => onSelect(show, e.currentTarget.getBoundingClientRect())}
+        className="block w-full text-left"
+      >
+        <div className="aspect-video bg-black/40 flex items-center justify-center">
+          {image ? (
+            <img
+              src={`${TMDB_IMAGE_BASE_URL_MOBILE}${image}`}
+              alt=""
+              loading="lazy"
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <FiImage className="w-8 h-8 text-brand-text-dim" />
+          )}
+        </div>
+        <div className="px-4 pt-3">
+          <p className="text-sm font-semibold text-white truncate">{show.name}</p>
+          <p className="text-sm text-brand-text-dim truncate">
+            {formatEpisodeCode(seasonNumber, episode.episode_number)} · {episode.name}
+          </p>
+        </div>
+      </button>
+      <div className="px-4 pb-4 pt-3">
+        <button
+          type="button"
+          onClick={() => onMarkWatched(entry)}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm rounded-lg bg-brand-primary/20 text-brand-primary hover:bg-brand-primary/30 transition-colors"
+        >
+          <FiCheck className="w-4 h-4" />
+          Mark watched
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const UpNext: React.FC<{
+  shows: TVWatchlistItem[];
+  onSelect: (media: Media, rect: DOMRect) => void;
+}> = memo(({ shows, onSelect }) => {
+  const { entries, isLoading } = useUpNext(shows);
+  const toggleEpisodeWatched = useWatchlistStore((state) => state.toggleEpisodeWatched);
+
+  // Nothing in progress: Currently Watching already says so
+  if (shows.length === 0) return null;
+
+  // The episode isn't watched yet, so toggling marks it; the list then moves on to the next one
+  const markWatched = ({ show, seasonNumber, episode }: UpNextEntry) =>
+    toggleEpisodeWatched(show.id, seasonNumber, episode.episode_number);
+
+  return (
+    <section>
+      <h2 className="text-3xl font-bold mb-6 text-brand-text-light">Up Next ⏭️</h2>
+      {isLoading ? (
+        <div className="flex gap-4 overflow-hidden">
+          {shows.slice(0, 4).map((show) => (
+            <div key={show.id} className="w-72 h-60 shrink-0 rounded-xl bg-brand-surface/50 animate-pulse" />
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-10 px-6 bg-brand-surface/50 rounded-lg">
+          <p className="text-brand-text-dim">You're all caught up. New episodes will show up here once they air.</p>
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto snap-x pb-2">
+          {entries.map((entry) => (
+            <UpNextCard key={entry.show.id} entry={entry} onSelect={onSelect} onMarkWatched={markWatched} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+});
+
+UpNext.displayName = "UpNext";
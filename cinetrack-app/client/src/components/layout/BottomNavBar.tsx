@@ -1,9 +1,10 @@
 import React from "react";
-import { FiCompass, FiList, FiHeart, FiBarChart2 } from "react-icons/fi";
+import { useAuthContext } from "../../contexts/AuthContext";
+import { FiCompass, FiList, FiCalendar, FiHeart, FiBarChart2, FiShield } from "react-icons/fi";
 
 interface BottomNavBarProps {
-  activeTab: "discover" | "lists" | "recommendations" | "stats";
-  onTabChange: (tab: "discover" | "lists" | "recommendations" | "stats") => void;
+  activeTab: "discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin";
+  onTabChange: (tab: "discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin") => void;
 }
 
 const NavItem: React.FC<{
@@ -29,6 +30,7 @@ export const BottomNavBar: React.FC<BottomNavBarProps> = ({
   activeTab,
   onTabChange,
 }) => {
+  const { user } = useAuthContext();
   const navItems = [
     {
       id: "discover",
@@ -40,6 +42,11 @@ export const BottomNavBar: React.FC<BottomNavBarProps> = ({
       label: "My List",
       icon: <FiList className="h-6 w-6 mb-1" />,
     },
+    {
+      id: "calendar",
+      label: "Calendar",
+      icon: <FiCalendar className="h-6 w-6 mb-1" />,
+    },
     {
       id: "recommendations",
       label: "For You",
@@ -50,6 +57,9 @@ export const BottomNavBar: React.FC<BottomNavBarProps> = ({
       label: "Stats",
       icon: <FiBarChart2 className="h-6 w-6 mb-1" />,
     },
+    ...(user?.role === "admin"
+      ? [{ id: "admin", label: "Admin", icon: <FiShield className="h-6 w-6 mb-1" /> } as const]
+      : []),
   ] as const;
 
   return (
@@ -1,9 +1,11 @@
 import React, { useState } from "react";
 import { useAuthContext } from "../../contexts/AuthContext";
+import { useNotificationStore } from "../../store/useNotificationStore";
 import { ConfirmModal } from "../common/ConfirmModal";
 import {
   FiCompass,
   FiList,
+  FiCalendar,
   FiHeart,
   FiBarChart2,
   FiSettings,
@@ -11,7 +13,8 @@ import {
   FiGithub,
   FiLogOut,
   FiLock,
-  FiUnlock
+  FiUnlock,
+  FiShield
 } from "react-icons/fi";
 
 interface NavItemProps {
@@ -55,8 +58,8 @@ const NavItem: React.FC<NavItemProps> = ({
 );
 
 interface SideNavBarProps {
-  activeTab: "discover" | "lists" | "recommendations" | "stats";
-  onTabChange: (tab: "discover" | "lists" | "recommendations" | "stats") => void;
+  activeTab: "discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin";
+  onTabChange: (tab: "discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin") => void;
   isCollapsed: boolean;
   onToggleCollapse: () => void;
   onOpenSettings: () => void;
@@ -74,6 +77,7 @@ export const SideNavBar: React.FC<SideNavBarProps> = ({
   const { user, logout } = useAuthContext();
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
+  const hasUnreadNotifications = useNotificationStore(state => state.unreadCount > 0);
 
   const isExpanded = !isCollapsed || isHovered;
 
@@ -88,6 +92,11 @@ export const SideNavBar: React.FC<SideNavBarProps> = ({
       label: "My List",
       icon: <FiList />,
     },
+    {
+      id: "calendar",
+      label: "Calendar",
+      icon: <FiCalendar />,
+    },
     {
       id: "recommendations",
       label: "For You",
@@ -98,6 +107,9 @@ export const SideNavBar: React.FC<SideNavBarProps> = ({
       label: "Stats",
       icon: <FiBarChart2 />,
     },
+    ...(user?.role === "admin"
+      ? [{ id: "admin", label: "Admin", icon: <FiShield /> }]
+      : []),
   ];
 
   return (
@@ -139,7 +151,7 @@ export const SideNavBar: React.FC<SideNavBarProps> = ({
                 icon={item.icon}
                 isActive={activeTab === item.id}
                 isCollapsed={!isExpanded}
-                onClick={() => onTabChange(item.id as "discover" | "lists" | "recommendations" | "stats")}
+                onClick={() => onTabChange(item.id as "discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin")}
               />
             ))}
           </ul>
@@ -162,7 +174,9 @@ export const SideNavBar: React.FC<SideNavBarProps> = ({
           >
             <FiBell className="w-5 h-5" />
             {isExpanded && <span className="ml-3 text-sm font-medium">Notifications</span>}
-            <span className={`absolute ${!isExpanded ? "top-2 right-2" : "top-2.5 left-6"} w-2 h-2 bg-brand-primary rounded-full`} />
+            {hasUnreadNotifications && (
+              <span className={`absolute ${!isExpanded ? "top-2 right-2" : "top-2.5 left-6"} w-2 h-2 bg-brand-primary rounded-full`} />
+            )}
           </button>
           <a
             href="https://github.com/Alameen1433"
@@ -5,13 +5,19 @@ import type {
   TVDetail,
   WatchlistItem,
   SeasonDetail,
+  StatusOverride,
   //Video,
   WatchProvider,
   WatchProviderCountry,
 } from "../../types/types";
 import { EpisodeTracker } from "../features/EpisodeTracker";
+import { StarRating } from "../common/StarRating";
+import { ListMembership } from "../features/CustomLists";
+import type { RatingChanges } from "../../store/useWatchlistStore";
 import { getWatchProviders, getBestLogo, getBestTrailer, combineRentBuyProviders } from "../../services/tmdbService";
-import { FiImage, FiArrowLeft, FiExternalLink, FiPlus, FiCheck, FiPlay, FiCheckCircle } from "react-icons/fi";
+import { getWatchHistory } from "../../services/dbService";
+import { summarizeWatchHistory, formatWatchSummary, watchKey, type WatchSummary } from "../../utils/watchHistory";
+import { FiImage, FiArrowLeft, FiExternalLink, FiPlus, FiCheck, FiPlay, FiCheckCircle, FiRepeat, FiPause, FiSlash } from "react-icons/fi";
 
 interface MediaDetailModalProps {
   media: MovieDetail | TVDetail;
@@ -36,6 +42,13 @@ interface MediaDetailModalProps {
     episodeNumbers: number[]
   ) => void;
   onUpdateTags: (mediaId: number, newTags: string[]) => void;
+  onLogRewatch: (
+    mediaId: number,
+    seasonNumber?: number,
+    episodeNumber?: number
+  ) => void;
+  onUpdateRating: (mediaId: number, changes: RatingChanges) => void;
+  onSetStatusOverride: (mediaId: number, override: Pick<StatusOverride, "status" | "reason"> | null) => void;
 }
 
 const DetailSection: React.FC<{ title: string; children: React.ReactNode }> = ({
@@ -144,6 +157,179 @@ const TagManager: React.FC<{
   );
 };
 
+const RatingSection: React.FC<{
+  rating: number | null | undefined;
+  review: string | null | undefined;
+  tmdbRating: number;
+  onRate: (rating: number | null) => void;
+  onSaveReview: (review: string | null) => void;
+}> = ({ rating, review, tmdbRating, onRate, onSaveReview }) => {
+  const [draft, setDraft] = useState(review ?? "");
+  const [isEditing, setIsEditing] = useState(false);
+
+  useEffect(() => {
+    setDraft(review ?? "");
+  }, [review]);
+
+  const handleSave = () => {
+    onSaveReview(draft.trim() || null);
+    setIsEditing(false);
+  };
+
+  return (
+    <DetailSection title="Your Rating">
+      <div className="flex items-center gap-3 flex-wrap">
+        <StarRating value={rating} onChange={onRate} label="Your rating" />
+        <span className="text-sm text-brand-text-dim">
+          {rating ? `${rating}/10` : "Not rated"}
+          {tmdbRating > 0 && ` · TMDB ${tmdbRating.toFixed(1)}`}
+        </span>
+      </div>
+      {isEditing ? (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={5000}
+            rows={4}
+            placeholder="What did you think?"
+            className="w-full bg-brand-surface/60 border border-white/10 rounded-lg p-3 text-sm text-white placeholder-brand-text-dim focus:outline-none focus:ring-2 focus:ring-brand-primary resize-y"
+          />
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => {
+                setDraft(review ?? "");
+                setIsEditing(false);
+              }}
+              className="py-1.5 px-3 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={draft.trim() === (review ?? "")}
+              className="py-1.5 px-3 text-sm font-semibold rounded-lg bg-brand-primary hover:bg-brand-secondary text-brand-bg transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : review ? (
+        <div className="mt-3">
+          <p className="text-sm text-brand-text-light whitespace-pre-line">{review}</p>
+          <button
+            onClick={() => setIsEditing(true)}
+            className="text-xs font-medium text-brand-primary hover:underline mt-1"
+          >
+            Edit review
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsEditing(true)}
+          className="text-xs font-medium text-brand-primary hover:underline mt-2"
+        >
+          Write a review
+        </button>
+      )}
+    </DetailSection>
+  );
+};
+
+const OVERRIDE_LABELS: Record<StatusOverride["status"], string> = {
+  on_hold: "On hold",
+  dropped: "Dropped",
+};
+
+const StatusOverrideSection: React.FC<{
+  override: StatusOverride | null | undefined;
+  onChange: (override: Pick<StatusOverride, "status" | "reason"> | null) => void;
+}> = ({ override, onChange }) => {
+  const [pending, setPending] = useState<StatusOverride["status"] | null>(null);
+  const [reason, setReason] = useState("");
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    onChange({ status: pending, reason: reason.trim() || null });
+    setPending(null);
+    setReason("");
+  };
+
+  return (
+    <DetailSection title="Status">
+      {override ? (
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="text-sm text-white">
+              {OVERRIDE_LABELS[override.status]} since {new Date(override.since).toLocaleDateString()}
+            </p>
+            {override.reason && (
+              <p className="text-sm text-brand-text-dim mt-1 whitespace-pre-line">{override.reason}</p>
+            )}
+          </div>
+          <button
+            onClick={() => onChange(null)}
+            className="shrink-0 py-1.5 px-3 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+          >
+            Resume
+          </button>
+        </div>
+      ) : pending ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleConfirm()}
+            maxLength={280}
+            autoFocus
+            placeholder="Why? (optional)"
+            className="w-full bg-brand-surface/60 border border-white/10 rounded-lg p-2 text-sm text-white placeholder-brand-text-dim focus:outline-none focus:ring-2 focus:ring-brand-primary"
+          />
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => {
+                setPending(null);
+                setReason("");
+              }}
+              className="py-1.5 px-3 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              className="py-1.5 px-3 text-sm font-semibold rounded-lg bg-brand-primary hover:bg-brand-secondary text-brand-bg transition-colors"
+            >
+              {pending === "dropped" ? "Drop" : "Put on hold"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setPending("on_hold")}
+            className="flex items-center gap-1.5 py-1.5 px-3 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+          >
+            <FiPause className="w-4 h-4" /> Put on hold
+          </button>
+          <button
+            onClick={() => setPending("dropped")}
+            className="flex items-center gap-1.5 py-1.5 px-3 text-sm rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+          >
+            <FiSlash className="w-4 h-4" /> Drop
+          </button>
+        </div>
+      )}
+    </DetailSection>
+  );
+};
+
+// Where a tracked show stands, when that's more than "on my list"
+const SHOW_STATUS_LABELS: Partial<Record<NonNullable<WatchlistItem["watchlistStatus"]>, string>> = {
+  caught_up: "Caught up · awaiting new episodes",
+  watched: "Completed",
+};
+
 export const MediaDetailModal: React.FC<MediaDetailModalProps> = ({
   media,
   watchlistIds,
@@ -156,6 +342,9 @@ export const MediaDetailModal: React.FC<MediaDetailModalProps> = ({
   //onSearch,
   onToggleSeasonWatched,
   onUpdateTags,
+  onLogRewatch,
+  onUpdateRating,
+  onSetStatusOverride,
 }) => {
   const isInWatchlist = watchlistIds.has(media.id);
   const title = media.media_type === "movie" ? media.title : media.name;
@@ -166,6 +355,7 @@ export const MediaDetailModal: React.FC<MediaDetailModalProps> = ({
 
   const [providers, setProviders] = useState<WatchProviderCountry | null>(null);
   const [isLoadingProviders, setIsLoadingProviders] = useState(true);
+  const [watchHistory, setWatchHistory] = useState<Map<string, WatchSummary>>(new Map());
 
   const logo = useMemo(() => {
     return getBestLogo(media.images?.logos);
@@ -198,6 +388,26 @@ export const MediaDetailModal: React.FC<MediaDetailModalProps> = ({
     fetchProviders();
   }, [media.id, media.media_type]);
 
+  // lastWatchedAt changes whenever a watch is recorded, so it doubles as a refetch signal
+  const lastWatchedAt = watchlistItem?.lastWatchedAt;
+  useEffect(() => {
+    if (!isInWatchlist) {
+      setWatchHistory(new Map());
+      return;
+    }
+    let cancelled = false;
+    getWatchHistory(media.id)
+      .then((events) => {
+        if (!cancelled) setWatchHistory(summarizeWatchHistory(events));
+      })
+      .catch((error) => console.error("Failed to fetch watch history", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [media.id, isInWatchlist, lastWatchedAt]);
+
+  const movieWatchSummary = watchHistory.get(watchKey());
+
   // Lock body scroll when modal is open
   useEffect(() => {
     const originalOverflow = document.body.style.overflow;
@@ -309,6 +519,11 @@ export const MediaDetailModal: React.FC<MediaDetailModalProps> = ({
                     IMDb
                   </span>
                 </div>
+                {watchlistItem?.media_type === "tv" && watchlistItem.watchlistStatus && SHOW_STATUS_LABELS[watchlistItem.watchlistStatus] && (
+                  <span className="bg-white/10 text-white text-xs font-medium px-2.5 py-1 rounded-full">
+                    {SHOW_STATUS_LABELS[watchlistItem.watchlistStatus]}
+                  </span>
+                )}
               </div>
 
               <DetailSection title="Genres">
@@ -400,6 +615,29 @@ export const MediaDetailModal: React.FC<MediaDetailModalProps> = ({
                 />
               )}
 
+              {isInWatchlist && watchlistItem && (
+                <RatingSection
+                  rating={watchlistItem.userRating}
+                  review={watchlistItem.review}
+                  tmdbRating={media.vote_average}
+                  onRate={(userRating) => onUpdateRating(media.id, { userRating })}
+                  onSaveReview={(review) => onUpdateRating(media.id, { review })}
+                />
+              )}
+
+              {isInWatchlist && watchlistItem && (
+                <StatusOverrideSection
+                  override={watchlistItem.statusOverride}
+                  onChange={(override) => onSetStatusOverride(media.id, override)}
+                />
+              )}
+
+              {isInWatchlist && watchlistItem && (
+                <DetailSection title="Lists">
+                  <ListMembership itemId={media.id} />
+                </DetailSection>
+              )}
+
               {/* Action Buttons */}
               <div className="flex flex-wrap gap-3 pt-4">
                 {/* Watchlist Toggle - Primary Action */}
@@ -449,7 +687,21 @@ export const MediaDetailModal: React.FC<MediaDetailModalProps> = ({
                     <span>{watchlistItem.watched ? "Watched" : "Mark Watched"}</span>
                   </button>
                 )}
+
+                {/* Log a rewatch (Movies only) */}
+                {media.media_type === "movie" && watchlistItem?.media_type === "movie" && watchlistItem.watched && (
+                  <button
+                    onClick={() => onLogRewatch(media.id)}
+                    className="flex-1 min-w-[140px] py-3 px-4 rounded-lg font-semibold transition-all flex items-center justify-center gap-2 bg-white/10 hover:bg-white/15 text-white border border-white/10"
+                  >
+                    <FiRepeat className="h-5 w-5" />
+                    <span>Watched Again</span>
+                  </button>
+                )}
               </div>
+              {media.media_type === "movie" && watchlistItem?.media_type === "movie" && watchlistItem.watched && movieWatchSummary && (
+                <p className="text-sm text-brand-text-dim mt-3">{formatWatchSummary(movieWatchSummary)}</p>
+              )}
             </div>
           </div>
           {media.media_type === "tv" && watchlistItem?.media_type === "tv" && (
@@ -460,6 +712,16 @@ export const MediaDetailModal: React.FC<MediaDetailModalProps> = ({
                 watchedEpisodes={watchlistItem.watchedEpisodes}
                 onToggleEpisode={onToggleEpisodeWatched}
                 onToggleSeasonWatched={onToggleSeasonWatched}
+                watchHistory={watchHistory}
+                onRewatchEpisode={onLogRewatch}
+                seasonRatings={watchlistItem.seasonRatings}
+                episodeRatings={watchlistItem.episodeRatings}
+                onRateSeason={(seasonNumber, rating) =>
+                  onUpdateRating(media.id, { seasonRating: { seasonNumber, rating } })
+                }
+                onRateEpisode={(seasonNumber, episodeNumber, rating) =>
+                  onUpdateRating(media.id, { episodeRating: { seasonNumber, episodeNumber, rating } })
+                }
               />
             </div>
           )}
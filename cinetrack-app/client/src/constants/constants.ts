@@ -1,3 +1,2 @@
-export const TMDB_API_BASE_URL = "https://api.themoviedb.org/3";
 export const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/w500";
 export const TMDB_IMAGE_BASE_URL_MOBILE = "https://image.tmdb.org/t/p/w342";
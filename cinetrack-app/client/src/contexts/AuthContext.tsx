@@ -7,6 +7,7 @@ import React, {
     useMemo,
     type ReactNode,
 } from "react";
+import { clearOfflineData } from "../services/localDb";
 
 // API requests use relative URLs - Vite proxy handles forwarding in dev
 const API_BASE_URL = '';
@@ -15,6 +16,9 @@ interface User {
     id: string;
     email: string;
     isDemo?: boolean;
+    role?: "user" | "admin";
+    emailVerified?: boolean;
+    twoFactorEnabled?: boolean;
 }
 
 interface AuthContextType {
@@ -24,62 +28,102 @@ interface AuthContextType {
     isLoading: boolean;
     error: string | null;
     login: (email: string, password: string) => Promise<boolean>;
+    /** Set after a correct password when the account also needs an authenticator code */
+    twoFactorPending: boolean;
+    verifyTwoFactor: (code: string) => Promise<boolean>;
+    cancelTwoFactor: () => void;
     register: (email: string, password: string, inviteCode: string) => Promise<boolean>;
-    logout: () => void;
+    logout: () => Promise<void>;
     clearError: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const TOKEN_KEY = "scenestack_token";
 const USER_KEY = "scenestack_user";
+// Long-lived tokens from before sessions existed; the server no longer accepts them
+const LEGACY_TOKEN_KEY = "scenestack_token";
+
+type SessionListener = (session: { token: string; user: User } | null) => void;
+
+// The access token only lives in memory. The refresh token is an httpOnly cookie the page can't read.
+let accessToken: string | null = null;
+let refreshPromise: Promise<string | null> | null = null;
+const sessionListeners = new Set<SessionListener>();
+
+const setSession = (session: { token: string; user: User } | null) => {
+    accessToken = session?.token ?? null;
+    if (session) {
+        localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+    } else {
+        localStorage.removeItem(USER_KEY);
+    }
+    sessionListeners.forEach((listener) => listener(session));
+};
+
+/**
+ * Gets a new access token with the refresh cookie. Concurrent callers share one request,
+ * since the server rotates the cookie on every refresh. Resolves to null (and ends the
+ * session) when the server no longer recognises it; rejects when the server can't be reached.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const refreshAccessToken = (): Promise<string | null> => {
+    refreshPromise ??= (async () => {
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, { method: "POST" });
+            if (response.status === 401) {
+                setSession(null);
+                return null;
+            }
+            if (!response.ok) return null;
+            const data = await response.json();
+            setSession(data);
+            return data.token as string;
+        } finally {
+            refreshPromise = null;
+        }
+    })();
+    return refreshPromise;
+};
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [user, setUser] = useState<User | null>(() => {
         const saved = localStorage.getItem(USER_KEY);
         return saved ? JSON.parse(saved) : null;
     });
-    const [token, setToken] = useState<string | null>(() => {
-        return localStorage.getItem(TOKEN_KEY);
-    });
+    const [token, setToken] = useState<string | null>(accessToken);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
 
-    const isAuthenticated = !!token && !!user;
+    // Offline, the saved user keeps the app usable until the session can be checked
+    const isAuthenticated = !!user;
 
-    // Verify token on mount
     useEffect(() => {
-        const verifyToken = async () => {
-            const savedToken = localStorage.getItem(TOKEN_KEY);
-            if (!savedToken) {
-                setIsLoading(false);
-                return;
-            }
-
-            try {
-                const response = await fetch(`${API_BASE_URL}/api/auth/me`, {
-                    headers: { Authorization: `Bearer ${savedToken}` },
-                });
-
-                if (response.ok) {
-                    const data = await response.json();
-                    setUser(data.user);
-                    setToken(savedToken);
-                } else {
-                    // Token invalid, clear storage
-                    localStorage.removeItem(TOKEN_KEY);
-                    localStorage.removeItem(USER_KEY);
-                    setUser(null);
-                    setToken(null);
-                }
-            } catch (err) {
-                console.error("Token verification failed:", err);
-            } finally {
-                setIsLoading(false);
+        const listener: SessionListener = (session) => {
+            setToken(session?.token ?? null);
+            setUser(session?.user ?? null);
+            // Logged out here or on another device
+            if (!session) {
+                clearOfflineData().catch((err) => console.error("Failed to clear offline data", err));
             }
         };
+        sessionListeners.add(listener);
+        return () => {
+            sessionListeners.delete(listener);
+        };
+    }, []);
 
-        verifyToken();
+    // Resume the session on mount
+    useEffect(() => {
+        localStorage.removeItem(LEGACY_TOKEN_KEY);
+        if (!localStorage.getItem(USER_KEY)) {
+            setIsLoading(false);
+            return;
+        }
+
+        refreshAccessToken()
+            .catch((err) => console.error("Session check failed:", err))
+            .finally(() => setIsLoading(false));
     }, []);
 
     const login = useCallback(async (email: string, password: string): Promise<boolean> => {
@@ -95,11 +139,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
             const data = await response.json();
 
-            if (response.ok) {
-                localStorage.setItem(TOKEN_KEY, data.token);
-                localStorage.setItem(USER_KEY, JSON.stringify(data.user));
-                setToken(data.token);
-                setUser(data.user);
+            if (response.ok && data.twoFactorRequired) {
+                setTwoFactorChallenge(data.challenge);
+                return false;
+            } else if (response.ok) {
+                setSession(data);
                 return true;
             } else {
                 setError(data.message || "Login failed");
@@ -113,6 +157,39 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
     }, []);
 
+    const verifyTwoFactor = useCallback(async (code: string): Promise<boolean> => {
+        setError(null);
+
+        try {
+            const response = await fetch(`${API_BASE_URL}/api/auth/login/2fa`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ challenge: twoFactorChallenge, code }),
+            });
+
+            const data = await response.json();
+
+            if (response.ok) {
+                setTwoFactorChallenge(null);
+                setSession(data);
+                return true;
+            } else {
+                // Locked out after too many wrong codes; the challenge is gone too
+                if (response.status === 429) setTwoFactorChallenge(null);
+                setError(data.message || "Verification failed");
+                return false;
+            }
+        } catch {
+            setError("Network error. Please try again.");
+            return false;
+        }
+    }, [twoFactorChallenge]);
+
+    const cancelTwoFactor = useCallback(() => {
+        setTwoFactorChallenge(null);
+        setError(null);
+    }, []);
+
     const register = useCallback(
         async (email: string, password: string, inviteCode: string): Promise<boolean> => {
             setError(null);
@@ -128,10 +205,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 const data = await response.json();
 
                 if (response.ok) {
-                    localStorage.setItem(TOKEN_KEY, data.token);
-                    localStorage.setItem(USER_KEY, JSON.stringify(data.user));
-                    setToken(data.token);
-                    setUser(data.user);
+                    setSession(data);
                     return true;
                 } else {
                     setError(data.message || "Registration failed");
@@ -147,11 +221,12 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         []
     );
 
-    const logout = useCallback(() => {
-        localStorage.removeItem(TOKEN_KEY);
-        localStorage.removeItem(USER_KEY);
-        setToken(null);
-        setUser(null);
+    const logout = useCallback(async () => {
+        // Ends the session on the server too; if that fails it still expires on its own
+        await fetch(`${API_BASE_URL}/api/auth/logout`, { method: "POST" }).catch((err) =>
+            console.error("Failed to end session on the server", err)
+        );
+        setSession(null);
     }, []);
 
     const clearError = useCallback(() => {
@@ -166,11 +241,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             isLoading,
             error,
             login,
+            twoFactorPending: twoFactorChallenge !== null,
+            verifyTwoFactor,
+            cancelTwoFactor,
             register,
             logout,
             clearError,
         }),
-        [user, token, isAuthenticated, isLoading, error, login, register, logout, clearError]
+        [user, token, isAuthenticated, isLoading, error, login, twoFactorChallenge, verifyTwoFactor, cancelTwoFactor, register, logout, clearError]
     );
 
     return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -187,5 +265,5 @@ export const useAuthContext = (): AuthContextType => {
 
 // eslint-disable-next-line react-refresh/only-export-components
 export const getAuthToken = (): string | null => {
-    return localStorage.getItem(TOKEN_KEY);
+    return accessToken;
 };
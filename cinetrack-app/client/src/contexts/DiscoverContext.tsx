@@ -6,11 +6,7 @@ import React, {
     useMemo,
     type ReactNode,
 } from "react";
-import {
-    getTrendingMedia,
-    getPopularMovies,
-    getPopularTVShows,
-} from "../services/tmdbService";
+import { getDiscover } from "../services/tmdbService";
 import type { SearchResult } from "../types/types";
 
 interface DiscoverContextType {
@@ -39,15 +35,10 @@ export const DiscoverProvider: React.FC<{ children: ReactNode }> = ({
             setIsLoading(true);
             setError(null);
             try {
-                const [trendingResults, popularMoviesResults, popularTVResults] =
-                    await Promise.all([
-                        getTrendingMedia(),
-                        getPopularMovies(),
-                        getPopularTVShows(),
-                    ]);
-                setTrending(trendingResults.filter((r) => r.poster_path));
-                setPopularMovies(popularMoviesResults.filter((r) => r.poster_path));
-                setPopularTV(popularTVResults.filter((r) => r.poster_path));
+                const discover = await getDiscover();
+                setTrending(discover.trending.filter((r) => r.poster_path));
+                setPopularMovies(discover.popularMovies.filter((r) => r.poster_path));
+                setPopularTV(discover.popularTV.filter((r) => r.poster_path));
             } catch (err) {
                 setError("Failed to fetch discover content. Please try again later.");
                 console.error(err);
@@ -12,8 +12,8 @@ import type { SearchResult, MovieDetail, TVDetail, Media } from "../types/types"
 import type { WatchlistStatus } from "../services/dbService";
 
 interface UIContextType {
-    activeTab: "discover" | "lists" | "recommendations" | "stats";
-    setActiveTab: (tab: "discover" | "lists" | "recommendations" | "stats") => void;
+    activeTab: "discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin";
+    setActiveTab: (tab: "discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin") => void;
 
     searchResults: SearchResult[];
     isSearchLoading: boolean;
@@ -46,7 +46,7 @@ interface UIContextType {
 const UIContext = createContext<UIContextType | undefined>(undefined);
 
 export const UIProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-    const [activeTab, setActiveTab] = useState<"discover" | "lists" | "recommendations" | "stats">("discover");
+    const [activeTab, setActiveTab] = useState<"discover" | "lists" | "calendar" | "recommendations" | "stats" | "admin">("discover");
 
 
     const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
@@ -19,6 +19,8 @@ import {
     getProgressMap,
     getFilteredItems,
 } from "../store/useWatchlistStore";
+import { useNotificationStore } from "../store/useNotificationStore";
+import { useListsStore } from "../store/useListsStore";
 
 interface WatchlistContextType {
     watchlist: WatchlistItem[];
@@ -69,6 +71,8 @@ export const WatchlistProvider: React.FC<{ children: ReactNode }> = ({
     const setError = useWatchlistStore(state => state.setError);
     const setActiveTagFilter = useWatchlistStore(state => state.setActiveTagFilter);
     const loadWatchlist = useWatchlistStore(state => state.loadWatchlist);
+    const resetWatchlist = useWatchlistStore(state => state.reset);
+    const flushMutations = useWatchlistStore(state => state.flushMutations);
     const toggleWatchlist = useWatchlistStore(state => state.toggleWatchlist);
     const toggleWatchlistFromSearchResult = useWatchlistStore(state => state.toggleWatchlistFromSearchResult);
     const toggleMovieWatched = useWatchlistStore(state => state.toggleMovieWatched);
@@ -79,6 +83,15 @@ export const WatchlistProvider: React.FC<{ children: ReactNode }> = ({
     const storeImportWatchlist = useWatchlistStore(state => state.importWatchlist);
     const syncItem = useWatchlistStore(state => state.syncItem);
     const deleteItem = useWatchlistStore(state => state.deleteItem);
+    const loadNotifications = useNotificationStore(state => state.loadNotifications);
+    const receiveNotification = useNotificationStore(state => state.receiveNotification);
+    const applyNotificationRead = useNotificationStore(state => state.applyRead);
+    const applyNotificationDismiss = useNotificationStore(state => state.applyDismiss);
+    const loadLists = useListsStore(state => state.loadLists);
+    const resetLists = useListsStore(state => state.reset);
+    const applyList = useListsStore(state => state.applyList);
+    const applyListDelete = useListsStore(state => state.applyListDelete);
+    const removeItemFromLists = useListsStore(state => state.removeItemEverywhere);
 
     // Derived state locally memoized to ensure stability and prevent loops
     const watchlistIds = useMemo(
@@ -163,8 +176,10 @@ export const WatchlistProvider: React.FC<{ children: ReactNode }> = ({
 
         return () => {
             socketService.disconnect();
+            // Provider unmounts on logout; don't leave this user's list in memory
+            resetWatchlist();
         };
-    }, [loadWatchlist]);
+    }, [loadWatchlist, resetWatchlist]);
 
     // Socket listeners
     useEffect(() => {
@@ -172,6 +187,10 @@ export const WatchlistProvider: React.FC<{ children: ReactNode }> = ({
             syncItem(item);
         });
 
+        const unsubDelta = socketService.onDelta((delta) => {
+            syncItem(delta);
+        });
+
         const unsubDelete = socketService.onDelete(({ id }) => {
             deleteItem(id);
         });
@@ -181,18 +200,71 @@ export const WatchlistProvider: React.FC<{ children: ReactNode }> = ({
             loadWatchlist();
         });
 
+        // Back online: replay anything queued while offline, then catch up on what we missed
+        const unsubReconnect = socketService.onReconnect(async () => {
+            await flushMutations();
+            loadWatchlist();
+        });
+
+        return () => {
+            unsubUpdate();
+            unsubDelta();
+            unsubDelete();
+            unsubSync();
+            unsubReconnect();
+        };
+    }, [syncItem, deleteItem, loadWatchlist, flushMutations]);
+
+    // Notifications share the watchlist socket connection
+    useEffect(() => {
+        loadNotifications();
+
+        const unsubNew = socketService.onNotification(receiveNotification);
+        const unsubRead = socketService.onNotificationRead(applyNotificationRead);
+        const unsubDismiss = socketService.onNotificationDismiss(({ id }) => {
+            applyNotificationDismiss(id);
+        });
+
+        return () => {
+            unsubNew();
+            unsubRead();
+            unsubDismiss();
+        };
+    }, [loadNotifications, receiveNotification, applyNotificationRead, applyNotificationDismiss]);
+
+    // Custom lists reference watchlist items, so they follow watchlist deletes and full reloads
+    useEffect(() => {
+        loadLists();
+
+        const unsubUpdate = socketService.onListUpdate(applyList);
+        const unsubDelete = socketService.onListDelete(({ id }) => {
+            applyListDelete(id);
+        });
+        const unsubItemDelete = socketService.onDelete(({ id }) => {
+            removeItemFromLists(id);
+        });
+        const unsubSync = socketService.onSync(() => {
+            loadLists();
+        });
+        const unsubReconnect = socketService.onReconnect(() => {
+            loadLists();
+        });
+
         return () => {
             unsubUpdate();
             unsubDelete();
+            unsubItemDelete();
             unsubSync();
+            unsubReconnect();
+            resetLists();
         };
-    }, [syncItem, deleteItem, loadWatchlist]);
+    }, [loadLists, resetLists, applyList, applyListDelete, removeItemFromLists]);
 
     // Adapter for importWatchlist to match Context signature
     const handleImportWatchlist = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (file) {
-            if (window.confirm("Are you sure you want to overwrite your current watchlist? This action cannot be undone.")) {
+            if (window.confirm("Are you sure you want to overwrite your current watchlist? A backup of it is saved first, and you can restore it from Settings.")) {
                 storeImportWatchlist(file);
             }
         }
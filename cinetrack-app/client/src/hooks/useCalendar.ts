@@ -0,0 +1,68 @@
+import { useEffect, useMemo, useState } from "react";
+import { getTVDetails, getTVSeasonDetails } from "../services/tmdbService";
+import { getMovieEvents, getShowEvents, isTrackableShow, toDateKey, type CalendarEvent } from "../utils/calendar";
+import type { TVWatchlistItem, WatchlistItem } from "../types/types";
+
+// Shows are looked up a few at a time so a long watchlist doesn't flood the proxy
+const CONCURRENCY = 4;
+
+interface UseCalendarReturn {
+    events: CalendarEvent[];
+    isLoading: boolean;
+    failedCount: number;
+}
+
+/**
+ * Upcoming episodes of tracked shows and releases of watchlisted movies, from today onwards.
+ * Episodes come from TMDB through the cached proxy; movies use the release date already stored.
+ */
+export const useCalendar = (watchlist: WatchlistItem[]): UseCalendarReturn => {
+    const today = toDateKey(new Date());
+    const shows = useMemo(() => watchlist.filter(isTrackableShow), [watchlist]);
+    const showKey = shows.map((show) => show.id).sort((a, b) => a - b).join(",");
+
+    // Only refetch when the set of shows changes, not on every progress update
+    const [tracked, setTracked] = useState({ key: showKey, shows });
+    if (tracked.key !== showKey) {
+        setTracked({ key: showKey, shows });
+    }
+
+    const [showEvents, setShowEvents] = useState<{ key: string; events: CalendarEvent[]; failedCount: number } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const pending: TVWatchlistItem[] = [...tracked.shows];
+        const events: CalendarEvent[] = [];
+        let failedCount = 0;
+
+        const worker = async () => {
+            for (let show = pending.shift(); show; show = pending.shift()) {
+                try {
+                    const details = await getTVDetails(show.id);
+                    events.push(...(await getShowEvents(show, details, getTVSeasonDetails, today)));
+                } catch (err) {
+                    failedCount++;
+                    console.error(`Failed to load the schedule for ${show.name}:`, err);
+                }
+            }
+        };
+
+        Promise.all(Array.from({ length: CONCURRENCY }, worker)).then(() => {
+            if (!cancelled) setShowEvents({ key: tracked.key, events, failedCount });
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [tracked, today]);
+
+    const events = useMemo(
+        () => [...getMovieEvents(watchlist, today), ...(showEvents?.events ?? [])],
+        [watchlist, today, showEvents]
+    );
+
+    return {
+        events,
+        isLoading: showEvents?.key !== showKey,
+        failedCount: showEvents?.failedCount ?? 0,
+    };
+};
@@ -0,0 +1,24 @@
+import { useEffect } from "react";
+import { useWatchlistStore } from "../store/useWatchlistStore";
+import type { WatchlistStatus } from "../services/dbService";
+
+/**
+ * Loads every item with the given statuses into the store, for views that need the whole set
+ * rather than the first page the lists start with. Runs again after a reload resets the pages.
+ */
+export const useFullStatuses = (statuses: WatchlistStatus[]): void => {
+    const loadAllByStatus = useWatchlistStore(state => state.loadAllByStatus);
+    // A string, so the selector result is stable; page 0 means the first load hasn't finished
+    const incomplete = useWatchlistStore(state =>
+        statuses
+            .filter(status => state.paginationState[status].hasMore && state.paginationState[status].page > 0)
+            .join(",")
+    );
+
+    useEffect(() => {
+        if (!incomplete) return;
+        for (const status of incomplete.split(",")) {
+            loadAllByStatus(status as WatchlistStatus);
+        }
+    }, [incomplete, loadAllByStatus]);
+};
@@ -30,8 +30,9 @@ export const useRecommendations = (
         setError(null);
 
         try {
-            // Pick up to 3 random items from watchlist as seeds
-            const shuffled = [...watchlist].sort(() => 0.5 - Math.random());
+            // Pick up to 3 random items from watchlist as seeds, skipping ones the user dropped
+            const seedPool = watchlist.filter((item) => item.watchlistStatus !== "dropped");
+            const shuffled = [...seedPool].sort(() => 0.5 - Math.random());
             const seedItems = shuffled.slice(0, 3);
 
             const recPromises = seedItems.map((item) =>
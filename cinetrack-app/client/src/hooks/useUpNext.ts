@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { getTVSeasonDetails } from "../services/tmdbService";
+import { compareByLastWatched, findNextEpisode, type UpNextEntry } from "../utils/upNext";
+import type { SeasonDetail, TVWatchlistItem } from "../types/types";
+
+// Season details are shared across renders so marking an episode watched recomputes without refetching
+const seasonCache = new Map<string, Promise<SeasonDetail>>();
+
+const getSeason = (tvId: number, seasonNumber: number): Promise<SeasonDetail> => {
+    const key = `${tvId}:${seasonNumber}`;
+    let season = seasonCache.get(key);
+    if (!season) {
+        season = getTVSeasonDetails(tvId, seasonNumber);
+        season.catch(() => seasonCache.delete(key));
+        seasonCache.set(key, season);
+    }
+    return season;
+};
+
+interface UseUpNextReturn {
+    entries: UpNextEntry[];
+    isLoading: boolean;
+}
+
+/**
+ * The next episode to watch for each in-progress show, most recently watched first.
+ */
+export const useUpNext = (shows: TVWatchlistItem[]): UseUpNextReturn => {
+    const [entries, setEntries] = useState<UpNextEntry[] | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all(
+            shows.map((show) =>
+                findNextEpisode(show, getSeason).catch((err) => {
+                    console.error(`Failed to find the next episode of ${show.name}:`, err);
+                    return null;
+                })
+            )
+        ).then((results) => {
+            if (cancelled) return;
+            setEntries(
+                results.filter((entry): entry is UpNextEntry => entry !== null).sort(compareByLastWatched)
+            );
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [shows]);
+
+    return { entries: entries ?? [], isLoading: entries === null };
+};
@@ -0,0 +1,451 @@
+import React, { memo, useCallback, useEffect, useState } from "react";
+import { useAuthContext } from "../contexts/AuthContext";
+import { ConfirmModal } from "../components/common/ConfirmModal";
+import {
+    getAdminStats,
+    getAdminUsers,
+    setUserRole,
+    cleanupDemoUsers,
+    purgeCache,
+    getAdminInvites,
+    createAdminInvite,
+    revokeAdminInvite,
+} from "../services/dbService";
+import type { AdminStats, AdminUser, AdminInvite, CacheScope } from "../types/types";
+import { FiUsers, FiDatabase, FiServer, FiClock, FiLoader, FiTrash2, FiSearch, FiUserPlus, FiChevronDown, FiChevronRight } from "react-icons/fi";
+
+const formatBytes = (bytes: number) => {
+    if (bytes === 0) return "0 B";
+    const k = 1024;
+    const sizes = ["B", "KB", "MB", "GB"];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+const Panel: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="bg-white/5 backdrop-blur-xl rounded-2xl p-5 border border-white/10">
+        <h2 className="text-sm uppercase tracking-wider text-brand-text-dim font-medium mb-4">{title}</h2>
+        {children}
+    </section>
+);
+
+const StatTile: React.FC<{ label: string; value: string | number; detail?: string; icon: React.ReactNode }> = ({
+    label,
+    value,
+    detail,
+    icon,
+}) => (
+    <div className="flex items-center gap-3 bg-white/5 rounded-xl p-4 border border-white/10">
+        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-brand-primary/20 to-brand-secondary/20 flex items-center justify-center text-brand-primary">
+            {icon}
+        </div>
+        <div className="min-w-0">
+            <p className="text-lg font-semibold text-white">{value}</p>
+            <p className="text-xs text-brand-text-dim truncate">{label}</p>
+            {detail && <p className="text-xs text-brand-text-dim/70 truncate">{detail}</p>}
+        </div>
+    </div>
+);
+
+const buttonClass =
+    "py-2 px-4 rounded-lg text-sm font-medium transition-colors bg-white/10 hover:bg-white/20 text-white disabled:opacity-50 flex items-center justify-center gap-2";
+
+// Users
+
+const UsersPanel: React.FC = () => {
+    const { user: currentUser } = useAuthContext();
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [hasMore, setHasMore] = useState(false);
+    const [search, setSearch] = useState("");
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = useCallback(async (nextPage: number, query: string) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const data = await getAdminUsers(nextPage, query);
+            setUsers((prev) => (nextPage === 1 ? data.users : [...prev, ...data.users]));
+            setTotal(data.total);
+            setPage(data.page);
+            setHasMore(data.hasMore);
+        } catch (err) {
+            setError(errorMessage(err, "Unable to load users"));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Debounce typing in the search box
+    useEffect(() => {
+        const timer = setTimeout(() => load(1, search.trim()), 300);
+        return () => clearTimeout(timer);
+    }, [search, load]);
+
+    const toggleRole = async (target: AdminUser) => {
+        const role = target.role === "admin" ? "user" : "admin";
+        setError(null);
+        try {
+            await setUserRole(target.id, role);
+            setUsers((prev) => prev.map((u) => (u.id === target.id ? { ...u, role } : u)));
+        } catch (err) {
+            setError(errorMessage(err, "Failed to change role"));
+        }
+    };
+
+    return (
+        <Panel title={`Users (${total})`}>
+            <div className="relative mb-4">
+                <FiSearch className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-brand-text-dim" />
+                <input
+                    type="search"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search by email"
+                    className="w-full pl-9 pr-3 py-2 bg-black/30 border border-white/10 rounded-lg text-sm text-white placeholder:text-brand-text-dim focus:outline-none focus:border-brand-primary/50"
+                />
+            </div>
+            {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+            <div className="space-y-2">
+                {users.map((u) => (
+                    <div key={u.id} className="flex items-center gap-3 bg-black/30 rounded-xl p-3">
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm text-white truncate">
+                                {u.email}
+                                {u.role === "admin" && (
+                                    <span className="ml-2 text-xs text-brand-primary">Admin</span>
+                                )}
+                                {!u.emailVerified && (
+                                    <span className="ml-2 text-xs text-amber-400">Unverified</span>
+                                )}
+                            </p>
+                            <p className="text-xs text-brand-text-dim">
+                                {u.itemCount} titles · joined {new Date(u.createdAt).toLocaleDateString()}
+                            </p>
+                        </div>
+                        {u.id !== currentUser?.id && (
+                            <button onClick={() => toggleRole(u)} className="py-1.5 px-3 rounded-lg text-xs font-medium transition-colors bg-white/10 hover:bg-white/20 text-white">
+                                {u.role === "admin" ? "Remove admin" : "Make admin"}
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {!isLoading && users.length === 0 && (
+                    <p className="text-xs text-brand-text-dim">No users found.</p>
+                )}
+            </div>
+            {isLoading ? (
+                <div className="flex items-center justify-center py-4">
+                    <FiLoader className="animate-spin h-5 w-5 text-brand-primary" />
+                </div>
+            ) : hasMore && (
+                <button onClick={() => load(page + 1, search.trim())} className={`${buttonClass} w-full mt-3`}>
+                    Load more
+                </button>
+            )}
+        </Panel>
+    );
+};
+
+// Maintenance: demo accounts and the cache
+
+const CACHE_SCOPES: { scope: CacheScope; label: string }[] = [
+    { scope: "metadata", label: "Metadata" },
+    { scope: "recommendations", label: "Recommendations" },
+    { scope: "calendar", label: "Calendar feeds" },
+    { scope: "all", label: "Everything" },
+];
+
+const MaintenancePanel: React.FC<{ stats: AdminStats; onChange: () => void }> = ({ stats, onChange }) => {
+    const [busy, setBusy] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [confirm, setConfirm] = useState<"demo-all" | "cache-all" | null>(null);
+
+    const run = async (key: string, action: () => Promise<string>) => {
+        setBusy(key);
+        setError(null);
+        setMessage(null);
+        try {
+            setMessage(await action());
+            onChange();
+        } catch (err) {
+            setError(errorMessage(err, "Something went wrong"));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleCleanup = (all: boolean) =>
+        run(all ? "demo-all" : "demo", async () => {
+            const removed = await cleanupDemoUsers(all);
+            return `Removed ${removed.users} demo ${removed.users === 1 ? "account" : "accounts"} and ${removed.items} titles.`;
+        });
+
+    const handlePurge = (scope: CacheScope) =>
+        run(`cache-${scope}`, async () => {
+            const deleted = await purgeCache(scope);
+            return `Purged ${deleted} cache ${deleted === 1 ? "key" : "keys"}.`;
+        });
+
+    return (
+        <Panel title="Maintenance">
+            {message && <p className="text-sm text-green-400 mb-3">{message}</p>}
+            {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+            <h3 className="text-sm font-semibold text-white mb-1">Demo accounts</h3>
+            <p className="text-xs text-brand-text-dim mb-3">
+                {stats.demoUsers.total} active, {stats.demoUsers.expired} past their expiry and waiting for cleanup.
+            </p>
+            <div className="flex flex-wrap gap-2 mb-6">
+                <button onClick={() => handleCleanup(false)} disabled={busy !== null} className={buttonClass}>
+                    {busy === "demo" && <FiLoader className="h-4 w-4 animate-spin" />}
+                    Remove expired
+                </button>
+                <button onClick={() => setConfirm("demo-all")} disabled={busy !== null} className={buttonClass}>
+                    {busy === "demo-all" && <FiLoader className="h-4 w-4 animate-spin" />}
+                    Remove all demo accounts
+                </button>
+            </div>
+
+            <h3 className="text-sm font-semibold text-white mb-1">Cache</h3>
+            <p className="text-xs text-brand-text-dim mb-3">
+                {stats.cache.connected
+                    ? `${stats.cache.keys} keys${stats.cache.usedMemory ? `, ${stats.cache.usedMemory} used` : ""}.`
+                    : "Redis is not connected."}
+            </p>
+            <div className="flex flex-wrap gap-2">
+                {CACHE_SCOPES.map(({ scope, label }) => (
+                    <button
+                        key={scope}
+                        onClick={() => (scope === "all" ? setConfirm("cache-all") : handlePurge(scope))}
+                        disabled={busy !== null || !stats.cache.connected}
+                        className={buttonClass}
+                    >
+                        {busy === `cache-${scope}` && <FiLoader className="h-4 w-4 animate-spin" />}
+                        Purge {label.toLowerCase()}
+                    </button>
+                ))}
+            </div>
+
+            <ConfirmModal
+                isOpen={confirm !== null}
+                title={confirm === "demo-all" ? "Remove every demo account?" : "Purge the whole cache?"}
+                message={
+                    confirm === "demo-all"
+                        ? "Anyone trying the demo right now is logged out and loses what they added."
+                        : "Everything is fetched from the metadata provider again, which is slow until the cache warms up."
+                }
+                confirmText={confirm === "demo-all" ? "Remove All" : "Purge"}
+                confirmStyle="danger"
+                onConfirm={() => {
+                    const action = confirm;
+                    setConfirm(null);
+                    if (action === "demo-all") handleCleanup(true);
+                    else handlePurge("all");
+                }}
+                onCancel={() => setConfirm(null)}
+            />
+        </Panel>
+    );
+};
+
+// Invites
+
+const INVITE_STATUS_LABELS: Record<AdminInvite["status"], string> = {
+    active: "Active",
+    used_up: "Used up",
+    expired: "Expired",
+    revoked: "Revoked",
+};
+
+const InvitesPanel: React.FC = () => {
+    const [invites, setInvites] = useState<AdminInvite[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+    const [code, setCode] = useState("");
+    const [maxUses, setMaxUses] = useState("1");
+    const [expiresInDays, setExpiresInDays] = useState("");
+    const [note, setNote] = useState("");
+
+    useEffect(() => {
+        getAdminInvites()
+            .then(setInvites)
+            .catch((err) => setError(errorMessage(err, "Unable to load invites")))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsCreating(true);
+        try {
+            const invite = await createAdminInvite({
+                code: code.trim() || undefined,
+                // Blank means no limit
+                maxUses: maxUses.trim() ? parseInt(maxUses, 10) : null,
+                expiresInDays: expiresInDays.trim() ? parseInt(expiresInDays, 10) : null,
+                note: note.trim() || undefined,
+            });
+            setInvites((prev) => [invite, ...prev]);
+            setCode("");
+            setNote("");
+        } catch (err) {
+            setError(errorMessage(err, "Failed to create invite"));
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleRevoke = async (id: string) => {
+        setError(null);
+        try {
+            await revokeAdminInvite(id);
+            setInvites((prev) =>
+                prev.map((invite) =>
+                    invite._id === id ? { ...invite, status: "revoked", revokedAt: new Date().toISOString() } : invite
+                )
+            );
+        } catch (err) {
+            setError(errorMessage(err, "Failed to revoke invite"));
+        }
+    };
+
+    const inputClass =
+        "w-full px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-sm text-white placeholder:text-brand-text-dim focus:outline-none focus:border-brand-primary/50";
+
+    return (
+        <Panel title="Invites">
+            <form onSubmit={handleCreate} className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4">
+                <input value={code} onChange={(e) => setCode(e.target.value)} placeholder="Code (random)" className={inputClass} aria-label="Code" />
+                <input value={maxUses} onChange={(e) => setMaxUses(e.target.value)} type="number" min={1} placeholder="Uses (unlimited)" className={inputClass} aria-label="Max uses" />
+                <input value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)} type="number" min={1} placeholder="Days (never expires)" className={inputClass} aria-label="Expires in days" />
+                <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note" className={inputClass} aria-label="Note" />
+                <button type="submit" disabled={isCreating} className={`${buttonClass} col-span-2 md:col-span-1`}>
+                    {isCreating ? <FiLoader className="h-4 w-4 animate-spin" /> : <FiUserPlus className="h-4 w-4" />}
+                    Mint
+                </button>
+            </form>
+            {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+            {isLoading ? (
+                <div className="flex items-center justify-center py-4">
+                    <FiLoader className="animate-spin h-5 w-5 text-brand-primary" />
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {invites.map((invite) => (
+                        <div key={invite._id} className="bg-black/30 rounded-xl p-3">
+                            <div className="flex items-center gap-3">
+                                <button
+                                    onClick={() => setExpandedId(expandedId === invite._id ? null : invite._id)}
+                                    className="text-brand-text-dim hover:text-white transition-colors disabled:opacity-30"
+                                    disabled={invite.redemptions.length === 0}
+                                    aria-label={`Show who used ${invite.code}`}
+                                >
+                                    {expandedId === invite._id ? <FiChevronDown className="h-4 w-4" /> : <FiChevronRight className="h-4 w-4" />}
+                                </button>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-mono text-white truncate">
+                                        {invite.code}
+                                        {invite.note && <span className="ml-2 font-sans text-xs text-brand-text-dim">{invite.note}</span>}
+                                    </p>
+                                    <p className="text-xs text-brand-text-dim">
+                                        {INVITE_STATUS_LABELS[invite.status]} · {invite.uses}/{invite.maxUses ?? "∞"} used
+                                        {invite.expiresAt && ` · expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                                        {invite.createdBy === null && " · from INVITE_CODES"}
+                                    </p>
+                                </div>
+                                {invite.status !== "revoked" && (
+                                    <button
+                                        onClick={() => handleRevoke(invite._id)}
+                                        className="p-1.5 rounded-lg text-brand-text-dim hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                                        aria-label={`Revoke invite ${invite.code}`}
+                                    >
+                                        <FiTrash2 className="h-4 w-4" />
+                                    </button>
+                                )}
+                            </div>
+                            {expandedId === invite._id && (
+                                <ul className="mt-2 ml-7 space-y-1">
+                                    {invite.redemptions.map((redemption) => (
+                                        <li key={redemption.userId} className="text-xs text-brand-text-dim">
+                                            {redemption.email} · {new Date(redemption.redeemedAt).toLocaleString()}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    ))}
+                    {invites.length === 0 && <p className="text-xs text-brand-text-dim">No invite codes yet.</p>}
+                </div>
+            )}
+        </Panel>
+    );
+};
+
+export const AdminPage: React.FC = memo(() => {
+    const [stats, setStats] = useState<AdminStats | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadStats = useCallback(() => {
+        getAdminStats()
+            .then(setStats)
+            .catch((err) => setError(errorMessage(err, "Unable to load stats")));
+    }, []);
+
+    useEffect(() => {
+        loadStats();
+    }, [loadStats]);
+
+    return (
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-24 lg:pb-6 space-y-6">
+            <h1 className="text-2xl font-bold text-white">Admin</h1>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {stats ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <StatTile
+                        label="Users"
+                        value={stats.users.total}
+                        detail={`${stats.users.admins} admin, ${stats.users.unverified} unverified`}
+                        icon={<FiUsers className="w-5 h-5" />}
+                    />
+                    <StatTile
+                        label="Demo accounts"
+                        value={stats.demoUsers.total}
+                        detail={`${stats.demoUsers.expired} expired`}
+                        icon={<FiClock className="w-5 h-5" />}
+                    />
+                    <StatTile
+                        label={`Database (${stats.database.name})`}
+                        value={formatBytes(stats.database.dataSize)}
+                        detail={`${stats.watchlist.items} titles, ${formatBytes(stats.database.storageSize)} on disk`}
+                        icon={<FiDatabase className="w-5 h-5" />}
+                    />
+                    <StatTile
+                        label="Cache keys"
+                        value={stats.cache.connected ? stats.cache.keys : "—"}
+                        detail={stats.cache.connected ? stats.cache.usedMemory ?? undefined : "Not connected"}
+                        icon={<FiServer className="w-5 h-5" />}
+                    />
+                </div>
+            ) : !error && (
+                <div className="flex items-center justify-center py-8">
+                    <FiLoader className="animate-spin h-6 w-6 text-brand-primary" />
+                </div>
+            )}
+
+            {stats && <MaintenancePanel stats={stats} onChange={loadStats} />}
+            <InvitesPanel />
+            <UsersPanel />
+        </div>
+    );
+});
+
+AdminPage.displayName = "AdminPage";
@@ -1,6 +1,15 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import { useAuthContext } from "../contexts/AuthContext";
-import { FiEye, FiEyeOff, FiAlertCircle, FiLoader } from "react-icons/fi";
+import { requestPasswordReset, resetPassword } from "../services/dbService";
+import { FiEye, FiEyeOff, FiAlertCircle, FiCheckCircle, FiLoader } from "react-icons/fi";
+
+type AuthMode = "login" | "register" | "forgot" | "reset";
+
+// Links from account emails land here: `?reset=<token>` and `?emailVerified=1|0`; invite links carry `?invite=<code>`
+const linkParams = new URLSearchParams(window.location.search);
+const resetTokenFromLink = linkParams.get("reset");
+const emailVerifiedFromLink = linkParams.get("emailVerified");
+const inviteCodeFromLink = linkParams.get("invite");
 
 const PasswordInput: React.FC<{
     id: string;
@@ -42,10 +51,21 @@ const PasswordInput: React.FC<{
 };
 
 export const AuthPage: React.FC = () => {
-    const [mode, setMode] = useState<"login" | "register">("login");
+    const [mode, setMode] = useState<AuthMode>(
+        resetTokenFromLink ? "reset" : inviteCodeFromLink ? "register" : "login"
+    );
+    const [resetToken] = useState(resetTokenFromLink);
+    const [notice, setNotice] = useState<string | null>(
+        emailVerifiedFromLink === "1" ? "Email verified. Sign in to continue." : null
+    );
+    const [formError, setFormError] = useState<string | null>(
+        emailVerifiedFromLink === "0" ? "That verification link is invalid or has expired." : null
+    );
     const [email, setEmail] = useState("");
     const [password, setPassword] = useState("");
-    const [inviteCode, setInviteCode] = useState("");
+    const [inviteCode, setInviteCode] = useState(inviteCodeFromLink ?? "");
+    const [twoFactorCode, setTwoFactorCode] = useState("");
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
 
@@ -60,7 +80,14 @@ export const AuthPage: React.FC = () => {
         inviteCode?: boolean;
     }>({});
 
-    const { login, register, error, clearError } = useAuthContext();
+    const { login, register, error, clearError, twoFactorPending, verifyTwoFactor, cancelTwoFactor } = useAuthContext();
+
+    // Keep the one-time token out of the address bar and history
+    useEffect(() => {
+        if (resetTokenFromLink || emailVerifiedFromLink || inviteCodeFromLink) {
+            window.history.replaceState(null, "", window.location.pathname);
+        }
+    }, []);
 
     const validateEmail = (value: string): string | undefined => {
         if (!value) return "Email is required";
@@ -111,8 +138,8 @@ export const AuthPage: React.FC = () => {
         async (e: React.FormEvent) => {
             e.preventDefault();
 
-            const emailError = validateEmail(email);
-            const passwordError = validatePassword(password);
+            const emailError = mode !== "reset" ? validateEmail(email) : undefined;
+            const passwordError = mode !== "forgot" ? validatePassword(password) : undefined;
             const inviteCodeError = mode === "register" ? validateInviteCode(inviteCode) : undefined;
 
             setFieldErrors({ email: emailError, password: passwordError, inviteCode: inviteCodeError });
@@ -124,25 +151,62 @@ export const AuthPage: React.FC = () => {
 
             setIsSubmitting(true);
             clearError();
+            setFormError(null);
+            setNotice(null);
 
             if (mode === "login") {
                 await login(email, password);
-            } else {
+            } else if (mode === "register") {
                 await register(email, password, inviteCode);
+            } else {
+                try {
+                    setNotice(
+                        mode === "forgot"
+                            ? await requestPasswordReset(email)
+                            : await resetPassword(resetToken ?? "", password)
+                    );
+                    setPassword("");
+                    setMode("login");
+                } catch (err) {
+                    setFormError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+                }
             }
 
             setIsSubmitting(false);
         },
-        [mode, email, password, inviteCode, login, register, clearError]
+        [mode, email, password, inviteCode, resetToken, login, register, clearError]
     );
 
-    const toggleMode = () => {
-        setMode(mode === "login" ? "register" : "login");
+    const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!twoFactorCode.trim()) return;
+
+        setIsSubmitting(true);
+        const verified = await verifyTwoFactor(twoFactorCode.trim());
+        if (!verified) {
+            setTwoFactorCode("");
+            setIsSubmitting(false);
+        }
+    };
+
+    const switchMode = (next: AuthMode) => {
+        if (twoFactorPending) {
+            cancelTwoFactor();
+            setTwoFactorCode("");
+            setUseRecoveryCode(false);
+        }
+        setMode(next);
         clearError();
+        setFormError(null);
+        setNotice(null);
         setFieldErrors({});
         setTouched({});
     };
 
+    const toggleMode = () => switchMode(mode === "login" ? "register" : "login");
+
+    const shownError = error || formError;
+
     const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
         const { clientX, clientY } = e;
         setMousePosition({ x: clientX, y: clientY });
@@ -184,8 +248,8 @@ export const AuthPage: React.FC = () => {
                     {/* Mode Toggle */}
                     <div className="flex bg-black/40 rounded-lg p-1 mb-6">
                         <button
-                            onClick={() => { setMode("login"); clearError(); }}
-                            className={`flex-1 py-2.5 rounded-md text-sm font-medium tracking-wide transition-all duration-300 ${mode === "login"
+                            onClick={() => switchMode("login")}
+                            className={`flex-1 py-2.5 rounded-md text-sm font-medium tracking-wide transition-all duration-300 ${mode !== "register"
                                 ? "bg-brand-primary text-brand-bg shadow-lg shadow-brand-primary/20"
                                 : "text-brand-text-dim hover:text-white"
                                 }`}
@@ -193,7 +257,7 @@ export const AuthPage: React.FC = () => {
                             Sign In
                         </button>
                         <button
-                            onClick={() => { setMode("register"); clearError(); }}
+                            onClick={() => switchMode("register")}
                             className={`flex-1 py-2.5 rounded-md text-sm font-medium tracking-wide transition-all duration-300 ${mode === "register"
                                 ? "bg-brand-primary text-brand-bg shadow-lg shadow-brand-primary/20"
                                 : "text-brand-text-dim hover:text-white"
@@ -204,109 +268,197 @@ export const AuthPage: React.FC = () => {
                     </div>
 
                     {/* Error Message */}
-                    {error && (
+                    {shownError && (
                         <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-xl flex items-start gap-2 animate-shake">
                             <FiAlertCircle className="h-5 w-5 text-red-400 shrink-0 mt-0.5" />
-                            <p className="text-red-400 text-sm">{error}</p>
+                            <p className="text-red-400 text-sm">{shownError}</p>
                         </div>
                     )}
 
-                    {/* Form */}
-                    <form onSubmit={handleSubmit} className="space-y-4">
-                        <div>
-                            <label htmlFor="email" className="block text-sm text-brand-text-dim mb-2">
-                                Email
-                            </label>
-                            <input
-                                id="email"
-                                type="email"
-                                value={email}
-                                onChange={(e) => handleEmailChange(e.target.value)}
-                                onBlur={() => handleBlur("email")}
-                                className={`w-full px-4 py-3 bg-black/40 border rounded-lg text-white placeholder:text-brand-text-muted focus:outline-none focus:ring-1 transition-all ${fieldErrors.email && touched.email
-                                    ? "border-red-500/50 focus:border-red-500 focus:ring-red-500/30"
-                                    : "border-white/5 focus:border-brand-primary/50 focus:ring-brand-primary/30"
-                                    }`}
-                            />
-                            {fieldErrors.email && touched.email && (
-                                <p className="text-red-400 text-xs mt-1">{fieldErrors.email}</p>
-                            )}
+                    {/* Success Message */}
+                    {notice && (
+                        <div className="mb-4 p-3 bg-green-500/20 border border-green-500/50 rounded-xl flex items-start gap-2">
+                            <FiCheckCircle className="h-5 w-5 text-green-400 shrink-0 mt-0.5" />
+                            <p className="text-green-400 text-sm">{notice}</p>
                         </div>
+                    )}
 
-                        <div>
-                            <label htmlFor="password" className="block text-sm text-brand-text-dim mb-2">
-                                Password
-                            </label>
-                            <PasswordInput
-                                id="password"
-                                value={password}
-                                onChange={handlePasswordChange}
-                                onBlur={() => handleBlur("password")}
-                                hasError={!!(fieldErrors.password && touched.password)}
-                            />
-                            {fieldErrors.password && touched.password && (
-                                <p className="text-red-400 text-xs mt-1">{fieldErrors.password}</p>
-                            )}
-                        </div>
+                    {mode === "forgot" && (
+                        <p className="mb-4 text-sm text-brand-text-dim">
+                            Enter your account email and we'll send you a link to choose a new password.
+                        </p>
+                    )}
 
-                        {mode === "register" && (
-                            <div className="animate-slideDown space-y-3">
+                    {/* Second sign-in step */}
+                    {twoFactorPending ? (
+                        <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+                            <p className="text-sm text-brand-text-dim">
+                                {useRecoveryCode
+                                    ? "Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once."
+                                    : "Enter the 6-digit code from your authenticator app."}
+                            </p>
+                            <div>
+                                <label htmlFor="twoFactorCode" className="block text-sm text-brand-text-dim mb-2">
+                                    {useRecoveryCode ? "Recovery Code" : "Authentication Code"}
+                                </label>
+                                <input
+                                    id="twoFactorCode"
+                                    type="text"
+                                    value={twoFactorCode}
+                                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                                    inputMode={useRecoveryCode ? "text" : "numeric"}
+                                    autoComplete="one-time-code"
+                                    placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                                    autoFocus
+                                    className="w-full px-4 py-3 bg-black/40 border border-white/5 rounded-lg text-white font-mono tracking-widest placeholder:text-brand-text-muted focus:outline-none focus:ring-1 focus:border-brand-primary/50 focus:ring-brand-primary/30 transition-all"
+                                />
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    setUseRecoveryCode(!useRecoveryCode);
+                                    setTwoFactorCode("");
+                                }}
+                                className="text-xs text-brand-primary hover:text-brand-secondary transition-colors"
+                            >
+                                {useRecoveryCode ? "Use your authenticator app instead" : "Lost your device? Use a recovery code"}
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSubmitting || !twoFactorCode.trim()}
+                                className="w-full py-3.5 mt-6 bg-brand-primary text-brand-bg font-semibold rounded-lg shadow-lg shadow-brand-primary/25 hover:bg-brand-secondary hover:shadow-brand-secondary/30 hover:scale-[1.01] active:scale-[0.99] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                            >
+                                {isSubmitting ? (
+                                    <span className="flex items-center justify-center gap-2">
+                                        <FiLoader className="animate-spin h-5 w-5" />
+                                        Verifying...
+                                    </span>
+                                ) : (
+                                    "Verify"
+                                )}
+                            </button>
+                        </form>
+                    ) : (
+                        /* Form */
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            {mode !== "reset" && (
                                 <div>
-                                    <label htmlFor="inviteCode" className="block text-sm text-brand-text-dim mb-2">
-                                        Invite Code
+                                    <label htmlFor="email" className="block text-sm text-brand-text-dim mb-2">
+                                        Email
                                     </label>
                                     <input
-                                        id="inviteCode"
-                                        type="text"
-                                        value={inviteCode}
-                                        onChange={(e) => handleInviteCodeChange(e.target.value)}
-                                        onBlur={() => handleBlur("inviteCode")}
-                                        className={`w-full px-4 py-3 bg-black/40 border rounded-lg text-white placeholder:text-brand-text-muted focus:outline-none focus:ring-1 transition-all ${fieldErrors.inviteCode && touched.inviteCode
+                                        id="email"
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => handleEmailChange(e.target.value)}
+                                        onBlur={() => handleBlur("email")}
+                                        className={`w-full px-4 py-3 bg-black/40 border rounded-lg text-white placeholder:text-brand-text-muted focus:outline-none focus:ring-1 transition-all ${fieldErrors.email && touched.email
                                             ? "border-red-500/50 focus:border-red-500 focus:ring-red-500/30"
                                             : "border-white/5 focus:border-brand-primary/50 focus:ring-brand-primary/30"
                                             }`}
                                     />
-                                    {fieldErrors.inviteCode && touched.inviteCode && (
-                                        <p className="text-red-400 text-xs mt-1">{fieldErrors.inviteCode}</p>
+                                    {fieldErrors.email && touched.email && (
+                                        <p className="text-red-400 text-xs mt-1">{fieldErrors.email}</p>
                                     )}
                                 </div>
+                            )}
 
-                                {/* Invite code explanation */}
-                                <p className="text-xs text-brand-text-muted">
-                                    SceneStack is a personal project. Invite codes keep this instance private.
-                                </p>
+                            {mode !== "forgot" && (
+                                <div>
+                                    <div className="flex items-baseline justify-between mb-2">
+                                        <label htmlFor="password" className="block text-sm text-brand-text-dim">
+                                            {mode === "reset" ? "New Password" : "Password"}
+                                        </label>
+                                        {mode === "login" && (
+                                            <button
+                                                type="button"
+                                                onClick={() => switchMode("forgot")}
+                                                className="text-xs text-brand-primary hover:text-brand-secondary transition-colors"
+                                            >
+                                                Forgot password?
+                                            </button>
+                                        )}
+                                    </div>
+                                    <PasswordInput
+                                        id="password"
+                                        value={password}
+                                        onChange={handlePasswordChange}
+                                        onBlur={() => handleBlur("password")}
+                                        hasError={!!(fieldErrors.password && touched.password)}
+                                    />
+                                    {fieldErrors.password && touched.password && (
+                                        <p className="text-red-400 text-xs mt-1">{fieldErrors.password}</p>
+                                    )}
+                                </div>
+                            )}
 
-                                {/* Demo hint */}
-                                <div className="bg-brand-primary/10 border border-brand-primary/20 rounded-lg p-3">
-                                    <p className="text-sm text-brand-primary">
-                                        <span className="font-medium">Want to try it out?</span>{" "}
-                                        Use demo code: <code className="bg-black/40 px-1.5 py-0.5 rounded font-mono text-xs">DEMONOW</code>
+                            {mode === "register" && (
+                                <div className="animate-slideDown space-y-3">
+                                    <div>
+                                        <label htmlFor="inviteCode" className="block text-sm text-brand-text-dim mb-2">
+                                            Invite Code
+                                        </label>
+                                        <input
+                                            id="inviteCode"
+                                            type="text"
+                                            value={inviteCode}
+                                            onChange={(e) => handleInviteCodeChange(e.target.value)}
+                                            onBlur={() => handleBlur("inviteCode")}
+                                            className={`w-full px-4 py-3 bg-black/40 border rounded-lg text-white placeholder:text-brand-text-muted focus:outline-none focus:ring-1 transition-all ${fieldErrors.inviteCode && touched.inviteCode
+                                                ? "border-red-500/50 focus:border-red-500 focus:ring-red-500/30"
+                                                : "border-white/5 focus:border-brand-primary/50 focus:ring-brand-primary/30"
+                                                }`}
+                                        />
+                                        {fieldErrors.inviteCode && touched.inviteCode && (
+                                            <p className="text-red-400 text-xs mt-1">{fieldErrors.inviteCode}</p>
+                                        )}
+                                    </div>
+
+                                    {/* Invite code explanation */}
+                                    <p className="text-xs text-brand-text-muted">
+                                        SceneStack is a personal project. Invite codes keep this instance private.
                                     </p>
-                                </div>
-                            </div>
-                        )}
 
-                        <button
-                            type="submit"
-                            disabled={isSubmitting}
-                            className="w-full py-3.5 mt-6 bg-brand-primary text-brand-bg font-semibold rounded-lg shadow-lg shadow-brand-primary/25 hover:bg-brand-secondary hover:shadow-brand-secondary/30 hover:scale-[1.01] active:scale-[0.99] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-                        >
-                            {isSubmitting ? (
-                                <span className="flex items-center justify-center gap-2">
-                                    <FiLoader className="animate-spin h-5 w-5" />
-                                    Processing...
-                                </span>
-                            ) : mode === "login" ? (
-                                "Sign In"
-                            ) : (
-                                "Create Account"
+                                    {/* Demo hint */}
+                                    <div className="bg-brand-primary/10 border border-brand-primary/20 rounded-lg p-3">
+                                        <p className="text-sm text-brand-primary">
+                                            <span className="font-medium">Want to try it out?</span>{" "}
+                                            Use demo code: <code className="bg-black/40 px-1.5 py-0.5 rounded font-mono text-xs">DEMONOW</code>
+                                        </p>
+                                    </div>
+                                </div>
                             )}
-                        </button>
-                    </form>
+
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="w-full py-3.5 mt-6 bg-brand-primary text-brand-bg font-semibold rounded-lg shadow-lg shadow-brand-primary/25 hover:bg-brand-secondary hover:shadow-brand-secondary/30 hover:scale-[1.01] active:scale-[0.99] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                            >
+                                {isSubmitting ? (
+                                    <span className="flex items-center justify-center gap-2">
+                                        <FiLoader className="animate-spin h-5 w-5" />
+                                        Processing...
+                                    </span>
+                                ) : mode === "login" ? (
+                                    "Sign In"
+                                ) : mode === "register" ? (
+                                    "Create Account"
+                                ) : mode === "forgot" ? (
+                                    "Send Reset Link"
+                                ) : (
+                                    "Set New Password"
+                                )}
+                            </button>
+                        </form>
+                    )}
 
                     {/* Footer */}
                     <p className="text-center text-brand-text-dim text-sm mt-6">
-                        {mode === "login" ? (
+                        {mode === "forgot" || mode === "reset" || twoFactorPending ? (
+                            <button onClick={() => switchMode("login")} className="text-brand-primary hover:text-brand-secondary transition-colors font-medium">
+                                Back to sign in
+                            </button>
+                        ) : mode === "login" ? (
                             <>
                                 Don't have an account?{" "}
                                 <button onClick={toggleMode} className="text-brand-primary hover:text-brand-secondary transition-colors font-medium">
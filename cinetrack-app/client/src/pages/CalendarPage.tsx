@@ -0,0 +1,280 @@
+import React, { memo, useMemo, useState } from "react";
+import { FiChevronLeft, FiChevronRight, FiCalendar, FiList, FiFilm, FiTv } from "react-icons/fi";
+import { useWatchlistStore, getAllUniqueTags } from "../store/useWatchlistStore";
+import { useListsStore } from "../store/useListsStore";
+import { useUIContext } from "../contexts/UIContext";
+import { useCalendar } from "../hooks/useCalendar";
+import { useFullStatuses } from "../hooks/useFullStatuses";
+import { getMonthGrid, groupByDate, toDateKey, type CalendarEvent } from "../utils/calendar";
+import { formatEpisodeCode } from "../utils/upNext";
+import { TMDB_IMAGE_BASE_URL_MOBILE } from "../constants/constants";
+import type { WatchlistStatus } from "../services/dbService";
+import type { Media } from "../types/types";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MAX_EVENTS_PER_DAY = 3;
+// Every status a show can still have new episodes in (dropped shows are left off), loaded in full
+const CALENDAR_STATUSES: WatchlistStatus[] = ["watchlist", "watching", "caught_up", "watched", "on_hold"];
+
+// "all", "list:<id>" or "tag:<tag>"
+type CalendarFilter = string;
+
+const parseDateKey = (key: string) => {
+    const [year, month, day] = key.split("-").map(Number);
+    return new Date(year, month - 1, day);
+};
+
+const describeEvent = (event: CalendarEvent) =>
+    event.seasonNumber != null && event.episodeNumber != null
+        ? `${formatEpisodeCode(event.seasonNumber, event.episodeNumber)}${event.episodeName ? ` · ${event.episodeName}` : ""}`
+        : "In cinemas";
+
+const formatDayHeading = (key: string, today: string) => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    if (key === today) return "Today";
+    if (key === toDateKey(tomorrow)) return "Tomorrow";
+    return parseDateKey(key).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" });
+};
+
+const EventChip: React.FC<{ event: CalendarEvent; onSelect: (media: Media, rect: DOMRect) => void }> = ({ event, onSelect }) => (
+    <button
+        type="button"
+        onClick={(e) => onSelect(event.item, e.currentTarget.getBoundingClientRect())}
+        title={`${event.title} - ${describeEvent(event)}`}
+        className={`w-full text-left truncate text-xs px-1.5 py-0.5 rounded ${event.item.media_type === "movie"
+            ? "bg-brand-secondary/20 text-brand-secondary"
+            : "bg-brand-primary/20 text-brand-primary"
+            } hover:brightness-125 transition`}
+    >
+        {event.title}
+    </button>
+);
+
+const MonthView: React.FC<{
+    year: number;
+    month: number;
+    eventsByDate: Map<string, CalendarEvent[]>;
+    today: string;
+    onSelect: (media: Media, rect: DOMRect) => void;
+}> = ({ year, month, eventsByDate, today, onSelect }) => (
+    <div className="grid grid-cols-7 gap-px bg-white/10 rounded-xl overflow-hidden border border-white/10">
+        {WEEKDAYS.map((day) => (
+            <div key={day} className="bg-brand-bg/90 py-2 text-center text-xs font-semibold uppercase tracking-wider text-brand-text-dim">
+                {day}
+            </div>
+        ))}
+        {getMonthGrid(year, month).map((date) => {
+            const key = toDateKey(date);
+            const events = eventsByDate.get(key) ?? [];
+            const inMonth = date.getMonth() === month;
+            return (
+                <div key={key} className={`min-h-24 p-1.5 space-y-1 ${inMonth ? "bg-brand-surface/40" : "bg-brand-bg/80"}`}>
+                    <div className={`text-xs font-medium ${key === today
+                        ? "inline-flex items-center justify-center w-6 h-6 rounded-full bg-brand-primary text-white"
+                        : inMonth ? "text-brand-text-light" : "text-brand-text-dim/50"
+                        }`}>
+                        {date.getDate()}
+                    </div>
+                    {events.slice(0, MAX_EVENTS_PER_DAY).map((event) => (
+                        <EventChip key={event.key} event={event} onSelect={onSelect} />
+                    ))}
+                    {events.length > MAX_EVENTS_PER_DAY && (
+                        <p className="text-xs text-brand-text-dim px-1.5">+{events.length - MAX_EVENTS_PER_DAY} more</p>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
+
+const AgendaView: React.FC<{
+    eventsByDate: Map<string, CalendarEvent[]>;
+    today: string;
+    onSelect: (media: Media, rect: DOMRect) => void;
+}> = ({ eventsByDate, today, onSelect }) => {
+    if (eventsByDate.size === 0) {
+        return (
+            <div className="text-center py-10 px-6 bg-brand-surface/50 rounded-lg">
+                <p className="text-brand-text-dim">Nothing scheduled yet.</p>
+                <p className="text-sm text-brand-text-dim/70 mt-1">New episodes and releases show up here once TMDB has a date for them.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {Array.from(eventsByDate.entries()).map(([date, events]) => (
+                <section key={date}>
+                    <h3 className="text-sm font-semibold uppercase tracking-widest text-brand-text-dim mb-3">
+                        {formatDayHeading(date, today)}
+                    </h3>
+                    <ul className="space-y-2">
+                        {events.map((event) => (
+                            <li key={event.key}>
+                                <button
+                                    type="button"
+                                    onClick={(e) => onSelect(event.item, e.currentTarget.getBoundingClientRect())}
+                                    className="w-full flex items-center gap-4 p-3 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-colors text-left"
+                                >
+                                    {event.item.poster_path ? (
+                                        <img
+                                            src={`${TMDB_IMAGE_BASE_URL_MOBILE}${event.item.poster_path}`}
+                                            alt=""
+                                            loading="lazy"
+                                            className="w-10 h-15 rounded object-cover flex-shrink-0"
+                                        />
+                                    ) : (
+                                        <div className="w-10 h-15 rounded bg-black/40 flex-shrink-0" />
+                                    )}
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-white truncate">{event.title}</p>
+                                        <p className="text-sm text-brand-text-dim truncate">{describeEvent(event)}</p>
+                                    </div>
+                                    {event.item.media_type === "movie" ? (
+                                        <FiFilm className="ml-auto w-4 h-4 text-brand-text-dim flex-shrink-0" />
+                                    ) : (
+                                        <FiTv className="ml-auto w-4 h-4 text-brand-text-dim flex-shrink-0" />
+                                    )}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            ))}
+        </div>
+    );
+};
+
+export const CalendarPage: React.FC = memo(() => {
+    const watchlist = useWatchlistStore(state => state.watchlist);
+    const lists = useListsStore(state => state.lists);
+    const { handleSelectMedia } = useUIContext();
+    useFullStatuses(CALENDAR_STATUSES);
+    const { events, isLoading, failedCount } = useCalendar(watchlist);
+
+    const [view, setView] = useState<"month" | "agenda">("month");
+    const [filter, setFilter] = useState<CalendarFilter>("all");
+    const [cursor, setCursor] = useState(() => {
+        const now = new Date();
+        return { year: now.getFullYear(), month: now.getMonth() };
+    });
+
+    const today = toDateKey(new Date());
+    const allUniqueTags = useMemo(() => getAllUniqueTags(watchlist), [watchlist]);
+
+    const eventsByDate = useMemo(() => {
+        // Filter on the current watchlist, since episode events keep the item they were loaded with
+        let allowed: Set<number> | null = null;
+        if (filter.startsWith("list:")) {
+            const list = lists.find((l) => l._id === filter.slice("list:".length));
+            allowed = new Set(list?.itemIds ?? []);
+        } else if (filter.startsWith("tag:")) {
+            const tag = filter.slice("tag:".length);
+            allowed = new Set(watchlist.filter((item) => item.tags?.includes(tag)).map((item) => item.id));
+        }
+        return groupByDate(allowed ? events.filter((event) => allowed.has(event.item.id)) : events);
+    }, [events, filter, lists, watchlist]);
+
+    const moveMonth = (delta: number) =>
+        setCursor(({ year, month }) => {
+            const date = new Date(year, month + delta, 1);
+            return { year: date.getFullYear(), month: date.getMonth() };
+        });
+
+    const monthLabel = new Date(cursor.year, cursor.month, 1).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-3xl font-bold text-brand-text-light">Calendar 🗓️</h2>
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        aria-label="Filter calendar"
+                        className="bg-brand-surface/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                    >
+                        <option value="all">Everything I track</option>
+                        {lists.length > 0 && (
+                            <optgroup label="Lists">
+                                {lists.map((list) => (
+                                    <option key={list._id} value={`list:${list._id}`}>{list.name}</option>
+                                ))}
+                            </optgroup>
+                        )}
+                        {allUniqueTags.length > 0 && (
+                            <optgroup label="Tags">
+                                {allUniqueTags.map((tag) => (
+                                    <option key={tag} value={`tag:${tag}`}>{tag}</option>
+                                ))}
+                            </optgroup>
+                        )}
+                    </select>
+                    <div className="flex rounded-lg bg-white/5 border border-white/10 p-1">
+                        {([
+                            { id: "month", label: "Month", icon: <FiCalendar className="w-4 h-4" /> },
+                            { id: "agenda", label: "Agenda", icon: <FiList className="w-4 h-4" /> },
+                        ] as const).map((option) => (
+                            <button
+                                key={option.id}
+                                onClick={() => setView(option.id)}
+                                className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-md transition-colors ${view === option.id
+                                    ? "bg-brand-primary text-white"
+                                    : "text-brand-text-dim hover:text-white"
+                                    }`}
+                                aria-pressed={view === option.id}
+                            >
+                                {option.icon}
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {failedCount > 0 && (
+                <p className="text-sm text-yellow-400">
+                    Couldn't load the schedule for {failedCount} {failedCount === 1 ? "show" : "shows"}. Try again later.
+                </p>
+            )}
+
+            {isLoading && (
+                <p className="text-sm text-brand-text-dim animate-pulse">Checking air dates for your shows...</p>
+            )}
+
+            {view === "month" ? (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => moveMonth(-1)}
+                            className="p-2 rounded-lg text-brand-text-dim hover:bg-white/5 hover:text-white transition-colors"
+                            aria-label="Previous month"
+                        >
+                            <FiChevronLeft className="w-5 h-5" />
+                        </button>
+                        <h3 className="text-lg font-semibold text-white min-w-44 text-center">{monthLabel}</h3>
+                        <button
+                            onClick={() => moveMonth(1)}
+                            className="p-2 rounded-lg text-brand-text-dim hover:bg-white/5 hover:text-white transition-colors"
+                            aria-label="Next month"
+                        >
+                            <FiChevronRight className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <MonthView
+                        year={cursor.year}
+                        month={cursor.month}
+                        eventsByDate={eventsByDate}
+                        today={today}
+                        onSelect={handleSelectMedia}
+                    />
+                </div>
+            ) : (
+                <AgendaView eventsByDate={eventsByDate} today={today} onSelect={handleSelectMedia} />
+            )}
+        </div>
+    );
+});
+
+CalendarPage.displayName = "CalendarPage";
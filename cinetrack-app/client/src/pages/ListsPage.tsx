@@ -1,17 +1,25 @@
 import React, { memo, useMemo } from "react";
 import { useWatchlistStore, getWatchlistIds, getFilteredItems, getProgressMap, getAllUniqueTags } from "../store/useWatchlistStore";
+import type { WatchlistStatus } from "../services/dbService";
 import { useUIContext } from "../contexts/UIContext";
 import { MediaSection } from "../components/common/MediaSection";
 import { HorizontalMediaScroll } from "../components/common/HorizontalMediaScroll";
+import { CustomListsSection } from "../components/features/CustomLists";
+import { UpNext } from "../components/features/UpNext";
+import { useFullStatuses } from "../hooks/useFullStatuses";
+
+// Up Next needs every in-progress show, not just the first page of them
+const UP_NEXT_STATUSES: WatchlistStatus[] = ["watching"];
 
 export const ListsPage: React.FC = memo(() => {
     const watchlist = useWatchlistStore(state => state.watchlist);
     const activeTagFilter = useWatchlistStore(state => state.activeTagFilter);
     const setActiveTagFilter = useWatchlistStore(state => state.setActiveTagFilter);
+    useFullStatuses(UP_NEXT_STATUSES);
 
     const watchlistIds = useMemo(() => getWatchlistIds(watchlist), [watchlist]);
 
-    const { watchlistItems, currentlyWatchingItems, watchedItems } = useMemo(
+    const { watchlistItems, currentlyWatchingItems, caughtUpItems, watchedItems, onHoldItems, droppedItems } = useMemo(
         () => getFilteredItems(watchlist, activeTagFilter),
         [watchlist, activeTagFilter]
     );
@@ -57,6 +65,8 @@ export const ListsPage: React.FC = memo(() => {
                 </div>
             )}
             <div className="space-y-12">
+                {/* Next episode of each in-progress show */}
+                <UpNext shows={currentlyWatchingItems} onSelect={handleSelectMedia} />
                 {/* Currently Watching - Horizontal scroll */}
                 <HorizontalMediaScroll
                     title="Currently Watching 🎦"
@@ -67,6 +77,21 @@ export const ListsPage: React.FC = memo(() => {
                     emptyMessage="Nothing is currently being watched."
                     selectedMediaId={selectedMediaId}
                 />
+                {/* Caught up - waiting on new episodes; hidden until there are some */}
+                {caughtUpItems.length > 0 && (
+                    <MediaSection
+                        title="Caught Up ⏳"
+                        items={caughtUpItems}
+                        onCardClick={handleSelectMedia}
+                        watchlistIds={watchlistIds}
+                        emptyMessage="No shows waiting on new episodes."
+                        selectedMediaId={selectedMediaId}
+                        enablePagination
+                        status="caught_up"
+                    />
+                )}
+                {/* User-created lists */}
+                <CustomListsSection />
                 {/* My List - Pagination */}
                 <MediaSection
                     title="My List 🗒"
@@ -90,6 +115,31 @@ export const ListsPage: React.FC = memo(() => {
                     enablePagination
                     status="watched"
                 />
+                {/* Set aside by the user; hidden until there are some */}
+                {onHoldItems.length > 0 && (
+                    <MediaSection
+                        title="On Hold ⏸️"
+                        items={onHoldItems}
+                        onCardClick={handleSelectMedia}
+                        watchlistIds={watchlistIds}
+                        emptyMessage="Nothing is on hold."
+                        selectedMediaId={selectedMediaId}
+                        enablePagination
+                        status="on_hold"
+                    />
+                )}
+                {droppedItems.length > 0 && (
+                    <MediaSection
+                        title="Dropped 🚫"
+                        items={droppedItems}
+                        onCardClick={handleSelectMedia}
+                        watchlistIds={watchlistIds}
+                        emptyMessage="Nothing has been dropped."
+                        selectedMediaId={selectedMediaId}
+                        enablePagination
+                        status="dropped"
+                    />
+                )}
             </div>
         </>
     );
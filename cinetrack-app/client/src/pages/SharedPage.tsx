@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from "react";
+import { FiLink2 } from "react-icons/fi";
+import { MediaGrid } from "../components/media/MediaGrid";
+import { getSharedCollection } from "../services/dbService";
+import type { Media, SharedCollection } from "../types/types";
+
+const NO_WATCHLIST_IDS = new Set<number>();
+
+// Shared pages are read-only, so cards link out to TMDB instead of opening the detail modal
+const openOnTmdb = (media: Media) => {
+    window.open(`https://www.themoviedb.org/${media.media_type}/${media.id}`, "_blank", "noopener,noreferrer");
+};
+
+/**
+ * Public, read-only view of a shared list or watched history. Rendered without auth.
+ */
+export const SharedPage: React.FC<{ token: string }> = ({ token }) => {
+    const [collection, setCollection] = useState<SharedCollection | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getSharedCollection(token)
+            .then((data) => {
+                if (!cancelled) setCollection(data);
+            })
+            .catch((err) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : "Could not load this share link.");
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [token]);
+
+    useEffect(() => {
+        if (collection) {
+            document.title = `${collection.title} · Scene Stack`;
+        }
+    }, [collection]);
+
+    return (
+        <div className="min-h-screen bg-brand-bg text-brand-text-light font-sans">
+            <header className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+                <a href="/" className="font-display text-3xl tracking-wide text-white">
+                    SCENE<span className="text-brand-primary">STACK</span>
+                </a>
+                <span className="flex items-center gap-1.5 text-xs text-brand-text-dim">
+                    <FiLink2 className="h-4 w-4" /> Shared with you
+                </span>
+            </header>
+
+            <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+                {error ? (
+                    <div className="text-center py-16">
+                        <p className="text-brand-text-light text-lg mb-2">Link unavailable</p>
+                        <p className="text-brand-text-dim text-sm">{error}</p>
+                    </div>
+                ) : !collection ? (
+                    <div className="flex justify-center py-16">
+                        <div className="w-10 h-10 rounded-full border-2 border-brand-primary/20 border-t-brand-primary animate-spin" />
+                    </div>
+                ) : (
+                    <>
+                        <div className="mb-8">
+                            <h1 className="text-3xl font-bold text-white">{collection.title}</h1>
+                            {collection.description && (
+                                <p className="text-brand-text-dim mt-2 whitespace-pre-line">{collection.description}</p>
+                            )}
+                            <p className="text-sm text-brand-text-dim mt-2">
+                                {collection.items.length} {collection.items.length === 1 ? "title" : "titles"}
+                            </p>
+                        </div>
+                        {collection.items.length === 0 ? (
+                            <p className="text-brand-text-dim text-center py-12">Nothing here yet.</p>
+                        ) : (
+                            <MediaGrid
+                                mediaItems={collection.items}
+                                onCardClick={openOnTmdb}
+                                watchlistIds={NO_WATCHLIST_IDS}
+                                selectedMediaId={null}
+                            />
+                        )}
+                    </>
+                )}
+            </main>
+        </div>
+    );
+};
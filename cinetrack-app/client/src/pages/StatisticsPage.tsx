@@ -54,13 +54,20 @@ const GenreBadge: React.FC<{ name: string; count: number }> = ({ name, count })
 
 export const StatisticsPage: React.FC = memo(() => {
     const watchlist = useWatchlistStore(state => state.watchlist);
-    const { currentlyWatchingItems, watchedItems } = useMemo(() =>
+    const { currentlyWatchingItems, caughtUpItems, watchedItems } = useMemo(() =>
         getFilteredItems(watchlist, null),
         [watchlist]);
 
+    // Caught-up shows are finished as far as they've aired, so they count as watched
+    const completedItems = useMemo(() => [...watchedItems, ...caughtUpItems], [watchedItems, caughtUpItems]);
+
     const stats = useMemo<WatchStatistics>(() => {
-        return calculateWatchStats(watchlist, currentlyWatchingItems.length, watchedItems);
-    }, [watchlist, currentlyWatchingItems.length, watchedItems]);
+        return calculateWatchStats(watchlist, currentlyWatchingItems.length, completedItems);
+    }, [watchlist, currentlyWatchingItems.length, completedItems]);
+
+    const ratingDiff = stats.ratings.tmdbAverage > 0
+        ? Math.round((stats.ratings.myAverage - stats.ratings.tmdbAverage) * 10) / 10
+        : null;
 
     return (
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-24 lg:pb-6">
@@ -99,7 +106,7 @@ export const StatisticsPage: React.FC = memo(() => {
                     icon={<FiCheckCircle className="w-5 h-5" />}
                 />
                 <MiniStatCard
-                    label="Avg. Rating"
+                    label="Avg. TMDB Rating"
                     value={stats.summary.averageRating > 0 ? `${stats.summary.averageRating}/10` : "—"}
                     icon={<FiStar className="w-5 h-5" />}
                 />
@@ -110,6 +117,33 @@ export const StatisticsPage: React.FC = memo(() => {
                 />
             </div>
 
+            {/* My ratings vs TMDB */}
+            {stats.ratings.ratedCount > 0 && (
+                <div className="bg-white/5 backdrop-blur-xl rounded-2xl p-5 border border-white/10 mb-6">
+                    <h2 className="text-sm uppercase tracking-wider text-brand-text-dim font-medium mb-4">
+                        You vs TMDB
+                    </h2>
+                    <div className="grid grid-cols-2 gap-3">
+                        <MiniStatCard
+                            label="Your Avg. Rating"
+                            value={`${stats.ratings.myAverage}/10`}
+                            icon={<FiStar className="w-5 h-5" />}
+                        />
+                        <MiniStatCard
+                            label="TMDB Avg. (same titles)"
+                            value={stats.ratings.tmdbAverage > 0 ? `${stats.ratings.tmdbAverage}/10` : "—"}
+                            icon={<FiBarChart2 className="w-5 h-5" />}
+                        />
+                    </div>
+                    <p className="text-xs text-brand-text-dim mt-3">
+                        Based on {stats.ratings.ratedCount} rated {stats.ratings.ratedCount === 1 ? "title" : "titles"}
+                        {ratingDiff !== null && (ratingDiff === 0
+                            ? " · you agree with TMDB on average"
+                            : ` · you rate ${Math.abs(ratingDiff)} ${ratingDiff > 0 ? "higher" : "lower"} on average`)}
+                    </p>
+                </div>
+            )}
+
             {/* Top Genres */}
             {stats.summary.topGenres.length > 0 && (
                 <div className="bg-white/5 backdrop-blur-xl rounded-2xl p-5 border border-white/10">
@@ -1,33 +1,90 @@
-import type { WatchlistItem } from "../types/types";
-import { getAuthToken } from "../contexts/AuthContext";
+import type {
+  WatchlistItem,
+  WatchlistDelta,
+  WatchlistPatch,
+  EpisodeSet,
+  AppNotification,
+  CustomList,
+  ShareLink,
+  Backup,
+  CalendarFeed,
+  ImportRow,
+  ImportResolution,
+  ImportEntry,
+  ImportSummary,
+  ImportPreview,
+  SharedCollection,
+  WatchEvent,
+  WatchEventInput,
+  Session,
+  TwoFactorStatus,
+  TwoFactorSetup,
+  StorageStats,
+  Invite,
+  MyInvites,
+  AdminStats,
+  AdminUser,
+  AdminUsersPage,
+  AdminInvite,
+  AdminInviteInput,
+  CacheStats,
+  CacheScope,
+} from "../types/types";
+import { getAuthToken, refreshAccessToken } from "../contexts/AuthContext";
 
 // API requests use relative URLs - Vite proxy handles forwarding in dev
 const API_BASE_URL = '/api';
 
+/**
+ * Thrown when a write was based on a stale revision. `current` is the server's copy.
+ */
+export class ConflictError extends Error {
+  current: WatchlistItem;
+
+  constructor(message: string, current: WatchlistItem) {
+    super(message);
+    this.name = "ConflictError";
+    this.current = current;
+  }
+}
+
 const apiFetch = async <T>(
   endpoint: string,
   options?: RequestInit
 ): Promise<T> => {
-  const token = getAuthToken();
+  const send = (token: string | null) => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    };
+
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
 
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    Accept: "application/json",
+    return fetch(`${API_BASE_URL}${endpoint}`, {
+      headers,
+      ...options,
+    });
   };
 
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
+  let response = await send(getAuthToken());
 
-  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-    headers,
-    ...options,
-  });
+  // Access tokens are short-lived; get a new one and try once more
+  if (response.status === 401) {
+    const token = await refreshAccessToken().catch(() => null);
+    if (token) {
+      response = await send(token);
+    }
+  }
 
   if (!response.ok) {
     const errorData = await response
       .json()
       .catch(() => ({ message: "An unknown error occurred" }));
+    if (response.status === 409 && errorData.current) {
+      throw new ConflictError(errorData.message, errorData.current);
+    }
     console.error("API Error:", errorData);
     throw new Error(
       errorData.message || `Request failed with status ${response.status}`
@@ -61,12 +118,31 @@ export const getWatchlistItem = async (
 
 export const putWatchlistItem = async (
   item: WatchlistItem
-): Promise<number> => {
-  const savedItem = await apiFetch<WatchlistItem>("/watchlist", {
+): Promise<WatchlistItem> => {
+  return apiFetch<WatchlistItem>("/watchlist", {
     method: "PUT",
     body: JSON.stringify(item),
   });
-  return savedItem.id;
+};
+
+export const updateEpisodes = async (
+  id: number,
+  changes: { add?: EpisodeSet[]; remove?: EpisodeSet[] }
+): Promise<WatchlistDelta> => {
+  return apiFetch<WatchlistDelta>(`/watchlist/${id}/episodes`, {
+    method: "POST",
+    body: JSON.stringify(changes),
+  });
+};
+
+export const patchWatchlistItem = async (
+  id: number,
+  changes: WatchlistPatch
+): Promise<WatchlistDelta> => {
+  return apiFetch<WatchlistDelta>(`/watchlist/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+  });
 };
 
 export const deleteWatchlistItem = async (id: number): Promise<void> => {
@@ -75,16 +151,39 @@ export const deleteWatchlistItem = async (id: number): Promise<void> => {
   });
 };
 
-export const clearAndBulkPut = async (
-  items: WatchlistItem[]
-): Promise<void> => {
+export const getWatchlistExport = async (): Promise<unknown> => {
+  return apiFetch<unknown>("/watchlist/export");
+};
+
+export const importWatchlistFile = async (data: unknown): Promise<void> => {
   await apiFetch<void>("/watchlist/import", {
     method: "POST",
-    body: JSON.stringify(items),
+    body: JSON.stringify(data),
+  });
+};
+
+export const recordWatchEvents = async (
+  id: number,
+  events: WatchEventInput[]
+): Promise<WatchlistItem> => {
+  return apiFetch<WatchlistItem>(`/watchlist/${id}/history`, {
+    method: "POST",
+    body: JSON.stringify({ events }),
   });
 };
 
-export type WatchlistStatus = "watchlist" | "watching" | "watched";
+export const getWatchHistory = async (id: number): Promise<WatchEvent[]> => {
+  const { events } = await apiFetch<{ events: WatchEvent[] }>(
+    `/watchlist/${id}/history`
+  );
+  return events;
+};
+
+/**
+ * `caught_up`: every aired episode watched, more still to come.
+ * `on_hold` and `dropped` are set by the user and stick until cleared.
+ */
+export type WatchlistStatus = "watchlist" | "watching" | "caught_up" | "watched" | "on_hold" | "dropped";
 
 interface PaginatedResponse {
   items: WatchlistItem[];
@@ -114,3 +213,348 @@ export const getRecommendations = async (
     `/watchlist/recommendations${refresh ? "?refresh=true" : ""}`
   );
 };
+
+interface NotificationsResponse {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+export const getNotifications = async (): Promise<NotificationsResponse> => {
+  return apiFetch<NotificationsResponse>("/notifications");
+};
+
+export const refreshNotifications = async (): Promise<{ created: number }> => {
+  return apiFetch<{ created: number }>("/notifications/refresh", {
+    method: "POST",
+  });
+};
+
+export const markNotificationRead = async (id: string): Promise<void> => {
+  await apiFetch<void>(`/notifications/${id}/read`, {
+    method: "PATCH",
+  });
+};
+
+export const markAllNotificationsRead = async (): Promise<void> => {
+  await apiFetch<void>("/notifications/read-all", {
+    method: "POST",
+  });
+};
+
+export const dismissNotification = async (id: string): Promise<void> => {
+  await apiFetch<void>(`/notifications/${id}`, {
+    method: "DELETE",
+  });
+};
+
+export const getLists = async (): Promise<CustomList[]> => {
+  return apiFetch<CustomList[]>("/lists");
+};
+
+export const createList = async (
+  name: string,
+  description: string
+): Promise<CustomList> => {
+  return apiFetch<CustomList>("/lists", {
+    method: "POST",
+    body: JSON.stringify({ name, description }),
+  });
+};
+
+export const updateList = async (
+  listId: string,
+  changes: { name?: string; description?: string }
+): Promise<CustomList> => {
+  return apiFetch<CustomList>(`/lists/${listId}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+  });
+};
+
+export const deleteList = async (listId: string): Promise<void> => {
+  await apiFetch<void>(`/lists/${listId}`, {
+    method: "DELETE",
+  });
+};
+
+export const addItemToList = async (
+  listId: string,
+  itemId: number
+): Promise<CustomList> => {
+  return apiFetch<CustomList>(`/lists/${listId}/items`, {
+    method: "POST",
+    body: JSON.stringify({ itemId }),
+  });
+};
+
+export const removeItemFromList = async (
+  listId: string,
+  itemId: number
+): Promise<CustomList> => {
+  return apiFetch<CustomList>(`/lists/${listId}/items/${itemId}`, {
+    method: "DELETE",
+  });
+};
+
+export const reorderListItems = async (
+  listId: string,
+  itemIds: number[]
+): Promise<CustomList> => {
+  return apiFetch<CustomList>(`/lists/${listId}/items`, {
+    method: "PUT",
+    body: JSON.stringify({ itemIds }),
+  });
+};
+
+export const getShareLinks = async (): Promise<ShareLink[]> => {
+  return apiFetch<ShareLink[]>("/share");
+};
+
+export const createShareLink = async (
+  target: { type: "watched" } | { type: "list"; listId: string }
+): Promise<ShareLink> => {
+  return apiFetch<ShareLink>("/share", {
+    method: "POST",
+    body: JSON.stringify(target),
+  });
+};
+
+export const revokeShareLink = async (id: string): Promise<void> => {
+  await apiFetch<void>(`/share/${id}`, {
+    method: "DELETE",
+  });
+};
+
+export const getCalendarFeed = async (): Promise<CalendarFeed | null> => {
+  return apiFetch<CalendarFeed | null>("/calendar/feed");
+};
+
+// Replaces any existing feed, so its old URL stops working
+export const createCalendarFeed = async (): Promise<CalendarFeed> => {
+  return apiFetch<CalendarFeed>("/calendar/feed", { method: "POST" });
+};
+
+export const deleteCalendarFeed = async (): Promise<void> => {
+  await apiFetch<void>("/calendar/feed", { method: "DELETE" });
+};
+
+// Public, works without being logged in
+export const getSharedCollection = async (
+  token: string
+): Promise<SharedCollection> => {
+  return apiFetch<SharedCollection>(`/share/public/${encodeURIComponent(token)}`);
+};
+
+export const resolveImportRows = async (
+  rows: ImportRow[]
+): Promise<ImportResolution[]> => {
+  const { results } = await apiFetch<{ results: ImportResolution[] }>("/import/resolve", {
+    method: "POST",
+    body: JSON.stringify({ rows }),
+  });
+  return results;
+};
+
+// Merges into the existing watchlist; see server/src/services/mergeImport.js
+export const applyImportEntries = async (
+  entries: ImportEntry[],
+  options: { overwriteConflicts?: boolean; snapshot?: boolean } = {}
+): Promise<ImportSummary> => {
+  return apiFetch<ImportSummary>("/import/apply", {
+    method: "POST",
+    body: JSON.stringify({ entries, ...options }),
+  });
+};
+
+// Same as applyImportEntries, but nothing is written
+export const previewImportEntries = async (
+  entries: ImportEntry[]
+): Promise<ImportPreview> => {
+  return apiFetch<ImportPreview>("/import/apply", {
+    method: "POST",
+    body: JSON.stringify({ entries, dryRun: true }),
+  });
+};
+
+export const getBackups = async (): Promise<Backup[]> => {
+  const { backups } = await apiFetch<{ backups: Backup[] }>("/backups");
+  return backups;
+};
+
+// Replaces the watchlist, history and lists; the server snapshots the current state first
+export const restoreBackup = async (id: string): Promise<void> => {
+  await apiFetch<void>(`/backups/${id}/restore`, { method: "POST" });
+};
+
+// Any export version; the server migrates older formats before restoring
+export const restoreBackupFile = async (data: unknown): Promise<void> => {
+  await apiFetch<void>("/backups/restore-file", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+};
+
+export const getBackupExport = async (id: string): Promise<unknown> => {
+  return apiFetch<unknown>(`/backups/${id}/export`);
+};
+
+export const deleteBackup = async (id: string): Promise<void> => {
+  await apiFetch<void>(`/backups/${id}`, { method: "DELETE" });
+};
+
+// Account
+
+export const getStorageStats = async (): Promise<StorageStats> => {
+  return apiFetch<StorageStats>("/watchlist/stats");
+};
+
+export const wipeWatchlist = async (): Promise<void> => {
+  await apiFetch<void>("/watchlist", { method: "DELETE" });
+};
+
+export const changePassword = async (
+  currentPassword: string,
+  newPassword: string
+): Promise<void> => {
+  await apiFetch<{ message: string }>("/auth/password", {
+    method: "PUT",
+    body: JSON.stringify({ currentPassword, newPassword }),
+  });
+};
+
+export const deleteAccount = async (): Promise<void> => {
+  await apiFetch<void>("/auth", { method: "DELETE" });
+};
+
+export const requestPasswordReset = async (email: string): Promise<string> => {
+  const data = await apiFetch<{ message: string }>("/auth/forgot", {
+    method: "POST",
+    body: JSON.stringify({ email }),
+  });
+  return data.message;
+};
+
+export const resetPassword = async (token: string, password: string): Promise<string> => {
+  const data = await apiFetch<{ message: string }>("/auth/reset", {
+    method: "POST",
+    body: JSON.stringify({ token, password }),
+  });
+  return data.message;
+};
+
+export const resendVerificationEmail = async (): Promise<void> => {
+  await apiFetch<{ message: string }>("/auth/verify/resend", { method: "POST" });
+};
+
+export const getMyInvites = async (): Promise<MyInvites> => {
+  return apiFetch<MyInvites>("/invites");
+};
+
+export const createInvite = async (): Promise<Invite> => {
+  return apiFetch<Invite>("/invites", { method: "POST" });
+};
+
+export const revokeInvite = async (id: string): Promise<void> => {
+  await apiFetch<void>(`/invites/${encodeURIComponent(id)}`, { method: "DELETE" });
+};
+
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+  return apiFetch<TwoFactorStatus>("/auth/2fa");
+};
+
+export const startTwoFactorSetup = async (password: string): Promise<TwoFactorSetup> => {
+  return apiFetch<TwoFactorSetup>("/auth/2fa/setup", {
+    method: "POST",
+    body: JSON.stringify({ password }),
+  });
+};
+
+/** Confirms setup with a code from the app. Returns the recovery codes, shown only this once. */
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+  const data = await apiFetch<{ recoveryCodes: string[] }>("/auth/2fa/enable", {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+  return data.recoveryCodes;
+};
+
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  const data = await apiFetch<{ recoveryCodes: string[] }>("/auth/2fa/recovery-codes", {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+  return data.recoveryCodes;
+};
+
+export const disableTwoFactor = async (password: string, code: string): Promise<void> => {
+  await apiFetch<{ message: string }>("/auth/2fa/disable", {
+    method: "POST",
+    body: JSON.stringify({ password, code }),
+  });
+};
+
+export const getSessions = async (): Promise<Session[]> => {
+  return apiFetch<Session[]>("/auth/sessions");
+};
+
+export const revokeSession = async (id: string): Promise<void> => {
+  await apiFetch<void>(`/auth/sessions/${encodeURIComponent(id)}`, { method: "DELETE" });
+};
+
+/** Logs out every device, this one included. */
+export const revokeAllSessions = async (): Promise<void> => {
+  await apiFetch<void>("/auth/sessions", { method: "DELETE" });
+};
+
+// Admin
+
+export const getAdminStats = async (): Promise<AdminStats> => {
+  return apiFetch<AdminStats>("/admin/stats");
+};
+
+export const getAdminUsers = async (page = 1, search = ""): Promise<AdminUsersPage> => {
+  const params = new URLSearchParams({ page: String(page) });
+  if (search) params.set("search", search);
+  return apiFetch<AdminUsersPage>(`/admin/users?${params}`);
+};
+
+export const setUserRole = async (
+  id: string,
+  role: AdminUser["role"]
+): Promise<Pick<AdminUser, "id" | "email" | "role">> => {
+  return apiFetch(`/admin/users/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ role }),
+  });
+};
+
+export const cleanupDemoUsers = async (all = false): Promise<{ users: number; items: number }> => {
+  return apiFetch("/admin/demo-users/cleanup", {
+    method: "POST",
+    body: JSON.stringify({ all }),
+  });
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  return apiFetch<CacheStats>("/admin/cache");
+};
+
+export const purgeCache = async (scope: CacheScope): Promise<number> => {
+  const data = await apiFetch<{ deleted: number }>(`/admin/cache/${scope}`, { method: "DELETE" });
+  return data.deleted;
+};
+
+export const getAdminInvites = async (): Promise<AdminInvite[]> => {
+  return apiFetch<AdminInvite[]>("/admin/invites");
+};
+
+export const createAdminInvite = async (input: AdminInviteInput): Promise<AdminInvite> => {
+  return apiFetch<AdminInvite>("/admin/invites", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+};
+
+export const revokeAdminInvite = async (id: string): Promise<void> => {
+  await apiFetch<void>(`/admin/invites/${encodeURIComponent(id)}`, { method: "DELETE" });
+};
@@ -0,0 +1,91 @@
+import type { StateStorage } from "zustand/middleware";
+
+// Local IndexedDB used for the offline watchlist snapshot and the outbound mutation queue
+const DB_NAME = "scenestack";
+const DB_VERSION = 1;
+const KV_STORE = "kv";
+const MUTATION_STORE = "mutations";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KV_STORE)) {
+          db.createObjectStore(KV_STORE);
+        }
+        if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+          db.createObjectStore(MUTATION_STORE, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Storage adapter for zustand's `persist` middleware.
+ */
+export const idbStorage: StateStorage = {
+  getItem: async (name) => (await run<string | undefined>(KV_STORE, "readonly", (store) => store.get(name))) ?? null,
+  setItem: async (name, value) => {
+    await run(KV_STORE, "readwrite", (store) => store.put(value, name));
+  },
+  removeItem: async (name) => {
+    await run(KV_STORE, "readwrite", (store) => store.delete(name));
+  },
+};
+
+export interface QueuedMutation<T> {
+  seq: number;
+  mutation: T;
+  queuedAt: string;
+}
+
+export const enqueueMutation = async <T>(mutation: T): Promise<void> => {
+  await run(MUTATION_STORE, "readwrite", (store) =>
+    store.add({ mutation, queuedAt: new Date().toISOString() })
+  );
+};
+
+/** Queued mutations, oldest first. */
+export const getQueuedMutations = async <T>(): Promise<QueuedMutation<T>[]> => {
+  return run<QueuedMutation<T>[]>(MUTATION_STORE, "readonly", (store) => store.getAll());
+};
+
+export const countQueuedMutations = async (): Promise<number> => {
+  return run(MUTATION_STORE, "readonly", (store) => store.count());
+};
+
+export const removeQueuedMutation = async (seq: number): Promise<void> => {
+  await run(MUTATION_STORE, "readwrite", (store) => store.delete(seq));
+};
+
+/** Wipe the cached watchlist and any unsent changes, e.g. on logout. */
+export const clearOfflineData = async (): Promise<void> => {
+  await Promise.all([
+    run(KV_STORE, "readwrite", (store) => store.clear()),
+    run(MUTATION_STORE, "readwrite", (store) => store.clear()),
+  ]);
+};
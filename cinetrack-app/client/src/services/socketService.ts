@@ -1,29 +1,42 @@
 import { io, Socket } from "socket.io-client";
-import { getAuthToken } from "../contexts/AuthContext";
-import type { WatchlistItem } from "../types/types";
+import { getAuthToken, refreshAccessToken } from "../contexts/AuthContext";
+import type { WatchlistItem, WatchlistDelta, AppNotification, CustomList } from "../types/types";
 
 type WatchlistUpdateHandler = (item: WatchlistItem) => void;
+type WatchlistDeltaHandler = (delta: WatchlistDelta) => void;
 type WatchlistDeleteHandler = (data: { id: number }) => void;
 type WatchlistSyncHandler = (data: { trigger: string }) => void;
+type ReconnectHandler = () => void;
+type NotificationHandler = (notification: AppNotification) => void;
+type NotificationReadHandler = (data: { ids?: string[]; all?: boolean }) => void;
+type NotificationDismissHandler = (data: { id: string }) => void;
+type ListUpdateHandler = (list: CustomList) => void;
+type ListDeleteHandler = (data: { id: string }) => void;
+
+// How many times in a row to fetch a new access token after the server turns the socket away
+const MAX_RESUME_ATTEMPTS = 3;
 
 class SocketService {
     private socket: Socket | null = null;
     private updateHandlers: WatchlistUpdateHandler[] = [];
+    private deltaHandlers: WatchlistDeltaHandler[] = [];
     private deleteHandlers: WatchlistDeleteHandler[] = [];
     private syncHandlers: WatchlistSyncHandler[] = [];
+    private reconnectHandlers: ReconnectHandler[] = [];
+    private notificationHandlers: NotificationHandler[] = [];
+    private notificationReadHandlers: NotificationReadHandler[] = [];
+    private notificationDismissHandlers: NotificationDismissHandler[] = [];
+    private listUpdateHandlers: ListUpdateHandler[] = [];
+    private listDeleteHandlers: ListDeleteHandler[] = [];
+    private resumeAttempts = 0;
 
     connect() {
         if (this.socket?.connected) return;
 
-        const token = getAuthToken();
-        if (!token) {
-            console.log("Socket: No auth token, skipping connection");
-            return;
-        }
-
-        // Connect to the same origin
+        // Connect to the same origin. The token is read on every attempt since access tokens rotate;
+        // without one the server rejects the handshake and resumeSession() gets a fresh token.
         this.socket = io({
-            auth: { token },
+            auth: (cb) => cb({ token: getAuthToken() }),
             transports: ["websocket", "polling"],
             reconnection: true,
             reconnectionAttempts: 10,
@@ -32,22 +45,44 @@ class SocketService {
             timeout: 20000,
         });
 
+        // Set when the connection drops or the first attempt fails (e.g. the app started offline)
+        let interrupted = false;
+
         this.socket.on("connect", () => {
             console.log("Socket: Connected for real-time sync");
+            this.resumeAttempts = 0;
+            if (interrupted) {
+                interrupted = false;
+                this.reconnectHandlers.forEach(handler => handler());
+            }
         });
 
         this.socket.on("disconnect", (reason) => {
             console.log("Socket: Disconnected -", reason);
+            interrupted = true;
+            // The server cut us off, e.g. the session was revoked
+            if (reason === "io server disconnect") {
+                this.resumeSession();
+            }
         });
 
         this.socket.on("connect_error", (error) => {
             console.error("Socket: Connection error -", error.message);
+            interrupted = true;
+            // Network errors retry on their own; an inactive socket means the server rejected the token
+            if (!this.socket?.active) {
+                this.resumeSession();
+            }
         });
 
         this.socket.on("watchlist:update", (item: WatchlistItem) => {
             this.updateHandlers.forEach(handler => handler(item));
         });
 
+        this.socket.on("watchlist:delta", (delta: WatchlistDelta) => {
+            this.deltaHandlers.forEach(handler => handler(delta));
+        });
+
         this.socket.on("watchlist:delete", (data: { id: number }) => {
             this.deleteHandlers.forEach(handler => handler(data));
         });
@@ -55,6 +90,44 @@ class SocketService {
         this.socket.on("watchlist:sync", (data: { trigger: string }) => {
             this.syncHandlers.forEach(handler => handler(data));
         });
+
+        this.socket.on("notification:new", (notification: AppNotification) => {
+            this.notificationHandlers.forEach(handler => handler(notification));
+        });
+
+        this.socket.on("notification:read", (data: { ids?: string[]; all?: boolean }) => {
+            this.notificationReadHandlers.forEach(handler => handler(data));
+        });
+
+        this.socket.on("notification:dismiss", (data: { id: string }) => {
+            this.notificationDismissHandlers.forEach(handler => handler(data));
+        });
+
+        this.socket.on("list:update", (list: CustomList) => {
+            this.listUpdateHandlers.forEach(handler => handler(list));
+        });
+
+        this.socket.on("list:delete", (data: { id: string }) => {
+            this.listDeleteHandlers.forEach(handler => handler(data));
+        });
+    }
+
+    /**
+     * Get a new access token and reconnect. If the session was revoked the refresh fails and
+     * AuthContext logs the user out, which tears this socket down.
+     */
+    private resumeSession() {
+        const socket = this.socket;
+        if (!socket || this.resumeAttempts >= MAX_RESUME_ATTEMPTS) return;
+        this.resumeAttempts++;
+
+        refreshAccessToken()
+            .then((token) => {
+                if (token && this.socket === socket) {
+                    socket.connect();
+                }
+            })
+            .catch((err) => console.error("Socket: Could not resume session -", err));
     }
 
     disconnect() {
@@ -71,6 +144,13 @@ class SocketService {
         };
     }
 
+    onDelta(handler: WatchlistDeltaHandler) {
+        this.deltaHandlers.push(handler);
+        return () => {
+            this.deltaHandlers = this.deltaHandlers.filter(h => h !== handler);
+        };
+    }
+
     onDelete(handler: WatchlistDeleteHandler) {
         this.deleteHandlers.push(handler);
         return () => {
@@ -85,6 +165,48 @@ class SocketService {
         };
     }
 
+    onReconnect(handler: ReconnectHandler) {
+        this.reconnectHandlers.push(handler);
+        return () => {
+            this.reconnectHandlers = this.reconnectHandlers.filter(h => h !== handler);
+        };
+    }
+
+    onNotification(handler: NotificationHandler) {
+        this.notificationHandlers.push(handler);
+        return () => {
+            this.notificationHandlers = this.notificationHandlers.filter(h => h !== handler);
+        };
+    }
+
+    onNotificationRead(handler: NotificationReadHandler) {
+        this.notificationReadHandlers.push(handler);
+        return () => {
+            this.notificationReadHandlers = this.notificationReadHandlers.filter(h => h !== handler);
+        };
+    }
+
+    onNotificationDismiss(handler: NotificationDismissHandler) {
+        this.notificationDismissHandlers.push(handler);
+        return () => {
+            this.notificationDismissHandlers = this.notificationDismissHandlers.filter(h => h !== handler);
+        };
+    }
+
+    onListUpdate(handler: ListUpdateHandler) {
+        this.listUpdateHandlers.push(handler);
+        return () => {
+            this.listUpdateHandlers = this.listUpdateHandlers.filter(h => h !== handler);
+        };
+    }
+
+    onListDelete(handler: ListDeleteHandler) {
+        this.listDeleteHandlers.push(handler);
+        return () => {
+            this.listDeleteHandlers = this.listDeleteHandlers.filter(h => h !== handler);
+        };
+    }
+
     isConnected(): boolean {
         return this.socket?.connected ?? false;
     }
@@ -1,4 +1,3 @@
-import { TMDB_API_BASE_URL } from "../constants/constants";
 import type {
   SearchResult,
   MovieDetail,
@@ -10,173 +9,69 @@ import type {
   WatchProviderCountry,
 } from "../types/types";
 
-const TMDB_API_READ_ACCESS_TOKEN = import.meta.env.VITE_TMDB_API_READ_ACCESS_TOKEN;
-const API_BASE_URL = "/api/tmdb";
-
-const fetchFromTMDB = async <T>(endpoint: string): Promise<T> => {
-  const url = `${TMDB_API_BASE_URL}/${endpoint}`;
-  const options = {
-    method: "GET",
-    headers: {
-      accept: "application/json",
-      Authorization: `Bearer ${TMDB_API_READ_ACCESS_TOKEN}`,
-    },
-  };
-
-  const response = await fetch(url, options);
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    console.error("TMDB API Error:", errorData);
-    throw new Error(`TMDB API request failed: ${response.statusText}`);
-  }
-  return response.json();
-};
+// The server proxies whichever metadata provider it is configured with (TMDB by default)
+const API_BASE_URL = "/api/metadata";
 
 const fetchFromProxy = async <T>(endpoint: string): Promise<T> => {
   const response = await fetch(`${API_BASE_URL}${endpoint}`);
   if (!response.ok) {
-    throw new Error(`Proxy API error: ${response.status}`);
+    throw new Error(`Metadata API error: ${response.status}`);
   }
   return response.json();
 };
 
-const fetchWithFallback = async <T>(
-  proxyEndpoint: string,
-  tmdbFallback: () => Promise<T>
-): Promise<T> => {
-  try {
-    return await fetchFromProxy<T>(proxyEndpoint);
-  } catch (err) {
-    console.warn("Proxy failed, falling back to direct TMDB:", err);
-    return tmdbFallback();
-  }
-};
+export interface DiscoverData {
+  trending: SearchResult[];
+  popularMovies: SearchResult[];
+  popularTV: SearchResult[];
+}
+
+export const getDiscover = (): Promise<DiscoverData> =>
+  fetchFromProxy<DiscoverData>("/discover");
 
 export const searchMedia = async (query: string): Promise<SearchResult[]> => {
-  const data = await fetchWithFallback<{ results: SearchResult[] }>(
-    `/search?q=${encodeURIComponent(query)}`,
-    async () => {
-      const response = await fetchFromTMDB<{ results: SearchResult[] }>(
-        `search/multi?query=${encodeURIComponent(query)}`
-      );
-      return {
-        results: response.results.filter(
-          (item) => item.media_type === "movie" || item.media_type === "tv"
-        ),
-      };
-    }
+  const data = await fetchFromProxy<{ results: SearchResult[] }>(
+    `/search?q=${encodeURIComponent(query)}`
   );
   return data.results;
 };
 
-export const getTrendingMedia = async (): Promise<SearchResult[]> => {
-  const data = await fetchFromTMDB<{ results: SearchResult[] }>(
-    `trending/all/week`
-  );
-  return data.results.filter(
-    (item) => item.media_type === "movie" || item.media_type === "tv"
-  );
-};
-
-export const getPopularMovies = async (): Promise<SearchResult[]> => {
-  const data = await fetchFromTMDB<{
-    results: Omit<SearchResult, "media_type">[];
-  }>(`movie/popular`);
-  return data.results.map((item) => ({ ...item, media_type: "movie" }));
-};
-
-export const getPopularTVShows = async (): Promise<SearchResult[]> => {
-  const data = await fetchFromTMDB<{
-    results: Omit<SearchResult, "media_type">[];
-  }>(`tv/popular`);
-  // Explicitly add media_type as it might be missing from this endpoint
-  return data.results.map((item) => ({ ...item, media_type: "tv" }));
-};
+export const getMovieDetails = (id: number): Promise<MovieDetail> =>
+  fetchFromProxy<MovieDetail>(`/details/movie/${id}`);
 
-export const getMovieDetails = async (id: number): Promise<MovieDetail> => {
-  return fetchWithFallback<MovieDetail>(
-    `/details/movie/${id}`,
-    async () => {
-      const details = await fetchFromTMDB<Omit<MovieDetail, "media_type">>(
-        `movie/${id}?append_to_response=videos,credits,images`
-      );
-      return { ...details, media_type: "movie" };
-    }
-  );
-};
+export const getTVDetails = (id: number): Promise<TVDetail> =>
+  fetchFromProxy<TVDetail>(`/details/tv/${id}`);
 
-export const getTVDetails = async (id: number): Promise<TVDetail> => {
-  return fetchWithFallback<TVDetail>(
-    `/details/tv/${id}`,
-    async () => {
-      const details = await fetchFromTMDB<Omit<TVDetail, "media_type">>(
-        `tv/${id}?append_to_response=videos,credits,images`
-      );
-      return { ...details, media_type: "tv" };
-    }
-  );
-};
-
-export const getTVSeasonDetails = async (
+export const getTVSeasonDetails = (
   tvId: number,
   seasonNumber: number
-): Promise<SeasonDetail> => {
-  return fetchWithFallback<SeasonDetail>(
-    `/season/${tvId}/${seasonNumber}`,
-    () => fetchFromTMDB<SeasonDetail>(`tv/${tvId}/season/${seasonNumber}`)
-  );
-};
+): Promise<SeasonDetail> =>
+  fetchFromProxy<SeasonDetail>(`/season/${tvId}/${seasonNumber}`);
 
-export const getWatchProviders = async (
+export const getWatchProviders = (
   id: number,
   media_type: "movie" | "tv"
-): Promise<WatchProvidersResponse> => {
-  return fetchWithFallback<WatchProvidersResponse>(
-    `/providers/${media_type}/${id}`,
-    () => fetchFromTMDB<WatchProvidersResponse>(`${media_type}/${id}/watch/providers`)
-  );
-};
+): Promise<WatchProvidersResponse> =>
+  fetchFromProxy<WatchProvidersResponse>(`/providers/${media_type}/${id}`);
 
 export const getMovieRecommendations = async (
   id: number
 ): Promise<SearchResult[]> => {
-  const data = await fetchWithFallback<{ results: SearchResult[] }>(
-    `/recommendations/movie/${id}`,
-    async () => {
-      const response = await fetchFromTMDB<{ results: Omit<SearchResult, "media_type">[] }>(
-        `movie/${id}/recommendations`
-      );
-      return { results: response.results.map((item) => ({ ...item, media_type: "movie" as const })) };
-    }
-  );
+  const data = await fetchFromProxy<{ results: SearchResult[] }>(`/recommendations/movie/${id}`);
   return data.results;
 };
 
 export const getTVRecommendations = async (
   id: number
 ): Promise<SearchResult[]> => {
-  const data = await fetchWithFallback<{ results: SearchResult[] }>(
-    `/recommendations/tv/${id}`,
-    async () => {
-      const response = await fetchFromTMDB<{ results: Omit<SearchResult, "media_type">[] }>(
-        `tv/${id}/recommendations`
-      );
-      return { results: response.results.map((item) => ({ ...item, media_type: "tv" as const })) };
-    }
-  );
+  const data = await fetchFromProxy<{ results: SearchResult[] }>(`/recommendations/tv/${id}`);
   return data.results;
 };
 
-export const getMediaImages = async (
+export const getMediaImages = (
   id: number,
   media_type: "movie" | "tv"
-) => {
-  return fetchWithFallback<{ logos: LogoImage[] }>(
-    `/images/${media_type}/${id}`,
-    () => fetchFromTMDB<{ logos: LogoImage[] }>(`${media_type}/${id}/images`)
-  );
-};
+) => fetchFromProxy<{ logos: LogoImage[] }>(`/images/${media_type}/${id}`);
 
 export const getBestLogo = (logos?: LogoImage[]): LogoImage | null => {
   if (!logos || logos.length === 0) return null;
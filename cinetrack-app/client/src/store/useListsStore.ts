@@ -0,0 +1,156 @@
+import { create } from 'zustand';
+import * as dbService from '../services/dbService';
+import type { CustomList } from '../types/types';
+
+interface ListsState {
+    lists: CustomList[];
+    isLoading: boolean;
+    error: string | null;
+
+    loadLists: () => Promise<void>;
+    createList: (name: string, description: string) => Promise<CustomList | null>;
+    updateList: (listId: string, changes: { name?: string; description?: string }) => Promise<void>;
+    deleteList: (listId: string) => Promise<void>;
+    addToList: (listId: string, itemId: number) => Promise<void>;
+    removeFromList: (listId: string, itemId: number) => Promise<void>;
+    reorderList: (listId: string, itemIds: number[]) => Promise<void>;
+    setError: (error: string | null) => void;
+    reset: () => void;
+
+    // Socket Helpers
+    applyList: (list: CustomList) => void;
+    applyListDelete: (listId: string) => void;
+    removeItemEverywhere: (itemId: number) => void;
+}
+
+const replaceList = (lists: CustomList[], listId: string, update: (list: CustomList) => CustomList) =>
+    lists.map(list => (list._id === listId ? update(list) : list));
+
+export const useListsStore = create<ListsState>((set, get) => {
+    // Optimistically edit one list, then send; on failure restore and report
+    const mutateList = async (
+        listId: string,
+        update: (list: CustomList) => CustomList,
+        send: () => Promise<CustomList>,
+        errorMessage: string
+    ) => {
+        const { lists } = get();
+        if (!lists.some(list => list._id === listId)) return;
+
+        set({ lists: replaceList(lists, listId, update), error: null });
+        try {
+            get().applyList(await send());
+        } catch (err) {
+            console.error(err);
+            set({ lists, error: errorMessage });
+        }
+    };
+
+    return {
+        lists: [],
+        isLoading: false,
+        error: null,
+
+        loadLists: async () => {
+            set({ isLoading: true, error: null });
+            try {
+                const lists = await dbService.getLists();
+                set({ lists, isLoading: false });
+            } catch (err) {
+                console.error("Failed to load lists", err);
+                set({ error: "Could not load your lists.", isLoading: false });
+            }
+        },
+
+        createList: async (name, description) => {
+            set({ error: null });
+            try {
+                const list = await dbService.createList(name, description);
+                get().applyList(list);
+                return list;
+            } catch (err) {
+                console.error(err);
+                set({ error: err instanceof Error ? err.message : "Failed to create list." });
+                return null;
+            }
+        },
+
+        updateList: (listId, changes) =>
+            mutateList(
+                listId,
+                list => ({ ...list, ...changes }),
+                () => dbService.updateList(listId, changes),
+                "Failed to update list. Please try again."
+            ),
+
+        deleteList: async (listId) => {
+            const { lists } = get();
+            get().applyListDelete(listId);
+            try {
+                await dbService.deleteList(listId);
+            } catch (err) {
+                console.error(err);
+                set({ lists, error: "Failed to delete list. Please try again." });
+            }
+        },
+
+        addToList: (listId, itemId) =>
+            mutateList(
+                listId,
+                list => (list.itemIds.includes(itemId) ? list : { ...list, itemIds: [...list.itemIds, itemId] }),
+                () => dbService.addItemToList(listId, itemId),
+                "Failed to add to list. Please try again."
+            ),
+
+        removeFromList: (listId, itemId) =>
+            mutateList(
+                listId,
+                list => ({ ...list, itemIds: list.itemIds.filter(id => id !== itemId) }),
+                () => dbService.removeItemFromList(listId, itemId),
+                "Failed to remove from list. Please try again."
+            ),
+
+        reorderList: async (listId, itemIds) => {
+            await mutateList(
+                listId,
+                list => ({ ...list, itemIds }),
+                () => dbService.reorderListItems(listId, itemIds),
+                "Failed to reorder list. Please try again."
+            );
+            // A rejected reorder usually means the list changed elsewhere; pick up the latest copy
+            if (get().error) {
+                get().loadLists();
+            }
+        },
+
+        setError: (error) => set({ error }),
+
+        reset: () => set({ lists: [], isLoading: false, error: null }),
+
+        applyList: (list) => {
+            const { lists } = get();
+            const existing = lists.find(l => l._id === list._id);
+            if (!existing) {
+                set({ lists: [...lists, list] });
+            } else if (list.updatedAt >= existing.updatedAt) {
+                set({ lists: replaceList(lists, list._id, () => list) });
+            }
+        },
+
+        applyListDelete: (listId) => {
+            set({ lists: get().lists.filter(list => list._id !== listId) });
+        },
+
+        removeItemEverywhere: (itemId) => {
+            const { lists } = get();
+            if (!lists.some(list => list.itemIds.includes(itemId))) return;
+            set({
+                lists: lists.map(list =>
+                    list.itemIds.includes(itemId)
+                        ? { ...list, itemIds: list.itemIds.filter(id => id !== itemId) }
+                        : list
+                ),
+            });
+        },
+    };
+});
@@ -0,0 +1,120 @@
+import { create } from 'zustand';
+import * as dbService from '../services/dbService';
+import type { AppNotification } from '../types/types';
+
+interface NotificationState {
+    notifications: AppNotification[];
+    unreadCount: number;
+    isLoading: boolean;
+    isRefreshing: boolean;
+    error: string | null;
+
+    loadNotifications: () => Promise<void>;
+    refreshNotifications: () => Promise<void>;
+    markRead: (id: string) => Promise<void>;
+    markAllRead: () => Promise<void>;
+    dismiss: (id: string) => Promise<void>;
+
+    // Socket Helpers
+    receiveNotification: (notification: AppNotification) => void;
+    applyRead: (data: { ids?: string[]; all?: boolean }) => void;
+    applyDismiss: (id: string) => void;
+}
+
+export const useNotificationStore = create<NotificationState>((set, get) => ({
+    notifications: [],
+    unreadCount: 0,
+    isLoading: false,
+    isRefreshing: false,
+    error: null,
+
+    loadNotifications: async () => {
+        set({ isLoading: true, error: null });
+        try {
+            const { notifications, unreadCount } = await dbService.getNotifications();
+            set({ notifications, unreadCount, isLoading: false });
+        } catch (err) {
+            console.error("Failed to load notifications", err);
+            set({ error: "Could not load notifications.", isLoading: false });
+        }
+    },
+
+    refreshNotifications: async () => {
+        set({ isRefreshing: true, error: null });
+        try {
+            await dbService.refreshNotifications();
+            const { notifications, unreadCount } = await dbService.getNotifications();
+            set({ notifications, unreadCount, isRefreshing: false });
+        } catch (err) {
+            console.error("Failed to refresh notifications", err);
+            set({ error: "Could not check for new episodes.", isRefreshing: false });
+        }
+    },
+
+    markRead: async (id) => {
+        const { notifications, unreadCount } = get();
+        const target = notifications.find(n => n._id === id);
+        if (!target || target.read) return;
+
+        get().applyRead({ ids: [id] });
+        try {
+            await dbService.markNotificationRead(id);
+        } catch (err) {
+            set({ notifications, unreadCount });
+            console.error(err);
+        }
+    },
+
+    markAllRead: async () => {
+        const { notifications, unreadCount } = get();
+        get().applyRead({ all: true });
+        try {
+            await dbService.markAllNotificationsRead();
+        } catch (err) {
+            set({ notifications, unreadCount });
+            console.error(err);
+        }
+    },
+
+    dismiss: async (id) => {
+        const { notifications, unreadCount } = get();
+        get().applyDismiss(id);
+        try {
+            await dbService.dismissNotification(id);
+        } catch (err) {
+            set({ notifications, unreadCount });
+            console.error(err);
+        }
+    },
+
+    receiveNotification: (notification) => {
+        const { notifications } = get();
+        if (notifications.some(n => n._id === notification._id)) return;
+        set({
+            notifications: [notification, ...notifications],
+            unreadCount: get().unreadCount + (notification.read ? 0 : 1),
+        });
+    },
+
+    applyRead: ({ ids, all }) => {
+        const { notifications, unreadCount } = get();
+        const idSet = new Set(ids);
+        const newlyRead = notifications.filter(n => !n.read && idSet.has(n._id)).length;
+        set({
+            notifications: notifications.map(n =>
+                all || idSet.has(n._id) ? { ...n, read: true } : n
+            ),
+            unreadCount: all ? 0 : Math.max(0, unreadCount - newlyRead),
+        });
+    },
+
+    applyDismiss: (id) => {
+        const { notifications, unreadCount } = get();
+        const target = notifications.find(n => n._id === id);
+        if (!target) return;
+        set({
+            notifications: notifications.filter(n => n._id !== id),
+            unreadCount: target.read ? unreadCount : Math.max(0, unreadCount - 1),
+        });
+    },
+}));
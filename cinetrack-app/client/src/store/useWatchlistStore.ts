@@ -1,7 +1,12 @@
 import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import * as dbService from '../services/dbService';
+import * as localDb from '../services/localDb';
 import { socketService } from '../services/socketService';
 import { getMovieDetails, getTVDetails } from '../services/tmdbService';
+import { mergeWatchlistItems, applyWatchlistDelta, applyWatchlistPatch } from '../utils/watchlistMerge';
+import { buildLetterboxdCsvs } from '../utils/letterboxd';
+import { batchImportEntries } from '../utils/importEntries';
 import type {
     WatchlistItem,
     MovieDetail,
@@ -9,8 +14,27 @@ import type {
     SearchResult,
     MovieWatchlistItem,
     TVWatchlistItem,
+    WatchlistDelta,
+    WatchlistPatch,
+    StatusOverride,
+    EpisodeSet,
+    WatchEventInput,
+    ImportEntry,
+    ImportSummary,
 } from '../types/types';
 
+/**
+ * A server write, in a form that can be stored in the offline queue and replayed later.
+ */
+type WatchlistMutation =
+    | { type: 'put'; item: WatchlistItem; base?: WatchlistItem }
+    | { type: 'delete'; id: number }
+    | { type: 'episodes'; id: number; changes: { add?: EpisodeSet[]; remove?: EpisodeSet[] } }
+    | { type: 'patch'; id: number; changes: WatchlistPatch }
+    | { type: 'history'; id: number; events: WatchEventInput[] };
+
+export type RatingChanges = Pick<WatchlistPatch, 'userRating' | 'review' | 'seasonRating' | 'episodeRating'>;
+
 interface WatchlistState {
     watchlist: WatchlistItem[];
     isLoading: boolean;
@@ -20,37 +44,148 @@ interface WatchlistState {
     paginationState: {
         watchlist: { hasMore: boolean; page: number; loading: boolean };
         watching: { hasMore: boolean; page: number; loading: boolean };
+        caught_up: { hasMore: boolean; page: number; loading: boolean };
         watched: { hasMore: boolean; page: number; loading: boolean };
+        on_hold: { hasMore: boolean; page: number; loading: boolean };
+        dropped: { hasMore: boolean; page: number; loading: boolean };
     };
 
     recommendations: SearchResult[];
     recommendationsLoading: boolean;
 
+    // Offline support
+    isOffline: boolean;
+    pendingMutations: number;
+
     setWatchlist: (items: WatchlistItem[]) => void;
     setIsLoading: (isLoading: boolean) => void;
     setError: (error: string | null) => void;
     setActiveTagFilter: (tag: string | null) => void;
+    reset: () => void;
 
     // Async Operations
     loadWatchlist: () => Promise<void>;
-    loadMoreByStatus: (status: 'watchlist' | 'watching' | 'watched') => Promise<void>;
+    loadMoreByStatus: (status: dbService.WatchlistStatus) => Promise<void>;
+    loadAllByStatus: (status: dbService.WatchlistStatus) => Promise<void>;
     toggleWatchlist: (media: MovieDetail | TVDetail) => Promise<void>;
     toggleWatchlistFromSearchResult: (media: SearchResult) => Promise<void>;
     toggleMovieWatched: (movieId: number) => Promise<void>;
     toggleEpisodeWatched: (tvId: number, seasonNumber: number, episodeNumber: number) => Promise<void>;
     toggleSeasonWatched: (tvId: number, seasonNumber: number, allEpisodeNumbers: number[]) => Promise<void>;
+    logRewatch: (mediaId: number, seasonNumber?: number, episodeNumber?: number) => Promise<void>;
     updateTags: (mediaId: number, newTags: string[]) => Promise<void>;
+    updateRating: (mediaId: number, changes: RatingChanges) => Promise<void>;
+    setStatusOverride: (mediaId: number, override: Pick<StatusOverride, 'status' | 'reason'> | null) => Promise<void>;
     exportWatchlist: () => Promise<void>;
     importWatchlist: (file: File) => Promise<void>;
+    exportLetterboxd: () => void;
+    mergeImport: (
+        entries: ImportEntry[],
+        options?: { overwriteConflicts?: boolean; onProgress?: (done: number) => void }
+    ) => Promise<ImportSummary>;
+    restoreBackup: (backupId: string) => Promise<void>;
+    restoreBackupFile: (file: File) => Promise<void>;
+    downloadBackup: (backupId: string, createdAt: string) => Promise<void>;
     fetchRecommendations: (refresh?: boolean) => Promise<void>;
+    commitMutation: (mutation: WatchlistMutation) => Promise<void>;
+    flushMutations: () => Promise<number>;
 
-    syncItem: (item: WatchlistItem) => void;
+    syncItem: (update: WatchlistItem | WatchlistDelta) => void;
+    syncWatchResult: (saved: WatchlistItem) => void;
     deleteItem: (id: number) => void;
 }
 
-// Track pending local operations to avoid duplicate updates from socket
-// This is a module-level singleton, consistent with the store being a singleton
-const pendingOps = new Set<number>();
+const MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * PUT an item, merging with the server copy and retrying when another device
+ * saved a newer revision in the meantime. `base` is what the local edit started from.
+ */
+const saveWithMerge = async (
+    base: WatchlistItem | undefined,
+    local: WatchlistItem
+): Promise<WatchlistItem> => {
+    let attempt = local;
+    for (let retries = 0; ; retries++) {
+        try {
+            return await dbService.putWatchlistItem(attempt);
+        } catch (err) {
+            if (!(err instanceof dbService.ConflictError) || retries >= MAX_CONFLICT_RETRIES) {
+                throw err;
+            }
+            attempt = mergeWatchlistItems(base, attempt, err.current);
+            base = err.current;
+        }
+    }
+};
+
+const initialPaginationState: WatchlistState['paginationState'] = {
+    watchlist: { hasMore: true, page: 0, loading: false },
+    watching: { hasMore: true, page: 0, loading: false },
+    caught_up: { hasMore: true, page: 0, loading: false },
+    watched: { hasMore: true, page: 0, loading: false },
+    on_hold: { hasMore: true, page: 0, loading: false },
+    dropped: { hasMore: true, page: 0, loading: false },
+};
+
+// fetch() rejects with a TypeError when the request never reached the server
+const isNetworkError = (err: unknown) =>
+    err instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+
+const sendMutation = (mutation: WatchlistMutation): Promise<WatchlistItem | WatchlistDelta | void> => {
+    switch (mutation.type) {
+        case 'put':
+            return saveWithMerge(mutation.base, mutation.item);
+        case 'delete':
+            return dbService.deleteWatchlistItem(mutation.id);
+        case 'episodes':
+            return dbService.updateEpisodes(mutation.id, mutation.changes);
+        case 'patch':
+            return dbService.patchWatchlistItem(mutation.id, mutation.changes);
+        case 'history':
+            return dbService.recordWatchEvents(mutation.id, mutation.events);
+    }
+};
+
+// Only one replay at a time; later callers share the running one
+let flushPromise: Promise<number> | null = null;
+
+// Socket events for changes we already applied carry a revision we have already seen
+const isStale = (incoming: WatchlistItem | WatchlistDelta, existing: WatchlistItem) =>
+    incoming.revision !== undefined &&
+    existing.revision !== undefined &&
+    incoming.revision <= existing.revision;
+
+const isDelta = (update: WatchlistItem | WatchlistDelta): update is WatchlistDelta =>
+    !("media_type" in update);
+
+// Exports from older builds carry full TMDB details; drop them so the file fits the request size limit
+const DETAIL_FIELDS = ["images", "videos", "credits", "keywords", "recommendations", "similar", "reviews"];
+
+const stripDetailFields = (data: unknown): unknown => {
+    const strip = (items: unknown[]) =>
+        items.map((item) => {
+            const copy = { ...(item as Record<string, unknown>) };
+            for (const field of DETAIL_FIELDS) delete copy[field];
+            return copy;
+        });
+    if (Array.isArray(data)) return strip(data);
+    if (data && typeof data === "object" && Array.isArray((data as { items?: unknown }).items)) {
+        return { ...data, items: strip((data as { items: unknown[] }).items) };
+    }
+    return data;
+};
+
+const downloadFile = (content: string, filename: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
 
 const stripMediaForStorage = (media: MovieDetail | TVDetail): Partial<MovieDetail | TVDetail> => {
     const copy = { ...media } as Record<string, unknown>;
@@ -64,60 +199,104 @@ const stripMediaForStorage = (media: MovieDetail | TVDetail): Partial<MovieDetai
     return copy as Partial<MovieDetail | TVDetail>;
 };
 
-export const useWatchlistStore = create<WatchlistState>((set, get) => ({
+// Fields the server derives from the watch history log
+const mergeWatchResult = (item: WatchlistItem, saved: WatchlistItem): WatchlistItem => ({
+    ...item,
+    watchlistStatus: saved.watchlistStatus,
+    lastWatchedAt: saved.lastWatchedAt,
+    revision: saved.revision,
+});
+
+export const useWatchlistStore = create<WatchlistState>()(persist((set, get) => ({
     watchlist: [],
     isLoading: true,
     error: null,
     activeTagFilter: null,
-    paginationState: {
-        watchlist: { hasMore: true, page: 0, loading: false },
-        watching: { hasMore: true, page: 0, loading: false },
-        watched: { hasMore: true, page: 0, loading: false },
-    },
+    paginationState: initialPaginationState,
     recommendations: [],
     recommendationsLoading: false,
+    isOffline: false,
+    pendingMutations: 0,
 
     setWatchlist: (items) => set({ watchlist: items }),
     setIsLoading: (isLoading) => set({ isLoading }),
     setError: (error) => set({ error }),
     setActiveTagFilter: (activeTagFilter) => set({ activeTagFilter }),
+    reset: () => set({
+        watchlist: [],
+        isLoading: true,
+        error: null,
+        activeTagFilter: null,
+        paginationState: initialPaginationState,
+        recommendations: [],
+        isOffline: false,
+        pendingMutations: 0,
+    }),
 
     loadWatchlist: async () => {
-        set({ isLoading: true });
+        // Show the cached copy straight away, then replace it with fresh data
+        if (get().watchlist.length === 0) {
+            await useWatchlistStore.persist.rehydrate();
+        }
+        set({
+            isLoading: get().watchlist.length === 0,
+            pendingMutations: await localDb.countQueuedMutations().catch(() => 0),
+        });
+
         try {
-            const [watchlistRes, watchingRes, watchedRes] = await Promise.all([
+            // Unsent changes go first so the fresh copy already includes them
+            await get().flushMutations();
+
+            const [watchlistRes, watchingRes, caughtUpRes, watchedRes, onHoldRes, droppedRes] = await Promise.all([
                 dbService.getWatchlistByStatus('watchlist', 1, 20),
                 dbService.getWatchlistByStatus('watching', 1, 20),
+                dbService.getWatchlistByStatus('caught_up', 1, 20),
                 dbService.getWatchlistByStatus('watched', 1, 20),
+                dbService.getWatchlistByStatus('on_hold', 1, 20),
+                dbService.getWatchlistByStatus('dropped', 1, 20),
             ]);
 
             const allItems = [
                 ...watchlistRes.items,
                 ...watchingRes.items,
+                ...caughtUpRes.items,
                 ...watchedRes.items,
+                ...onHoldRes.items,
+                ...droppedRes.items,
             ];
 
             set({
                 watchlist: allItems,
                 isLoading: false,
+                isOffline: false,
+                error: null,
                 paginationState: {
                     watchlist: { hasMore: watchlistRes.hasMore, page: 1, loading: false },
                     watching: { hasMore: watchingRes.hasMore, page: 1, loading: false },
+                    caught_up: { hasMore: caughtUpRes.hasMore, page: 1, loading: false },
                     watched: { hasMore: watchedRes.hasMore, page: 1, loading: false },
+                    on_hold: { hasMore: onHoldRes.hasMore, page: 1, loading: false },
+                    dropped: { hasMore: droppedRes.hasMore, page: 1, loading: false },
                 },
             });
             socketService.connect();
         } catch (err) {
             console.error("Failed to load watchlist from DB", err);
-            set({
-                error: "Could not load your watchlist. Please try refreshing.",
-                isLoading: false
-            });
+            if (isNetworkError(err) && get().watchlist.length > 0) {
+                set({ isOffline: true, isLoading: false });
+            } else {
+                set({
+                    error: "Could not load your watchlist. Please try refreshing.",
+                    isLoading: false
+                });
+            }
+            // Keep trying in the background; reconnecting replays queued changes
+            socketService.connect();
         }
     },
 
     loadMoreByStatus: async (status) => {
-        const { paginationState, watchlist } = get();
+        const { paginationState } = get();
         const categoryState = paginationState[status];
 
         if (!categoryState.hasMore || categoryState.loading) return;
@@ -133,11 +312,13 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
             const nextPage = categoryState.page + 1;
             const response = await dbService.getWatchlistByStatus(status, nextPage, 20);
 
-            const existingIds = new Set(watchlist.map(i => i.id));
+            // Other statuses may have loaded pages meanwhile, so merge into the current list
+            const current = get().watchlist;
+            const existingIds = new Set(current.map(i => i.id));
             const newItems = response.items.filter(item => !existingIds.has(item.id));
 
             set({
-                watchlist: [...watchlist, ...newItems],
+                watchlist: [...current, ...newItems],
                 paginationState: {
                     ...get().paginationState,
                     [status]: { hasMore: response.hasMore, page: nextPage, loading: false },
@@ -154,32 +335,81 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
         }
     },
 
+    loadAllByStatus: async (status) => {
+        const categoryState = get().paginationState[status];
+        if (!categoryState.hasMore || categoryState.loading) return;
+
+        set({
+            paginationState: {
+                ...get().paginationState,
+                [status]: { ...categoryState, loading: true },
+            },
+        });
+
+        try {
+            // Starts over in the largest pages the server allows; what's already loaded is skipped
+            const items: WatchlistItem[] = [];
+            let page = 0;
+            let hasMore = true;
+            while (hasMore) {
+                page++;
+                const response = await dbService.getWatchlistByStatus(status, page, 50);
+                items.push(...response.items);
+                hasMore = response.hasMore;
+            }
+
+            const current = get().watchlist;
+            const existingIds = new Set(current.map(i => i.id));
+            const newItems = items.filter(item => !existingIds.has(item.id));
+
+            set({
+                watchlist: [...current, ...newItems],
+                paginationState: {
+                    ...get().paginationState,
+                    // Nothing left for loadMoreByStatus to page in
+                    [status]: { hasMore: false, page: categoryState.page, loading: false },
+                },
+            });
+        } catch (err) {
+            console.error(`Failed to load all ${status} items`, err);
+            set({
+                paginationState: {
+                    ...get().paginationState,
+                    [status]: { ...categoryState, loading: false },
+                },
+            });
+        }
+    },
+
     toggleWatchlist: async (media) => {
         const { watchlist } = get();
         const exists = watchlist.some(item => item.id === media.id);
-        pendingOps.add(media.id);
 
         if (exists) {
             try {
-                await dbService.deleteWatchlistItem(media.id);
-                set({ watchlist: watchlist.filter(item => item.id !== media.id) });
+                await get().commitMutation({ type: 'delete', id: media.id });
+                set({ watchlist: get().watchlist.filter(item => item.id !== media.id) });
             } catch (err) {
                 set({ error: "Failed to remove item from watchlist." });
                 console.error(err);
             }
         } else {
+            const strippedMedia = stripMediaForStorage(media);
+            let newItem: WatchlistItem;
+            if (media.media_type === "movie") {
+                newItem = { ...strippedMedia, watched: false, tags: [] } as WatchlistItem;
+            } else {
+                newItem = { ...strippedMedia, watchedEpisodes: {}, tags: [] } as WatchlistItem;
+            }
+            set({ watchlist: [newItem, ...watchlist] });
+
             try {
-                const strippedMedia = stripMediaForStorage(media);
-                let newItem: WatchlistItem;
-                if (media.media_type === "movie") {
-                    newItem = { ...strippedMedia, watched: false, tags: [] } as WatchlistItem;
-                } else {
-                    newItem = { ...strippedMedia, watchedEpisodes: {}, tags: [] } as WatchlistItem;
-                }
-                await dbService.putWatchlistItem(newItem);
-                set({ watchlist: [newItem, ...watchlist] });
+                await get().commitMutation({ type: 'put', item: newItem });
             } catch (err) {
-                set({ error: "Failed to add item to watchlist." });
+                set({
+                    watchlist: get().watchlist.filter(item => item.id !== media.id),
+                    error: "Failed to add item to watchlist."
+                });
                 console.error(err);
             }
         }
@@ -191,9 +421,8 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
 
         if (exists) {
             try {
-                pendingOps.add(media.id);
-                await dbService.deleteWatchlistItem(media.id);
-                set({ watchlist: watchlist.filter(item => item.id !== media.id) });
+                await get().commitMutation({ type: 'delete', id: media.id });
+                set({ watchlist: get().watchlist.filter(item => item.id !== media.id) });
             } catch (err) {
                 set({ error: "Failed to remove item from watchlist." });
                 console.error(err);
@@ -220,7 +449,6 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
 
         if (!itemToUpdate) return;
 
-        pendingOps.add(movieId);
         const updatedItem = { ...itemToUpdate, watched: !itemToUpdate.watched };
 
         set({
@@ -228,7 +456,7 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
         });
 
         try {
-            await dbService.putWatchlistItem(updatedItem);
+            await get().commitMutation({ type: 'patch', id: movieId, changes: { watched: updatedItem.watched } });
         } catch (err) {
             set({
                 watchlist: watchlist.map((item) => (item.id === movieId ? itemToUpdate : item)),
@@ -246,8 +474,6 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
 
         if (!itemToUpdate) return;
 
-        pendingOps.add(tvId);
-
         const newWatchedEpisodes = { ...(itemToUpdate.watchedEpisodes || {}) };
         const seasonEpisodes = newWatchedEpisodes[seasonNumber]
             ? [...newWatchedEpisodes[seasonNumber]]
@@ -271,7 +497,12 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
         });
 
         try {
-            await dbService.putWatchlistItem(updatedItem);
+            const episodeSet = [{ seasonNumber, episodes: [episodeNumber] }];
+            await get().commitMutation({
+                type: 'episodes',
+                id: tvId,
+                changes: episodeIndex > -1 ? { remove: episodeSet } : { add: episodeSet },
+            });
         } catch (err) {
             set({
                 watchlist: watchlist.map((item) => (item.id === tvId ? itemToUpdate : item)),
@@ -289,12 +520,11 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
 
         if (!itemToUpdate) return;
 
-        pendingOps.add(tvId);
-
         const newWatchedEpisodes = { ...(itemToUpdate.watchedEpisodes || {}) };
         const seasonEpisodes = newWatchedEpisodes[seasonNumber] || [];
+        const unmarkAll = seasonEpisodes.length === allEpisodeNumbers.length;
 
-        if (seasonEpisodes.length === allEpisodeNumbers.length) {
+        if (unmarkAll) {
             newWatchedEpisodes[seasonNumber] = [];
         } else {
             newWatchedEpisodes[seasonNumber] = allEpisodeNumbers;
@@ -309,8 +539,16 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
             watchlist: watchlist.map((item) => (item.id === tvId ? updatedItem : item))
         });
 
+        const episodes = unmarkAll ? seasonEpisodes : allEpisodeNumbers;
+        if (episodes.length === 0) return;
+
         try {
-            await dbService.putWatchlistItem(updatedItem);
+            const episodeSet = [{ seasonNumber, episodes }];
+            await get().commitMutation({
+                type: 'episodes',
+                id: tvId,
+                changes: unmarkAll ? { remove: episodeSet } : { add: episodeSet },
+            });
         } catch (err) {
             set({
                 watchlist: watchlist.map((item) => (item.id === tvId ? itemToUpdate : item)),
@@ -320,82 +558,169 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
         }
     },
 
+    logRewatch: async (mediaId, seasonNumber, episodeNumber) => {
+        if (!get().watchlist.some((item) => item.id === mediaId)) return;
+
+        try {
+            await get().commitMutation({
+                type: 'history',
+                id: mediaId,
+                // Stamp the time now so a replayed rewatch keeps the real date
+                events: [{ action: "watch", rewatch: true, seasonNumber, episodeNumber, watchedAt: new Date().toISOString() }],
+            });
+        } catch (err) {
+            set({ error: "Failed to log rewatch. Please try again." });
+            console.error(err);
+        }
+    },
+
     updateTags: async (mediaId, newTags) => {
         const { watchlist } = get();
-        const itemToUpdate = await dbService.getWatchlistItem(mediaId);
+        const itemToUpdate = watchlist.find((item) => item.id === mediaId);
 
         if (itemToUpdate) {
-            pendingOps.add(mediaId);
             const updatedItem = { ...itemToUpdate, tags: newTags };
 
             set({
                 watchlist: watchlist.map((item) => (item.id === mediaId ? updatedItem : item))
             });
 
-            await dbService.putWatchlistItem(updatedItem);
+            try {
+                await get().commitMutation({ type: 'patch', id: mediaId, changes: { tags: newTags } });
+            } catch (err) {
+                set({
+                    watchlist: get().watchlist.map((item) => (item.id === mediaId ? itemToUpdate : item)),
+                    error: "Failed to save tags. Please try again."
+                });
+                console.error(err);
+            }
+        }
+    },
+
+    updateRating: async (mediaId, changes) => {
+        const { watchlist } = get();
+        const itemToUpdate = watchlist.find((item) => item.id === mediaId);
+        if (!itemToUpdate) return;
+
+        set({
+            watchlist: watchlist.map((item) => (item.id === mediaId ? applyWatchlistPatch(item, changes) : item))
+        });
+
+        try {
+            await get().commitMutation({ type: 'patch', id: mediaId, changes });
+        } catch (err) {
+            set({
+                watchlist: get().watchlist.map((item) => (item.id === mediaId ? itemToUpdate : item)),
+                error: "Failed to save your rating. Please try again."
+            });
+            console.error(err);
+        }
+    },
+
+    setStatusOverride: async (mediaId, override) => {
+        const { watchlist } = get();
+        const itemToUpdate = watchlist.find((item) => item.id === mediaId);
+        if (!itemToUpdate) return;
+
+        const statusOverride = override && {
+            status: override.status,
+            reason: override.reason?.trim() || null,
+            since: new Date().toISOString(),
+        };
+        // Clearing drops back to the computed status, which the server's delta fills in
+        set({
+            watchlist: watchlist.map((item) => (item.id === mediaId
+                ? { ...applyWatchlistPatch(item, { statusOverride }), watchlistStatus: statusOverride?.status }
+                : item))
+        });
+
+        try {
+            await get().commitMutation({ type: 'patch', id: mediaId, changes: { statusOverride } });
+        } catch (err) {
+            set({
+                watchlist: get().watchlist.map((item) => (item.id === mediaId ? itemToUpdate : item)),
+                error: "Failed to update the status. Please try again."
+            });
+            console.error(err);
         }
     },
 
     exportWatchlist: async () => {
         try {
-            const itemsToExport = await dbService.getAllWatchlistItems();
-            const dataStr = JSON.stringify(itemsToExport, null, 2);
-            const dataBlob = new Blob([dataStr], { type: "application/json" });
-            const url = URL.createObjectURL(dataBlob);
-            const link = document.createElement("a");
-            link.href = url;
-            link.download = `scenestack_watchlist_${new Date().toISOString().split("T")[0]}.json`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(url);
+            const data = await dbService.getWatchlistExport();
+            downloadFile(
+                JSON.stringify(data, null, 2),
+                `scenestack_watchlist_${new Date().toISOString().split("T")[0]}.json`,
+                "application/json"
+            );
         } catch (err) {
             set({ error: "Failed to export watchlist." });
             console.error(err);
         }
     },
 
-    importWatchlist: async (file) => {
-        return new Promise((resolve) => {
-            const reader = new FileReader();
-            reader.onload = async (e) => {
-                try {
-                    const text = e.target?.result;
-                    if (typeof text !== "string") throw new Error("File content is not readable.");
+    exportLetterboxd: () => {
+        const { watched, watchlist } = buildLetterboxdCsvs(get().watchlist);
+        const date = new Date().toISOString().split("T")[0];
+        downloadFile(watched, `scenestack_letterboxd_watched_${date}.csv`, "text/csv");
+        downloadFile(watchlist, `scenestack_letterboxd_watchlist_${date}.csv`, "text/csv");
+    },
 
-                    const importedData = JSON.parse(text) as WatchlistItem[];
+    // Merge entries from another service into the watchlist, in batches the server accepts
+    mergeImport: async (entries, { overwriteConflicts, onProgress } = {}) => {
+        const summary: ImportSummary = { added: 0, updated: 0, unchanged: 0, conflicts: 0, failed: [] };
+        let done = 0;
+        for (const [index, batch] of batchImportEntries(entries).entries()) {
+            // The server backs up before the first batch only, so the whole import can be undone
+            const result = await dbService.applyImportEntries(batch, { overwriteConflicts, snapshot: index === 0 });
+            summary.added += result.added;
+            summary.updated += result.updated;
+            summary.unchanged += result.unchanged;
+            summary.conflicts += result.conflicts;
+            summary.failed.push(...result.failed);
+            done += batch.length;
+            onProgress?.(done);
+        }
+        await get().loadWatchlist();
+        return summary;
+    },
 
-                    if (!Array.isArray(importedData)) {
-                        throw new Error("Invalid file format: Not an array.");
-                    }
+    restoreBackup: async (backupId) => {
+        await dbService.restoreBackup(backupId);
+        await get().loadWatchlist();
+    },
 
-                    const strippedItems = importedData.map(item => {
-                        const copy = { ...item } as Record<string, unknown>;
-                        delete copy.images;
-                        delete copy.videos;
-                        delete copy.credits;
-                        delete copy.keywords;
-                        delete copy.recommendations;
-                        delete copy.similar;
-                        delete copy.reviews;
-                        return copy as unknown as WatchlistItem;
-                    });
-
-                    await dbService.clearAndBulkPut(strippedItems);
-                    set({ watchlist: strippedItems });
-                    resolve();
-                } catch (err) {
-                    set({ error: "Import failed. Please ensure the file is a valid Scene Stack JSON export." });
-                    console.error(err);
-                    resolve();
-                }
-            };
-            reader.onerror = () => {
-                set({ error: "Failed to read the selected file." });
-                resolve();
-            };
-            reader.readAsText(file);
-        });
+    // Older export formats are migrated and validated by the server
+    restoreBackupFile: async (file) => {
+        let data: unknown;
+        try {
+            data = JSON.parse(await file.text());
+        } catch {
+            throw new Error("That file isn't valid JSON.");
+        }
+        await dbService.restoreBackupFile(stripDetailFields(data));
+        await get().loadWatchlist();
+    },
+
+    downloadBackup: async (backupId, createdAt) => {
+        const data = await dbService.getBackupExport(backupId);
+        downloadFile(
+            JSON.stringify(data, null, 2),
+            `scenestack_backup_${createdAt.split("T")[0]}.json`,
+            "application/json"
+        );
+    },
+
+    importWatchlist: async (file) => {
+        try {
+            const data: unknown = JSON.parse(await file.text());
+            await dbService.importWatchlistFile(stripDetailFields(data));
+            await get().loadWatchlist();
+        } catch (err) {
+            const reason = err instanceof SyntaxError ? "That file isn't valid JSON." : (err as Error).message;
+            set({ error: `Import failed. ${reason}` });
+            console.error(err);
+        }
     },
 
     fetchRecommendations: async (refresh = false) => {
@@ -420,29 +745,120 @@ export const useWatchlistStore = create<WatchlistState>((set, get) => ({
         }
     },
 
-    // Socket Helpers
-    syncItem: (item) => {
-        if (pendingOps.has(item.id)) {
-            pendingOps.delete(item.id);
+    /**
+     * Send a write now, or queue it if we're offline (or older writes are still queued,
+     * so ordering is preserved). Throws only for errors the server actually returned.
+     */
+    commitMutation: async (mutation) => {
+        const queue = async () => {
+            await localDb.enqueueMutation(mutation);
+            set({ pendingMutations: get().pendingMutations + 1 });
+        };
+
+        if (get().pendingMutations > 0) {
+            await queue();
+            get().flushMutations();
             return;
         }
+
+        try {
+            const result = await sendMutation(mutation);
+            if (!result) return;
+            if (mutation.type === 'history') {
+                get().syncWatchResult(result as WatchlistItem);
+            } else {
+                get().syncItem(result);
+            }
+        } catch (err) {
+            if (!isNetworkError(err)) throw err;
+            set({ isOffline: true });
+            await queue();
+        }
+    },
+
+    flushMutations: async () => {
+        if (flushPromise) return flushPromise;
+
+        flushPromise = (async () => {
+            let flushed = 0;
+            try {
+                const queued = await localDb.getQueuedMutations<WatchlistMutation>();
+                for (const { seq, mutation } of queued) {
+                    try {
+                        const result = await sendMutation(mutation);
+                        if (result && mutation.type === 'history') {
+                            get().syncWatchResult(result as WatchlistItem);
+                        } else if (result) {
+                            get().syncItem(result);
+                        }
+                    } catch (err) {
+                        if (isNetworkError(err)) {
+                            set({ isOffline: true });
+                            break;
+                        }
+                        // The server rejected it (e.g. the item was deleted elsewhere); replaying won't help
+                        console.error("Dropping queued change the server rejected", mutation, err);
+                    }
+                    await localDb.removeQueuedMutation(seq);
+                    flushed++;
+                }
+                const remaining = await localDb.countQueuedMutations();
+                set({ pendingMutations: remaining, isOffline: remaining > 0 && get().isOffline });
+            } catch (err) {
+                // IndexedDB can be unavailable (e.g. some private browsing modes)
+                console.error("Failed to replay queued changes", err);
+            } finally {
+                flushPromise = null;
+            }
+            return flushed;
+        })();
+        return flushPromise;
+    },
+
+    // Socket Helpers
+    syncItem: (update) => {
         const { watchlist } = get();
-        const exists = watchlist.some((i) => i.id === item.id);
-        if (exists) {
+        const existing = watchlist.find((i) => i.id === update.id);
+        if (existing && isStale(update, existing)) return;
+
+        if (isDelta(update)) {
+            // Deltas for items we haven't paged in yet show up with the next load
+            if (!existing) return;
+            // A gap means we missed an event; fetch the whole item instead of guessing
+            if (existing.revision !== undefined && update.revision > existing.revision + 1) {
+                dbService.getWatchlistItem(update.id)
+                    .then((item) => item && get().syncItem(item))
+                    .catch(console.error);
+                return;
+            }
+            set({ watchlist: watchlist.map((i) => (i.id === update.id ? applyWatchlistDelta(i, update) : i)) });
+            return;
+        }
+
+        const item = update;
+        if (existing) {
             set({ watchlist: watchlist.map((i) => (i.id === item.id ? item : i)) });
         } else {
             set({ watchlist: [item, ...watchlist] });
         }
     },
 
+    syncWatchResult: (saved) => {
+        set({
+            watchlist: get().watchlist.map((i) => (i.id === saved.id ? mergeWatchResult(i, saved) : i))
+        });
+    },
+
     deleteItem: (id) => {
-        if (pendingOps.has(id)) {
-            pendingOps.delete(id);
-            return;
-        }
         const { watchlist } = get();
         set({ watchlist: watchlist.filter((i) => i.id !== id) });
     }
+}), {
+    name: 'scenestack-watchlist',
+    storage: createJSONStorage(() => localDb.idbStorage),
+    partialize: (state) => ({ watchlist: state.watchlist }),
+    // Hydrated explicitly in loadWatchlist so a late cache read never clobbers fresh data
+    skipHydration: true,
 }));
 
 export const getWatchlistIds = (watchlist: WatchlistItem[]) =>
@@ -458,33 +874,45 @@ export const getFilteredItems = (watchlist: WatchlistItem[], activeTagFilter: st
 
     const watchlistItems: WatchlistItem[] = [];
     const currentlyWatchingItems: TVWatchlistItem[] = [];
+    const caughtUpItems: TVWatchlistItem[] = [];
     const watchedItems: WatchlistItem[] = [];
+    const onHoldItems: WatchlistItem[] = [];
+    const droppedItems: WatchlistItem[] = [];
 
     for (const item of filteredWatchlist) {
         // Use server-computed status if available, otherwise compute locally
         let status = item.watchlistStatus;
         if (!status) {
-            if (item.media_type === "movie") {
+            if (item.statusOverride) {
+                status = item.statusOverride.status;
+            } else if (item.media_type === "movie") {
                 status = item.watched ? "watched" : "watchlist";
             } else {
                 const watchedCount = Object.values(item.watchedEpisodes || {}).reduce(
                     (acc, eps) => acc + (Array.isArray(eps) ? eps.length : 0), 0
                 );
                 if (watchedCount === 0) status = "watchlist";
-                else if (watchedCount >= item.number_of_episodes) status = "watched";
-                else status = "watching";
+                else if (watchedCount < item.number_of_episodes) status = "watching";
+                else if (item.status && item.status !== "Ended" && item.status !== "Canceled") status = "caught_up";
+                else status = "watched";
             }
         }
 
         if (status === "watched") {
             watchedItems.push(item);
+        } else if (status === "on_hold") {
+            onHoldItems.push(item);
+        } else if (status === "dropped") {
+            droppedItems.push(item);
         } else if (status === "watching" && item.media_type === "tv") {
             currentlyWatchingItems.push(item);
+        } else if (status === "caught_up" && item.media_type === "tv") {
+            caughtUpItems.push(item);
         } else {
             watchlistItems.push(item);
         }
     }
-    return { watchlistItems, currentlyWatchingItems, watchedItems };
+    return { watchlistItems, currentlyWatchingItems, caughtUpItems, watchedItems, onHoldItems, droppedItems };
 };
 
 export const getProgressMap = (currentlyWatchingItems: TVWatchlistItem[]) => {
@@ -544,6 +972,13 @@ export interface WatchStatistics {
         topGenres: { name: string; count: number }[];
         averageRating: number;
     };
+    ratings: {
+        ratedCount: number;
+        /** Average of the user's own ratings (1-10) */
+        myAverage: number;
+        /** TMDB average over the same rated items, for comparison */
+        tmdbAverage: number;
+    };
 }
 
 export const calculateWatchStats = (
@@ -597,9 +1032,15 @@ export const calculateWatchStats = (
         .slice(0, 5);
 
     const ratings = watchedItems.map(item => item.vote_average).filter(r => r > 0);
-    const averageRating = ratings.length > 0
-        ? Math.round((ratings.reduce((a, b) => a + b, 0) / ratings.length) * 10) / 10
+    const average = (values: number[]) => values.length > 0
+        ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10
         : 0;
+    const averageRating = average(ratings);
+
+    // My ratings vs TMDB, over items I've rated
+    const ratedItems = watchlist.filter(item => item.userRating != null);
+    const myAverage = average(ratedItems.map(item => item.userRating as number));
+    const tmdbAverage = average(ratedItems.map(item => item.vote_average).filter(r => r > 0));
 
     return {
         shows: {
@@ -617,5 +1058,10 @@ export const calculateWatchStats = (
             topGenres,
             averageRating,
         },
+        ratings: {
+            ratedCount: ratedItems.length,
+            myAverage,
+            tmdbAverage,
+        },
     };
 };
@@ -58,6 +58,13 @@ export interface MovieDetail extends BaseMedia {
   images: ImageCollection;
 }
 
+export interface NextEpisodeToAir {
+  air_date: string;
+  season_number: number;
+  episode_number: number;
+  name: string;
+}
+
 export interface TVDetail extends BaseMedia {
   media_type: "tv";
   name: string;
@@ -76,6 +83,9 @@ export interface TVDetail extends BaseMedia {
   }[];
   number_of_seasons: number;
   number_of_episodes: number;
+  last_episode_to_air?: NextEpisodeToAir | null;
+  /** Null once a show has nothing scheduled */
+  next_episode_to_air?: NextEpisodeToAir | null;
   credits: {
     cast: CastMember[];
   };
@@ -87,20 +97,76 @@ export interface TVDetail extends BaseMedia {
 
 export type Media = SearchResult | WatchlistItem;
 
+/**
+ * A status the user set by hand. It replaces the computed one until it's cleared.
+ */
+export interface StatusOverride {
+  status: 'dropped' | 'on_hold';
+  reason: string | null;
+  since: string;
+}
+
 export interface MovieWatchlistItem extends MovieDetail {
   watched: boolean;
   tags?: string[];
-  watchlistStatus?: 'watchlist' | 'watching' | 'watched';
+  watchlistStatus?: 'watchlist' | 'watching' | 'caught_up' | 'watched' | 'on_hold' | 'dropped';
+  lastWatchedAt?: string | null;
+  revision?: number;
+  userRating?: number | null; // 1-10, half-star steps on a five-star scale
+  review?: string | null;
+  statusOverride?: StatusOverride | null;
 }
 
 export interface TVWatchlistItem extends TVDetail {
   watchedEpisodes: Record<number, number[]>;
   tags?: string[];
-  watchlistStatus?: 'watchlist' | 'watching' | 'watched';
+  watchlistStatus?: 'watchlist' | 'watching' | 'caught_up' | 'watched' | 'on_hold' | 'dropped';
+  lastWatchedAt?: string | null;
+  revision?: number;
+  userRating?: number | null; // 1-10, half-star steps on a five-star scale
+  review?: string | null;
+  seasonRatings?: Record<number, number>;
+  episodeRatings?: Record<number, Record<number, number>>;
+  statusOverride?: StatusOverride | null;
 }
 
 export type WatchlistItem = MovieWatchlistItem | TVWatchlistItem;
 
+/**
+ * Fields that can be changed with PATCH /api/watchlist/:id. `null` clears a rating, review
+ * or status override.
+ */
+export interface WatchlistPatch {
+  tags?: string[];
+  watched?: boolean;
+  userRating?: number | null;
+  review?: string | null;
+  seasonRating?: { seasonNumber: number; rating: number | null };
+  episodeRating?: { seasonNumber: number; episodeNumber: number; rating: number | null };
+  statusOverride?: StatusOverride | null;
+}
+
+/**
+ * Compact change broadcast by the granular PATCH/episodes endpoints.
+ * Applies on top of the item at `revision - 1`.
+ */
+export interface WatchlistDelta extends WatchlistPatch {
+  id: number;
+  revision: number;
+  // Left out when another update got in first; that update's delta carries the status
+  watchlistStatus?: 'watchlist' | 'watching' | 'caught_up' | 'watched' | 'on_hold' | 'dropped';
+  lastWatchedAt: string | null;
+  episodes?: {
+    add: Record<number, number[]>;
+    remove: Record<number, number[]>;
+  };
+}
+
+export interface EpisodeSet {
+  seasonNumber: number;
+  episodes: number[];
+}
+
 export interface Episode {
   id: number;
   name: string;
@@ -138,3 +204,254 @@ export interface WatchProvidersResponse {
   id: number;
   results: Record<string, WatchProviderCountry>;
 }
+
+export interface AppNotification {
+  _id: string;
+  type: "episode" | "release";
+  mediaId: number;
+  media_type: "movie" | "tv";
+  title: string;
+  poster_path: string | null;
+  seasonNumber?: number;
+  episodeNumber?: number;
+  episodeName?: string | null;
+  airDate: string;
+  read: boolean;
+  createdAt: string;
+}
+
+export interface CustomList {
+  _id: string;
+  name: string;
+  description: string;
+  /** Watchlist item ids, in the user's chosen order */
+  itemIds: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShareLink {
+  _id: string;
+  type: "list" | "watched";
+  listId?: string;
+  title: string;
+  token: string;
+  createdAt: string;
+}
+
+/** A subscribable .ics feed; the token is the only credential, so resetting it changes the URL. */
+export interface CalendarFeed {
+  token: string;
+  createdAt: string;
+}
+
+export interface Session {
+  id: string;
+  /** Browser and OS, guessed from the user agent */
+  device: string;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  /** The session making the request */
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/** What an authenticator app needs to enroll */
+export interface TwoFactorSetup {
+  /** Base32, for typing in by hand */
+  secret: string;
+  otpauthUri: string;
+  /** The otpauth URI as a QR code data URL */
+  qrCode: string;
+}
+
+export interface Invite {
+  _id: string;
+  code: string;
+  /** null for unlimited */
+  maxUses: number | null;
+  uses: number;
+  status: "active" | "used_up" | "expired" | "revoked";
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface MyInvites {
+  invites: Invite[];
+  /** How many more codes the user can create */
+  remaining: number;
+  perUser: number;
+}
+
+export interface StorageStats {
+  user: { itemCount: number; watchEventCount: number; listCount: number; isDemo: boolean };
+}
+
+export interface AdminInvite extends Invite {
+  note: string | null;
+  /** User id, or null for codes from INVITE_CODES */
+  createdBy: string | null;
+  redemptions: { userId: string; email: string; redeemedAt: string }[];
+  revokedAt: string | null;
+}
+
+export interface AdminInviteInput {
+  code?: string;
+  /** null for unlimited */
+  maxUses?: number | null;
+  expiresInDays?: number | null;
+  note?: string;
+}
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  role: "user" | "admin";
+  emailVerified: boolean;
+  itemCount: number;
+  createdAt: string;
+}
+
+export interface AdminUsersPage {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  hasMore: boolean;
+}
+
+export interface CacheStats {
+  connected: boolean;
+  keys: number;
+  usedMemory: string | null;
+}
+
+export type CacheScope = "metadata" | "recommendations" | "calendar" | "all";
+
+export interface AdminStats {
+  users: { total: number; admins: number; unverified: number };
+  demoUsers: { total: number; expired: number };
+  watchlist: { items: number };
+  database: { name: string; dataSize: number; storageSize: number };
+  cache: CacheStats;
+}
+
+export interface Backup {
+  _id: string;
+  /** What the snapshot was taken before */
+  reason: "import" | "merge-import" | "wipe" | "restore" | "scheduled";
+  createdAt: string;
+  expiresAt: string;
+  itemCount: number;
+  historyCount: number;
+  listCount: number;
+}
+
+/** What a public share link shows: poster-card fields only. */
+export interface SharedCollection {
+  type: "list" | "watched";
+  title: string;
+  description: string;
+  items: SearchResult[];
+}
+
+/** A title from another service's export, before it's matched to TMDB. */
+export interface ImportRow {
+  title: string;
+  year?: number;
+  media_type?: "movie" | "tv";
+  /** Exact lookup instead of a title search when the source has it ("tt0111161") */
+  imdbId?: string;
+}
+
+export interface ImportCandidate {
+  id: number;
+  media_type: "movie" | "tv";
+  title: string;
+  year: number | null;
+  poster_path: string | null;
+}
+
+export interface ImportResolution {
+  /** Set only when the server is confident; otherwise pick from `candidates` */
+  match: ImportCandidate | null;
+  candidates: ImportCandidate[];
+  error?: boolean;
+}
+
+export interface ImportEpisode {
+  seasonNumber: number;
+  episodeNumber: number;
+  watchedAt?: string;
+}
+
+export interface ImportEntry {
+  id: number;
+  media_type: "movie" | "tv";
+  watched?: boolean;
+  watchedAt?: string;
+  userRating?: number;
+  review?: string;
+  /** Watched episodes, for TV */
+  episodes?: ImportEpisode[];
+}
+
+/** One title read from another service's export, before it's matched to TMDB */
+export interface ImportSourceEntry extends ImportRow, Omit<ImportEntry, "id" | "media_type"> {
+  /** Identifies the title within the export, used to merge it across files */
+  key: string;
+  /** Set when the export already carries the TMDB id */
+  tmdbId?: number;
+  watched: boolean;
+}
+
+export interface ImportConflict {
+  field: "userRating" | "review";
+  current: number | string;
+  incoming: number | string;
+}
+
+/** Dry-run result of a merge import */
+export interface ImportPreview {
+  added: { id: number; media_type: "movie" | "tv" }[];
+  updated: {
+    id: number;
+    media_type: "movie" | "tv";
+    title: string;
+    changes: { watched?: boolean; userRating?: number; review?: string; episodes?: number };
+  }[];
+  conflicts: { id: number; media_type: "movie" | "tv"; title: string; fields: ImportConflict[] }[];
+  unchanged: number;
+}
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  conflicts: number;
+  failed: number[];
+}
+
+export interface WatchEventInput {
+  action: "watch" | "unwatch";
+  seasonNumber?: number;
+  episodeNumber?: number;
+  rewatch?: boolean;
+  watchedAt?: string;
+}
+
+export interface WatchEvent {
+  _id: string;
+  itemId: number;
+  media_type: "movie" | "tv";
+  action: "watch" | "unwatch";
+  seasonNumber: number | null;
+  episodeNumber: number | null;
+  rewatch?: boolean;
+  migrated?: boolean;
+  watchedAt: string | null; // null for events migrated from pre-history data
+}
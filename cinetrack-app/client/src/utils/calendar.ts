@@ -0,0 +1,91 @@
+import type { MovieWatchlistItem, SeasonDetail, TVDetail, TVWatchlistItem, WatchlistItem } from "../types/types";
+
+export interface CalendarEvent {
+    key: string;
+    /** Local calendar day, YYYY-MM-DD (TMDB's own date format) */
+    date: string;
+    item: WatchlistItem;
+    title: string;
+    seasonNumber?: number;
+    episodeNumber?: number;
+    episodeName?: string;
+}
+
+// Shows TMDB no longer expects new episodes for
+const FINISHED_STATUSES = new Set(["Ended", "Canceled"]);
+
+export const getCalendarFeedUrl = (token: string) =>
+    `${window.location.origin}/api/calendar/${encodeURIComponent(token)}.ics`;
+
+// webcal:// opens the URL as a subscription in the system calendar app
+export const getCalendarSubscribeUrl = (token: string) =>
+    getCalendarFeedUrl(token).replace(/^https?:/, "webcal:");
+
+export const toDateKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export const isTrackableShow = (item: WatchlistItem): item is TVWatchlistItem =>
+    item.media_type === "tv" && !FINISHED_STATUSES.has(item.status) && item.watchlistStatus !== "dropped";
+
+/**
+ * Movies on the watchlist that haven't been released yet.
+ */
+export function getMovieEvents(items: WatchlistItem[], today: string): CalendarEvent[] {
+    return items
+        .filter((item): item is MovieWatchlistItem =>
+            item.media_type === "movie" && !item.watched && item.watchlistStatus !== "dropped"
+            && Boolean(item.release_date) && item.release_date >= today)
+        .map((item) => ({ key: `movie:${item.id}`, date: item.release_date, item, title: item.title }));
+}
+
+/**
+ * Every scheduled episode from the show's next one onwards. TMDB only dates episodes
+ * in seasons it has listed, so later seasons show up once they are announced.
+ */
+export async function getShowEvents(
+    item: TVWatchlistItem,
+    details: TVDetail,
+    getSeason: (tvId: number, seasonNumber: number) => Promise<SeasonDetail>,
+    today: string
+): Promise<CalendarEvent[]> {
+    const next = details.next_episode_to_air;
+    if (!next) return [];
+
+    const seasonNumbers = details.seasons
+        .map((season) => season.season_number)
+        .filter((number) => number >= next.season_number && number > 0);
+    const seasons = await Promise.all(seasonNumbers.map((number) => getSeason(item.id, number)));
+
+    return seasons.flatMap((season) =>
+        season.episodes
+            .filter((episode) => episode.air_date && episode.air_date >= today)
+            .map((episode) => ({
+                key: `tv:${item.id}:${season.season_number}:${episode.episode_number}`,
+                date: episode.air_date,
+                item,
+                title: item.name,
+                seasonNumber: season.season_number,
+                episodeNumber: episode.episode_number,
+                episodeName: episode.name,
+            }))
+    );
+}
+
+export const groupByDate = (events: CalendarEvent[]) => {
+    const groups = new Map<string, CalendarEvent[]>();
+    for (const event of [...events].sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title))) {
+        groups.set(event.date, [...(groups.get(event.date) ?? []), event]);
+    }
+    return groups;
+};
+
+/**
+ * The days shown for a month, padded to whole weeks starting on Sunday.
+ */
+export function getMonthGrid(year: number, month: number): Date[] {
+    const first = new Date(year, month, 1);
+    const start = new Date(year, month, 1 - first.getDay());
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const weeks = Math.ceil((first.getDay() + daysInMonth) / 7);
+    return Array.from({ length: weeks * 7 }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+}
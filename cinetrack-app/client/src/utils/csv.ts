@@ -0,0 +1,67 @@
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and newlines inside quotes.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    // Strip a UTF-8 byte order mark, which some exports start with
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parse a CSV with a header row into objects keyed by column name.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const columns = header.map((name) => name.trim());
+    return rows.map((values) =>
+        Object.fromEntries(columns.map((column, index) => [column, values[index]?.trim() ?? ""]))
+    );
+}
+
+const escapeField = (value: string | number | null | undefined) => {
+    const text = value == null ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(header: string[], rows: (string | number | null | undefined)[][]): string {
+    return [header, ...rows].map((row) => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,58 @@
+import { parseCsvRecords } from "./csv";
+import { toIsoDate } from "./importEntries";
+import type { ImportSourceEntry } from "../types/types";
+
+/**
+ * IMDb exports ratings, the watchlist and custom lists as CSVs sharing these columns:
+ *   Const,Your Rating,Date Rated,Title,Title Type,Year,...
+ * `Const` is the IMDb id, which TMDB can look up directly.
+ */
+
+const MOVIE_TYPES = new Set(["movie", "tvmovie", "tvspecial", "short", "tvshort", "video"]);
+const TV_TYPES = new Set(["tvseries", "tvminiseries"]);
+
+// "TV Mini Series" in ratings exports, "tvMiniSeries" in some lists
+const toMediaType = (titleType: string | undefined) => {
+    const type = (titleType ?? "").toLowerCase().replace(/[^a-z]/g, "");
+    return MOVIE_TYPES.has(type) ? "movie" : TV_TYPES.has(type) ? "tv" : undefined;
+};
+
+/**
+ * Merge the rows of one or more IMDb CSVs into one entry per title. Episodes and
+ * video games are skipped. A rating means the title was seen.
+ * Throws if a file doesn't look like an IMDb export.
+ */
+export function parseImdbFiles(files: { name: string; text: string }[]): ImportSourceEntry[] {
+    const entries = new Map<string, ImportSourceEntry>();
+
+    for (const file of files) {
+        const records = parseCsvRecords(file.text);
+        if (records.length > 0 && !("Const" in records[0] && "Title" in records[0])) {
+            throw new Error(`${file.name} doesn't look like an IMDb export (expected Const and Title columns).`);
+        }
+
+        for (const record of records) {
+            const media_type = toMediaType(record["Title Type"]);
+            if (!record.Const || !record.Title || !media_type) continue;
+
+            const rating = parseInt(record["Your Rating"], 10);
+            const userRating = rating >= 1 && rating <= 10 ? rating : undefined;
+            const existing = entries.get(record.Const) ?? {
+                key: record.Const,
+                title: record.Title,
+                year: parseInt(record.Year, 10) || undefined,
+                media_type,
+                imdbId: /^tt\d+$/.test(record.Const) ? record.Const : undefined,
+                watched: false,
+            };
+            entries.set(record.Const, {
+                ...existing,
+                watched: existing.watched || userRating !== undefined,
+                watchedAt: existing.watchedAt ?? (userRating !== undefined ? toIsoDate(record["Date Rated"]) : undefined),
+                userRating: userRating ?? existing.userRating,
+            });
+        }
+    }
+
+    return Array.from(entries.values());
+}
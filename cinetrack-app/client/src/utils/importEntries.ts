@@ -0,0 +1,66 @@
+import type { ImportEntry, ImportPreview } from "../types/types";
+
+const MAX_BATCH_ENTRIES = 100;
+// Keeps a batch of long-running shows well under the server's 2mb body limit
+const MAX_BATCH_EPISODES = 4000;
+
+export const laterDate = (a?: string, b?: string) => (!a ? b : !b ? a : a > b ? a : b);
+
+// CSV exports (Letterboxd, IMDb) use plain YYYY-MM-DD dates
+export const toIsoDate = (value: string | undefined) =>
+    value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`).toISOString() : undefined;
+
+/**
+ * Merge entries that resolved to the same TMDB title, so a title is never split
+ * across two import batches. Mirrors combineEntries in server/src/services/mergeImport.js.
+ */
+export function combineImportEntries(entries: ImportEntry[]): ImportEntry[] {
+    const byId = new Map<number, ImportEntry>();
+    for (const entry of entries) {
+        const previous = byId.get(entry.id);
+        byId.set(entry.id, previous
+            ? {
+                ...previous,
+                watched: Boolean(previous.watched || entry.watched),
+                watchedAt: laterDate(previous.watchedAt, entry.watchedAt),
+                userRating: entry.userRating ?? previous.userRating,
+                review: entry.review || previous.review,
+                episodes: previous.episodes || entry.episodes
+                    ? [...(previous.episodes ?? []), ...(entry.episodes ?? [])]
+                    : undefined,
+            }
+            : entry);
+    }
+    return Array.from(byId.values());
+}
+
+/**
+ * Split entries into request-sized batches for /api/import/apply.
+ */
+export function batchImportEntries(entries: ImportEntry[]): ImportEntry[][] {
+    const batches: ImportEntry[][] = [];
+    let batch: ImportEntry[] = [];
+    let episodeCount = 0;
+
+    for (const entry of entries) {
+        const episodes = entry.episodes?.length ?? 0;
+        if (batch.length > 0 && (batch.length >= MAX_BATCH_ENTRIES || episodeCount + episodes > MAX_BATCH_EPISODES)) {
+            batches.push(batch);
+            batch = [];
+            episodeCount = 0;
+        }
+        batch.push(entry);
+        episodeCount += episodes;
+    }
+    if (batch.length > 0) batches.push(batch);
+    return batches;
+}
+
+export function mergeImportPreviews(previews: ImportPreview[]): ImportPreview {
+    return {
+        added: previews.flatMap((preview) => preview.added),
+        updated: previews.flatMap((preview) => preview.updated),
+        conflicts: previews.flatMap((preview) => preview.conflicts),
+        unchanged: previews.reduce((sum, preview) => sum + preview.unchanged, 0),
+    };
+}
@@ -0,0 +1,5 @@
+/**
+ * Opens the sign-up form with the code filled in.
+ */
+export const getInviteUrl = (code: string) =>
+    `${window.location.origin}/?invite=${encodeURIComponent(code)}`;
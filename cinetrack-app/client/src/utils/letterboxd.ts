@@ -0,0 +1,91 @@
+import { parseCsvRecords, toCsv } from "./csv";
+import { laterDate, toIsoDate } from "./importEntries";
+import type { WatchlistItem, MovieWatchlistItem, ImportSourceEntry } from "../types/types";
+
+/**
+ * Letterboxd's data export is a zip of CSVs. We read the ones that matter:
+ *   watched.csv   Date,Name,Year,Letterboxd URI
+ *   ratings.csv   Date,Name,Year,Letterboxd URI,Rating
+ *   watchlist.csv Date,Name,Year,Letterboxd URI
+ * diary.csv and reviews.csv (which add Watched Date / Review) are accepted too.
+ */
+
+const entryKey = (title: string, year?: number) => `${title.trim().toLowerCase()}|${year ?? ""}`;
+
+// 0.5-5 stars maps exactly onto our 1-10 half-star scale
+const toRating = (value: string | undefined) => {
+    const stars = parseFloat(value ?? "");
+    return stars >= 0.5 && stars <= 5 ? Math.round(stars * 2) : undefined;
+};
+
+/**
+ * Merge the rows of one or more Letterboxd CSVs into one entry per film.
+ * Throws if a file doesn't look like a Letterboxd export.
+ */
+export function parseLetterboxdFiles(files: { name: string; text: string }[]): ImportSourceEntry[] {
+    const entries = new Map<string, ImportSourceEntry>();
+
+    for (const file of files) {
+        const records = parseCsvRecords(file.text);
+        if (records.length > 0 && !("Name" in records[0] && "Year" in records[0])) {
+            throw new Error(`${file.name} doesn't look like a Letterboxd export (expected Name and Year columns).`);
+        }
+        const isWatchlist = file.name.toLowerCase().includes("watchlist");
+
+        for (const record of records) {
+            const title = record.Name;
+            if (!title) continue;
+            const year = parseInt(record.Year, 10) || undefined;
+            const key = entryKey(title, year);
+
+            const existing = entries.get(key) ?? { key, title, year, media_type: "movie" as const, watched: false };
+            const review = record.Review || undefined;
+            entries.set(key, {
+                ...existing,
+                // Rated, reviewed or logged films count as watched on Letterboxd; watchlist ones don't
+                watched: existing.watched || !isWatchlist,
+                watchedAt: isWatchlist
+                    ? existing.watchedAt
+                    : laterDate(existing.watchedAt, toIsoDate(record["Watched Date"] || record.Date)),
+                userRating: toRating(record.Rating) ?? existing.userRating,
+                review: review ?? existing.review,
+            });
+        }
+    }
+
+    return Array.from(entries.values());
+}
+
+const releaseYear = (item: MovieWatchlistItem) => item.release_date?.slice(0, 4) ?? "";
+
+const watchedDate = (item: MovieWatchlistItem) =>
+    item.lastWatchedAt ? item.lastWatchedAt.slice(0, 10) : "";
+
+/**
+ * CSVs in Letterboxd's import format. Letterboxd only tracks films, so TV shows are left out.
+ * Watched films (with ratings and reviews) and the watchlist are separate imports there.
+ */
+export function buildLetterboxdCsvs(watchlist: WatchlistItem[]): { watched: string; watchlist: string } {
+    const movies = watchlist.filter((item): item is MovieWatchlistItem => item.media_type === "movie");
+
+    const watched = toCsv(
+        ["tmdbID", "Title", "Year", "Rating10", "WatchedDate", "Review"],
+        movies
+            .filter((movie) => movie.watched)
+            .map((movie) => [
+                movie.id,
+                movie.title,
+                releaseYear(movie),
+                movie.userRating ?? "",
+                watchedDate(movie),
+                movie.review ?? "",
+            ])
+    );
+
+    const unwatched = toCsv(
+        ["tmdbID", "Title", "Year"],
+        movies.filter((movie) => !movie.watched).map((movie) => [movie.id, movie.title, releaseYear(movie)])
+    );
+
+    return { watched, watchlist: unwatched };
+}
@@ -0,0 +1,13 @@
+const SHARE_PATH_PREFIX = "/share/";
+
+export const getShareUrl = (token: string) =>
+    `${window.location.origin}${SHARE_PATH_PREFIX}${token}`;
+
+/**
+ * Token from a `/share/<token>` URL, or null when the app is opened normally.
+ */
+export const getShareTokenFromPath = (pathname: string): string | null => {
+    if (!pathname.startsWith(SHARE_PATH_PREFIX)) return null;
+    const token = decodeURIComponent(pathname.slice(SHARE_PATH_PREFIX.length).replace(/\/$/, ""));
+    return token || null;
+};
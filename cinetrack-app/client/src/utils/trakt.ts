@@ -0,0 +1,119 @@
+import { laterDate } from "./importEntries";
+import type { ImportEpisode, ImportSourceEntry } from "../types/types";
+
+/**
+ * Trakt's data export is a set of JSON arrays. We read:
+ *   watched-history.json  { watched_at, type: "movie" | "episode", movie | show + episode }
+ *   watched-movies.json   { last_watched_at, movie }
+ *   watched-shows.json    { show, seasons: [{ number, episodes: [{ number, last_watched_at }] }] }
+ *   ratings-*.json        { rating, type, movie | show }  (1-10, same scale as ours)
+ *   watchlist-*.json      { listed_at, type, movie | show }
+ * Items carry their TMDB id in `ids.tmdb`, so most need no title matching.
+ */
+
+interface TraktIds {
+    tmdb?: number | null;
+    imdb?: string | null;
+}
+
+interface TraktMedia {
+    title: string;
+    year?: number | null;
+    ids?: TraktIds;
+}
+
+interface TraktRecord {
+    type?: string;
+    watched_at?: string | null;
+    last_watched_at?: string | null;
+    listed_at?: string;
+    rating?: number;
+    movie?: TraktMedia;
+    show?: TraktMedia;
+    episode?: { season: number; number: number };
+    seasons?: { number: number; episodes?: { number: number; last_watched_at?: string | null }[] }[];
+}
+
+const toEntry = (media: TraktMedia, mediaType: "movie" | "tv"): ImportSourceEntry => ({
+    key: `${mediaType}:${media.ids?.tmdb ?? media.ids?.imdb ?? `${media.title}|${media.year ?? ""}`}`,
+    title: media.title,
+    year: media.year ?? undefined,
+    media_type: mediaType,
+    imdbId: media.ids?.imdb || undefined,
+    tmdbId: media.ids?.tmdb || undefined,
+    watched: false,
+});
+
+// Reads one record into the parts it adds to its title's entry
+const readRecord = (record: TraktRecord): { media: TraktMedia; mediaType: "movie" | "tv"; changes: Partial<ImportSourceEntry> } | null => {
+    const media = record.movie ?? record.show;
+    if (!media?.title) return null;
+    const mediaType = record.movie ? "movie" : "tv";
+
+    if (record.rating !== undefined) {
+        // Season and episode ratings aren't imported
+        if (record.type !== "movie" && record.type !== "show") return null;
+        return { media, mediaType, changes: { userRating: record.rating } };
+    }
+    if (record.listed_at) {
+        return { media, mediaType, changes: {} };
+    }
+    if (record.seasons) {
+        const episodes = record.seasons.flatMap((season) =>
+            (season.episodes ?? []).map((episode) => ({
+                seasonNumber: season.number,
+                episodeNumber: episode.number,
+                watchedAt: episode.last_watched_at || undefined,
+            }))
+        );
+        return { media, mediaType, changes: { watched: true, episodes } };
+    }
+    if (record.type === "episode") {
+        if (!record.episode) return null;
+        const episode: ImportEpisode = {
+            seasonNumber: record.episode.season,
+            episodeNumber: record.episode.number,
+            watchedAt: record.watched_at || undefined,
+        };
+        return { media, mediaType, changes: { watched: true, episodes: [episode] } };
+    }
+    const watchedAt = record.watched_at || record.last_watched_at;
+    return watchedAt ? { media, mediaType, changes: { watched: true, watchedAt } } : null;
+};
+
+/**
+ * Merge the records of one or more Trakt export files into one entry per movie or show.
+ * Throws if a file isn't a Trakt JSON export.
+ */
+export function parseTraktFiles(files: { name: string; text: string }[]): ImportSourceEntry[] {
+    const entries = new Map<string, ImportSourceEntry>();
+
+    for (const file of files) {
+        let records: unknown;
+        try {
+            records = JSON.parse(file.text);
+        } catch {
+            throw new Error(`${file.name} isn't valid JSON.`);
+        }
+        if (!Array.isArray(records)) {
+            throw new Error(`${file.name} doesn't look like a Trakt export (expected a list of items).`);
+        }
+
+        for (const record of records as TraktRecord[]) {
+            const read = readRecord(record);
+            if (!read) continue;
+            const fresh = toEntry(read.media, read.mediaType);
+            const existing = entries.get(fresh.key) ?? fresh;
+            const { changes } = read;
+            entries.set(fresh.key, {
+                ...existing,
+                watched: existing.watched || Boolean(changes.watched),
+                watchedAt: laterDate(existing.watchedAt, changes.watchedAt),
+                userRating: changes.userRating ?? existing.userRating,
+                episodes: changes.episodes ? [...(existing.episodes ?? []), ...changes.episodes] : existing.episodes,
+            });
+        }
+    }
+
+    return Array.from(entries.values());
+}
@@ -0,0 +1,48 @@
+import type { Episode, SeasonDetail, TVWatchlistItem } from "../types/types";
+
+export interface UpNextEntry {
+    show: TVWatchlistItem;
+    seasonNumber: number;
+    episode: Episode;
+}
+
+const isAired = (episode: Episode, now: Date) => Boolean(episode.air_date) && new Date(episode.air_date) <= now;
+
+/**
+ * The first aired episode the user hasn't watched, walking seasons in order and skipping specials.
+ * Only seasons with unwatched episodes are fetched. Returns null when the user is caught up,
+ * including when the next episode hasn't aired yet.
+ */
+export async function findNextEpisode(
+    show: TVWatchlistItem,
+    getSeason: (tvId: number, seasonNumber: number) => Promise<SeasonDetail>,
+    now = new Date()
+): Promise<UpNextEntry | null> {
+    const seasons = (show.seasons ?? [])
+        .filter((season) => season.season_number > 0 && season.episode_count > 0)
+        .sort((a, b) => a.season_number - b.season_number);
+
+    for (const season of seasons) {
+        const watched = show.watchedEpisodes?.[season.season_number] ?? [];
+        if (watched.length >= season.episode_count) continue;
+
+        const detail = await getSeason(show.id, season.season_number);
+        const episodes = [...detail.episodes].sort((a, b) => a.episode_number - b.episode_number);
+        for (const episode of episodes) {
+            if (watched.includes(episode.episode_number)) continue;
+            // Episodes air in order, so an unaired one means there's nothing after it either
+            if (!isAired(episode, now)) return null;
+            return { show, seasonNumber: season.season_number, episode };
+        }
+    }
+    return null;
+}
+
+/**
+ * Most recently watched first; shows without a watch date go last.
+ */
+export const compareByLastWatched = (a: UpNextEntry, b: UpNextEntry) =>
+    (b.show.lastWatchedAt ?? "").localeCompare(a.show.lastWatchedAt ?? "");
+
+export const formatEpisodeCode = (seasonNumber: number, episodeNumber: number) =>
+    `S${String(seasonNumber).padStart(2, "0")}E${String(episodeNumber).padStart(2, "0")}`;
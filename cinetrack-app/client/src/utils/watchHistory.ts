@@ -0,0 +1,44 @@
+import type { WatchEvent } from "../types/types";
+
+export interface WatchSummary {
+    count: number;
+    lastWatchedAt: string | null;
+}
+
+/**
+ * Key for a single watchable unit: an episode for TV, the movie itself otherwise.
+ */
+export const watchKey = (seasonNumber?: number | null, episodeNumber?: number | null) =>
+    seasonNumber == null || episodeNumber == null ? "movie" : `${seasonNumber}:${episodeNumber}`;
+
+/**
+ * Collapse a history log into per-episode (or per-movie) watch counts and latest watch date.
+ * Events migrated from before the log existed count as a watch but carry no date.
+ */
+export function summarizeWatchHistory(events: WatchEvent[]): Map<string, WatchSummary> {
+    const summaries = new Map<string, WatchSummary>();
+
+    for (const event of events) {
+        if (event.action !== "watch") continue;
+
+        const key = watchKey(event.seasonNumber, event.episodeNumber);
+        const summary = summaries.get(key) ?? { count: 0, lastWatchedAt: null };
+        summary.count += 1;
+        if (event.watchedAt && (!summary.lastWatchedAt || event.watchedAt > summary.lastWatchedAt)) {
+            summary.lastWatchedAt = event.watchedAt;
+        }
+        summaries.set(key, summary);
+    }
+    return summaries;
+}
+
+export function formatWatchSummary(summary: WatchSummary): string {
+    const date = summary.lastWatchedAt
+        ? ` ${new Date(summary.lastWatchedAt).toLocaleDateString("en-US", {
+            year: "numeric",
+            month: "short",
+            day: "numeric",
+        })}`
+        : "";
+    return summary.count > 1 ? `Watched${date} · ${summary.count}×` : `Watched${date}`;
+}
@@ -0,0 +1,146 @@
+import type { WatchlistItem, WatchlistDelta, WatchlistPatch } from "../types/types";
+
+/**
+ * Three-way merge of two sets: keep everything the other side has, plus our
+ * additions, minus our removals (both relative to the common base).
+ */
+function mergeSets<T>(base: T[], local: T[], remote: T[]): T[] {
+    const baseSet = new Set(base);
+    const localSet = new Set(local);
+    const result = new Set(remote);
+
+    for (const value of local) {
+        if (!baseSet.has(value)) result.add(value);
+    }
+    for (const value of base) {
+        if (!localSet.has(value)) result.delete(value);
+    }
+    return Array.from(result);
+}
+
+function mergeWatchedEpisodes(
+    base: Record<number, number[]>,
+    local: Record<number, number[]>,
+    remote: Record<number, number[]>
+): Record<number, number[]> {
+    const seasons = new Set(
+        [...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)].map(Number)
+    );
+    const merged: Record<number, number[]> = {};
+
+    for (const season of seasons) {
+        const episodes = mergeSets(base[season] ?? [], local[season] ?? [], remote[season] ?? [])
+            .sort((a, b) => a - b);
+        if (episodes.length > 0) {
+            merged[season] = episodes;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Resolve a write conflict between a local edit and the server's copy.
+ * `base` is the item the local edit started from (undefined for a fresh add).
+ * Watched episodes and tags are merged; everything else follows the server,
+ * except a movie's watched flag when it was changed locally.
+ * The result carries the remote revision so it can be retried as-is.
+ */
+export function mergeWatchlistItems(
+    base: WatchlistItem | undefined,
+    local: WatchlistItem,
+    remote: WatchlistItem
+): WatchlistItem {
+    const tags = mergeSets(base?.tags ?? [], local.tags ?? [], remote.tags ?? []);
+
+    if (local.media_type === "tv" && remote.media_type === "tv") {
+        const baseEpisodes = base?.media_type === "tv" ? base.watchedEpisodes ?? {} : {};
+        return {
+            ...remote,
+            tags,
+            watchedEpisodes: mergeWatchedEpisodes(
+                baseEpisodes,
+                local.watchedEpisodes ?? {},
+                remote.watchedEpisodes ?? {}
+            ),
+        };
+    }
+
+    if (local.media_type === "movie" && remote.media_type === "movie") {
+        const baseWatched = base?.media_type === "movie" ? base.watched : false;
+        return {
+            ...remote,
+            tags,
+            watched: local.watched !== baseWatched ? local.watched : remote.watched,
+        };
+    }
+
+    return { ...remote, tags };
+}
+
+const withRating = <T>(ratings: Record<number, T> | undefined, key: number, value: T | null) => {
+    const next = { ...(ratings ?? {}) };
+    if (value === null) {
+        delete next[key];
+    } else {
+        next[key] = value;
+    }
+    return next;
+};
+
+/**
+ * Apply PATCH-able field changes to an item. Used both optimistically and for incoming deltas.
+ */
+export function applyWatchlistPatch(item: WatchlistItem, patch: WatchlistPatch): WatchlistItem {
+    const next = { ...item };
+    if (patch.tags !== undefined) next.tags = patch.tags;
+    if (patch.userRating !== undefined) next.userRating = patch.userRating;
+    if (patch.review !== undefined) next.review = patch.review;
+    if (patch.statusOverride !== undefined) next.statusOverride = patch.statusOverride;
+
+    if (next.media_type === "movie") {
+        if (patch.watched !== undefined) next.watched = patch.watched;
+        return next;
+    }
+
+    if (patch.seasonRating) {
+        const { seasonNumber, rating } = patch.seasonRating;
+        next.seasonRatings = withRating(next.seasonRatings, seasonNumber, rating);
+    }
+    if (patch.episodeRating) {
+        const { seasonNumber, episodeNumber, rating } = patch.episodeRating;
+        const episodeRatings = next.episodeRatings ?? {};
+        next.episodeRatings = withRating(
+            episodeRatings,
+            seasonNumber,
+            withRating(episodeRatings[seasonNumber], episodeNumber, rating)
+        );
+    }
+    return next;
+}
+
+/**
+ * Apply a delta from the granular endpoints. Episode adds/removes are set
+ * operations, so re-applying one on top of an optimistic update is harmless.
+ */
+export function applyWatchlistDelta(item: WatchlistItem, delta: WatchlistDelta): WatchlistItem {
+    const patched = {
+        ...applyWatchlistPatch(item, delta),
+        revision: delta.revision,
+        watchlistStatus: delta.watchlistStatus ?? item.watchlistStatus,
+        lastWatchedAt: delta.lastWatchedAt,
+    };
+    if (patched.media_type !== "tv" || !delta.episodes) {
+        return patched;
+    }
+
+    const watchedEpisodes = { ...(patched.watchedEpisodes ?? {}) };
+    for (const [season, episodes] of Object.entries(delta.episodes.add)) {
+        const current = watchedEpisodes[Number(season)] ?? [];
+        watchedEpisodes[Number(season)] = [...current, ...episodes.filter((ep) => !current.includes(ep))];
+    }
+    for (const [season, episodes] of Object.entries(delta.episodes.remove)) {
+        const current = watchedEpisodes[Number(season)] ?? [];
+        watchedEpisodes[Number(season)] = current.filter((ep) => !episodes.includes(ep));
+    }
+    return { ...patched, watchedEpisodes };
+}
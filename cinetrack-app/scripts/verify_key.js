@@ -1,6 +1,6 @@
 require('dotenv').config();
 
-const token = process.env.VITE_TMDB_API_READ_ACCESS_TOKEN;
+const token = process.env.TMDB_API_READ_ACCESS_TOKEN;
 const url = 'https://api.themoviedb.org/3/authentication';
 
 console.log('Testing API Key...');
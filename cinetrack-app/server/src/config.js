@@ -2,7 +2,7 @@ const path = require("path");
 require("dotenv").config({ path: path.join(__dirname, "../.env") });
 const Redis = require("ioredis");
 
-const required = ["MONGO_URI", "JWT_SECRET", "INVITE_CODES"];
+const required = ["MONGO_URI", "JWT_SECRET"];
 const missing = required.filter((key) => !process.env[key]);
 
 if (missing.length > 0) {
@@ -11,6 +11,12 @@ if (missing.length > 0) {
     process.exit(1);
 }
 
+// The file mailer never delivers anything, so production has to choose on purpose
+if (process.env.NODE_ENV === "production" && !process.env.MAIL_TRANSPORT) {
+    console.error("FATAL: MAIL_TRANSPORT must be set in production (\"smtp\", or \"file\" to only write .eml files)");
+    process.exit(1);
+}
+
 let redis = null;
 let redisConnected = false;
 
@@ -88,6 +94,33 @@ const cache = {
             console.error("Cache setWithLimit error:", err.message);
         }
     },
+
+    async stats() {
+        if (!this.isConnected()) return { connected: false, keys: 0, usedMemory: null };
+        try {
+            const [keys, memory] = await Promise.all([redis.dbsize(), redis.info("memory")]);
+            const usedMemory = /used_memory_human:(\S+)/.exec(memory)?.[1] || null;
+            return { connected: true, keys, usedMemory };
+        } catch (err) {
+            console.error("Cache stats error:", err.message);
+            return { connected: false, keys: 0, usedMemory: null };
+        }
+    },
+
+    // Deletes every key matching a glob pattern; returns how many went
+    async purge(pattern) {
+        if (!this.isConnected()) return 0;
+        let deleted = 0;
+        let cursor = "0";
+        do {
+            const [next, keys] = await redis.scan(cursor, "MATCH", pattern, "COUNT", 500);
+            cursor = next;
+            if (keys.length > 0) {
+                deleted += await redis.del(...keys);
+            }
+        } while (cursor !== "0");
+        return deleted;
+    },
 };
 
 module.exports = {
@@ -97,9 +130,64 @@ module.exports = {
     jwt: {
         secret: process.env.JWT_SECRET,
     },
-    inviteCodes: process.env.INVITE_CODES.split(",").map((c) => c.trim()).filter(Boolean),
+    auth: {
+        // How often clients trade the refresh cookie for a new access token
+        accessTokenMinutes: parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES, 10) || 15,
+        // Sessions unused this long expire; each refresh starts the period again
+        refreshTokenDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS, 10) || 30,
+        resetTokenMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES, 10) || 60,
+        verifyTokenHours: parseInt(process.env.EMAIL_VERIFY_TTL_HOURS, 10) || 48,
+    },
+    // Where the client is served; links in emails point here
+    appUrl: (process.env.APP_URL || "http://localhost:5173").replace(/\/$/, ""),
+    mail: {
+        // "smtp", or "file" to write messages to outboxDir instead of sending them (required in production)
+        transport: process.env.MAIL_TRANSPORT || "file",
+        from: process.env.MAIL_FROM || "Scene Stack <no-reply@scenestack.local>",
+        outboxDir: process.env.MAIL_OUTBOX_DIR || path.join(__dirname, "../outbox"),
+        smtp: {
+            host: process.env.SMTP_HOST,
+            port: parseInt(process.env.SMTP_PORT, 10) || 587,
+            // true for port 465; other ports upgrade with STARTTLS
+            secure: process.env.SMTP_SECURE === "true",
+            user: process.env.SMTP_USER,
+            pass: process.env.SMTP_PASS,
+        },
+    },
+    // Seeded into the invites collection at startup as unlimited codes; new codes are minted in the app
+    inviteCodes: (process.env.INVITE_CODES || "").split(",").map((c) => c.trim()).filter(Boolean),
+    invites: {
+        // Codes each user may hand out; used ones count for good
+        perUser: parseInt(process.env.INVITES_PER_USER, 10) || 3,
+        ttlDays: parseInt(process.env.INVITE_TTL_DAYS, 10) || 14,
+    },
+    // Accounts given the admin role at startup and on sign-up; admins can then promote others in the app
+    adminEmails: (process.env.ADMIN_EMAILS || "").split(",").map((e) => e.trim().toLowerCase()).filter(Boolean),
     demoCode: process.env.DEMO_CODE || "DEMONOW",
     demoTtlSeconds: parseInt(process.env.DEMO_TTL_SECONDS, 10) || 14400,
     port: parseInt(process.env.PORT, 10) || 3001,
+    notifications: {
+        scanIntervalMinutes: parseInt(process.env.NOTIFICATION_SCAN_INTERVAL_MINUTES, 10) || 360,
+        retentionDays: parseInt(process.env.NOTIFICATION_RETENTION_DAYS, 10) || 30,
+    },
+    backups: {
+        retentionDays: parseInt(process.env.BACKUP_RETENTION_DAYS, 10) || 30,
+        maxPerUser: parseInt(process.env.BACKUP_MAX_PER_USER, 10) || 10,
+        intervalHours: parseInt(process.env.BACKUP_INTERVAL_HOURS, 10) || 24,
+        scheduledKeep: parseInt(process.env.BACKUP_SCHEDULED_KEEP, 10) || 7,
+    },
+    metadata: {
+        // "tmdb", or "fixture" to serve JSON files from fixturesDir and run offline
+        provider: process.env.METADATA_PROVIDER || "tmdb",
+        fixturesDir: process.env.METADATA_FIXTURES_DIR || path.join(__dirname, "../fixtures/metadata"),
+    },
+    metadataRefresh: {
+        airingIntervalHours: parseInt(process.env.METADATA_REFRESH_AIRING_HOURS, 10) || 12,
+        intervalHours: parseInt(process.env.METADATA_REFRESH_INTERVAL_HOURS, 10) || 168,
+    },
+    share: {
+        // Signs public share links; falls back to the JWT secret
+        secret: process.env.SHARE_SECRET || process.env.JWT_SECRET,
+    },
     cache,
 };
@@ -0,0 +1,23 @@
+const fs = require("fs/promises");
+const path = require("path");
+const nodemailer = require("nodemailer");
+const config = require("../config");
+
+// Builds the raw message without sending it anywhere
+const transport = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+const send = async ({ to, subject, text }) => {
+    const { message } = await transport.sendMail({ from: config.mail.from, to, subject, text });
+
+    await fs.mkdir(config.mail.outboxDir, { recursive: true });
+    const file = path.join(
+        config.mail.outboxDir,
+        `${new Date().toISOString().replace(/[:.]/g, "-")}-${to.replace(/[^\w.@-]/g, "_")}.eml`
+    );
+    await fs.writeFile(file, message);
+
+    // Not the body: it holds working reset and verification links, and logs get shared
+    console.log(`Mail saved to ${file}`);
+};
+
+module.exports = { name: "file", send };
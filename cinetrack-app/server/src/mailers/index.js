@@ -0,0 +1,27 @@
+const config = require("../config");
+
+/**
+ * How account emails (verification links, password resets) are delivered, picked with MAIL_TRANSPORT.
+ *
+ * Every mailer exposes the same call:
+ *
+ *   send({ to, subject, text })   resolves once the message has been handed off
+ *
+ * "smtp" sends through a real mail server; "file" writes each message to an .eml file
+ * in MAIL_OUTBOX_DIR, so sign-up and password resets work without one. Outside
+ * production MAIL_TRANSPORT defaults to "file"; in production it must be set.
+ */
+const MAILERS = {
+    smtp: () => require("./smtpMailer"),
+    file: () => require("./fileMailer"),
+};
+
+const load = MAILERS[config.mail.transport];
+if (!load) {
+    console.error(
+        `FATAL: Unknown MAIL_TRANSPORT "${config.mail.transport}" (expected one of: ${Object.keys(MAILERS).join(", ")})`
+    );
+    process.exit(1);
+}
+
+module.exports = load();
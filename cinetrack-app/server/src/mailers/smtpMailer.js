@@ -0,0 +1,22 @@
+const nodemailer = require("nodemailer");
+const config = require("../config");
+
+const { host, port, secure, user, pass } = config.mail.smtp;
+
+if (!host) {
+    console.error("FATAL: MAIL_TRANSPORT=smtp needs SMTP_HOST");
+    process.exit(1);
+}
+
+const transport = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined,
+});
+
+const send = async ({ to, subject, text }) => {
+    await transport.sendMail({ from: config.mail.from, to, subject, text });
+};
+
+module.exports = { name: "smtp", send };
@@ -0,0 +1,23 @@
+const { ObjectId } = require("mongodb");
+
+/**
+ * Lets the request through only for accounts with the admin role. Runs after
+ * authMiddleware. The role is read on every request, so demoting someone takes
+ * effect at once rather than when their access token runs out.
+ */
+const createAdminMiddleware = (usersCollection) => async (req, res, next) => {
+    try {
+        const user = await usersCollection.findOne(
+            { _id: new ObjectId(req.userId) },
+            { projection: { role: 1 } }
+        );
+        if (user?.role !== "admin") {
+            return res.status(403).json({ message: "Admin access required" });
+        }
+        next();
+    } catch (err) {
+        next(err);
+    }
+};
+
+module.exports = { createAdminMiddleware };
@@ -3,7 +3,13 @@ const config = require("../config");
 
 const JWT_SECRET = config.jwt.secret;
 
-const authMiddleware = (req, res, next) => {
+// Set at startup to sessionService.isActive, once the sessions collection is ready
+let isSessionActive = null;
+const setSessionCheck = (check) => {
+    isSessionActive = check;
+};
+
+const authMiddleware = async (req, res, next) => {
     const authHeader = req.headers.authorization;
 
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -12,14 +18,33 @@ const authMiddleware = (req, res, next) => {
 
     const token = authHeader.split(" ")[1];
 
+    let decoded;
     try {
-        const decoded = jwt.verify(token, JWT_SECRET);
-        req.userId = decoded.userId;
-        next();
+        decoded = jwt.verify(token, JWT_SECRET);
     } catch (err) {
         return res.status(401).json({ message: "Invalid or expired token" });
     }
+    // Tokens from before sessions existed can't be revoked, so they no longer count
+    if (!decoded.sessionId) {
+        return res.status(401).json({ message: "Invalid or expired token" });
+    }
+
+    // A token stops working as soon as its session is logged out or revoked
+    try {
+        if (!isSessionActive) {
+            return res.status(503).json({ message: "Server is starting. Please try again." });
+        }
+        if (!(await isSessionActive(decoded.userId, decoded.sessionId))) {
+            return res.status(401).json({ message: "Session has ended" });
+        }
+    } catch (err) {
+        return next(err);
+    }
+
+    req.userId = decoded.userId;
+    req.sessionId = decoded.sessionId;
+    next();
 };
 
-module.exports = { authMiddleware, JWT_SECRET };
+module.exports = { authMiddleware, setSessionCheck, JWT_SECRET };
 
@@ -1,7 +1,8 @@
 class AppError extends Error {
-    constructor(message, statusCode = 500) {
+    constructor(message, statusCode = 500, data) {
         super(message);
         this.statusCode = statusCode;
+        this.data = data;
         this.isOperational = true;
         Error.captureStackTrace(this, this.constructor);
     }
@@ -23,7 +24,7 @@ const errorHandler = (err, req, res, next) => {
     }
 
     if (err.isOperational) {
-        return res.status(err.statusCode).json({ message: err.message });
+        return res.status(err.statusCode).json({ message: err.message, ...err.data });
     }
 
     if (err instanceof SyntaxError && err.status === 400 && "body" in err) {
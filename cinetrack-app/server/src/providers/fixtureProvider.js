@@ -0,0 +1,118 @@
+const fs = require("fs/promises");
+const path = require("path");
+const config = require("../config");
+const { AppError } = require("../middleware/errorHandler");
+
+/**
+ * Metadata read from JSON files, so the app runs (and can be tested) without network access.
+ * Files live under METADATA_FIXTURES_DIR:
+ *
+ *   movie/<id>.json, tv/<id>.json   details in TMDB's shape (with videos, credits, images)
+ *   tv/<id>/season/<n>.json         a season with its episodes
+ *
+ * A details file may also carry `recommendations` ({ results }) and `watch_providers`
+ * ({ results }); they are served by their own calls and left out of the details.
+ */
+const FIXTURE_ONLY_FIELDS = ["recommendations", "watch_providers"];
+
+const readJson = async (...segments) => {
+    const file = path.join(config.metadata.fixturesDir, ...segments);
+    try {
+        return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (err) {
+        if (err.code === "ENOENT") return null;
+        throw new Error(`Invalid metadata fixture ${file}: ${err.message}`);
+    }
+};
+
+const readFixture = async (type, id) => {
+    const fixture = await readJson(type, `${Number(id)}.json`);
+    if (!fixture) {
+        throw new AppError(`No metadata fixture for ${type}:${id}`, 404);
+    }
+    return { ...fixture, id: Number(id), media_type: type };
+};
+
+const listFixtures = async (type) => {
+    const files = await fs.readdir(path.join(config.metadata.fixturesDir, type)).catch(() => []);
+    const ids = files.filter((file) => /^\d+\.json$/.test(file)).map((file) => parseInt(file, 10));
+    return Promise.all(ids.map((id) => readFixture(type, id)));
+};
+
+const listAll = async () => [...(await listFixtures("movie")), ...(await listFixtures("tv"))];
+
+const toSearchResult = (fixture) => ({
+    id: fixture.id,
+    media_type: fixture.media_type,
+    title: fixture.title,
+    name: fixture.name,
+    overview: fixture.overview ?? "",
+    poster_path: fixture.poster_path ?? null,
+    backdrop_path: fixture.backdrop_path ?? null,
+    release_date: fixture.release_date,
+    first_air_date: fixture.first_air_date,
+    vote_average: fixture.vote_average ?? 0,
+    popularity: fixture.popularity ?? 0,
+    genre_ids: (fixture.genres || []).map((genre) => genre.id),
+});
+
+const byPopularity = (a, b) => (b.popularity ?? 0) - (a.popularity ?? 0);
+
+module.exports = {
+    name: "fixture",
+
+    async getDiscover() {
+        const all = (await listAll()).sort(byPopularity).map(toSearchResult);
+        return {
+            trending: all,
+            popularMovies: all.filter((item) => item.media_type === "movie"),
+            popularTV: all.filter((item) => item.media_type === "tv"),
+        };
+    },
+
+    async search(query) {
+        const needle = query.toLowerCase().trim();
+        const matches = (await listAll()).filter((fixture) =>
+            [fixture.title, fixture.name, fixture.original_title, fixture.original_name]
+                .some((value) => value?.toLowerCase().includes(needle))
+        );
+        return { results: matches.sort(byPopularity).map(toSearchResult) };
+    },
+
+    async findByImdbId(imdbId) {
+        const matches = (await listAll()).filter((fixture) =>
+            (fixture.imdb_id ?? fixture.external_ids?.imdb_id) === imdbId
+        );
+        return { results: matches.map(toSearchResult) };
+    },
+
+    async getDetails(type, id) {
+        const details = await readFixture(type, id);
+        for (const field of FIXTURE_ONLY_FIELDS) delete details[field];
+        return details;
+    },
+
+    async getSeason(tvId, seasonNumber) {
+        const season = await readJson("tv", String(Number(tvId)), "season", `${Number(seasonNumber)}.json`);
+        if (!season) {
+            throw new AppError(`No metadata fixture for tv:${tvId} season ${seasonNumber}`, 404);
+        }
+        return season;
+    },
+
+    async getProviders(type, id) {
+        const fixture = await readFixture(type, id);
+        return { id: fixture.id, results: fixture.watch_providers?.results ?? {} };
+    },
+
+    async getRecommendations(type, id) {
+        const fixture = await readFixture(type, id);
+        const results = fixture.recommendations?.results ?? [];
+        return { results: results.map((item) => ({ ...item, media_type: type })) };
+    },
+
+    async getImages(type, id) {
+        const fixture = await readFixture(type, id);
+        return { id: fixture.id, backdrops: [], posters: [], logos: [], ...fixture.images };
+    },
+};
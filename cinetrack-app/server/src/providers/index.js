@@ -0,0 +1,33 @@
+const config = require("../config");
+
+/**
+ * Where movie and TV metadata comes from, picked with METADATA_PROVIDER.
+ *
+ * Every provider exposes the same calls, all async and all returning TMDB-shaped data
+ * (the client and the stored watchlist items are built around it):
+ *
+ *   getDiscover()                  { trending, popularMovies, popularTV }
+ *   search(query)                  { results } - movies and shows only
+ *   findByImdbId(imdbId)           { results }
+ *   getDetails(type, id)           details with videos, credits and images
+ *   getSeason(tvId, seasonNumber)  a season with its episodes
+ *   getProviders(type, id)         { id, results } - watch providers by country
+ *   getRecommendations(type, id)   { results }
+ *   getImages(type, id)            { id, backdrops, posters, logos }
+ *
+ * Results always carry `media_type`. A title the provider doesn't know rejects.
+ */
+const PROVIDERS = {
+    tmdb: () => require("./tmdbProvider"),
+    fixture: () => require("./fixtureProvider"),
+};
+
+const load = PROVIDERS[config.metadata.provider];
+if (!load) {
+    console.error(
+        `FATAL: Unknown METADATA_PROVIDER "${config.metadata.provider}" (expected one of: ${Object.keys(PROVIDERS).join(", ")})`
+    );
+    process.exit(1);
+}
+
+module.exports = load();
@@ -0,0 +1,86 @@
+const TMDB_API_BASE_URL = "https://api.themoviedb.org/3";
+const TMDB_API_TOKEN = process.env.TMDB_API_READ_ACCESS_TOKEN;
+
+if (!TMDB_API_TOKEN) {
+    console.error("WARNING: TMDB_API_READ_ACCESS_TOKEN is not set in server .env");
+}
+
+const fetchFromTMDB = async (endpoint) => {
+    const url = `${TMDB_API_BASE_URL}/${endpoint}`;
+    const response = await fetch(url, {
+        method: "GET",
+        headers: {
+            accept: "application/json",
+            Authorization: `Bearer ${TMDB_API_TOKEN}`,
+        },
+    });
+    if (!response.ok) {
+        const errorBody = await response.text().catch(() => "");
+        console.error(`TMDB fetch failed for: ${url}`);
+        throw new Error(`TMDB API error: ${response.status} ${response.statusText} - ${errorBody}`);
+    }
+    return response.json();
+};
+
+const filterMediaResults = (results) =>
+    results.filter((item) => item.media_type === "movie" || item.media_type === "tv");
+
+const addMediaType = (results, type) =>
+    results.map((item) => ({ ...item, media_type: type }));
+
+/**
+ * Metadata from The Movie Database (https://www.themoviedb.org). The default provider.
+ */
+module.exports = {
+    name: "tmdb",
+
+    async getDiscover() {
+        const [trending, popularMovies, popularTV] = await Promise.all([
+            fetchFromTMDB("trending/all/week"),
+            fetchFromTMDB("movie/popular"),
+            fetchFromTMDB("tv/popular"),
+        ]);
+        return {
+            trending: filterMediaResults(trending.results),
+            popularMovies: addMediaType(popularMovies.results, "movie"),
+            popularTV: addMediaType(popularTV.results, "tv"),
+        };
+    },
+
+    async search(query) {
+        const response = await fetchFromTMDB(`search/multi?query=${encodeURIComponent(query)}`);
+        return { results: filterMediaResults(response.results) };
+    },
+
+    async findByImdbId(imdbId) {
+        const response = await fetchFromTMDB(`find/${encodeURIComponent(imdbId)}?external_source=imdb_id`);
+        return {
+            results: [
+                ...addMediaType(response.movie_results, "movie"),
+                ...addMediaType(response.tv_results, "tv"),
+            ],
+        };
+    },
+
+    async getDetails(type, id) {
+        const details = await fetchFromTMDB(`${type}/${id}?append_to_response=videos,credits,images`);
+        return { ...details, media_type: type };
+    },
+
+    getSeason(tvId, seasonNumber) {
+        return fetchFromTMDB(`tv/${tvId}/season/${seasonNumber}`);
+    },
+
+    getProviders(type, id) {
+        return fetchFromTMDB(`${type}/${id}/watch/providers`);
+    },
+
+    async getRecommendations(type, id) {
+        const response = await fetchFromTMDB(`${type}/${id}/recommendations`);
+        return { results: addMediaType(response.results, type) };
+    },
+
+    getImages(type, id) {
+        return fetchFromTMDB(`${type}/${id}/images`);
+    },
+};
@@ -0,0 +1,218 @@
+const express = require("express");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const { createAdminMiddleware } = require("../middleware/adminMiddleware");
+const { asyncHandler, AppError } = require("../middleware/errorHandler");
+const { validate } = require("../middleware/validate");
+const { inviteCreateSchema, adminUserUpdateSchema, demoCleanupSchema } = require("../validation/schemas");
+const { cache } = require("../config");
+const provider = require("../providers");
+const { ObjectId } = require("mongodb");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USERS_PAGE_SIZE = 50;
+
+// What can be purged from Redis, by the key patterns each part of the app writes
+const CACHE_SCOPES = {
+    metadata: `${provider.name}:*`,
+    recommendations: "user:recommendations:*",
+    calendar: "calendar:feed:*",
+    all: "*",
+};
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+module.exports = (inviteService, demoCleanup, usersCollection, watchlistCollection, client) => {
+    const router = express.Router();
+
+    router.use(authMiddleware, createAdminMiddleware(usersCollection));
+
+    // GET /api/admin/stats - Database-wide numbers for the dashboard
+    router.get(
+        "/stats",
+        asyncHandler(async (req, res) => {
+            const [users, admins, unverified, items, demo, cacheStats] = await Promise.all([
+                usersCollection.countDocuments(),
+                usersCollection.countDocuments({ role: "admin" }),
+                usersCollection.countDocuments({ emailVerified: false }),
+                watchlistCollection.countDocuments(),
+                demoCleanup.summary(),
+                cache.stats(),
+            ]);
+
+            let dbStats = null;
+            try {
+                dbStats = await client.db("scenestackDB").stats();
+            } catch (statsErr) {
+                console.log("Could not get database stats:", statsErr.message);
+            }
+
+            res.json({
+                users: { total: users, admins, unverified },
+                demoUsers: demo,
+                watchlist: { items },
+                database: {
+                    name: dbStats?.db || "scenestackDB",
+                    dataSize: dbStats?.dataSize || 0,
+                    storageSize: dbStats?.storageSize || 0,
+                },
+                cache: cacheStats,
+            });
+        })
+    );
+
+    // GET /api/admin/users?search=&page= - Registered accounts, newest first
+    router.get(
+        "/users",
+        asyncHandler(async (req, res) => {
+            const page = Math.max(1, parseInt(req.query.page, 10) || 1);
+            const search = String(req.query.search || "").trim();
+            const filter = search ? { email: { $regex: escapeRegex(search), $options: "i" } } : {};
+
+            const [users, total] = await Promise.all([
+                usersCollection
+                    .find(filter, { projection: { email: 1, role: 1, emailVerified: 1, createdAt: 1 } })
+                    .sort({ createdAt: -1 })
+                    .skip((page - 1) * USERS_PAGE_SIZE)
+                    .limit(USERS_PAGE_SIZE)
+                    .toArray(),
+                usersCollection.countDocuments(filter),
+            ]);
+
+            const userIds = users.map((user) => user._id.toString());
+            const counts = await watchlistCollection
+                .aggregate([
+                    { $match: { userId: { $in: userIds } } },
+                    { $group: { _id: "$userId", count: { $sum: 1 } } },
+                ])
+                .toArray();
+            const itemCounts = new Map(counts.map((entry) => [entry._id, entry.count]));
+
+            res.json({
+                users: users.map((user) => ({
+                    id: user._id,
+                    email: user.email,
+                    role: user.role || "user",
+                    emailVerified: user.emailVerified !== false,
+                    itemCount: itemCounts.get(user._id.toString()) || 0,
+                    createdAt: user.createdAt,
+                })),
+                total,
+                page,
+                hasMore: page * USERS_PAGE_SIZE < total,
+            });
+        })
+    );
+
+    // PATCH /api/admin/users/:id - Change someone's role
+    router.patch(
+        "/users/:id",
+        validate(adminUserUpdateSchema),
+        asyncHandler(async (req, res) => {
+            if (!ObjectId.isValid(req.params.id)) {
+                throw new AppError("Invalid user ID", 400);
+            }
+            // Otherwise the last admin could lock everyone out
+            if (req.params.id === req.userId) {
+                throw new AppError("You can't change your own role", 400);
+            }
+
+            const user = await usersCollection.findOneAndUpdate(
+                { _id: new ObjectId(req.params.id) },
+                { $set: { role: req.body.role } },
+                { returnDocument: "after", projection: { email: 1, role: 1 } }
+            );
+            if (!user) {
+                throw new AppError("User not found", 404);
+            }
+            res.json({ id: user._id, email: user.email, role: user.role });
+        })
+    );
+
+    // POST /api/admin/demo-users/cleanup - Delete expired demo accounts now, or all of them
+    router.post(
+        "/demo-users/cleanup",
+        validate(demoCleanupSchema),
+        asyncHandler(async (req, res) => {
+            const removed = await demoCleanup.cleanup({ all: req.body.all === true });
+            res.json(removed);
+        })
+    );
+
+    // GET /api/admin/cache - Redis key count and memory use
+    router.get(
+        "/cache",
+        asyncHandler(async (req, res) => {
+            res.json(await cache.stats());
+        })
+    );
+
+    // DELETE /api/admin/cache/:scope - Purge metadata, recommendations, calendar feeds, or everything
+    router.delete(
+        "/cache/:scope",
+        asyncHandler(async (req, res) => {
+            const pattern = Object.hasOwn(CACHE_SCOPES, req.params.scope) ? CACHE_SCOPES[req.params.scope] : null;
+            if (!pattern) {
+                throw new AppError(`Unknown cache scope (expected one of: ${Object.keys(CACHE_SCOPES).join(", ")})`, 400);
+            }
+            if (!cache.isConnected()) {
+                throw new AppError("Cache is not connected", 503);
+            }
+            const deleted = await cache.purge(pattern);
+            res.json({ deleted });
+        })
+    );
+
+    const toAdminInvite = (invite) => ({
+        _id: invite._id,
+        code: invite.code,
+        note: invite.note,
+        createdBy: invite.createdBy,
+        maxUses: invite.maxUses,
+        uses: invite.uses,
+        status: inviteService.inviteStatus(invite),
+        redemptions: invite.redemptions,
+        expiresAt: invite.expiresAt,
+        revokedAt: invite.revokedAt,
+        createdAt: invite.createdAt,
+    });
+
+    // GET /api/admin/invites - Every code, with who signed up using it
+    router.get(
+        "/invites",
+        asyncHandler(async (req, res) => {
+            const invites = await inviteService.listAll();
+            res.json(invites.map(toAdminInvite));
+        })
+    );
+
+    // POST /api/admin/invites - Mint a code; omitted limits default to one use and no expiry
+    router.post(
+        "/invites",
+        validate(inviteCreateSchema),
+        asyncHandler(async (req, res) => {
+            const { code, maxUses, expiresInDays, note } = req.body;
+            const invite = await inviteService.mint({
+                createdBy: req.userId,
+                code,
+                maxUses: maxUses === undefined ? 1 : maxUses,
+                expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+                note: note || null,
+            });
+            res.status(201).json(toAdminInvite(invite));
+        })
+    );
+
+    // DELETE /api/admin/invites/:id - Revoke any code
+    router.delete(
+        "/invites/:id",
+        asyncHandler(async (req, res) => {
+            const revoked = await inviteService.revoke(req.params.id);
+            if (!revoked) {
+                throw new AppError("Invite not found or already revoked", 404);
+            }
+            res.status(204).send();
+        })
+    );
+
+    return router;
+};
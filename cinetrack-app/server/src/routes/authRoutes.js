@@ -1,18 +1,63 @@
 const express = require("express");
 const bcrypt = require("bcryptjs");
-const jwt = require("jsonwebtoken");
 const config = require("../config");
-const { JWT_SECRET, authMiddleware } = require("../middleware/authMiddleware");
+const { authMiddleware } = require("../middleware/authMiddleware");
 const { validate } = require("../middleware/validate");
-const { registerSchema, loginSchema, changePasswordSchema } = require("../validation/schemas");
+const {
+    registerSchema,
+    loginSchema,
+    changePasswordSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    loginTwoFactorSchema,
+    twoFactorSetupSchema,
+    twoFactorCodeSchema,
+    twoFactorDisableSchema,
+} = require("../validation/schemas");
 const { ObjectId } = require("mongodb");
+const mailer = require("../mailers");
+const { verificationEmail, passwordResetEmail } = require("../services/accountEmails");
 
 const router = express.Router();
 
-const INVITE_CODES = config.inviteCodes;
 const DEMO_CODE = config.demoCode;
+// Time to enter the authenticator code after the password was accepted
+const TWO_FACTOR_CHALLENGE_MS = 5 * 60 * 1000;
+const TWO_FACTOR_LOCKED_MESSAGE = "Too many wrong codes. Please try again in 15 minutes.";
+
+const REFRESH_COOKIE = "scenestack_refresh";
+// Only the auth endpoints ever need to see the refresh token
+const REFRESH_COOKIE_OPTIONS = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/api/auth",
+};
+
+const readCookie = (req, name) => {
+    for (const part of (req.headers.cookie || "").split(";")) {
+        const [key, ...value] = part.trim().split("=");
+        if (key === name) return decodeURIComponent(value.join("="));
+    }
+    return null;
+};
+
+const setRefreshCookie = (res, refreshToken, expiresAt) =>
+    res.cookie(REFRESH_COOKIE, refreshToken, { ...REFRESH_COOKIE_OPTIONS, expires: expiresAt });
+
+const clearRefreshCookie = (res) => res.clearCookie(REFRESH_COOKIE, REFRESH_COOKIE_OPTIONS);
+
+// Accounts from before verification existed have no flag and count as verified; ones from before roles are users
+const toPublicUser = (user, isDemo) => ({
+    id: user._id,
+    email: user.email,
+    isDemo,
+    role: user.role || "user",
+    emailVerified: user.emailVerified !== false,
+    twoFactorEnabled: Boolean(user.twoFactor?.enabled),
+});
 
-module.exports = (usersCollection, demoUsersCollection) => {
+module.exports = (usersCollection, demoUsersCollection, sessionService, accountTokens, inviteService, twoFactor, accountDeletion) => {
     const findUser = async (query) => {
         let user = await usersCollection.findOne(query);
         if (user) return { user, isDemo: false };
@@ -33,39 +78,76 @@ module.exports = (usersCollection, demoUsersCollection) => {
         return { collection: null, user: null, isDemo: false };
     };
 
+    // Starts a session: the refresh token goes in the cookie, the access token in the body
+    const startSession = async (req, res, user, isDemo) => {
+        const { session, accessToken, refreshToken } = await sessionService.create(user._id, isDemo, req);
+        setRefreshCookie(res, refreshToken, session.expiresAt);
+        return accessToken;
+    };
+
+    const sendVerificationEmail = async (user) => {
+        const token = await accountTokens.issue(
+            user._id,
+            "verify_email",
+            config.auth.verifyTokenHours * 60 * 60 * 1000
+        );
+        await mailer.send(verificationEmail(user.email, token));
+    };
+
     // POST /api/auth/register
     router.post("/register", validate(registerSchema), async (req, res) => {
         try {
             const { email, password, inviteCode } = req.body;
             const isDemo = inviteCode === DEMO_CODE;
 
-            if (!isDemo && !INVITE_CODES.includes(inviteCode)) {
-                return res.status(403).json({ message: "Invalid invite code" });
-            }
-
             const { user: existingUser } = await findUser({ email: email.toLowerCase() });
             if (existingUser) {
                 return res.status(409).json({ message: "Email already registered" });
             }
 
+            const invite = isDemo ? null : await inviteService.claim(inviteCode);
+            if (!isDemo && !invite) {
+                return res.status(403).json({ message: "Invalid invite code" });
+            }
+
             const passwordHash = await bcrypt.hash(password, 10);
             const collection = isDemo ? demoUsersCollection : usersCollection;
 
-            const result = await collection.insertOne({
+            // Demo addresses are throwaway, so only real accounts get verified
+            const user = {
                 email: email.toLowerCase(),
                 passwordHash,
+                ...(isDemo
+                    ? {}
+                    : { role: config.adminEmails.includes(email.toLowerCase()) ? "admin" : "user", emailVerified: false }),
                 createdAt: new Date(),
-            });
+            };
+            let result;
+            try {
+                result = await collection.insertOne(user);
+            } catch (err) {
+                // e.g. the same email registering twice at once; give the use back
+                if (invite) await inviteService.release(invite);
+                throw err;
+            }
+            user._id = result.insertedId;
+            if (invite) {
+                await inviteService.recordRedemption(invite, user);
+            }
 
-            const tokenExpiry = isDemo ? "4h" : "7d";
-            const token = jwt.sign({ userId: result.insertedId.toString() }, JWT_SECRET, {
-                expiresIn: tokenExpiry,
-            });
+            if (!isDemo) {
+                // The account works without it, so a mail outage shouldn't block sign-up
+                await sendVerificationEmail(user).catch((err) =>
+                    console.error("Verification email error:", err)
+                );
+            }
+
+            const token = await startSession(req, res, user, isDemo);
 
             res.status(201).json({
                 message: "Account created successfully",
                 token,
-                user: { id: result.insertedId, email: email.toLowerCase(), isDemo },
+                user: toPublicUser(user, isDemo),
             });
         } catch (err) {
             console.error("Registration error:", err);
@@ -88,14 +170,17 @@ module.exports = (usersCollection, demoUsersCollection) => {
                 return res.status(401).json({ message: "Invalid email or password" });
             }
 
-            const tokenExpiry = isDemo ? "4h" : "7d";
-            const token = jwt.sign({ userId: user._id.toString() }, JWT_SECRET, {
-                expiresIn: tokenExpiry,
-            });
+            // The password checked out; the session waits for the second step
+            if (user.twoFactor?.enabled) {
+                const challenge = await accountTokens.issue(user._id, "login_2fa", TWO_FACTOR_CHALLENGE_MS);
+                return res.json({ twoFactorRequired: true, challenge });
+            }
+
+            const token = await startSession(req, res, user, isDemo);
 
             res.json({
                 token,
-                user: { id: user._id, email: user.email, isDemo },
+                user: toPublicUser(user, isDemo),
             });
         } catch (err) {
             console.error("Login error:", err);
@@ -103,6 +188,317 @@ module.exports = (usersCollection, demoUsersCollection) => {
         }
     });
 
+    // POST /api/auth/login/2fa - Second login step: an authenticator or recovery code
+    router.post("/login/2fa", validate(loginTwoFactorSchema), async (req, res) => {
+        try {
+            const { challenge, code } = req.body;
+            // Not used up yet, so a mistyped code can be tried again
+            const userId = await accountTokens.find(challenge, "login_2fa");
+            const user = userId ? await usersCollection.findOne({ _id: new ObjectId(userId) }) : null;
+            if (!user) {
+                return res.status(401).json({ message: "Sign-in timed out. Please enter your password again." });
+            }
+
+            const result = await twoFactor.verify(user, code);
+            if (result === "locked") {
+                // Start over with the password once the lock is up
+                await accountTokens.consume(challenge, "login_2fa");
+                return res.status(429).json({ message: TWO_FACTOR_LOCKED_MESSAGE });
+            }
+            if (result === "invalid") {
+                return res.status(401).json({ message: "Invalid code" });
+            }
+            if (!(await accountTokens.consume(challenge, "login_2fa"))) {
+                return res.status(401).json({ message: "Sign-in timed out. Please enter your password again." });
+            }
+
+            const token = await startSession(req, res, user, false);
+
+            res.json({
+                token,
+                user: toPublicUser(user, false),
+            });
+        } catch (err) {
+            console.error("Two-factor login error:", err);
+            res.status(500).json({ message: "Server error during login" });
+        }
+    });
+
+    // POST /api/auth/refresh - Trade the refresh cookie for a new access token (and a new cookie)
+    router.post("/refresh", async (req, res) => {
+        try {
+            const rotated = await sessionService.rotate(readCookie(req, REFRESH_COOKIE), req);
+            if (!rotated) {
+                clearRefreshCookie(res);
+                return res.status(401).json({ message: "Session expired. Please log in again." });
+            }
+
+            const { user, isDemo } = await getCollectionForUser(rotated.session.userId);
+            if (!user) {
+                await sessionService.revoke(rotated.session.userId, rotated.session._id);
+                clearRefreshCookie(res);
+                return res.status(401).json({ message: "Session expired. Please log in again." });
+            }
+
+            if (rotated.refreshToken) {
+                setRefreshCookie(res, rotated.refreshToken, rotated.session.expiresAt);
+            }
+            res.json({
+                token: rotated.accessToken,
+                user: toPublicUser(user, isDemo),
+            });
+        } catch (err) {
+            console.error("Refresh error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // POST /api/auth/logout - End this device's session. The access token may already have expired.
+    router.post("/logout", async (req, res) => {
+        try {
+            const session = await sessionService.findByRefreshToken(readCookie(req, REFRESH_COOKIE));
+            if (session) {
+                await sessionService.revoke(session.userId, session._id);
+            }
+            clearRefreshCookie(res);
+            res.status(204).send();
+        } catch (err) {
+            console.error("Logout error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // POST /api/auth/forgot - Email a password reset link. Answers the same whether or not the account exists.
+    router.post("/forgot", validate(forgotPasswordSchema), async (req, res) => {
+        try {
+            // Demo accounts have no real inbox
+            const user = await usersCollection.findOne({ email: req.body.email.toLowerCase() });
+            if (user) {
+                const token = await accountTokens.issue(
+                    user._id,
+                    "reset_password",
+                    config.auth.resetTokenMinutes * 60 * 1000
+                );
+                await mailer.send(passwordResetEmail(user.email, token)).catch((err) =>
+                    console.error("Password reset email error:", err)
+                );
+            }
+            res.json({ message: "If that email has an account, a reset link is on its way." });
+        } catch (err) {
+            console.error("Forgot password error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // POST /api/auth/reset - Set a new password with the token from the reset email
+    router.post("/reset", validate(resetPasswordSchema), async (req, res) => {
+        try {
+            const { token, password } = req.body;
+            const userId = await accountTokens.consume(token, "reset_password");
+            if (!userId) {
+                return res.status(400).json({ message: "This reset link is invalid or has expired" });
+            }
+
+            const passwordHash = await bcrypt.hash(password, 10);
+            // The link arrived by email, so the address is proven too
+            const result = await usersCollection.updateOne(
+                { _id: new ObjectId(userId) },
+                { $set: { passwordHash, emailVerified: true } }
+            );
+            if (result.matchedCount === 0) {
+                return res.status(400).json({ message: "This reset link is invalid or has expired" });
+            }
+            await sessionService.revokeAll(userId);
+
+            res.json({ message: "Password reset. You can sign in with your new password." });
+        } catch (err) {
+            console.error("Reset password error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // GET /api/auth/verify/:token - Opened from the verification email; redirects back to the app
+    router.get("/verify/:token", async (req, res) => {
+        try {
+            const userId = await accountTokens.consume(req.params.token, "verify_email");
+            const result = userId
+                ? await usersCollection.updateOne(
+                    { _id: new ObjectId(userId) },
+                    { $set: { emailVerified: true } }
+                )
+                : null;
+            res.redirect(`${config.appUrl}/?emailVerified=${result?.matchedCount ? "1" : "0"}`);
+        } catch (err) {
+            console.error("Verify email error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // POST /api/auth/verify/resend - Send the verification email again
+    router.post("/verify/resend", authMiddleware, async (req, res) => {
+        try {
+            const user = await usersCollection.findOne({ _id: new ObjectId(req.userId) });
+            if (!user) {
+                return res.status(403).json({ message: "Demo accounts don't need verifying" });
+            }
+            if (user.emailVerified !== false) {
+                return res.status(400).json({ message: "Email is already verified" });
+            }
+
+            await sendVerificationEmail(user);
+            res.json({ message: "Verification email sent" });
+        } catch (err) {
+            console.error("Resend verification error:", err);
+            res.status(500).json({ message: "Could not send the verification email" });
+        }
+    });
+
+    // Two-factor settings only exist for registered accounts
+    const findRegisteredUser = (userId) => usersCollection.findOne({ _id: new ObjectId(userId) });
+    const DEMO_TWO_FACTOR_MESSAGE = "Demo accounts can't use two-factor authentication";
+
+    // GET /api/auth/2fa - Whether two-factor authentication is on
+    router.get("/2fa", authMiddleware, async (req, res) => {
+        try {
+            const user = await findRegisteredUser(req.userId);
+            res.json(user ? twoFactor.status(user) : { enabled: false, recoveryCodesRemaining: 0 });
+        } catch (err) {
+            console.error("Two-factor status error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // POST /api/auth/2fa/setup - New secret to scan; takes effect once confirmed via /2fa/enable
+    router.post("/2fa/setup", authMiddleware, validate(twoFactorSetupSchema), async (req, res) => {
+        try {
+            const user = await findRegisteredUser(req.userId);
+            if (!user) {
+                return res.status(403).json({ message: DEMO_TWO_FACTOR_MESSAGE });
+            }
+            if (user.twoFactor?.enabled) {
+                return res.status(409).json({ message: "Two-factor authentication is already on" });
+            }
+            // Otherwise a borrowed session could lock the owner out
+            if (!(await bcrypt.compare(req.body.password, user.passwordHash))) {
+                return res.status(400).json({ message: "Password is incorrect" });
+            }
+
+            res.json(await twoFactor.beginSetup(user));
+        } catch (err) {
+            console.error("Two-factor setup error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // POST /api/auth/2fa/enable - Confirm setup with a code; returns the recovery codes
+    router.post("/2fa/enable", authMiddleware, validate(twoFactorCodeSchema), async (req, res) => {
+        try {
+            const user = await findRegisteredUser(req.userId);
+            if (!user) {
+                return res.status(403).json({ message: DEMO_TWO_FACTOR_MESSAGE });
+            }
+            if (user.twoFactor?.enabled) {
+                return res.status(409).json({ message: "Two-factor authentication is already on" });
+            }
+
+            const recoveryCodes = await twoFactor.enable(user, req.body.code);
+            if (!recoveryCodes) {
+                return res.status(400).json({ message: "That code doesn't match. Check your device's clock and try again." });
+            }
+            res.json({ recoveryCodes });
+        } catch (err) {
+            console.error("Two-factor enable error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // POST /api/auth/2fa/recovery-codes - Replace the recovery codes; needs a current code
+    router.post("/2fa/recovery-codes", authMiddleware, validate(twoFactorCodeSchema), async (req, res) => {
+        try {
+            const user = await findRegisteredUser(req.userId);
+            if (!user?.twoFactor?.enabled) {
+                return res.status(400).json({ message: "Two-factor authentication is off" });
+            }
+            const result = await twoFactor.verify(user, req.body.code);
+            if (result === "locked") {
+                return res.status(429).json({ message: TWO_FACTOR_LOCKED_MESSAGE });
+            }
+            if (result === "invalid") {
+                return res.status(400).json({ message: "Invalid code" });
+            }
+
+            res.json({ recoveryCodes: await twoFactor.regenerateRecoveryCodes(user) });
+        } catch (err) {
+            console.error("Recovery codes error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // POST /api/auth/2fa/disable - Turn two-factor authentication off; needs the password and a code
+    router.post("/2fa/disable", authMiddleware, validate(twoFactorDisableSchema), async (req, res) => {
+        try {
+            const user = await findRegisteredUser(req.userId);
+            if (!user?.twoFactor?.enabled) {
+                return res.status(400).json({ message: "Two-factor authentication is off" });
+            }
+            if (!(await bcrypt.compare(req.body.password, user.passwordHash))) {
+                return res.status(400).json({ message: "Password is incorrect" });
+            }
+            const result = await twoFactor.verify(user, req.body.code);
+            if (result === "locked") {
+                return res.status(429).json({ message: TWO_FACTOR_LOCKED_MESSAGE });
+            }
+            if (result === "invalid") {
+                return res.status(400).json({ message: "Invalid code" });
+            }
+
+            await twoFactor.disable(user);
+            res.json({ message: "Two-factor authentication turned off" });
+        } catch (err) {
+            console.error("Two-factor disable error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // GET /api/auth/sessions - Devices that are logged in
+    router.get("/sessions", authMiddleware, async (req, res) => {
+        try {
+            res.json(await sessionService.list(req.userId, req.sessionId));
+        } catch (err) {
+            console.error("List sessions error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // DELETE /api/auth/sessions - Log out all devices, this one included
+    router.delete("/sessions", authMiddleware, async (req, res) => {
+        try {
+            await sessionService.revokeAll(req.userId);
+            clearRefreshCookie(res);
+            res.status(204).send();
+        } catch (err) {
+            console.error("Revoke sessions error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
+    // DELETE /api/auth/sessions/:id - Log out one device
+    router.delete("/sessions/:id", authMiddleware, async (req, res) => {
+        try {
+            const revoked = await sessionService.revoke(req.userId, req.params.id);
+            if (!revoked) {
+                return res.status(404).json({ message: "Session not found" });
+            }
+            if (req.params.id === req.sessionId) {
+                clearRefreshCookie(res);
+            }
+            res.status(204).send();
+        } catch (err) {
+            console.error("Revoke session error:", err);
+            res.status(500).json({ message: "Server error" });
+        }
+    });
+
     // GET /api/auth/me - Get current user
     router.get("/me", authMiddleware, async (req, res) => {
         try {
@@ -113,7 +509,7 @@ module.exports = (usersCollection, demoUsersCollection) => {
             }
 
             res.json({
-                user: { id: user._id, email: user.email, isDemo },
+                user: toPublicUser(user, isDemo),
             });
         } catch (err) {
             console.error("Get user error:", err);
@@ -137,7 +533,8 @@ module.exports = (usersCollection, demoUsersCollection) => {
 
             const isValid = await bcrypt.compare(currentPassword, user.passwordHash);
             if (!isValid) {
-                return res.status(401).json({ message: "Current password is incorrect" });
+                // Not 401: the caller is authenticated, the password they typed is just wrong
+                return res.status(400).json({ message: "Current password is incorrect" });
             }
 
             const newPasswordHash = await bcrypt.hash(newPassword, 10);
@@ -145,6 +542,8 @@ module.exports = (usersCollection, demoUsersCollection) => {
                 { _id: new ObjectId(req.userId) },
                 { $set: { passwordHash: newPasswordHash } }
             );
+            // Anyone who knew the old password is logged out everywhere else
+            await sessionService.revokeAll(req.userId, req.sessionId);
 
             res.json({ message: "Password updated successfully" });
         } catch (err) {
@@ -153,10 +552,10 @@ module.exports = (usersCollection, demoUsersCollection) => {
         }
     });
 
-    // DELETE /api/auth - Delete account 
+    // DELETE /api/auth - Delete account and all of its data
     router.delete("/", authMiddleware, async (req, res) => {
         try {
-            const { collection, user, isDemo } = await getCollectionForUser(req.userId);
+            const { user, isDemo } = await getCollectionForUser(req.userId);
 
             if (!user) {
                 return res.status(404).json({ message: "User not found" });
@@ -166,10 +565,10 @@ module.exports = (usersCollection, demoUsersCollection) => {
                 return res.status(403).json({ message: "Demo accounts are deleted automatically" });
             }
 
-            const userResult = await collection.deleteOne({ _id: new ObjectId(req.userId) });
-            if (userResult.deletedCount === 0) {
+            if (!(await accountDeletion.deleteAccount(req.userId))) {
                 return res.status(404).json({ message: "User not found" });
             }
+            clearRefreshCookie(res);
 
             res.status(204).send();
         } catch (err) {
@@ -0,0 +1,83 @@
+const express = require("express");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const { asyncHandler, AppError } = require("../middleware/errorHandler");
+const { ObjectId } = require("mongodb");
+
+const parseObjectId = (value) => {
+    if (!ObjectId.isValid(value)) {
+        throw new AppError("Invalid backup ID.", 400);
+    }
+    return new ObjectId(value);
+};
+
+// Snapshots are taken automatically before imports and wipes, and on a schedule; see services/backupService.js
+module.exports = (backupService, demoUsersCollection, broadcastToUser) => {
+    const router = express.Router();
+
+    // Demo data expires within hours, so demo accounts have nothing to back up
+    const blockDemo = asyncHandler(async (req, res, next) => {
+        const demoUser = await demoUsersCollection.findOne({ _id: new ObjectId(req.userId) });
+        if (demoUser) {
+            throw new AppError("Backups are not available for demo accounts", 403);
+        }
+        next();
+    });
+
+    // GET /api/backups - Newest first
+    router.get(
+        "/",
+        authMiddleware,
+        blockDemo,
+        asyncHandler(async (req, res) => {
+            const backups = await backupService.list(req.userId);
+            res.json({ backups });
+        })
+    );
+
+    // POST /api/backups/restore-file - Replace the watchlist with an export file of any version
+    router.post(
+        "/restore-file",
+        authMiddleware,
+        blockDemo,
+        asyncHandler(async (req, res) => {
+            const restored = await backupService.restoreFromExport(req.userId, req.body);
+            broadcastToUser(req.userId, "watchlist:sync", { trigger: "restore" });
+            res.json(restored);
+        })
+    );
+
+    // GET /api/backups/:id/export - A snapshot's watchlist as an export file
+    router.get(
+        "/:id/export",
+        authMiddleware,
+        blockDemo,
+        asyncHandler(async (req, res) => {
+            res.json(await backupService.exportBackup(req.userId, parseObjectId(req.params.id)));
+        })
+    );
+
+    // POST /api/backups/:id/restore - Replace the watchlist, history and lists with a snapshot
+    router.post(
+        "/:id/restore",
+        authMiddleware,
+        blockDemo,
+        asyncHandler(async (req, res) => {
+            const restored = await backupService.restore(req.userId, parseObjectId(req.params.id));
+            broadcastToUser(req.userId, "watchlist:sync", { trigger: "restore" });
+            res.json(restored);
+        })
+    );
+
+    // DELETE /api/backups/:id
+    router.delete(
+        "/:id",
+        authMiddleware,
+        blockDemo,
+        asyncHandler(async (req, res) => {
+            await backupService.remove(req.userId, parseObjectId(req.params.id));
+            res.status(204).send();
+        })
+    );
+
+    return router;
+};
@@ -0,0 +1,75 @@
+const express = require("express");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const { asyncHandler, AppError } = require("../middleware/errorHandler");
+const { createShareToken, verifyShareToken } = require("../services/shareTokens");
+const { buildFeed } = require("../services/calendarFeed");
+const { ObjectId } = require("mongodb");
+
+const notFound = () => new AppError("This calendar feed doesn't exist or has been reset.", 404);
+
+// Feed tokens are signed like share links, but for the calendar, so neither works as the other.
+// Resetting the feed replaces its document, so old URLs stop working
+module.exports = (calendarFeedsCollection, watchlistCollection, demoUsersCollection) => {
+    const router = express.Router();
+
+    const toFeed = (feed) => (feed ? { token: createShareToken(feed._id, "calendar"), createdAt: feed.createdAt } : null);
+
+    // GET /api/calendar/feed - The current user's feed, or null if they haven't made one
+    router.get(
+        "/feed",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const feed = await calendarFeedsCollection.findOne({ userId: req.userId });
+            res.json(toFeed(feed));
+        })
+    );
+
+    // POST /api/calendar/feed - Create the feed, or replace it with a new URL
+    router.post(
+        "/feed",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const demoUser = await demoUsersCollection.findOne({ _id: new ObjectId(req.userId) });
+            if (demoUser) {
+                throw new AppError("Demo accounts cannot create calendar feeds", 403);
+            }
+
+            await calendarFeedsCollection.deleteOne({ userId: req.userId });
+            const feed = { userId: req.userId, createdAt: new Date() };
+            const { insertedId } = await calendarFeedsCollection.insertOne(feed);
+            res.status(201).json(toFeed({ ...feed, _id: insertedId }));
+        })
+    );
+
+    // DELETE /api/calendar/feed - Turn the feed off
+    router.delete(
+        "/feed",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            await calendarFeedsCollection.deleteOne({ userId: req.userId });
+            res.status(204).send();
+        })
+    );
+
+    // GET /api/calendar/:token.ics - The feed itself, no auth; calendar apps can't send headers
+    router.get(
+        "/:token.ics",
+        asyncHandler(async (req, res) => {
+            const feedId = verifyShareToken(req.params.token, "calendar");
+            if (!feedId || !ObjectId.isValid(feedId)) {
+                throw notFound();
+            }
+            const feed = await calendarFeedsCollection.findOne({ _id: new ObjectId(feedId) });
+            if (!feed) {
+                throw notFound();
+            }
+
+            const ics = await buildFeed(watchlistCollection, feed.userId);
+            res.set("Content-Type", "text/calendar; charset=utf-8");
+            res.set("Content-Disposition", 'inline; filename="scenestack.ics"');
+            res.send(ics);
+        })
+    );
+
+    return router;
+};
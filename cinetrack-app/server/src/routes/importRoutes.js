@@ -0,0 +1,73 @@
+const express = require("express");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const { asyncHandler, AppError } = require("../middleware/errorHandler");
+const { validate } = require("../middleware/validate");
+const { importResolveSchema, importApplySchema } = require("../validation/schemas");
+const { matchTitles } = require("../services/titleMatcher");
+const { planImport, describePlan, applyImport } = require("../services/mergeImport");
+const { ObjectId } = require("mongodb");
+
+// Imports from other services (Letterboxd, ...). Unlike POST /api/watchlist/import,
+// these merge into the existing watchlist instead of replacing it.
+module.exports = (watchlistCollection, demoUsersCollection, watchHistoryCollection, backupService, broadcastToUser) => {
+    const router = express.Router();
+
+    const blockDemo = asyncHandler(async (req, res, next) => {
+        const demoUser = await demoUsersCollection.findOne({ _id: new ObjectId(req.userId) });
+        if (demoUser) {
+            throw new AppError("Demo accounts cannot import watchlists", 403);
+        }
+        next();
+    });
+
+    // POST /api/import/resolve - Match titles from an export file to TMDB ids
+    router.post(
+        "/resolve",
+        authMiddleware,
+        blockDemo,
+        validate(importResolveSchema),
+        asyncHandler(async (req, res) => {
+            const results = await matchTitles(req.body.rows);
+            res.json({ results });
+        })
+    );
+
+    // POST /api/import/apply - Merge resolved entries into the watchlist.
+    // With dryRun, returns what would be added, updated or conflicted instead.
+    router.post(
+        "/apply",
+        authMiddleware,
+        blockDemo,
+        validate(importApplySchema),
+        asyncHandler(async (req, res) => {
+            const { entries, dryRun, overwriteConflicts, snapshot = true } = req.body;
+            const existingItems = await watchlistCollection
+                .find(
+                    { userId: req.userId, id: { $in: entries.map((entry) => entry.id) } },
+                    { projection: { _id: 0, id: 1, userId: 1, media_type: 1, title: 1, name: 1, watched: 1, watchedEpisodes: 1, userRating: 1, review: 1, lastWatchedAt: 1, historySeededAt: 1, number_of_episodes: 1 } }
+                )
+                .toArray();
+
+            const plan = planImport(existingItems, entries, { overwriteConflicts });
+            if (dryRun) {
+                return res.json(describePlan(plan));
+            }
+
+            // Once per import: a backup per batch would prune the one from before the import
+            if (snapshot) {
+                await backupService.snapshot(req.userId, "merge-import");
+            }
+            const summary = await applyImport(
+                { itemCollection: watchlistCollection, historyCollection: watchHistoryCollection, userId: req.userId },
+                plan
+            );
+
+            if (summary.added > 0 || summary.updated > 0) {
+                broadcastToUser(req.userId, "watchlist:sync", { trigger: "import" });
+            }
+            res.json(summary);
+        })
+    );
+
+    return router;
+};
@@ -0,0 +1,72 @@
+const express = require("express");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const { asyncHandler, AppError } = require("../middleware/errorHandler");
+const config = require("../config");
+const { ObjectId } = require("mongodb");
+
+module.exports = (inviteService, usersCollection) => {
+    const router = express.Router();
+
+    // What the person who made the code sees; who signed up with it is only in the admin view
+    const toInvite = (invite) => ({
+        _id: invite._id,
+        code: invite.code,
+        maxUses: invite.maxUses,
+        uses: invite.uses,
+        status: inviteService.inviteStatus(invite),
+        expiresAt: invite.expiresAt,
+        createdAt: invite.createdAt,
+    });
+
+    const listResponse = async (userId) => ({
+        invites: (await inviteService.listCreatedBy(userId)).map(toInvite),
+        remaining: await inviteService.remainingFor(userId),
+        perUser: config.invites.perUser,
+    });
+
+    // GET /api/invites - Codes the current user has created, and how many more they can make
+    router.get(
+        "/",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            res.json(await listResponse(req.userId));
+        })
+    );
+
+    // POST /api/invites - Create a single-use code to hand to a friend
+    router.post(
+        "/",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            // Demo accounts live in their own collection, so they aren't found here
+            const user = await usersCollection.findOne({ _id: new ObjectId(req.userId) });
+            if (!user) {
+                throw new AppError("Demo accounts cannot create invites", 403);
+            }
+            if (user.emailVerified === false) {
+                throw new AppError("Verify your email before inviting others", 403);
+            }
+            // Checks the limit and takes one in the same update, so parallel requests can't go over
+            const invite = await inviteService.mintForUser(req.userId);
+            if (!invite) {
+                throw new AppError("You've used all your invites", 403);
+            }
+            res.status(201).json(toInvite(invite));
+        })
+    );
+
+    // DELETE /api/invites/:id - Revoke one of the current user's codes
+    router.delete(
+        "/:id",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const revoked = await inviteService.revoke(req.params.id, req.userId);
+            if (!revoked) {
+                throw new AppError("Invite not found", 404);
+            }
+            res.status(204).send();
+        })
+    );
+
+    return router;
+};
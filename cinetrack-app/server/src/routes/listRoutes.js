@@ -0,0 +1,216 @@
+const express = require("express");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const { asyncHandler, AppError } = require("../middleware/errorHandler");
+const { validate } = require("../middleware/validate");
+const {
+    listCreateSchema,
+    listUpdateSchema,
+    listItemSchema,
+    listOrderSchema,
+} = require("../validation/schemas");
+const { demoTtlSeconds } = require("../config");
+const { ObjectId } = require("mongodb");
+
+const MAX_LISTS = 100;
+
+const parseListId = (value) => {
+    if (!ObjectId.isValid(value)) {
+        throw new AppError("Invalid list ID.", 400);
+    }
+    return new ObjectId(value);
+};
+
+const parseItemId = (value) => {
+    const id = parseInt(value, 10);
+    if (isNaN(id)) {
+        throw new AppError("Invalid ID format.", 400);
+    }
+    return id;
+};
+
+// Lists are returned without owner or expiry bookkeeping
+const LIST_PROJECTION = { userId: 0, expiresAt: 0 };
+
+module.exports = (listsCollection, watchlistCollection, demoWatchlistCollection, demoUsersCollection, broadcastToUser) => {
+    const router = express.Router();
+
+    const getWatchlistCollection = async (userId) => {
+        const demoUser = await demoUsersCollection.findOne({ _id: new ObjectId(userId) });
+        if (demoUser) {
+            return { collection: demoWatchlistCollection, isDemo: true };
+        }
+        return { collection: watchlistCollection, isDemo: false };
+    };
+
+    // Applies an update to one of the user's lists, broadcasts and returns the new version
+    const updateList = async (userId, filter, update) => {
+        const list = await listsCollection.findOneAndUpdate(
+            { ...filter, userId },
+            { ...update, $set: { ...update.$set, updatedAt: new Date() } },
+            { returnDocument: "after", projection: LIST_PROJECTION }
+        );
+        if (list) {
+            broadcastToUser(userId, "list:update", list);
+        }
+        return list;
+    };
+
+    const findList = async (_id, userId) => {
+        const list = await listsCollection.findOne({ _id, userId }, { projection: LIST_PROJECTION });
+        if (!list) {
+            throw new AppError("List not found.", 404);
+        }
+        return list;
+    };
+
+    // GET /api/lists
+    router.get(
+        "/",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const lists = await listsCollection
+                .find({ userId: req.userId }, { projection: LIST_PROJECTION })
+                .sort({ createdAt: 1 })
+                .toArray();
+            res.json(lists);
+        })
+    );
+
+    // POST /api/lists
+    router.post(
+        "/",
+        authMiddleware,
+        validate(listCreateSchema),
+        asyncHandler(async (req, res) => {
+            const { isDemo } = await getWatchlistCollection(req.userId);
+            const count = await listsCollection.countDocuments({ userId: req.userId });
+            if (count >= MAX_LISTS) {
+                throw new AppError(`You can have at most ${MAX_LISTS} lists.`, 400);
+            }
+
+            const now = new Date();
+            const list = {
+                userId: req.userId,
+                name: req.body.name.trim(),
+                description: req.body.description?.trim() || "",
+                itemIds: [],
+                createdAt: now,
+                updatedAt: now,
+                // Demo lists expire alongside the demo account
+                ...(isDemo ? { expiresAt: new Date(now.getTime() + demoTtlSeconds * 1000) } : {}),
+            };
+            const { insertedId } = await listsCollection.insertOne(list);
+
+            const { userId, expiresAt, ...created } = { ...list, _id: insertedId };
+            broadcastToUser(req.userId, "list:update", created);
+            res.status(201).json(created);
+        })
+    );
+
+    // PATCH /api/lists/:listId - Rename or change the description
+    router.patch(
+        "/:listId",
+        authMiddleware,
+        validate(listUpdateSchema),
+        asyncHandler(async (req, res) => {
+            const _id = parseListId(req.params.listId);
+            const $set = {};
+            if (req.body.name !== undefined) $set.name = req.body.name.trim();
+            if (req.body.description !== undefined) $set.description = req.body.description.trim();
+
+            const list = await updateList(req.userId, { _id }, { $set });
+            if (!list) {
+                throw new AppError("List not found.", 404);
+            }
+            res.json(list);
+        })
+    );
+
+    // DELETE /api/lists/:listId
+    router.delete(
+        "/:listId",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const _id = parseListId(req.params.listId);
+            const result = await listsCollection.deleteOne({ _id, userId: req.userId });
+            if (result.deletedCount !== 1) {
+                throw new AppError("List not found.", 404);
+            }
+            broadcastToUser(req.userId, "list:delete", { id: req.params.listId });
+            res.status(204).send();
+        })
+    );
+
+    // POST /api/lists/:listId/items - Append a watchlist item
+    router.post(
+        "/:listId/items",
+        authMiddleware,
+        validate(listItemSchema),
+        asyncHandler(async (req, res) => {
+            const _id = parseListId(req.params.listId);
+            const { itemId } = req.body;
+
+            const { collection } = await getWatchlistCollection(req.userId);
+            const item = await collection.findOne({ id: itemId, userId: req.userId }, { projection: { _id: 1 } });
+            if (!item) {
+                throw new AppError("Only items on your watchlist can be added to a list.", 400);
+            }
+
+            const list = await updateList(
+                req.userId,
+                { _id, itemIds: { $ne: itemId } },
+                { $push: { itemIds: itemId } }
+            );
+            // Already in the list (or the list doesn't exist)
+            res.json(list || (await findList(_id, req.userId)));
+        })
+    );
+
+    // DELETE /api/lists/:listId/items/:itemId
+    router.delete(
+        "/:listId/items/:itemId",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const _id = parseListId(req.params.listId);
+            const itemId = parseItemId(req.params.itemId);
+
+            const list = await updateList(
+                req.userId,
+                { _id, itemIds: itemId },
+                { $pull: { itemIds: itemId } }
+            );
+            res.json(list || (await findList(_id, req.userId)));
+        })
+    );
+
+    // PUT /api/lists/:listId/items - Reorder. Must contain exactly the list's current items.
+    router.put(
+        "/:listId/items",
+        authMiddleware,
+        validate(listOrderSchema),
+        asyncHandler(async (req, res) => {
+            const _id = parseListId(req.params.listId);
+            const itemIds = [...new Set(req.body.itemIds)];
+            if (itemIds.length !== req.body.itemIds.length) {
+                throw new AppError("itemIds must not contain duplicates.", 400);
+            }
+            if (itemIds.length === 0) {
+                return res.json(await findList(_id, req.userId));
+            }
+
+            // Only reorder if nothing was added or removed since the client last saw the list
+            const list = await updateList(
+                req.userId,
+                { _id, itemIds: { $size: itemIds.length, $all: itemIds } },
+                { $set: { itemIds } }
+            );
+            if (!list) {
+                await findList(_id, req.userId);
+                throw new AppError("List was changed on another device. Reload and try again.", 409);
+            }
+            res.json(list);
+        })
+    );
+
+    return router;
+};
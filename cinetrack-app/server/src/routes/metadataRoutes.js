@@ -0,0 +1,75 @@
+const express = require("express");
+const { asyncHandler } = require("../middleware/errorHandler");
+const metadata = require("../services/metadata");
+
+const router = express.Router();
+
+// Reports whether the response came from the cache, as the proxy always has
+const xCache = (res) => (hit) => res.set("X-Cache", hit ? "HIT" : "MISS");
+
+const validateType = (req, res, next) => {
+    const { type } = req.params;
+    if (type !== "movie" && type !== "tv") {
+        return res.status(400).json({ message: "Type must be 'movie' or 'tv'" });
+    }
+    next();
+};
+
+router.get(
+    "/discover",
+    asyncHandler(async (req, res) => {
+        res.json(await metadata.getDiscover(xCache(res)));
+    })
+);
+
+router.get(
+    "/search",
+    asyncHandler(async (req, res) => {
+        const query = req.query.q;
+        if (!query) {
+            return res.status(400).json({ message: "Query parameter 'q' is required" });
+        }
+        res.json(await metadata.search(query, xCache(res)));
+    })
+);
+
+router.get(
+    "/details/:type/:id",
+    validateType,
+    asyncHandler(async (req, res) => {
+        res.json(await metadata.getDetails(req.params.type, req.params.id, xCache(res)));
+    })
+);
+
+router.get(
+    "/season/:tvId/:seasonNumber",
+    asyncHandler(async (req, res) => {
+        res.json(await metadata.getSeason(req.params.tvId, req.params.seasonNumber, xCache(res)));
+    })
+);
+
+router.get(
+    "/providers/:type/:id",
+    validateType,
+    asyncHandler(async (req, res) => {
+        res.json(await metadata.getProviders(req.params.type, req.params.id, xCache(res)));
+    })
+);
+
+router.get(
+    "/recommendations/:type/:id",
+    validateType,
+    asyncHandler(async (req, res) => {
+        res.json(await metadata.getRecommendations(req.params.type, req.params.id, xCache(res)));
+    })
+);
+
+router.get(
+    "/images/:type/:id",
+    validateType,
+    asyncHandler(async (req, res) => {
+        res.json(await metadata.getImages(req.params.type, req.params.id, xCache(res)));
+    })
+);
+
+module.exports = router;
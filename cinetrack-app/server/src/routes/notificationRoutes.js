@@ -0,0 +1,104 @@
+const express = require("express");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const { asyncHandler, AppError } = require("../middleware/errorHandler");
+const { ObjectId } = require("mongodb");
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+const parseObjectId = (value) => {
+    if (!ObjectId.isValid(value)) {
+        throw new AppError("Invalid notification ID.", 400);
+    }
+    return new ObjectId(value);
+};
+
+module.exports = (notificationsCollection, notificationService, broadcastToUser) => {
+    const router = express.Router();
+
+    // Dismissed notifications are kept (until TTL cleanup) so the scanner doesn't recreate them
+    const visibleQuery = (userId) => ({ userId, dismissedAt: { $exists: false } });
+
+    // GET /api/notifications
+    router.get(
+        "/",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(req.query.limit, 10) || DEFAULT_LIMIT));
+            const query = visibleQuery(req.userId);
+
+            const [notifications, unreadCount] = await Promise.all([
+                notificationsCollection
+                    .find(query)
+                    .sort({ createdAt: -1 })
+                    .limit(limit)
+                    .toArray(),
+                notificationsCollection.countDocuments({ ...query, read: false }),
+            ]);
+
+            res.json({ notifications, unreadCount });
+        })
+    );
+
+    // POST /api/notifications/refresh - Scan the current user's watchlist now
+    router.post(
+        "/refresh",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const created = await notificationService.scan(req.userId);
+            res.json({ created });
+        })
+    );
+
+    // POST /api/notifications/read-all
+    router.post(
+        "/read-all",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            await notificationsCollection.updateMany(
+                { ...visibleQuery(req.userId), read: false },
+                { $set: { read: true, readAt: new Date() } }
+            );
+            broadcastToUser(req.userId, "notification:read", { all: true });
+            res.status(204).send();
+        })
+    );
+
+    // PATCH /api/notifications/:id/read
+    router.patch(
+        "/:id/read",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const _id = parseObjectId(req.params.id);
+            const result = await notificationsCollection.updateOne(
+                { _id, userId: req.userId },
+                { $set: { read: true, readAt: new Date() } }
+            );
+            if (result.matchedCount !== 1) {
+                throw new AppError("Notification not found.", 404);
+            }
+            broadcastToUser(req.userId, "notification:read", { ids: [req.params.id] });
+            res.status(204).send();
+        })
+    );
+
+    // DELETE /api/notifications/:id - Dismiss
+    router.delete(
+        "/:id",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const _id = parseObjectId(req.params.id);
+            const result = await notificationsCollection.updateOne(
+                { _id, userId: req.userId },
+                { $set: { read: true, dismissedAt: new Date() } }
+            );
+            if (result.matchedCount !== 1) {
+                throw new AppError("Notification not found.", 404);
+            }
+            broadcastToUser(req.userId, "notification:dismiss", { id: req.params.id });
+            res.status(204).send();
+        })
+    );
+
+    return router;
+};
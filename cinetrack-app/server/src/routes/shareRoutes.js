@@ -0,0 +1,167 @@
+const express = require("express");
+const { authMiddleware } = require("../middleware/authMiddleware");
+const { asyncHandler, AppError } = require("../middleware/errorHandler");
+const { validate } = require("../middleware/validate");
+const { shareCreateSchema } = require("../validation/schemas");
+const { createShareToken, verifyShareToken } = require("../services/shareTokens");
+const { ObjectId } = require("mongodb");
+
+const MAX_SHARES = 50;
+const WATCHED_TITLE = "Watched history";
+
+// Only what a poster card needs; nothing about the owner's tracking state
+const PUBLIC_ITEM_PROJECTION = {
+    _id: 0,
+    id: 1,
+    media_type: 1,
+    title: 1,
+    name: 1,
+    overview: 1,
+    poster_path: 1,
+    backdrop_path: 1,
+    release_date: 1,
+    first_air_date: 1,
+    vote_average: 1,
+};
+
+const parseObjectId = (value, message) => {
+    if (!ObjectId.isValid(value)) {
+        throw new AppError(message, 400);
+    }
+    return new ObjectId(value);
+};
+
+const notFound = () => new AppError("This share link doesn't exist or has been revoked.", 404);
+
+module.exports = (sharesCollection, listsCollection, watchlistCollection, usersCollection, demoUsersCollection) => {
+    const router = express.Router();
+
+    const toShareLink = (share, list) => ({
+        _id: share._id,
+        type: share.type,
+        listId: share.listId,
+        title: share.type === "list" ? list.name : WATCHED_TITLE,
+        token: createShareToken(share._id),
+        createdAt: share.createdAt,
+    });
+
+    // GET /api/share - The current user's active share links
+    router.get(
+        "/",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const shares = await sharesCollection
+                .find({ userId: req.userId })
+                .sort({ createdAt: -1 })
+                .toArray();
+
+            const listIds = shares.filter((share) => share.type === "list").map((share) => share.listId);
+            const lists = await listsCollection
+                .find({ _id: { $in: listIds }, userId: req.userId }, { projection: { name: 1 } })
+                .toArray();
+            const listsById = new Map(lists.map((list) => [String(list._id), list]));
+
+            // Links to lists that have since been deleted are dead; don't show them
+            const links = shares
+                .filter((share) => share.type !== "list" || listsById.has(String(share.listId)))
+                .map((share) => toShareLink(share, listsById.get(String(share.listId))));
+            res.json(links);
+        })
+    );
+
+    // POST /api/share - Create a share link for a list or for the watched history
+    router.post(
+        "/",
+        authMiddleware,
+        validate(shareCreateSchema),
+        asyncHandler(async (req, res) => {
+            const demoUser = await demoUsersCollection.findOne({ _id: new ObjectId(req.userId) });
+            if (demoUser) {
+                throw new AppError("Demo accounts cannot create share links", 403);
+            }
+
+            const count = await sharesCollection.countDocuments({ userId: req.userId });
+            if (count >= MAX_SHARES) {
+                throw new AppError(`You can have at most ${MAX_SHARES} share links. Revoke one first.`, 400);
+            }
+
+            const { type } = req.body;
+            let list = null;
+            const share = { userId: req.userId, type, createdAt: new Date() };
+            if (type === "list") {
+                share.listId = parseObjectId(req.body.listId, "Invalid list ID.");
+                list = await listsCollection.findOne({ _id: share.listId, userId: req.userId });
+                if (!list) {
+                    throw new AppError("List not found.", 404);
+                }
+            }
+
+            const { insertedId } = await sharesCollection.insertOne(share);
+            res.status(201).json(toShareLink({ ...share, _id: insertedId }, list));
+        })
+    );
+
+    // DELETE /api/share/:id - Revoke
+    router.delete(
+        "/:id",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const _id = parseObjectId(req.params.id, "Invalid share ID.");
+            const result = await sharesCollection.deleteOne({ _id, userId: req.userId });
+            if (result.deletedCount !== 1) {
+                throw new AppError("Share link not found.", 404);
+            }
+            res.status(204).send();
+        })
+    );
+
+    // GET /api/share/public/:token - Read-only view, no auth
+    router.get(
+        "/public/:token",
+        asyncHandler(async (req, res) => {
+            const shareId = verifyShareToken(req.params.token);
+            if (!shareId || !ObjectId.isValid(shareId)) {
+                throw notFound();
+            }
+
+            const share = await sharesCollection.findOne({ _id: new ObjectId(shareId) });
+            if (!share) {
+                throw notFound();
+            }
+            const owner = await usersCollection.findOne({ _id: new ObjectId(share.userId) }, { projection: { _id: 1 } });
+            if (!owner) {
+                throw notFound();
+            }
+
+            if (share.type === "watched") {
+                const items = await watchlistCollection
+                    .find(
+                        // Shows that are caught up have been watched as far as they go
+                        { userId: share.userId, watchlistStatus: { $in: ["watched", "caught_up"] } },
+                        { projection: PUBLIC_ITEM_PROJECTION }
+                    )
+                    .sort({ lastWatchedAt: -1, createdAt: -1 })
+                    .toArray();
+                return res.json({ type: share.type, title: WATCHED_TITLE, description: "", items });
+            }
+
+            const list = await listsCollection.findOne({ _id: share.listId, userId: share.userId });
+            if (!list) {
+                throw notFound();
+            }
+            const items = await watchlistCollection
+                .find({ userId: share.userId, id: { $in: list.itemIds } }, { projection: PUBLIC_ITEM_PROJECTION })
+                .toArray();
+            const itemsById = new Map(items.map((item) => [item.id, item]));
+
+            res.json({
+                type: share.type,
+                title: list.name,
+                description: list.description,
+                items: list.itemIds.map((id) => itemsById.get(id)).filter(Boolean),
+            });
+        })
+    );
+
+    return router;
+};
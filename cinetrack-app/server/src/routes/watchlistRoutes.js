@@ -2,43 +2,32 @@ const express = require("express");
 const { authMiddleware } = require("../middleware/authMiddleware");
 const { asyncHandler, AppError } = require("../middleware/errorHandler");
 const { validate } = require("../middleware/validate");
-const { watchlistItemSchema, watchlistImportSchema } = require("../validation/schemas");
-const { cache } = require("../config");
+const {
+    watchlistItemSchema,
+    watchEventsSchema,
+    episodesPatchSchema,
+    watchlistPatchSchema,
+} = require("../validation/schemas");
+const { cache, demoTtlSeconds } = require("../config");
+const { deriveWatchState, ensureHistorySeeded, computeWatchlistStatus, storeWatchlistStatus } = require("../services/watchHistory");
+const { buildExport } = require("../services/exportFormat");
+const { getRecommendations } = require("../services/metadata");
 const { ObjectId } = require("mongodb");
 
 const router = express.Router();
 
-const TMDB_API_BASE_URL = "https://api.themoviedb.org/3";
-const TMDB_API_TOKEN = process.env.TMDB_API_READ_ACCESS_TOKEN;
 const RECOMMENDATIONS_TTL = 12 * 60 * 60; // 12 hours
 
-const fetchFromTMDB = async (endpoint) => {
-    const url = `${TMDB_API_BASE_URL}/${endpoint}`;
-    const response = await fetch(url, {
-        method: "GET",
-        headers: {
-            accept: "application/json",
-            Authorization: `Bearer ${TMDB_API_TOKEN}`,
-        },
-    });
-    if (!response.ok) {
-        throw new Error(`TMDB API error: ${response.status}`);
+// Collapse [{ seasonNumber, episodes }] into { [seasonNumber]: episodes[] } with no duplicates
+const groupBySeason = (sets = []) => {
+    const grouped = {};
+    for (const { seasonNumber, episodes } of sets) {
+        grouped[seasonNumber] = [...new Set([...(grouped[seasonNumber] || []), ...episodes])];
     }
-    return response.json();
+    return grouped;
 };
 
-const computeWatchlistStatus = (item) => {
-    if (item.media_type === "movie") {
-        return item.watched ? "watched" : "watchlist";
-    }
-    const watchedCount = Object.values(item.watchedEpisodes || {})
-        .reduce((acc, eps) => acc + (Array.isArray(eps) ? eps.length : 0), 0);
-    if (watchedCount === 0) return "watchlist";
-    if (watchedCount >= item.number_of_episodes) return "watched";
-    return "watching";
-};
-
-module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser, client, usersCollection, demoUsersCollection) => {
+module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser, usersCollection, demoUsersCollection, watchHistoryCollection, listsCollection, backupService) => {
     const getWatchlistCollection = async (userId) => {
         const demoUser = await demoUsersCollection.findOne({ _id: new ObjectId(userId) });
         if (demoUser) {
@@ -47,6 +36,70 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
         return { collection: watchlistCollection, isDemo: false };
     };
 
+    // Demo history expires alongside the demo account
+    const historyExpiryFields = (isDemo) =>
+        isDemo ? { expiresAt: new Date(Date.now() + demoTtlSeconds * 1000) } : {};
+
+    // Documents written before revisions existed have no revision field and count as 0
+    const revisionFilter = (revision) => (revision === 0 ? { $in: [null, 0] } : revision);
+
+    const conflict = async (collection, id, userId) => {
+        const current = await collection.findOne({ id, userId }, { projection: { _id: 0 } });
+        return new AppError("Item was changed on another device.", 409, { current });
+    };
+
+    const insertHistoryEvents = async (item, events, isDemo) => {
+        if (events.length === 0) return;
+        const now = new Date();
+        const expiryFields = historyExpiryFields(isDemo);
+        await watchHistoryCollection.insertMany(
+            events.map((event) => ({
+                userId: item.userId,
+                itemId: item.id,
+                media_type: item.media_type,
+                seasonNumber: null,
+                episodeNumber: null,
+                rewatch: false,
+                watchedAt: now,
+                ...event,
+                ...expiryFields,
+            }))
+        );
+    };
+
+    // Recompute status after an atomic update and tell the user's other devices what changed.
+    // `updatedItem` is the item as that update left it; a patch that lands in between is
+    // handled by storeWatchlistStatus, and $max keeps lastWatchedAt from going back.
+    const finishPatch = async (collection, updatedItem, changes, watchedAt) => {
+        let lastWatchedAt = updatedItem.lastWatchedAt ?? null;
+        if (watchedAt) {
+            await collection.updateOne(
+                { id: updatedItem.id, userId: updatedItem.userId },
+                { $max: { lastWatchedAt: watchedAt } }
+            );
+            if (!lastWatchedAt || watchedAt > new Date(lastWatchedAt)) lastWatchedAt = watchedAt;
+        }
+        const watchlistStatus = await storeWatchlistStatus(collection, updatedItem);
+
+        const delta = {
+            id: updatedItem.id,
+            revision: updatedItem.revision,
+            ...(watchlistStatus ? { watchlistStatus } : {}),
+            lastWatchedAt,
+            ...changes,
+        };
+        broadcastToUser(updatedItem.userId, "watchlist:delta", delta);
+        return delta;
+    };
+
+    const parseItemId = (value) => {
+        const id = parseInt(value, 10);
+        if (isNaN(id)) {
+            throw new AppError("Invalid ID format.", 400);
+        }
+        return id;
+    };
+
     // GET /api/watchlist
     router.get(
         "/",
@@ -61,34 +114,34 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
         })
     );
 
-    // GET /api/stats
+    // GET /api/watchlist/export - The watchlist as a versioned export file
+    router.get(
+        "/export",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const { collection } = await getWatchlistCollection(req.userId);
+            const items = await collection
+                .find({ userId: req.userId })
+                .sort({ _id: -1 })
+                .toArray();
+            res.json(buildExport(items));
+        })
+    );
+
+    // GET /api/watchlist/stats - How much the current user has stored. Database-wide numbers are admin-only.
     router.get(
         "/stats",
         authMiddleware,
         asyncHandler(async (req, res) => {
             const { collection, isDemo } = await getWatchlistCollection(req.userId);
-            const userItemCount = await collection.countDocuments({ userId: req.userId });
-            const totalDocuments = await collection.countDocuments();
-            const db = client.db("scenestackDB");
-
-            let dbStats = null;
-            try {
-                dbStats = await db.stats();
-            } catch (statsErr) {
-                console.log("Could not get database stats:", statsErr.message);
-            }
+            const [itemCount, watchEventCount, listCount] = await Promise.all([
+                collection.countDocuments({ userId: req.userId }),
+                watchHistoryCollection.countDocuments({ userId: req.userId }),
+                listsCollection.countDocuments({ userId: req.userId }),
+            ]);
 
             res.json({
-                user: { itemCount: userItemCount, isDemo },
-                collection: {
-                    totalDocuments,
-                    storageSize: dbStats?.storageSize || 0,
-                    avgObjSize: dbStats?.avgObjSize || 0,
-                },
-                database: {
-                    name: dbStats?.db || "scenestackDB",
-                    dataSize: dbStats?.dataSize || 0,
-                },
+                user: { itemCount, watchEventCount, listCount, isDemo },
             });
         })
     );
@@ -119,18 +172,15 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
             }
 
             const watchlistIds = new Set(watchlist.map((item) => item.id));
-            const shuffled = [...watchlist].sort(() => 0.5 - Math.random());
+            // Dropped titles are a signal of what the user doesn't want more of
+            const seedCandidates = watchlist.filter((item) => item.watchlistStatus !== "dropped");
+            const shuffled = [...seedCandidates].sort(() => 0.5 - Math.random());
             const seedItems = shuffled.slice(0, 5);
 
             const recPromises = seedItems.map(async (item) => {
                 try {
-                    const response = await fetchFromTMDB(
-                        `${item.media_type}/${item.id}/recommendations`
-                    );
-                    return response.results.map((r) => ({
-                        ...r,
-                        media_type: item.media_type,
-                    }));
+                    const response = await getRecommendations(item.media_type, item.id);
+                    return response.results;
                 } catch {
                     return [];
                 }
@@ -174,7 +224,265 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
         })
     );
 
+    // GET /api/watchlist/:id/history - Watch events for an item, oldest first
+    router.get(
+        "/:id/history",
+        authMiddleware,
+        asyncHandler(async (req, res) => {
+            const { collection, isDemo } = await getWatchlistCollection(req.userId);
+            const id = parseItemId(req.params.id);
+
+            const item = await collection.findOne({ id, userId: req.userId });
+            if (!item) {
+                throw new AppError("Item not found.", 404);
+            }
+            await ensureHistorySeeded(watchHistoryCollection, collection, item, historyExpiryFields(isDemo));
+
+            const events = await watchHistoryCollection
+                .find({ userId: req.userId, itemId: id })
+                .sort({ watchedAt: 1, _id: 1 })
+                .toArray();
+            res.json({ events });
+        })
+    );
+
+    // POST /api/watchlist/:id/history - Append watch events and re-derive watch state
+    router.post(
+        "/:id/history",
+        authMiddleware,
+        validate(watchEventsSchema),
+        asyncHandler(async (req, res) => {
+            const { collection, isDemo } = await getWatchlistCollection(req.userId);
+            const id = parseItemId(req.params.id);
+
+            const item = await collection.findOne({ id, userId: req.userId });
+            if (!item) {
+                throw new AppError("Item not found.", 404);
+            }
+
+            const isTV = item.media_type === "tv";
+            if (isTV && req.body.events.some((e) => e.seasonNumber === undefined || e.episodeNumber === undefined)) {
+                throw new AppError("TV events require seasonNumber and episodeNumber.", 400);
+            }
+
+            const expiryFields = historyExpiryFields(isDemo);
+            await ensureHistorySeeded(watchHistoryCollection, collection, item, expiryFields);
+
+            const query = { userId: req.userId, itemId: id };
+            const existingEvents = await watchHistoryCollection.find(query).toArray();
+            const before = deriveWatchState(existingEvents, item.media_type);
+
+            const now = new Date();
+            const newEvents = req.body.events.map((event) => {
+                const seasonNumber = isTV ? event.seasonNumber : null;
+                const episodeNumber = isTV ? event.episodeNumber : null;
+                const alreadyWatched = isTV
+                    ? (before.watchedEpisodes[seasonNumber] || []).includes(episodeNumber)
+                    : before.watched;
+                return {
+                    userId: req.userId,
+                    itemId: id,
+                    media_type: item.media_type,
+                    seasonNumber,
+                    episodeNumber,
+                    action: event.action,
+                    rewatch: event.action === "watch" && (event.rewatch === true || alreadyWatched),
+                    watchedAt: event.watchedAt ? new Date(event.watchedAt) : now,
+                    ...expiryFields,
+                };
+            });
+            await watchHistoryCollection.insertMany(newEvents);
+
+            const state = deriveWatchState([...existingEvents, ...newEvents], item.media_type);
+            const watchlistStatus = computeWatchlistStatus({ ...item, ...state });
+
+            const updatedItem = await collection.findOneAndUpdate(
+                { id, userId: req.userId },
+                {
+                    $set: { ...state, watchlistStatus },
+                    $inc: { revision: 1 },
+                },
+                { returnDocument: "after", projection: { _id: 0 } }
+            );
+            if (!updatedItem) {
+                throw new AppError("Item not found.", 404);
+            }
+
+            broadcastToUser(req.userId, "watchlist:update", updatedItem);
+            res.status(200).json(updatedItem);
+        })
+    );
+
+    // POST /api/watchlist/:id/episodes - Atomically mark/unmark episodes, season by season
+    router.post(
+        "/:id/episodes",
+        authMiddleware,
+        validate(episodesPatchSchema),
+        asyncHandler(async (req, res) => {
+            const { collection, isDemo } = await getWatchlistCollection(req.userId);
+            const id = parseItemId(req.params.id);
+            const add = groupBySeason(req.body.add);
+            const remove = groupBySeason(req.body.remove);
+
+            const item = await collection.findOne({ id, userId: req.userId });
+            if (!item) {
+                throw new AppError("Item not found.", 404);
+            }
+            if (item.media_type !== "tv") {
+                throw new AppError("Episodes can only be tracked for TV shows.", 400);
+            }
+            await ensureHistorySeeded(watchHistoryCollection, collection, item, historyExpiryFields(isDemo));
+
+            const update = { $inc: { revision: 1 } };
+            for (const [seasonNumber, episodes] of Object.entries(add)) {
+                update.$addToSet = { ...update.$addToSet, [`watchedEpisodes.${seasonNumber}`]: { $each: episodes } };
+            }
+            for (const [seasonNumber, episodes] of Object.entries(remove)) {
+                update.$pull = { ...update.$pull, [`watchedEpisodes.${seasonNumber}`]: { $in: episodes } };
+            }
+
+            const before = await collection.findOneAndUpdate(
+                { id, userId: req.userId },
+                update,
+                { returnDocument: "before", projection: { _id: 0 } }
+            );
+            if (!before) {
+                throw new AppError("Item not found.", 404);
+            }
+
+            // Work out what actually changed so the history log and delta only carry real transitions
+            const watchedEpisodes = { ...(before.watchedEpisodes || {}) };
+            const added = {};
+            const removed = {};
+            const events = [];
+            for (const [seasonNumber, episodes] of Object.entries(add)) {
+                const current = watchedEpisodes[seasonNumber] || [];
+                const fresh = episodes.filter((ep) => !current.includes(ep));
+                if (fresh.length === 0) continue;
+                watchedEpisodes[seasonNumber] = [...current, ...fresh];
+                added[seasonNumber] = fresh;
+                fresh.forEach((ep) => events.push({ action: "watch", seasonNumber: Number(seasonNumber), episodeNumber: ep }));
+            }
+            for (const [seasonNumber, episodes] of Object.entries(remove)) {
+                const current = watchedEpisodes[seasonNumber] || [];
+                const gone = episodes.filter((ep) => current.includes(ep));
+                if (gone.length === 0) continue;
+                watchedEpisodes[seasonNumber] = current.filter((ep) => !gone.includes(ep));
+                removed[seasonNumber] = gone;
+                gone.forEach((ep) => events.push({ action: "unwatch", seasonNumber: Number(seasonNumber), episodeNumber: ep }));
+            }
+            await insertHistoryEvents(before, events, isDemo);
+
+            const delta = await finishPatch(
+                collection,
+                { ...before, watchedEpisodes, revision: (before.revision ?? 0) + 1 },
+                { episodes: { add: added, remove: removed } },
+                Object.keys(added).length > 0 ? new Date() : undefined
+            );
+            res.status(200).json(delta);
+        })
+    );
+
+    // PATCH /api/watchlist/:id - Update tags, a movie's watched flag, personal ratings or a
+    // dropped/on-hold status without a full PUT
+    router.patch(
+        "/:id",
+        authMiddleware,
+        validate(watchlistPatchSchema),
+        asyncHandler(async (req, res) => {
+            const { collection, isDemo } = await getWatchlistCollection(req.userId);
+            const id = parseItemId(req.params.id);
+            const { tags, watched, userRating, review, seasonRating, episodeRating, statusOverride } = req.body;
+
+            const item = await collection.findOne({ id, userId: req.userId });
+            if (!item) {
+                throw new AppError("Item not found.", 404);
+            }
+            if (watched !== undefined && item.media_type !== "movie") {
+                throw new AppError("Only movies have a watched flag; use /episodes for TV shows.", 400);
+            }
+            if ((seasonRating || episodeRating) && item.media_type !== "tv") {
+                throw new AppError("Season and episode ratings are only available for TV shows.", 400);
+            }
+            if (watched !== undefined) {
+                await ensureHistorySeeded(watchHistoryCollection, collection, item, historyExpiryFields(isDemo));
+            }
+
+            // `changes` mirrors the request and goes out in the delta; $set/$unset are the Mongo side
+            const changes = {};
+            const $set = {};
+            const $unset = {};
+            const setOrUnset = (path, value) => {
+                if (value === null) $unset[path] = "";
+                else $set[path] = value;
+            };
+
+            if (tags !== undefined) {
+                changes.tags = [...new Set(tags)];
+                $set.tags = changes.tags;
+            }
+            if (watched !== undefined) {
+                changes.watched = watched;
+                $set.watched = watched;
+            }
+            if (userRating !== undefined) {
+                changes.userRating = userRating;
+                setOrUnset("userRating", userRating);
+            }
+            if (review !== undefined) {
+                changes.review = review?.trim() || null;
+                setOrUnset("review", changes.review);
+            }
+            if (seasonRating) {
+                changes.seasonRating = seasonRating;
+                setOrUnset(`seasonRatings.${seasonRating.seasonNumber}`, seasonRating.rating);
+            }
+            if (episodeRating) {
+                changes.episodeRating = episodeRating;
+                setOrUnset(
+                    `episodeRatings.${episodeRating.seasonNumber}.${episodeRating.episodeNumber}`,
+                    episodeRating.rating
+                );
+            }
+            if (statusOverride !== undefined) {
+                changes.statusOverride = statusOverride && {
+                    status: statusOverride.status,
+                    reason: statusOverride.reason?.trim() || null,
+                    since: new Date(),
+                };
+                setOrUnset("statusOverride", changes.statusOverride);
+            }
+
+            const update = { $inc: { revision: 1 } };
+            if (Object.keys($set).length > 0) update.$set = $set;
+            if (Object.keys($unset).length > 0) update.$unset = $unset;
+
+            const before = await collection.findOneAndUpdate(
+                { id, userId: req.userId },
+                update,
+                { returnDocument: "before", projection: { _id: 0 } }
+            );
+            if (!before) {
+                throw new AppError("Item not found.", 404);
+            }
+
+            const watchedChanged = watched !== undefined && watched !== Boolean(before.watched);
+            if (watchedChanged) {
+                await insertHistoryEvents(before, [{ action: watched ? "watch" : "unwatch" }], isDemo);
+            }
+
+            const delta = await finishPatch(
+                collection,
+                { ...before, ...changes, revision: (before.revision ?? 0) + 1 },
+                changes,
+                watchedChanged && watched ? new Date() : undefined
+            );
+            res.status(200).json(delta);
+        })
+    );
+
     // PUT /api/watchlist
+    // `revision` is the revision the client last saw; a stale one gets a 409 with the current item.
     router.put(
         "/",
         authMiddleware,
@@ -183,20 +491,57 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
             const { collection } = await getWatchlistCollection(req.userId);
             const item = req.body;
 
-            const { _id, ...itemWithoutId } = item;
+            const { _id, revision: baseRevision = 0, ...itemWithoutId } = item;
+
+            const existing = await collection.findOne(
+                { id: item.id, userId: req.userId },
+                { projection: { _id: 0, revision: 1, watched: 1, watchedEpisodes: 1, lastWatchedAt: 1, historySeededAt: 1, metadataRefreshedAt: 1 } }
+            );
+            const currentRevision = existing ? existing.revision ?? 0 : 0;
+            if (existing && baseRevision !== currentRevision) {
+                throw await conflict(collection, item.id, req.userId);
+            }
+
+            // Once an item has a history log, its watch state comes from the log, not the client
+            if (existing?.historySeededAt) {
+                const { revision, metadataRefreshedAt, ...logDerived } = existing;
+                Object.assign(itemWithoutId, logDerived);
+            }
+            // Owned by the metadata refresh job; the client only echoes it back as a string
+            delete itemWithoutId.metadataRefreshedAt;
+            if (existing?.metadataRefreshedAt) {
+                itemWithoutId.metadataRefreshedAt = existing.metadataRefreshedAt;
+            }
+
             const watchlistStatus = computeWatchlistStatus(itemWithoutId);
             const itemWithUser = {
                 ...itemWithoutId,
                 userId: req.userId,
                 watchlistStatus,
+                revision: currentRevision + 1,
                 createdAt: new Date()
             };
 
-            await collection.replaceOne(
-                { id: item.id, userId: req.userId },
-                itemWithUser,
-                { upsert: true }
-            );
+            if (existing) {
+                const result = await collection.replaceOne(
+                    { id: item.id, userId: req.userId, revision: revisionFilter(currentRevision) },
+                    itemWithUser
+                );
+                if (result.matchedCount !== 1) {
+                    throw await conflict(collection, item.id, req.userId);
+                }
+            } else {
+                try {
+                    await collection.insertOne(itemWithUser);
+                } catch (err) {
+                    // Another device added the same item in the meantime
+                    if (err.code === 11000) {
+                        throw await conflict(collection, item.id, req.userId);
+                    }
+                    throw err;
+                }
+                delete itemWithUser._id;
+            }
 
             broadcastToUser(req.userId, "watchlist:update", itemWithUser);
             res.status(200).json(itemWithUser);
@@ -218,6 +563,12 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
             if (result.deletedCount !== 1) {
                 throw new AppError("Item not found.", 404);
             }
+            await watchHistoryCollection.deleteMany({ userId: req.userId, itemId: id });
+            // Clients drop the item from their lists when they see the delete event
+            await listsCollection.updateMany(
+                { userId: req.userId, itemIds: id },
+                { $pull: { itemIds: id }, $set: { updatedAt: new Date() } }
+            );
 
             broadcastToUser(req.userId, "watchlist:delete", { id });
             res.status(204).send();
@@ -229,8 +580,13 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
         "/",
         authMiddleware,
         asyncHandler(async (req, res) => {
-            const { collection } = await getWatchlistCollection(req.userId);
+            const { collection, isDemo } = await getWatchlistCollection(req.userId);
+            if (!isDemo) {
+                await backupService.snapshot(req.userId, "wipe");
+            }
             await collection.deleteMany({ userId: req.userId });
+            await watchHistoryCollection.deleteMany({ userId: req.userId });
+            await listsCollection.deleteMany({ userId: req.userId });
             broadcastToUser(req.userId, "watchlist:sync", { trigger: "wipe" });
             res.status(204).send();
         })
@@ -247,24 +603,12 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
             }
             next();
         }),
-        validate(watchlistImportSchema),
         asyncHandler(async (req, res) => {
-            const items = req.body;
-
-            await watchlistCollection.deleteMany({ userId: req.userId });
-
-            if (items.length > 0) {
-                const itemsWithUser = items.map((item) => ({
-                    ...item,
-                    userId: req.userId,
-                    watchlistStatus: computeWatchlistStatus(item),
-                    createdAt: new Date()
-                }));
-                await watchlistCollection.insertMany(itemsWithUser);
-            }
+            // Accepts any export version; see services/exportFormat.js
+            const { itemCount } = await backupService.restoreFromExport(req.userId, req.body);
 
             broadcastToUser(req.userId, "watchlist:sync", { trigger: "import" });
-            res.status(200).json({ message: `Import successful. ${items.length} items imported.` });
+            res.status(200).json({ message: `Import successful. ${itemCount} items imported.` });
         })
     );
 
@@ -275,9 +619,9 @@ module.exports = (watchlistCollection, demoWatchlistCollection, broadcastToUser,
         asyncHandler(async (req, res) => {
             const { collection } = await getWatchlistCollection(req.userId);
             const { status } = req.params;
-            const validStatuses = ["watchlist", "watching", "watched"];
+            const validStatuses = ["watchlist", "watching", "caught_up", "watched", "on_hold", "dropped"];
             if (!validStatuses.includes(status)) {
-                throw new AppError("Invalid status. Must be: watchlist, watching, or watched", 400);
+                throw new AppError(`Invalid status. Must be one of: ${validStatuses.join(", ")}`, 400);
             }
 
             const page = Math.max(1, parseInt(req.query.page, 10) || 1);
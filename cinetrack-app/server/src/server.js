@@ -11,11 +11,28 @@ const helmet = require("helmet");
 const compression = require("compression");
 const morgan = require("morgan");
 
-const { authMiddleware, JWT_SECRET } = require("./middleware/authMiddleware");
+const { authMiddleware, setSessionCheck, JWT_SECRET } = require("./middleware/authMiddleware");
 const { errorHandler } = require("./middleware/errorHandler");
 const authRoutes = require("./routes/authRoutes");
 const watchlistRoutes = require("./routes/watchlistRoutes");
-const tmdbRoutes = require("./routes/tmdbRoutes");
+const metadataRoutes = require("./routes/metadataRoutes");
+const notificationRoutes = require("./routes/notificationRoutes");
+const listRoutes = require("./routes/listRoutes");
+const shareRoutes = require("./routes/shareRoutes");
+const importRoutes = require("./routes/importRoutes");
+const backupRoutes = require("./routes/backupRoutes");
+const calendarRoutes = require("./routes/calendarRoutes");
+const inviteRoutes = require("./routes/inviteRoutes");
+const adminRoutes = require("./routes/adminRoutes");
+const createNotificationService = require("./services/notificationService");
+const createBackupService = require("./services/backupService");
+const createMetadataRefresh = require("./services/metadataRefresh");
+const createSessionService = require("./services/sessionService");
+const createAccountTokens = require("./services/accountTokens");
+const createInviteService = require("./services/inviteService");
+const createDemoCleanup = require("./services/demoCleanup");
+const createTwoFactor = require("./services/twoFactor");
+const createAccountDeletion = require("./services/accountDeletion");
 
 const app = express();
 const server = http.createServer(app);
@@ -29,23 +46,35 @@ const io = new Server(server, {
 });
 
 // Socket.IO authentication middleware
-io.use((socket, next) => {
+io.use(async (socket, next) => {
   const token = socket.handshake.auth.token;
   if (!token) {
     return next(new Error("Authentication required"));
   }
+  let decoded;
   try {
-    const decoded = jwt.verify(token, JWT_SECRET);
-    socket.userId = decoded.userId;
-    next();
+    decoded = jwt.verify(token, JWT_SECRET);
   } catch (err) {
-    next(new Error("Invalid token"));
+    return next(new Error("Invalid token"));
   }
+  // The socket must not outlive a revoked session either
+  try {
+    if (!decoded.sessionId || !(await sessionService.isActive(decoded.userId, decoded.sessionId))) {
+      return next(new Error("Session revoked"));
+    }
+  } catch (err) {
+    return next(new Error("Authentication failed"));
+  }
+  socket.userId = decoded.userId;
+  socket.sessionId = decoded.sessionId;
+  next();
 });
 
 io.on("connection", (socket) => {
   const userId = socket.userId;
   socket.join(`user:${userId}`);
+  // Revoking a session disconnects everything in its room
+  socket.join(`session:${socket.sessionId}`);
   console.log(`User ${userId} connected via Socket.IO`);
 
   socket.on("disconnect", () => {
@@ -58,12 +87,27 @@ const broadcastToUser = (userId, event, data) => {
   io.to(`user:${userId}`).emit(event, data);
 };
 
+const disconnectSockets = (room) => {
+  io.in(room).disconnectSockets(true);
+};
+
 const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 50,
   message: { message: "Too many requests. Please try again later." },
   standardHeaders: true,
   legacyHeaders: false,
+  // Every open tab refreshes its access token regularly; there is no password to guess there
+  skip: (req) => req.path === "/refresh",
+});
+
+// Public share pages and calendar feeds need no account, so keep scrapers from enumerating them
+const shareLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 300,
+  message: { message: "Too many requests. Please try again later." },
+  standardHeaders: true,
+  legacyHeaders: false,
 });
 
 // --- Middleware ---
@@ -73,7 +117,7 @@ app.use(
     contentSecurityPolicy: {
       directives: {
         defaultSrc: ["'self'"],
-        connectSrc: ["'self'", "https://api.themoviedb.org", "wss:", "ws:"],
+        connectSrc: ["'self'", "wss:", "ws:"],
         imgSrc: ["'self'", "https://image.tmdb.org", "data:", "blob:"],
         scriptSrc: ["'self'"],
         styleSrc: ["'self'", "'unsafe-inline'", "https://fonts.googleapis.com"],
@@ -118,6 +162,25 @@ let watchlistCollection;
 let usersCollection;
 let demoUsersCollection;
 let demoWatchlistCollection;
+let notificationsCollection;
+let notificationService;
+let watchHistoryCollection;
+let listsCollection;
+let sharesCollection;
+let backupsCollection;
+let backupEntriesCollection;
+let backupService;
+let calendarFeedsCollection;
+let metadataRefresh;
+let sessionsCollection;
+let accountTokensCollection;
+let sessionService;
+let accountTokens;
+let invitesCollection;
+let inviteService;
+let demoCleanup;
+let twoFactor;
+let accountDeletion;
 
 async function connectToDb() {
   try {
@@ -127,12 +190,79 @@ async function connectToDb() {
     usersCollection = db.collection("users");
     demoUsersCollection = db.collection("demoUsers");
     demoWatchlistCollection = db.collection("demoWatchlist");
+    notificationsCollection = db.collection("notifications");
+    watchHistoryCollection = db.collection("watchHistory");
+    listsCollection = db.collection("lists");
+    sharesCollection = db.collection("shares");
+    backupsCollection = db.collection("backups");
+    backupEntriesCollection = db.collection("backupEntries");
+    calendarFeedsCollection = db.collection("calendarFeeds");
+    sessionsCollection = db.collection("sessions");
+    accountTokensCollection = db.collection("accountTokens");
+    invitesCollection = db.collection("invites");
+    notificationService = createNotificationService(
+      notificationsCollection,
+      watchlistCollection,
+      demoWatchlistCollection,
+      broadcastToUser
+    );
+    backupService = createBackupService(
+      backupsCollection,
+      backupEntriesCollection,
+      watchlistCollection,
+      watchHistoryCollection,
+      listsCollection,
+      usersCollection
+    );
+    metadataRefresh = createMetadataRefresh(watchlistCollection, broadcastToUser);
+    sessionService = createSessionService(sessionsCollection, disconnectSockets);
+    setSessionCheck(sessionService.isActive);
+    accountTokens = createAccountTokens(accountTokensCollection);
+    inviteService = createInviteService(invitesCollection, usersCollection);
+    twoFactor = createTwoFactor(usersCollection);
+    accountDeletion = createAccountDeletion(
+      usersCollection,
+      watchlistCollection,
+      watchHistoryCollection,
+      listsCollection,
+      sharesCollection,
+      calendarFeedsCollection,
+      notificationsCollection,
+      backupsCollection,
+      backupEntriesCollection,
+      invitesCollection,
+      accountTokensCollection,
+      sessionService
+    );
+    demoCleanup = createDemoCleanup(
+      demoUsersCollection,
+      demoWatchlistCollection,
+      watchHistoryCollection,
+      listsCollection,
+      notificationsCollection,
+      sessionService
+    );
     console.log("Successfully connected to MongoDB.");
 
     // Create indexes for production collections
     await watchlistCollection.createIndex({ userId: 1, id: 1 }, { unique: true });
     await watchlistCollection.createIndex({ userId: 1, watchlistStatus: 1 });
+    await watchlistCollection.createIndex({ metadataRefreshedAt: 1 });
     await usersCollection.createIndex({ email: 1 }, { unique: true });
+    await sessionsCollection.createIndex({ userId: 1, lastSeenAt: -1 });
+    await sessionsCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    await accountTokensCollection.createIndex({ tokenHash: 1 }, { unique: true });
+    await accountTokensCollection.createIndex({ userId: 1, purpose: 1 });
+    await accountTokensCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    await invitesCollection.createIndex({ code: 1 }, { unique: true });
+    await invitesCollection.createIndex({ createdBy: 1, createdAt: -1 });
+    await inviteService.importCodes(config.inviteCodes);
+    if (config.adminEmails.length > 0) {
+      await usersCollection.updateMany(
+        { email: { $in: config.adminEmails }, role: { $ne: "admin" } },
+        { $set: { role: "admin" } }
+      );
+    }
 
     // Create indexes for demo collections with TTL for auto-cleanup
     await demoUsersCollection.createIndex({ email: 1 }, { unique: true });
@@ -146,6 +276,32 @@ async function connectToDb() {
       { expireAfterSeconds: config.demoTtlSeconds }
     );
     console.log(`Demo TTL indexes created (${config.demoTtlSeconds}s)`);
+
+    await notificationsCollection.createIndex({ userId: 1, key: 1 }, { unique: true });
+    await notificationsCollection.createIndex({ userId: 1, createdAt: -1 });
+    await notificationsCollection.createIndex(
+      { createdAt: 1 },
+      { expireAfterSeconds: config.notifications.retentionDays * 24 * 60 * 60 }
+    );
+
+    await watchHistoryCollection.createIndex({ userId: 1, itemId: 1, watchedAt: 1 });
+    // Only demo events carry expiresAt
+    await watchHistoryCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+    await listsCollection.createIndex({ userId: 1, createdAt: 1 });
+    await listsCollection.createIndex({ userId: 1, itemIds: 1 });
+    // Only demo lists carry expiresAt
+    await listsCollection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+    await sharesCollection.createIndex({ userId: 1, createdAt: -1 });
+    await calendarFeedsCollection.createIndex({ userId: 1 }, { unique: true });
+
+    const backupTtlSeconds = config.backups.retentionDays * 24 * 60 * 60;
+    await backupsCollection.createIndex({ userId: 1, createdAt: -1 });
+    await backupsCollection.createIndex({ createdAt: 1 }, { expireAfterSeconds: backupTtlSeconds });
+    await backupEntriesCollection.createIndex({ backupId: 1 });
+    await backupEntriesCollection.createIndex({ userId: 1 });
+    await backupEntriesCollection.createIndex({ createdAt: 1 }, { expireAfterSeconds: backupTtlSeconds });
   } catch (err) {
     console.error("Failed to connect to MongoDB:", err.message);
     process.exit(1);
@@ -167,7 +323,7 @@ client.on("timeout", () => {
 
 // --- Auth Routes ---
 app.use("/api/auth", authLimiter, (req, res, next) => {
-  authRoutes(usersCollection, demoUsersCollection)(req, res, next);
+  authRoutes(usersCollection, demoUsersCollection, sessionService, accountTokens, inviteService, twoFactor, accountDeletion)(req, res, next);
 });
 
 // --- Watchlist Routes ---
@@ -176,16 +332,76 @@ app.use("/api/watchlist", (req, res, next) => {
     watchlistCollection,
     demoWatchlistCollection,
     broadcastToUser,
-    client,
+    usersCollection,
+    demoUsersCollection,
+    watchHistoryCollection,
+    listsCollection,
+    backupService
+  )(req, res, next);
+});
+
+// --- Custom List Routes ---
+app.use("/api/lists", (req, res, next) => {
+  listRoutes(
+    listsCollection,
+    watchlistCollection,
+    demoWatchlistCollection,
+    demoUsersCollection,
+    broadcastToUser
+  )(req, res, next);
+});
+
+// --- Metadata Proxy Routes ---
+// /api/tmdb is the name from before providers were swappable; kept for existing clients
+app.use(["/api/metadata", "/api/tmdb"], metadataRoutes);
+
+// --- Notification Routes ---
+app.use("/api/notifications", (req, res, next) => {
+  notificationRoutes(notificationsCollection, notificationService, broadcastToUser)(req, res, next);
+});
+
+
+// --- Merge Import Routes ---
+app.use("/api/import", (req, res, next) => {
+  importRoutes(watchlistCollection, demoUsersCollection, watchHistoryCollection, backupService, broadcastToUser)(req, res, next);
+});
+
+// --- Backup Routes ---
+app.use("/api/backups", (req, res, next) => {
+  backupRoutes(backupService, demoUsersCollection, broadcastToUser)(req, res, next);
+});
+
+// --- Share Link Routes ---
+app.use("/api/share/public", shareLimiter);
+app.use("/api/share", (req, res, next) => {
+  shareRoutes(
+    sharesCollection,
+    listsCollection,
+    watchlistCollection,
     usersCollection,
     demoUsersCollection
   )(req, res, next);
 });
 
-// --- TMDB Proxy Routes ---
-app.use("/api/tmdb", tmdbRoutes);
+// --- Calendar Feed Routes ---
+app.use("/api/calendar", (req, res, next) => {
+  // Only the .ics feed itself is public
+  if (req.path.endsWith(".ics")) return shareLimiter(req, res, next);
+  next();
+});
+app.use("/api/calendar", (req, res, next) => {
+  calendarRoutes(calendarFeedsCollection, watchlistCollection, demoUsersCollection)(req, res, next);
+});
 
+// --- Invite Routes ---
+app.use("/api/invites", (req, res, next) => {
+  inviteRoutes(inviteService, usersCollection)(req, res, next);
+});
 
+// --- Admin Routes ---
+app.use("/api/admin", (req, res, next) => {
+  adminRoutes(inviteService, demoCleanup, usersCollection, watchlistCollection, client)(req, res, next);
+});
 
 // --- Catch-all for SPA ---
 app.get("*", (req, res) => {
@@ -195,10 +411,59 @@ app.get("*", (req, res) => {
 // --- Global Error Handler (must be last) ---
 app.use(errorHandler);
 
+// --- Background Jobs ---
+const runNotificationScan = async () => {
+  try {
+    const created = await notificationService.scan();
+    if (created > 0) {
+      console.log(`Notification scan created ${created} notifications`);
+    }
+  } catch (err) {
+    console.error("Notification scan failed:", err.message);
+  }
+};
+
+const runScheduledBackups = async () => {
+  try {
+    const created = await backupService.runScheduled();
+    if (created > 0) {
+      console.log(`Scheduled backups created for ${created} users`);
+    }
+  } catch (err) {
+    console.error("Scheduled backups failed:", err.message);
+  }
+};
+
+const runMetadataRefresh = async () => {
+  try {
+    const updated = await metadataRefresh.refresh();
+    if (updated > 0) {
+      console.log(`Metadata refresh updated ${updated} items`);
+    }
+  } catch (err) {
+    console.error("Metadata refresh failed:", err.message);
+  }
+};
+
+const startBackgroundJobs = () => {
+  const intervalMs = config.notifications.scanIntervalMinutes * 60 * 1000;
+  setTimeout(runNotificationScan, 30 * 1000);
+  setInterval(runNotificationScan, intervalMs);
+
+  // Checked hourly; each account is only backed up once its interval has passed
+  setTimeout(runScheduledBackups, 60 * 1000);
+  setInterval(runScheduledBackups, 60 * 60 * 1000);
+
+  // Checked hourly; each item is only refreshed once its interval has passed
+  setTimeout(runMetadataRefresh, 2 * 60 * 1000);
+  setInterval(runMetadataRefresh, 60 * 60 * 1000);
+};
+
 // --- Start Server ---
 connectToDb().then(() => {
   server.listen(port, () => {
     console.log(`Scene Stack server running on port ${port}`);
     console.log(`Socket.IO enabled for real-time sync`);
   });
+  startBackgroundJobs();
 });
@@ -0,0 +1,56 @@
+const { ObjectId } = require("mongodb");
+
+/**
+ * Deletes a registered account and everything stored about it: the watchlist and its
+ * history, lists, share links, the calendar feed, notifications, backups, invite codes
+ * the user made (and their entry in the log of the code they signed up with), pending
+ * email links and sessions. The user document goes last, so a failure part way can be
+ * retried by deleting the account again.
+ */
+module.exports = (
+    usersCollection,
+    watchlistCollection,
+    watchHistoryCollection,
+    listsCollection,
+    sharesCollection,
+    calendarFeedsCollection,
+    notificationsCollection,
+    backupsCollection,
+    backupEntriesCollection,
+    invitesCollection,
+    accountTokensCollection,
+    sessionService
+) => {
+    /**
+     * Returns false when there was no such user.
+     */
+    const deleteAccount = async (userId) => {
+        const id = userId.toString();
+
+        // Sessions first, so nothing keeps writing while the data goes
+        await sessionService.revokeAll(id);
+
+        const byUser = { userId: id };
+        await Promise.all([
+            watchlistCollection.deleteMany(byUser),
+            watchHistoryCollection.deleteMany(byUser),
+            listsCollection.deleteMany(byUser),
+            sharesCollection.deleteMany(byUser),
+            calendarFeedsCollection.deleteMany(byUser),
+            notificationsCollection.deleteMany(byUser),
+            backupEntriesCollection.deleteMany(byUser),
+            backupsCollection.deleteMany(byUser),
+            accountTokensCollection.deleteMany(byUser),
+            invitesCollection.deleteMany({ createdBy: id }),
+            invitesCollection.updateMany(
+                { "redemptions.userId": id },
+                { $pull: { redemptions: { userId: id } } }
+            ),
+        ]);
+
+        const result = await usersCollection.deleteOne({ _id: new ObjectId(id) });
+        return result.deletedCount === 1;
+    };
+
+    return { deleteAccount };
+};
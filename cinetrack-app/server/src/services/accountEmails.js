@@ -0,0 +1,36 @@
+const config = require("../config");
+
+/**
+ * Plain-text bodies for the emails sent about an account. Links point at the client
+ * (APP_URL), except verification, which hits the API and redirects back.
+ */
+
+const verificationEmail = (to, token) => ({
+    to,
+    subject: "Confirm your Scene Stack email",
+    text: [
+        "Welcome to Scene Stack!",
+        "",
+        "Confirm this is your email address by opening the link below:",
+        `${config.appUrl}/api/auth/verify/${encodeURIComponent(token)}`,
+        "",
+        `The link works once and expires in ${config.auth.verifyTokenHours} hours.`,
+        "If you didn't sign up, you can ignore this email.",
+    ].join("\n"),
+});
+
+const passwordResetEmail = (to, token) => ({
+    to,
+    subject: "Reset your Scene Stack password",
+    text: [
+        "Someone (hopefully you) asked to reset your Scene Stack password.",
+        "",
+        "Choose a new one here:",
+        `${config.appUrl}/?reset=${encodeURIComponent(token)}`,
+        "",
+        `The link works once and expires in ${config.auth.resetTokenMinutes} minutes.`,
+        "If you didn't ask for this, you can ignore this email; your password hasn't changed.",
+    ].join("\n"),
+});
+
+module.exports = { verificationEmail, passwordResetEmail };
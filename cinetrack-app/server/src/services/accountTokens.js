@@ -0,0 +1,56 @@
+const crypto = require("crypto");
+
+const hashToken = (token) => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Single-use tokens: email verification and password resets mailed to users, and the
+ * challenge between the two steps of a two-factor sign-in. Only the hash is stored,
+ * issuing a new one replaces any earlier one for the same purpose, and consuming
+ * deletes it. Expired tokens are removed via TTL on expiresAt.
+ */
+module.exports = (accountTokensCollection) => {
+    /**
+     * Returns the raw token to put in the link.
+     */
+    const issue = async (userId, purpose, ttlMs) => {
+        const token = crypto.randomBytes(32).toString("base64url");
+        const now = new Date();
+        await accountTokensCollection.deleteMany({ userId: userId.toString(), purpose });
+        await accountTokensCollection.insertOne({
+            tokenHash: hashToken(token),
+            userId: userId.toString(),
+            purpose,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + ttlMs),
+        });
+        return token;
+    };
+
+    /**
+     * Looks a token up without using it. Returns its user id, or null like consume.
+     */
+    const find = async (token, purpose) => {
+        if (!token) return null;
+        const record = await accountTokensCollection.findOne({
+            tokenHash: hashToken(String(token)),
+            purpose,
+            expiresAt: { $gt: new Date() },
+        });
+        return record ? record.userId : null;
+    };
+
+    /**
+     * Uses up a token. Returns its user id, or null if it is unknown, expired or already used.
+     */
+    const consume = async (token, purpose) => {
+        if (!token) return null;
+        const record = await accountTokensCollection.findOneAndDelete({
+            tokenHash: hashToken(String(token)),
+            purpose,
+            expiresAt: { $gt: new Date() },
+        });
+        return record ? record.userId : null;
+    };
+
+    return { issue, find, consume };
+};
@@ -0,0 +1,201 @@
+const config = require("../config");
+const { AppError } = require("../middleware/errorHandler");
+const { computeWatchlistStatus } = require("./watchHistory");
+const { EXPORT_FORMAT, EXPORT_VERSION, buildExport, parseExport } = require("./exportFormat");
+
+/**
+ * Backups are point-in-time snapshots of a user's watchlist, watch history and lists,
+ * taken before anything that replaces or wipes them, and on a schedule. The header
+ * lives in `backups` and the documents in `backupEntries`, one per document, so a big
+ * watchlist never hits MongoDB's 16MB document limit. Items are stored in the export
+ * format the header is tagged with, so restores go through the same migrations as files.
+ * Both collections expire via TTL on createdAt, and only the newest few are kept.
+ */
+module.exports = (backupsCollection, backupEntriesCollection, watchlistCollection, watchHistoryCollection, listsCollection, usersCollection) => {
+    const sources = {
+        item: watchlistCollection,
+        history: watchHistoryCollection,
+        list: listsCollection,
+    };
+
+    const expiresAt = (createdAt) =>
+        new Date(createdAt.getTime() + config.backups.retentionDays * 24 * 60 * 60 * 1000);
+
+    // Scheduled backups rotate separately so they can't push out the ones taken before an import
+    const prune = async (userId, reason) => {
+        const isScheduled = reason === "scheduled";
+        const stale = await backupsCollection
+            .find({ userId, reason: isScheduled ? "scheduled" : { $ne: "scheduled" } }, { projection: { _id: 1 } })
+            .sort({ createdAt: -1 })
+            .skip(isScheduled ? config.backups.scheduledKeep : config.backups.maxPerUser)
+            .toArray();
+        if (stale.length === 0) return;
+        const ids = stale.map((backup) => backup._id);
+        await backupEntriesCollection.deleteMany({ backupId: { $in: ids } });
+        await backupsCollection.deleteMany({ _id: { $in: ids } });
+    };
+
+    /**
+     * Snapshots everything the user has. Returns null when there is nothing to keep.
+     * Throws if the snapshot couldn't be written, so callers can refuse to go ahead.
+     */
+    const snapshot = async (userId, reason) => {
+        const [items, history, lists] = await Promise.all(
+            Object.values(sources).map((collection) => collection.find({ userId }).toArray())
+        );
+        if (items.length === 0 && lists.length === 0) return null;
+
+        const createdAt = new Date();
+        const { insertedId } = await backupsCollection.insertOne({
+            userId,
+            reason,
+            format: EXPORT_FORMAT,
+            version: EXPORT_VERSION,
+            createdAt,
+            itemCount: items.length,
+            historyCount: history.length,
+            listCount: lists.length,
+        });
+
+        const toEntries = (kind, docs) => docs.map((doc) => ({ backupId: insertedId, userId, kind, doc, createdAt }));
+        try {
+            await backupEntriesCollection.insertMany([
+                ...toEntries("item", buildExport(items).items),
+                ...toEntries("history", history),
+                ...toEntries("list", lists),
+            ]);
+        } catch (err) {
+            // A partial snapshot can't be restored, so don't leave one behind
+            await backupEntriesCollection.deleteMany({ backupId: insertedId });
+            await backupsCollection.deleteOne({ _id: insertedId });
+            throw err;
+        }
+
+        await prune(userId, reason);
+        return insertedId;
+    };
+
+    const list = async (userId) => {
+        const backups = await backupsCollection
+            .find({ userId }, { projection: { userId: 0 } })
+            .sort({ createdAt: -1 })
+            .toArray();
+        return backups.map((backup) => ({ ...backup, expiresAt: expiresAt(backup.createdAt) }));
+    };
+
+    const loadBackup = async (userId, backupId) => {
+        const backup = await backupsCollection.findOne({ _id: backupId, userId });
+        if (!backup) {
+            throw new AppError("Backup not found.", 404);
+        }
+
+        const entries = await backupEntriesCollection.find({ backupId }).toArray();
+        if (entries.length !== backup.itemCount + backup.historyCount + backup.listCount) {
+            throw new AppError("This backup is incomplete and can't be restored.", 410);
+        }
+        const docsOf = (kind) => entries.filter((entry) => entry.kind === kind).map((entry) => entry.doc);
+
+        // Snapshots from before format tagging hold raw documents, i.e. a version 1 export
+        const rawItems = docsOf("item");
+        const { items } = parseExport(
+            backup.version ? { format: backup.format, version: backup.version, items: rawItems } : rawItems
+        );
+        return { backup, items, history: docsOf("history"), lists: docsOf("list") };
+    };
+
+    const insertItems = async (userId, items) => {
+        if (items.length === 0) return;
+        const now = new Date();
+        await watchlistCollection.insertMany(
+            items.map((item) => ({
+                ...item,
+                userId,
+                watchlistStatus: computeWatchlistStatus(item),
+                revision: item.revision ?? 1,
+                createdAt: item.createdAt ? new Date(item.createdAt) : now,
+            }))
+        );
+    };
+
+    /**
+     * Replaces the user's watchlist, history and lists with a snapshot.
+     * What they have now is snapshotted first, so a restore can itself be undone.
+     */
+    const restore = async (userId, backupId) => {
+        const { backup, items, history, lists } = await loadBackup(userId, backupId);
+        await snapshot(userId, "restore");
+
+        for (const collection of Object.values(sources)) {
+            await collection.deleteMany({ userId });
+        }
+        // Items whose history comes back with them must not be seeded again
+        const seeded = new Set(history.map((event) => event.itemId));
+        const now = new Date();
+        await insertItems(userId, items.map((item) => (seeded.has(item.id) ? { ...item, historySeededAt: now } : item)));
+        if (history.length > 0) await watchHistoryCollection.insertMany(history);
+        if (lists.length > 0) await listsCollection.insertMany(lists);
+
+        return { itemCount: backup.itemCount, historyCount: backup.historyCount, listCount: backup.listCount };
+    };
+
+    /**
+     * Replaces the user's watchlist with an export file of any supported version.
+     * Exports don't carry watch history, so it restarts from the restored items;
+     * lists are kept, minus titles the file doesn't have.
+     */
+    const restoreFromExport = async (userId, data) => {
+        // Every item is checked here, repeated ids included, so a bad file never gets as far as the deletes
+        const { items } = parseExport(data);
+
+        await snapshot(userId, "import");
+        await watchlistCollection.deleteMany({ userId });
+        await watchHistoryCollection.deleteMany({ userId });
+        await insertItems(userId, items);
+        await listsCollection.updateMany(
+            { userId },
+            { $pull: { itemIds: { $nin: items.map((item) => item.id) } } }
+        );
+        return { itemCount: items.length };
+    };
+
+    // A snapshot's watchlist as a current-version export file
+    const exportBackup = async (userId, backupId) => {
+        const { backup, items } = await loadBackup(userId, backupId);
+        return buildExport(items, backup.createdAt);
+    };
+
+    const remove = async (userId, backupId) => {
+        const result = await backupsCollection.deleteOne({ _id: backupId, userId });
+        if (result.deletedCount !== 1) {
+            throw new AppError("Backup not found.", 404);
+        }
+        await backupEntriesCollection.deleteMany({ backupId });
+    };
+
+    /**
+     * Backs up every account whose last scheduled backup is older than the interval.
+     * Checking per user keeps restarts from taking a backup each time.
+     */
+    const runScheduled = async () => {
+        const intervalMs = config.backups.intervalHours * 60 * 60 * 1000;
+        const users = await usersCollection.find({}, { projection: { _id: 1 } }).toArray();
+        let created = 0;
+
+        for (const user of users) {
+            const userId = user._id.toString();
+            try {
+                const latest = await backupsCollection.findOne(
+                    { userId, reason: "scheduled" },
+                    { sort: { createdAt: -1 }, projection: { createdAt: 1 } }
+                );
+                if (latest && Date.now() - latest.createdAt.getTime() < intervalMs) continue;
+                if (await snapshot(userId, "scheduled")) created++;
+            } catch (err) {
+                console.error(`Scheduled backup failed for ${userId}:`, err.message);
+            }
+        }
+        return created;
+    };
+
+    return { snapshot, list, restore, restoreFromExport, exportBackup, remove, runScheduled };
+};
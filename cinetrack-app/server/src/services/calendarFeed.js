@@ -0,0 +1,174 @@
+const { getDetails, getSeason } = require("./metadata");
+const { FINISHED_SHOW_STATUSES } = require("./watchHistory");
+const { cache } = require("../config");
+
+/**
+ * Builds a user's iCalendar (RFC 5545) feed: one all-day VEVENT per upcoming episode
+ * of a tracked show and per release of a watchlisted movie. Calendar apps poll feeds
+ * on their own schedule, so the finished feed is cached per user.
+ */
+
+const FEED_TTL = 60 * 60;
+const FETCH_BATCH_SIZE = 5;
+// Keep episodes that aired recently, so a feed refreshed late doesn't drop them straight away
+const LOOKBACK_DAYS = 14;
+const PRODID = "-//Scene Stack//Calendar Feed//EN";
+const UID_DOMAIN = "scenestack";
+
+const pad = (value) => String(value).padStart(2, "0");
+
+// TMDB dates are "YYYY-MM-DD"; iCalendar DATE values are "YYYYMMDD"
+const toIcsDate = (dateStr) => dateStr.replace(/-/g, "");
+
+const nextDay = (dateStr) => {
+    const [year, month, day] = dateStr.split("-").map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day + 1));
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+};
+
+const toIcsTimestamp = (date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (text) =>
+    String(text).replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line) => {
+    const bytes = Buffer.from(line, "utf8");
+    if (bytes.length <= 75) return line;
+
+    const parts = [];
+    let current = "";
+    let currentBytes = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, "utf8");
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + size > limit) {
+            parts.push(current);
+            current = "";
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += size;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+};
+
+const episodeCode = (seasonNumber, episodeNumber) => `S${pad(seasonNumber)}E${pad(episodeNumber)}`;
+
+const toEvent = ({ uid, date, summary, description }, stamp) => [
+    "BEGIN:VEVENT",
+    `UID:${uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+    `DTEND;VALUE=DATE:${nextDay(date)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+];
+
+const serialize = (events, now) => {
+    const stamp = toIcsTimestamp(now);
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODID}`,
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:Scene Stack",
+        "X-PUBLISHED-TTL:PT1H",
+        ...events.flatMap((event) => toEvent(event, stamp)),
+        "END:VCALENDAR",
+    ];
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+const showEvents = async (item, since) => {
+    if (FINISHED_SHOW_STATUSES.includes(item.status)) return [];
+    const details = await getDetails("tv", item.id);
+    const next = details.next_episode_to_air;
+    if (!next) return [];
+
+    const showName = details.name || item.name;
+    const seasonNumbers = (details.seasons || [])
+        .map((season) => season.season_number)
+        .filter((number) => number > 0 && number >= next.season_number);
+
+    const events = [];
+    for (const seasonNumber of seasonNumbers) {
+        const season = await getSeason(item.id, seasonNumber);
+        for (const episode of season.episodes || []) {
+            if (!episode.air_date || episode.air_date < since) continue;
+            const code = episodeCode(seasonNumber, episode.episode_number);
+            events.push({
+                uid: `tv-${item.id}-${code.toLowerCase()}`,
+                date: episode.air_date,
+                summary: episode.name ? `${showName} ${code} · ${episode.name}` : `${showName} ${code}`,
+                description: episode.overview || "",
+            });
+        }
+    }
+    return events;
+};
+
+const movieEvents = async (item, since) => {
+    // Release dates only move while a movie is unreleased, so long-released movies need no lookup
+    if (item.release_date && item.release_date < since) return [];
+    const details = await getDetails("movie", item.id);
+    const releaseDate = details.release_date || item.release_date;
+    if (!releaseDate || releaseDate < since) return [];
+    return [{
+        uid: `movie-${item.id}`,
+        date: releaseDate,
+        summary: `${details.title || item.title} (release)`,
+        description: details.overview || "",
+    }];
+};
+
+/**
+ * The feed for a user's `watching`, `caught_up` and `watchlist` shows and unwatched movies.
+ * Titles TMDB can't return are left out rather than failing the whole feed.
+ */
+const buildFeed = async (watchlistCollection, userId, now = new Date()) => {
+    const cacheKey = `calendar:feed:${userId}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) return cached;
+
+    const items = await watchlistCollection
+        .find(
+            {
+                userId,
+                $or: [
+                    { media_type: "tv", watchlistStatus: { $in: ["watching", "caught_up", "watchlist"] } },
+                    { media_type: "movie", watchlistStatus: { $ne: "dropped" }, watched: { $ne: true } },
+                ],
+            },
+            { projection: { id: 1, media_type: 1, name: 1, title: 1, status: 1, release_date: 1 } }
+        )
+        .toArray();
+
+    const sinceDate = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const since = sinceDate.toISOString().slice(0, 10);
+
+    const events = [];
+    for (let i = 0; i < items.length; i += FETCH_BATCH_SIZE) {
+        const batch = items.slice(i, i + FETCH_BATCH_SIZE);
+        const results = await Promise.all(
+            batch.map((item) =>
+                (item.media_type === "tv" ? showEvents(item, since) : movieEvents(item, since)).catch((err) => {
+                    console.error(`Calendar feed: failed to fetch ${item.media_type}:${item.id}:`, err.message);
+                    return [];
+                })
+            )
+        );
+        events.push(...results.flat());
+    }
+    events.sort((a, b) => a.date.localeCompare(b.date));
+
+    const feed = serialize(events, now);
+    await cache.set(cacheKey, feed, FEED_TTL);
+    return feed;
+};
+
+module.exports = { buildFeed };
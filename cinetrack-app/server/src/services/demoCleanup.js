@@ -0,0 +1,45 @@
+const config = require("../config");
+
+/**
+ * Removes demo accounts and everything they wrote. TTL indexes do this on their own
+ * eventually (MongoDB's TTL monitor runs about once a minute and can fall behind), so this
+ * is for clearing out ahead of it, or wiping every demo account at once.
+ */
+module.exports = (demoUsersCollection, demoWatchlistCollection, watchHistoryCollection, listsCollection, notificationsCollection, sessionService) => {
+    const expiredBefore = () => new Date(Date.now() - config.demoTtlSeconds * 1000);
+
+    const summary = async () => {
+        const [total, expired] = await Promise.all([
+            demoUsersCollection.countDocuments(),
+            demoUsersCollection.countDocuments({ createdAt: { $lt: expiredBefore() } }),
+        ]);
+        return { total, expired };
+    };
+
+    /**
+     * Deletes expired demo accounts, or all of them with `all`. Returns what was removed.
+     */
+    const cleanup = async ({ all = false } = {}) => {
+        const filter = all ? {} : { createdAt: { $lt: expiredBefore() } };
+        const users = await demoUsersCollection.find(filter, { projection: { _id: 1 } }).toArray();
+        const userIds = users.map((user) => user._id.toString());
+        if (userIds.length === 0) {
+            return { users: 0, items: 0 };
+        }
+
+        // Sessions first, so nobody keeps writing while their data goes
+        for (const userId of userIds) {
+            await sessionService.revokeAll(userId);
+        }
+        const byUser = { userId: { $in: userIds } };
+        const items = await demoWatchlistCollection.deleteMany(byUser);
+        await watchHistoryCollection.deleteMany(byUser);
+        await listsCollection.deleteMany(byUser);
+        await notificationsCollection.deleteMany(byUser);
+        await demoUsersCollection.deleteMany({ _id: { $in: users.map((user) => user._id) } });
+
+        return { users: userIds.length, items: items.deletedCount };
+    };
+
+    return { summary, cleanup };
+};
@@ -0,0 +1,117 @@
+const { AppError } = require("../middleware/errorHandler");
+const { watchlistExportSchema } = require("../validation/schemas");
+const { name: APP_NAME, version: APP_VERSION } = require("../../package.json");
+
+/**
+ * Portable watchlist exports.
+ *   v1  the bare array of watchlist documents the browser used to download
+ *   v2  an envelope tagged with the format name and version, without server-only fields
+ *   v3  adds the app that wrote it, plus tag and rating metadata
+ * `parseExport` brings any older export forward one version at a time and validates
+ * the result against watchlistExportSchema, so files from older builds keep importing.
+ */
+
+const EXPORT_FORMAT = "scenestack-export";
+const EXPORT_VERSION = 3;
+
+// Fields that belong to one account on one server, or are derived when importing
+const SERVER_FIELDS = [
+    "_id", "userId", "historySeededAt", "expiresAt", "watchlistStatus", "revision", "metadataRefreshedAt", "lastNotifiedEpisode",
+];
+
+const toExportItem = (item) => {
+    const copy = { ...item };
+    for (const field of SERVER_FIELDS) delete copy[field];
+    return copy;
+};
+
+const buildMetadata = (items) => ({
+    tags: [...new Set(items.flatMap((item) => item?.tags || []))].sort(),
+    ratings: {
+        scale: 10,
+        ratedCount: items.filter((item) => item?.userRating != null).length,
+    },
+});
+
+const buildExport = (items, exportedAt = new Date()) => {
+    const exportItems = items.map(toExportItem);
+    return {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        app: { name: APP_NAME, version: APP_VERSION },
+        items: exportItems,
+        metadata: buildMetadata(exportItems),
+    };
+};
+
+// Older builds stored tags as typed, including blanks and duplicates
+const cleanTags = (tags) =>
+    Array.isArray(tags)
+        ? [...new Set(tags.filter((tag) => typeof tag === "string").map((tag) => tag.trim()).filter(Boolean))]
+        : undefined;
+
+// Each migration takes an export of version N and returns version N + 1
+const MIGRATIONS = {
+    1: (items) => ({
+        format: EXPORT_FORMAT,
+        version: 2,
+        exportedAt: null,
+        items: items.map(toExportItem),
+    }),
+    2: (data) => {
+        const items = (Array.isArray(data.items) ? data.items : []).map((item) => {
+            // Left for validation to reject
+            if (!item || typeof item !== "object") return item;
+            const { revision, watchlistStatus, ...rest } = item;
+            const tags = cleanTags(rest.tags);
+            return tags ? { ...rest, tags } : rest;
+        });
+        return { ...data, version: 3, app: null, items, metadata: buildMetadata(items) };
+    },
+};
+
+// Version 1 was never tagged, so only a bare array is one
+const detectVersion = (data) => {
+    if (Array.isArray(data)) return 1;
+    if (data && typeof data === "object" && data.format === EXPORT_FORMAT) return data.version;
+    return null;
+};
+
+const migrateExport = (data) => {
+    let version = detectVersion(data);
+    if (version === null) {
+        throw new AppError("This file isn't a Scene Stack export.", 400);
+    }
+    if (!Array.isArray(data) && !(Number.isInteger(version) && version >= 2)) {
+        throw new AppError(`Unsupported export version: ${JSON.stringify(version ?? null)}`, 400);
+    }
+    if (version > EXPORT_VERSION) {
+        throw new AppError(
+            `This export was made by a newer version of Scene Stack (format ${version}). Update the app and try again.`,
+            422
+        );
+    }
+
+    let current = data;
+    while (version < EXPORT_VERSION) {
+        current = MIGRATIONS[version](current);
+        version = current.version;
+    }
+    return current;
+};
+
+/**
+ * Migrates an export of any supported version and validates it. Returns the current-version export,
+ * with any server-only fields a hand-edited file carried taken off the items.
+ */
+const parseExport = (data) => {
+    const migrated = migrateExport(data);
+    const result = watchlistExportSchema.safeParse(migrated);
+    if (!result.success) {
+        throw new AppError(result.error.issues.map((e) => e.message).join(", "), 400);
+    }
+    return { ...migrated, items: migrated.items.map(toExportItem) };
+};
+
+module.exports = { EXPORT_FORMAT, EXPORT_VERSION, buildExport, parseExport };
@@ -0,0 +1,222 @@
+const crypto = require("crypto");
+const { ObjectId } = require("mongodb");
+const config = require("../config");
+const { AppError } = require("../middleware/errorHandler");
+
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const generateCode = () =>
+    Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join("");
+
+// Codes are matched case-insensitively
+const normalizeCode = (code) => String(code || "").trim().toUpperCase();
+
+const notExpired = (now) => ({ $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] });
+
+// A user's codes that no longer count against their limit: never used, and revoked or expired.
+// Nothing brings one back, so this only grows.
+const freedBy = (userId, now) => ({
+    createdBy: userId.toString(),
+    uses: { $lte: 0 },
+    $or: [{ revokedAt: { $ne: null } }, { expiresAt: { $lte: now } }],
+});
+
+const inviteStatus = (invite, now = new Date()) => {
+    if (invite.revokedAt) return "revoked";
+    if (invite.expiresAt && invite.expiresAt <= now) return "expired";
+    if (invite.maxUses !== null && invite.uses >= invite.maxUses) return "used_up";
+    return "active";
+};
+
+/**
+ * Invite codes gate registration. Each code has an optional use limit and expiry, records
+ * who created it (null for codes from INVITE_CODES or minted without a creator) and logs
+ * every account that signed up with it. Revoked codes are kept for that log.
+ * Users also carry `invitesMinted`, the number of codes they have ever created, so the
+ * per-user limit can be checked and taken in a single update.
+ */
+module.exports = (invitesCollection, usersCollection) => {
+    const byId = (userId) => ({ _id: new ObjectId(userId) });
+
+    // Accounts from before the counter start from the codes they already have. Codes are only
+    // created once the counter exists, so the first count to be stored is the right one.
+    const ensureMintCounter = async (userId) => {
+        const user = await usersCollection.findOne(byId(userId), { projection: { invitesMinted: 1 } });
+        if (!user || user.invitesMinted !== undefined) return;
+        const total = await invitesCollection.countDocuments({ createdBy: userId.toString() });
+        await usersCollection.updateOne(
+            { ...byId(userId), invitesMinted: { $exists: false } },
+            { $set: { invitesMinted: total } }
+        );
+    };
+
+    // Gives back the count taken for a code that then couldn't be stored
+    const uncountMint = (userId) => usersCollection.updateOne(byId(userId), { $inc: { invitesMinted: -1 } });
+
+    const insertInvite = async ({ createdBy, maxUses, expiresAt, code, note }) => {
+        const invite = {
+            code: code ? normalizeCode(code) : generateCode(),
+            createdBy: createdBy ? createdBy.toString() : null,
+            note,
+            maxUses,
+            uses: 0,
+            redemptions: [],
+            expiresAt,
+            revokedAt: null,
+            createdAt: new Date(),
+        };
+        try {
+            const result = await invitesCollection.insertOne(invite);
+            return { ...invite, _id: result.insertedId };
+        } catch (err) {
+            if (err.code === 11000) {
+                throw new AppError("That invite code already exists", 409);
+            }
+            throw err;
+        }
+    };
+
+    /**
+     * Creates a code. `maxUses` and `expiresAt` may be null for no limit.
+     * A custom `code` is used as given (uppercased) and must not exist yet.
+     */
+    const mint = async ({ createdBy = null, maxUses = 1, expiresAt = null, code, note = null }) => {
+        if (!createdBy) return insertInvite({ createdBy, maxUses, expiresAt, code, note });
+
+        // Counted even without a limit check, since the creator's own allowance includes these
+        await ensureMintCounter(createdBy);
+        await usersCollection.updateOne(byId(createdBy), { $inc: { invitesMinted: 1 } });
+        try {
+            return await insertInvite({ createdBy, maxUses, expiresAt, code, note });
+        } catch (err) {
+            await uncountMint(createdBy);
+            throw err;
+        }
+    };
+
+    /**
+     * Takes one use of a code. Returns the invite, or null if the code is unknown,
+     * revoked, expired or used up. Call release() if the sign-up then fails.
+     */
+    const claim = async (code) => {
+        const now = new Date();
+        return invitesCollection.findOneAndUpdate(
+            {
+                code: normalizeCode(code),
+                revokedAt: null,
+                $and: [
+                    notExpired(now),
+                    { $or: [{ maxUses: null }, { $expr: { $lt: ["$uses", "$maxUses"] } }] },
+                ],
+            },
+            { $inc: { uses: 1 } },
+            { returnDocument: "after" }
+        );
+    };
+
+    const release = (invite) => invitesCollection.updateOne({ _id: invite._id }, { $inc: { uses: -1 } });
+
+    const recordRedemption = (invite, user) =>
+        invitesCollection.updateOne(
+            { _id: invite._id },
+            { $push: { redemptions: { userId: user._id.toString(), email: user.email, redeemedAt: new Date() } } }
+        );
+
+    const listCreatedBy = (userId) =>
+        invitesCollection.find({ createdBy: userId.toString() }).sort({ createdAt: -1 }).toArray();
+
+    const listAll = () => invitesCollection.find({}).sort({ createdAt: -1 }).toArray();
+
+    /**
+     * Revokes a code that is still live. Pass `createdBy` to only touch that user's codes.
+     * Returns whether anything was revoked.
+     */
+    const revoke = async (id, createdBy) => {
+        if (!ObjectId.isValid(id)) return false;
+        const result = await invitesCollection.updateOne(
+            { _id: new ObjectId(id), revokedAt: null, ...(createdBy ? { createdBy: createdBy.toString() } : {}) },
+            { $set: { revokedAt: new Date() } }
+        );
+        return result.modifiedCount === 1;
+    };
+
+    /**
+     * How many more codes a user may create. Codes that were used count for good;
+     * unused ones stop counting once they expire or are revoked.
+     */
+    const remainingFor = async (userId) => {
+        const now = new Date();
+        const spent = await invitesCollection.countDocuments({
+            createdBy: userId.toString(),
+            $or: [{ uses: { $gt: 0 } }, { revokedAt: null, ...notExpired(now) }],
+        });
+        return Math.max(0, config.invites.perUser - spent);
+    };
+
+    /**
+     * Users mint single-use codes that expire after `config.invites.ttlDays`. Returns null
+     * once they have used all their invites.
+     */
+    const mintForUser = async (userId) => {
+        await ensureMintCounter(userId);
+        // An out-of-date count of freed codes can only refuse too early, never allow too many
+        const freed = await invitesCollection.countDocuments(freedBy(userId, new Date()));
+        const counted = await usersCollection.updateOne(
+            { ...byId(userId), invitesMinted: { $lt: config.invites.perUser + freed } },
+            { $inc: { invitesMinted: 1 } }
+        );
+        if (counted.modifiedCount !== 1) return null;
+
+        try {
+            return await insertInvite({
+                createdBy: userId,
+                maxUses: 1,
+                expiresAt: new Date(Date.now() + config.invites.ttlDays * DAY_MS),
+                note: null,
+            });
+        } catch (err) {
+            await uncountMint(userId);
+            throw err;
+        }
+    };
+
+    // Codes from INVITE_CODES become unlimited codes the first time the server sees them
+    const importCodes = async (codes) => {
+        for (const code of codes) {
+            await invitesCollection.updateOne(
+                { code: normalizeCode(code) },
+                {
+                    $setOnInsert: {
+                        code: normalizeCode(code),
+                        createdBy: null,
+                        note: "From INVITE_CODES",
+                        maxUses: null,
+                        uses: 0,
+                        redemptions: [],
+                        expiresAt: null,
+                        revokedAt: null,
+                        createdAt: new Date(),
+                    },
+                },
+                { upsert: true }
+            );
+        }
+    };
+
+    return {
+        mint,
+        mintForUser,
+        claim,
+        release,
+        recordRedemption,
+        listCreatedBy,
+        listAll,
+        revoke,
+        remainingFor,
+        importCodes,
+        inviteStatus,
+    };
+};
@@ -0,0 +1,265 @@
+const { getDetails } = require("./metadata");
+const { ensureHistorySeeded, computeWatchlistStatus, storeWatchlistStatus } = require("./watchHistory");
+
+/**
+ * Merge imports bring in data from other services without replacing the watchlist.
+ * They only fill gaps: add missing titles, mark movies and episodes watched, and set
+ * a rating or review where there isn't one. Nothing already on the watchlist is undone.
+ * A rating or review that differs from the one we have is a conflict; ours is kept
+ * unless the user chose to overwrite conflicts.
+ */
+
+const FETCH_BATCH_SIZE = 5;
+const HEAVY_FIELDS = ["images", "videos", "credits", "keywords", "recommendations", "similar", "reviews"];
+const CONFLICT_FIELDS = ["userRating", "review"];
+
+const laterDate = (a, b) => (!a ? b : !b ? a : new Date(a) > new Date(b) ? a : b);
+
+const isEmpty = (value) => value == null || value === "";
+
+const episodeKey = ({ seasonNumber, episodeNumber }) => `${seasonNumber}:${episodeNumber}`;
+
+// Keeps the latest watch date for each episode
+const uniqueEpisodes = (episodes) => {
+    const byKey = new Map();
+    for (const episode of episodes) {
+        const previous = byKey.get(episodeKey(episode));
+        byKey.set(episodeKey(episode), previous
+            ? { ...episode, watchedAt: laterDate(previous.watchedAt, episode.watchedAt) }
+            : episode);
+    }
+    return [...byKey.values()];
+};
+
+// The same title can appear in several source files (e.g. watched.csv and ratings.csv)
+const combineEntries = (a, b) => ({
+    ...a,
+    watched: Boolean(a.watched || b.watched),
+    watchedAt: laterDate(a.watchedAt, b.watchedAt),
+    userRating: b.userRating ?? a.userRating,
+    review: b.review || a.review,
+    ...(a.episodes || b.episodes ? { episodes: [...(a.episodes || []), ...(b.episodes || [])] } : {}),
+});
+
+const groupBySeason = (episodes) => {
+    const seasons = {};
+    for (const { seasonNumber, episodeNumber } of episodes) {
+        seasons[seasonNumber] = [...(seasons[seasonNumber] || []), episodeNumber];
+    }
+    return seasons;
+};
+
+const mergeWatchedEpisodes = (watchedEpisodes, episodes) => {
+    const merged = { ...(watchedEpisodes || {}) };
+    for (const [seasonNumber, numbers] of Object.entries(groupBySeason(episodes))) {
+        merged[seasonNumber] = [...new Set([...(merged[seasonNumber] || []), ...numbers])].sort((a, b) => a - b);
+    }
+    return merged;
+};
+
+const latestWatchedAt = (entry) =>
+    (entry.episodes || []).reduce((latest, episode) => laterDate(latest, episode.watchedAt), entry.watchedAt);
+
+/**
+ * Works out what importing `entries` would do, without writing anything.
+ */
+const planImport = (existingItems, entries, { overwriteConflicts = false } = {}) => {
+    const existingById = new Map(existingItems.map((item) => [item.id, item]));
+    const combined = new Map();
+    for (const entry of entries) {
+        const previous = combined.get(entry.id);
+        combined.set(entry.id, previous ? combineEntries(previous, entry) : entry);
+    }
+
+    const toAdd = [];
+    const toUpdate = [];
+    const conflicts = [];
+    const unchanged = [];
+
+    for (const combinedEntry of combined.values()) {
+        const entry = combinedEntry.episodes
+            ? { ...combinedEntry, episodes: uniqueEpisodes(combinedEntry.episodes) }
+            : combinedEntry;
+        const item = existingById.get(entry.id);
+        if (!item) {
+            toAdd.push(entry);
+            continue;
+        }
+
+        const changes = {};
+        if (entry.watched && item.media_type === "movie" && !item.watched) changes.watched = true;
+        if (entry.episodes && item.media_type === "tv") {
+            const watchedEpisodes = item.watchedEpisodes || {};
+            const fresh = entry.episodes.filter(
+                ({ seasonNumber, episodeNumber }) => !(watchedEpisodes[seasonNumber] || []).includes(episodeNumber)
+            );
+            if (fresh.length > 0) changes.episodes = fresh;
+        }
+
+        const fields = [];
+        for (const field of CONFLICT_FIELDS) {
+            if (isEmpty(entry[field])) continue;
+            if (isEmpty(item[field])) {
+                changes[field] = entry[field];
+            } else if (item[field] !== entry[field]) {
+                fields.push({ field, current: item[field], incoming: entry[field] });
+                if (overwriteConflicts) changes[field] = entry[field];
+            }
+        }
+
+        if (fields.length > 0) conflicts.push({ entry, item, fields });
+        if (Object.keys(changes).length > 0) {
+            toUpdate.push({ entry, item, changes });
+        } else if (fields.length === 0) {
+            unchanged.push(entry);
+        }
+    }
+
+    return { toAdd, toUpdate, conflicts, unchanged };
+};
+
+/**
+ * The dry-run view of a plan, for the user to confirm before anything is written.
+ * Titles that aren't on the watchlist yet haven't been fetched, so `added` only has ids.
+ */
+const describePlan = (plan) => {
+    const describeItem = (item) => ({ id: item.id, media_type: item.media_type, title: item.title || item.name });
+    return {
+        added: plan.toAdd.map(({ id, media_type }) => ({ id, media_type })),
+        updated: plan.toUpdate.map(({ item, changes }) => ({
+            ...describeItem(item),
+            changes: { ...changes, ...(changes.episodes ? { episodes: changes.episodes.length } : {}) },
+        })),
+        conflicts: plan.conflicts.map(({ item, fields }) => ({ ...describeItem(item), fields })),
+        unchanged: plan.unchanged.length,
+    };
+};
+
+const watchEvent = (userId, itemId, mediaType, { seasonNumber = null, episodeNumber = null, watchedAt }) => ({
+    userId,
+    itemId,
+    media_type: mediaType,
+    action: "watch",
+    seasonNumber,
+    episodeNumber,
+    watchedAt: watchedAt ? new Date(watchedAt) : null,
+    imported: true,
+});
+
+const watchEventsFor = (userId, item, entry, episodes) =>
+    item.media_type === "movie"
+        ? [watchEvent(userId, item.id, "movie", { watchedAt: entry.watchedAt })]
+        : episodes.map((episode) => watchEvent(userId, item.id, "tv", episode));
+
+const buildNewItem = (details, entry, userId, now) => {
+    const item = { ...details };
+    for (const field of HEAVY_FIELDS) delete item[field];
+
+    if (item.media_type === "movie") {
+        item.watched = Boolean(entry.watched);
+    } else {
+        item.watchedEpisodes = mergeWatchedEpisodes({}, entry.episodes || []);
+    }
+    const hasWatched = item.watched || (entry.episodes || []).length > 0;
+    const watchedAt = latestWatchedAt(entry);
+    return {
+        ...item,
+        tags: [],
+        ...(entry.userRating != null ? { userRating: entry.userRating } : {}),
+        ...(entry.review ? { review: entry.review } : {}),
+        lastWatchedAt: hasWatched && watchedAt ? new Date(watchedAt) : null,
+        watchlistStatus: computeWatchlistStatus(item),
+        userId,
+        revision: 1,
+        createdAt: now,
+        // History for new items is written below, so there is nothing to migrate
+        historySeededAt: now,
+    };
+};
+
+/**
+ * Writes a plan from `planImport`. New titles are fetched from TMDB; ones that
+ * can't be fetched are reported in `failed` and skipped.
+ */
+const applyImport = async ({ itemCollection, historyCollection, userId }, plan) => {
+    const now = new Date();
+    const failed = [];
+    const newItems = [];
+
+    for (let i = 0; i < plan.toAdd.length; i += FETCH_BATCH_SIZE) {
+        const batch = plan.toAdd.slice(i, i + FETCH_BATCH_SIZE);
+        await Promise.all(
+            batch.map(async (entry) => {
+                try {
+                    const details = await getDetails(entry.media_type, entry.id);
+                    newItems.push({ entry, item: buildNewItem(details, entry, userId, now) });
+                } catch (err) {
+                    console.error(`Import: failed to fetch ${entry.media_type}:${entry.id}:`, err.message);
+                    failed.push(entry.id);
+                }
+            })
+        );
+    }
+
+    let added = 0;
+    if (newItems.length > 0) {
+        // Upsert so a title added on another device mid-import isn't duplicated or clobbered
+        const result = await itemCollection.bulkWrite(
+            newItems.map(({ item }) => ({
+                updateOne: {
+                    filter: { id: item.id, userId },
+                    update: { $setOnInsert: item },
+                    upsert: true,
+                },
+            })),
+            { ordered: false }
+        );
+        added = result.upsertedCount;
+
+        // upsertedIds is keyed by operation index; anything missing already existed
+        const events = newItems
+            .filter((_, index) => result.upsertedIds[index] !== undefined)
+            .flatMap(({ entry, item }) =>
+                item.media_type === "movie" && !item.watched ? [] : watchEventsFor(userId, item, entry, entry.episodes || [])
+            );
+        if (events.length > 0) {
+            await historyCollection.insertMany(events);
+        }
+    }
+
+    for (const { entry, item, changes } of plan.toUpdate) {
+        const { episodes, ...$set } = changes;
+        const update = { $inc: { revision: 1 } };
+        if (Object.keys($set).length > 0) update.$set = $set;
+
+        const watchedChanged = Boolean(changes.watched || episodes);
+        if (watchedChanged) {
+            await ensureHistorySeeded(historyCollection, itemCollection, item);
+            await historyCollection.insertMany(watchEventsFor(userId, item, entry, episodes || []));
+
+            const watchedAt = episodes ? latestWatchedAt({ episodes }) : entry.watchedAt;
+            if (watchedAt) {
+                update.$max = { lastWatchedAt: new Date(watchedAt) };
+            }
+        }
+        // $addToSet rather than the merged copy so episodes marked elsewhere mid-import survive
+        for (const [seasonNumber, numbers] of Object.entries(groupBySeason(episodes || []))) {
+            update.$addToSet = { ...update.$addToSet, [`watchedEpisodes.${seasonNumber}`]: { $each: numbers } };
+        }
+        const updated = await itemCollection.findOneAndUpdate({ id: item.id, userId }, update, { returnDocument: "after" });
+        // From the stored item: the plan only read the fields it merges, not the override or air dates
+        if (updated && watchedChanged) {
+            await storeWatchlistStatus(itemCollection, updated);
+        }
+    }
+
+    return {
+        added,
+        updated: plan.toUpdate.length,
+        unchanged: plan.unchanged.length,
+        conflicts: plan.conflicts.length,
+        failed,
+    };
+};
+
+module.exports = { planImport, describePlan, applyImport };
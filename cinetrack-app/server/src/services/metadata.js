@@ -0,0 +1,87 @@
+const { cache } = require("../config");
+const provider = require("../providers");
+
+const TTL = {
+    DISCOVER: 6 * 60 * 60,
+    SEARCH: 60 * 60,
+    FIND: 24 * 60 * 60,
+    DETAILS: 60 * 60,
+    SEASON: 6 * 60 * 60,
+    PROVIDERS: 24 * 60 * 60,
+    RECOMMENDATIONS: 6 * 60 * 60,
+    IMAGES: 24 * 60 * 60,
+};
+
+const LIMITS = {
+    SEARCH: 1000,
+    FIND: 1000,
+    DETAILS: 500,
+    RECOMMENDATIONS: 200,
+};
+
+/**
+ * Reads through the cache. Keys are prefixed with the provider's name so switching
+ * providers never serves the other one's data; with `limit` the key is also tracked
+ * in an index so the oldest entries are evicted first. `onCache` is told whether the
+ * cache had it, for the proxy's X-Cache header.
+ */
+const cached = async (key, ttl, load, limit, onCache) => {
+    const cacheKey = `${provider.name}:${key}`;
+    const hit = await cache.get(cacheKey);
+    onCache?.(Boolean(hit));
+    if (hit) return hit;
+
+    const data = await load();
+    if (limit) {
+        const indexKey = `${provider.name}:${key.split(":")[0]}:index`;
+        await cache.setWithLimit(cacheKey, data, ttl, indexKey, limit);
+    } else {
+        await cache.set(cacheKey, data, ttl);
+    }
+    return data;
+};
+
+/**
+ * Cached metadata from the configured provider (providers/index.js).
+ * Used by the /api/metadata (and /api/tmdb) proxy and by background jobs, so they warm each other.
+ */
+const getDiscover = (onCache) => cached("discover", TTL.DISCOVER, () => provider.getDiscover(), undefined, onCache);
+
+const search = (query, onCache) =>
+    cached(`search:${query.toLowerCase().trim()}`, TTL.SEARCH, () => provider.search(query), LIMITS.SEARCH, onCache);
+
+// IMDb ids never change, so these keep for a day
+const findByImdbId = (imdbId) =>
+    cached(`find:${imdbId}`, TTL.FIND, () => provider.findByImdbId(imdbId), LIMITS.FIND);
+
+const getDetails = (type, id, onCache) =>
+    cached(`details:${type}:${id}`, TTL.DETAILS, () => provider.getDetails(type, id), LIMITS.DETAILS, onCache);
+
+const getSeason = (tvId, seasonNumber, onCache) =>
+    cached(`season:${tvId}:${seasonNumber}`, TTL.SEASON, () => provider.getSeason(tvId, seasonNumber), undefined, onCache);
+
+const getProviders = (type, id, onCache) =>
+    cached(`providers:${type}:${id}`, TTL.PROVIDERS, () => provider.getProviders(type, id), undefined, onCache);
+
+const getRecommendations = (type, id, onCache) =>
+    cached(
+        `recommendations:${type}:${id}`,
+        TTL.RECOMMENDATIONS,
+        () => provider.getRecommendations(type, id),
+        LIMITS.RECOMMENDATIONS,
+        onCache
+    );
+
+const getImages = (type, id, onCache) =>
+    cached(`images:${type}:${id}`, TTL.IMAGES, () => provider.getImages(type, id), undefined, onCache);
+
+module.exports = {
+    getDiscover,
+    search,
+    findByImdbId,
+    getDetails,
+    getSeason,
+    getProviders,
+    getRecommendations,
+    getImages,
+};
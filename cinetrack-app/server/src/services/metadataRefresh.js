@@ -0,0 +1,134 @@
+const config = require("../config");
+const { getDetails } = require("./metadata");
+const { computeWatchlistStatus, FINISHED_SHOW_STATUSES } = require("./watchHistory");
+
+const FETCH_BATCH_SIZE = 5;
+// Items refreshed per run; anything left over is still due on the next one
+const MAX_ITEMS_PER_RUN = 500;
+
+// Only the detail view needs these, and it fetches them fresh (same list the client strips on add)
+const DETAIL_ONLY_FIELDS = ["images", "videos", "credits", "keywords", "recommendations", "similar", "reviews"];
+
+// Our own fields, never taken from TMDB
+const OWN_FIELDS = [
+    "_id",
+    "userId",
+    "id",
+    "media_type",
+    "watched",
+    "watchedEpisodes",
+    "tags",
+    "userRating",
+    "review",
+    "seasonRatings",
+    "episodeRatings",
+    "statusOverride",
+    "watchlistStatus",
+    "lastWatchedAt",
+    "revision",
+    "historySeededAt",
+    "metadataRefreshedAt",
+    "createdAt",
+    "expiresAt",
+];
+
+const pickMetadata = (details) => {
+    const metadata = { ...details };
+    for (const field of [...DETAIL_ONLY_FIELDS, ...OWN_FIELDS]) delete metadata[field];
+    return metadata;
+};
+
+// Key order differs between what the client stored and what TMDB returns, so compare sorted
+const canonical = (value) =>
+    JSON.stringify(value ?? null, (key, v) =>
+        v && typeof v === "object" && !Array.isArray(v)
+            ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+            : v
+    );
+
+const hoursAgo = (now, hours) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+/**
+ * Items are saved with the TMDB details they had when they were added, so episode counts,
+ * seasons, status and runtimes go stale. This re-reads them on a schedule: shows that are
+ * still airing every `airingIntervalHours`, everything else every `intervalHours`.
+ * Only TMDB's fields are written; watch state, tags, ratings and the like are left alone.
+ */
+module.exports = (watchlistCollection, broadcastToUser) => {
+    const fetchDetailsMap = async (keys) => {
+        const detailsMap = new Map();
+        for (let i = 0; i < keys.length; i += FETCH_BATCH_SIZE) {
+            const batch = keys.slice(i, i + FETCH_BATCH_SIZE);
+            await Promise.all(
+                batch.map(async (key) => {
+                    const [type, id] = key.split(":");
+                    try {
+                        detailsMap.set(key, await getDetails(type, Number(id)));
+                    } catch (err) {
+                        console.error(`Metadata refresh: failed to fetch ${key}:`, err.message);
+                    }
+                })
+            );
+        }
+        return detailsMap;
+    };
+
+    const dueFilter = (now) => ({
+        $or: [
+            { metadataRefreshedAt: { $exists: false } },
+            { metadataRefreshedAt: { $lt: hoursAgo(now, config.metadataRefresh.intervalHours) } },
+            {
+                media_type: "tv",
+                status: { $nin: FINISHED_SHOW_STATUSES },
+                metadataRefreshedAt: { $lt: hoursAgo(now, config.metadataRefresh.airingIntervalHours) },
+            },
+        ],
+    });
+
+    /**
+     * Returns the number of items whose metadata changed.
+     */
+    const refresh = async (now = new Date()) => {
+        const items = await watchlistCollection
+            .find(dueFilter(now))
+            .sort({ metadataRefreshedAt: 1 })
+            .limit(MAX_ITEMS_PER_RUN)
+            .toArray();
+        if (items.length === 0) return 0;
+
+        // Several users often track the same title; fetch it once
+        const detailsMap = await fetchDetailsMap([...new Set(items.map((item) => `${item.media_type}:${item.id}`))]);
+        let updated = 0;
+
+        for (const item of items) {
+            const details = detailsMap.get(`${item.media_type}:${item.id}`);
+            // Retried on the next run
+            if (!details) continue;
+
+            const metadata = pickMetadata(details);
+            const changes = Object.fromEntries(
+                Object.entries(metadata).filter(([field, value]) => canonical(item[field]) !== canonical(value))
+            );
+
+            if (Object.keys(changes).length === 0) {
+                await watchlistCollection.updateOne({ _id: item._id }, { $set: { metadataRefreshedAt: now } });
+                continue;
+            }
+
+            const watchlistStatus = computeWatchlistStatus({ ...item, ...changes });
+            // Skip items changed since they were read; they are still due next run
+            const result = await watchlistCollection.findOneAndUpdate(
+                { _id: item._id, revision: item.revision ?? { $in: [null, 0] } },
+                { $set: { ...changes, watchlistStatus, metadataRefreshedAt: now }, $inc: { revision: 1 } },
+                { returnDocument: "after", projection: { _id: 0 } }
+            );
+            if (!result) continue;
+
+            updated++;
+            broadcastToUser(item.userId, "watchlist:update", result);
+        }
+        return updated;
+    };
+
+    return { refresh };
+};
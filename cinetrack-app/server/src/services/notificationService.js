@@ -0,0 +1,214 @@
+const { getDetails, getSeason } = require("./metadata");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOOKBACK_DAYS = 7;
+const FETCH_BATCH_SIZE = 5;
+// Watchlist items read at a time, so a scan never holds every user's watchlist
+const SCAN_BATCH_SIZE = 500;
+// Shows the user chose to stop following
+const SKIPPED_STATUSES = ["dropped", "on_hold"];
+const CANDIDATE_PROJECTION = {
+    _id: 0, userId: 1, id: 1, media_type: 1, name: 1, title: 1, poster_path: 1, watched: 1, watchedEpisodes: 1,
+    lastNotifiedEpisode: 1,
+};
+
+// Only what notifications use, so details can be kept for the whole scan
+const slimDetails = ({ name, title, poster_path, release_date, last_episode_to_air }) =>
+    ({ name, title, poster_path, release_date, last_episode_to_air });
+
+// Air/release dates from TMDB are calendar dates; only notify once they have passed
+// and only while they are recent enough to still count as "new".
+const isRecent = (dateStr, now) => {
+    if (!dateStr) return false;
+    const date = new Date(dateStr);
+    if (isNaN(date.getTime())) return false;
+    const age = now.getTime() - date.getTime();
+    return age >= 0 && age <= LOOKBACK_DAYS * DAY_MS;
+};
+
+const hasWatchedEpisode = (item, seasonNumber, episodeNumber) => {
+    const episodes = item.watchedEpisodes?.[seasonNumber];
+    return Array.isArray(episodes) && episodes.includes(episodeNumber);
+};
+
+// Orders episodes by season, then episode
+const compareEpisodes = (a, b) => a.season_number - b.season_number || a.episode_number - b.episode_number;
+
+const buildEpisodeNotification = (item, details, episode) => {
+    if (hasWatchedEpisode(item, episode.season_number, episode.episode_number)) return null;
+
+    return {
+        key: `episode:${item.id}:${episode.season_number}:${episode.episode_number}`,
+        type: "episode",
+        mediaId: item.id,
+        media_type: "tv",
+        title: details.name || item.name,
+        poster_path: details.poster_path ?? item.poster_path ?? null,
+        seasonNumber: episode.season_number,
+        episodeNumber: episode.episode_number,
+        episodeName: episode.name || null,
+        airDate: episode.air_date,
+    };
+};
+
+const buildReleaseNotification = (item, details, now) => {
+    if (item.watched || !isRecent(details.release_date, now)) return null;
+
+    return {
+        key: `release:${item.id}`,
+        type: "release",
+        mediaId: item.id,
+        media_type: "movie",
+        title: details.title || item.title,
+        poster_path: details.poster_path ?? item.poster_path ?? null,
+        airDate: details.release_date,
+    };
+};
+
+module.exports = (notificationsCollection, watchlistCollection, demoWatchlistCollection, broadcastToUser) => {
+    // Each item comes with the collection it lives in, so what was notified can be stored back on it
+    const forEachCandidateBatch = async (userId, handleBatch) => {
+        const query = { ...(userId ? { userId } : {}), watchlistStatus: { $nin: SKIPPED_STATUSES } };
+        for (const collection of [watchlistCollection, demoWatchlistCollection]) {
+            const cursor = collection.find(query, { projection: CANDIDATE_PROJECTION }).batchSize(SCAN_BATCH_SIZE);
+            let batch = [];
+            for await (const item of cursor) {
+                batch.push({ item, collection });
+                if (batch.length === SCAN_BATCH_SIZE) {
+                    await handleBatch(batch);
+                    batch = [];
+                }
+            }
+            if (batch.length > 0) await handleBatch(batch);
+        }
+    };
+
+    // Fetch each title once per scan, no matter how many users track it; failures are kept as null
+    const fetchDetails = async (items, detailsMap) => {
+        const keys = [...new Set(items.map((item) => `${item.media_type}:${item.id}`))].filter((key) => !detailsMap.has(key));
+
+        for (let i = 0; i < keys.length; i += FETCH_BATCH_SIZE) {
+            const batch = keys.slice(i, i + FETCH_BATCH_SIZE);
+            await Promise.all(
+                batch.map(async (key) => {
+                    const [type, id] = key.split(":");
+                    try {
+                        detailsMap.set(key, slimDetails(await getDetails(type, id)));
+                    } catch (err) {
+                        detailsMap.set(key, null);
+                        console.error(`Notification scan: failed to fetch ${key}:`, err.message);
+                    }
+                })
+            );
+        }
+    };
+
+    /**
+     * Every episode that aired since the one last notified for this item, oldest first, up to
+     * `last_episode_to_air`. Several can air between scans (whole seasons dropping at once, double
+     * bills), so the seasons in between are read rather than just the latest episode. Only recent
+     * episodes count, so a show new to the scan doesn't notify its back catalogue.
+     */
+    const findNewEpisodes = async (item, details, loadSeason, now) => {
+        const latest = details.last_episode_to_air;
+        if (!latest || !isRecent(latest.air_date, now)) return [];
+
+        const seen = item.lastNotifiedEpisode;
+        const after = (episode) =>
+            !seen || compareEpisodes(episode, { season_number: seen.seasonNumber, episode_number: seen.episodeNumber }) > 0;
+        if (!after(latest)) return [];
+
+        // Anything older than the season before the latest is past the lookback anyway
+        const firstSeason = Math.max(seen?.seasonNumber ?? 0, latest.season_number - 1, 1);
+        const episodes = [];
+        try {
+            for (let seasonNumber = firstSeason; seasonNumber <= latest.season_number; seasonNumber++) {
+                const season = await loadSeason(item.id, seasonNumber);
+                episodes.push(...(season?.episodes || []).map((episode) => ({ ...episode, season_number: seasonNumber })));
+            }
+        } catch (err) {
+            console.error(`Notification scan: failed to fetch seasons of tv:${item.id}:`, err.message);
+            return [latest];
+        }
+
+        const aired = episodes.filter(
+            (episode) => after(episode) && compareEpisodes(episode, latest) <= 0 && isRecent(episode.air_date, now)
+        );
+        // Season data can lag behind the show's own record of what aired last
+        if (!aired.some((episode) => compareEpisodes(episode, latest) === 0)) aired.push(latest);
+        return aired.sort(compareEpisodes);
+    };
+
+    // Remembers the newest episode handled, watched or not, so the next scan starts after it
+    const markNotified = (collection, item, episode) =>
+        collection.updateOne(
+            { userId: item.userId, id: item.id },
+            { $set: { lastNotifiedEpisode: { seasonNumber: episode.season_number, episodeNumber: episode.episode_number } } }
+        );
+
+    const saveNotification = async (userId, notification, now) => {
+        const result = await notificationsCollection.updateOne(
+            { userId, key: notification.key },
+            { $setOnInsert: { ...notification, userId, read: false, createdAt: now } },
+            { upsert: true }
+        );
+        if (!result.upsertedId) return false;
+
+        broadcastToUser(userId, "notification:new", {
+            ...notification,
+            _id: result.upsertedId,
+            userId,
+            read: false,
+            createdAt: now,
+        });
+        return true;
+    };
+
+    /**
+     * Scans watchlists for newly aired episodes and released movies and stores
+     * one notification per user/event, skipping what the user dropped or put on hold.
+     * Pass a userId to limit the scan to that user.
+     * Returns the number of notifications created.
+     */
+    const scan = async (userId) => {
+        const now = new Date();
+        const detailsMap = new Map();
+        // Like details, each season is fetched once per scan however many users need it
+        const seasons = new Map();
+        const loadSeason = (tvId, seasonNumber) => {
+            const key = `${tvId}:${seasonNumber}`;
+            if (!seasons.has(key)) seasons.set(key, getSeason(tvId, seasonNumber));
+            return seasons.get(key);
+        };
+        let created = 0;
+
+        await forEachCandidateBatch(userId, async (candidates) => {
+            await fetchDetails(candidates.map(({ item }) => item), detailsMap);
+
+            for (const { item, collection } of candidates) {
+                const details = detailsMap.get(`${item.media_type}:${item.id}`);
+                if (!details) continue;
+
+                if (item.media_type === "tv") {
+                    const episodes = await findNewEpisodes(item, details, loadSeason, now);
+                    for (const episode of episodes) {
+                        const notification = buildEpisodeNotification(item, details, episode);
+                        if (notification && await saveNotification(item.userId, notification, now)) {
+                            created++;
+                        }
+                    }
+                    if (episodes.length > 0) await markNotified(collection, item, episodes[episodes.length - 1]);
+                    continue;
+                }
+
+                const notification = buildReleaseNotification(item, details, now);
+                if (notification && await saveNotification(item.userId, notification, now)) {
+                    created++;
+                }
+            }
+        });
+        return created;
+    };
+
+    return { scan };
+};
@@ -0,0 +1,213 @@
+const crypto = require("crypto");
+const jwt = require("jsonwebtoken");
+const { ObjectId } = require("mongodb");
+const config = require("../config");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tabs that refresh at the same moment all present the same token; only the first rotates it
+const ROTATION_GRACE_MS = 30 * 1000;
+// Every authenticated request checks its session; ones confirmed this recently skip the database
+const ACTIVE_CACHE_MS = 30 * 1000;
+const ACTIVE_CACHE_MAX = 10000;
+
+const hashToken = (secret) => crypto.createHash("sha256").update(secret).digest("hex");
+const newSecret = () => crypto.randomBytes(32).toString("base64url");
+
+// Refresh tokens are "<sessionId>.<secret>"; only the secret's hash is stored
+const parseRefreshToken = (token) => {
+    const [sessionId, secret] = String(token || "").split(".");
+    if (!secret || !ObjectId.isValid(sessionId)) return null;
+    return { sessionId: new ObjectId(sessionId), secret };
+};
+
+const describeDevice = (userAgent = "") => {
+    const browser =
+        (/Edg\//.test(userAgent) && "Edge") ||
+        (/Firefox\//.test(userAgent) && "Firefox") ||
+        (/Chrome\//.test(userAgent) && "Chrome") ||
+        (/Safari\//.test(userAgent) && "Safari") ||
+        null;
+    const os =
+        (/iPhone|iPad/.test(userAgent) && "iOS") ||
+        (/Android/.test(userAgent) && "Android") ||
+        (/Windows/.test(userAgent) && "Windows") ||
+        (/Mac OS X/.test(userAgent) && "macOS") ||
+        (/Linux/.test(userAgent) && "Linux") ||
+        null;
+    if (browser && os) return `${browser} on ${os}`;
+    return browser || os || "Unknown device";
+};
+
+/**
+ * Login sessions. Each one holds a rotating refresh token (sent as an httpOnly cookie)
+ * that trades for short-lived access tokens. Revoking a session also disconnects its
+ * sockets, and the access tokens it already issued stop being accepted right away.
+ */
+module.exports = (sessionsCollection, disconnectSockets) => {
+    // sessionId -> time until which it counts as active without asking the database
+    const activeCache = new Map();
+    const signAccessToken = (session) =>
+        jwt.sign({ userId: session.userId, sessionId: session._id.toString() }, config.jwt.secret, {
+            expiresIn: `${config.auth.accessTokenMinutes}m`,
+        });
+
+    const sessionExpiry = (now, isDemo) =>
+        new Date(now.getTime() + (isDemo ? config.demoTtlSeconds * 1000 : config.auth.refreshTokenDays * DAY_MS));
+
+    const clientInfo = (req) => ({
+        userAgent: String(req.get("user-agent") || "").slice(0, 300),
+        ip: req.ip,
+    });
+
+    /**
+     * Starts a session for a user who just logged in or registered.
+     */
+    const create = async (userId, isDemo, req) => {
+        const now = new Date();
+        const secret = newSecret();
+        const session = {
+            _id: new ObjectId(),
+            userId: userId.toString(),
+            isDemo,
+            tokenHash: hashToken(secret),
+            ...clientInfo(req),
+            createdAt: now,
+            lastSeenAt: now,
+            expiresAt: sessionExpiry(now, isDemo),
+        };
+        await sessionsCollection.insertOne(session);
+        return {
+            session,
+            accessToken: signAccessToken(session),
+            refreshToken: `${session._id}.${secret}`,
+        };
+    };
+
+    /**
+     * Trades a refresh token for a new access token and, normally, a new refresh token.
+     * `refreshToken` is null when a concurrent request already rotated it; the cookie that
+     * request set is the current one. A token that was rotated away earlier than that has
+     * leaked, so the whole session is revoked. Returns null when the token is no good.
+     */
+    const rotate = async (token, req) => {
+        const parsed = parseRefreshToken(token);
+        if (!parsed) return null;
+
+        const now = new Date();
+        const session = await sessionsCollection.findOne({ _id: parsed.sessionId, expiresAt: { $gt: now } });
+        if (!session) return null;
+
+        const presented = hashToken(parsed.secret);
+        if (presented === session.previousTokenHash && now - session.rotatedAt < ROTATION_GRACE_MS) {
+            return { session, accessToken: signAccessToken(session), refreshToken: null };
+        }
+        if (presented !== session.tokenHash) {
+            await revoke(session.userId, session._id);
+            return null;
+        }
+
+        const secret = newSecret();
+        const updated = await sessionsCollection.findOneAndUpdate(
+            { _id: session._id, tokenHash: presented },
+            {
+                $set: {
+                    tokenHash: hashToken(secret),
+                    previousTokenHash: presented,
+                    rotatedAt: now,
+                    lastSeenAt: now,
+                    ...clientInfo(req),
+                    // Demo sessions end with the demo account
+                    ...(session.isDemo ? {} : { expiresAt: sessionExpiry(now, false) }),
+                },
+            },
+            { returnDocument: "after" }
+        );
+        // Lost a race with another tab; it got the new token
+        if (!updated) {
+            return { session, accessToken: signAccessToken(session), refreshToken: null };
+        }
+        return { session: updated, accessToken: signAccessToken(updated), refreshToken: `${updated._id}.${secret}` };
+    };
+
+    /**
+     * The session a refresh token belongs to, if the token is current (used to log out).
+     */
+    const findByRefreshToken = async (token) => {
+        const parsed = parseRefreshToken(token);
+        if (!parsed) return null;
+        const session = await sessionsCollection.findOne({ _id: parsed.sessionId });
+        const presented = hashToken(parsed.secret);
+        if (!session || (presented !== session.tokenHash && presented !== session.previousTokenHash)) return null;
+        return session;
+    };
+
+    /**
+     * Whether a session still exists. Revoking through this service takes effect at once;
+     * positive answers are cached briefly, which only matters for expiry.
+     */
+    const isActive = async (userId, sessionId) => {
+        if (!ObjectId.isValid(sessionId)) return false;
+        const now = Date.now();
+        const key = `${userId}:${sessionId}`;
+        if (activeCache.get(key) > now) return true;
+
+        const session = await sessionsCollection.findOne(
+            { _id: new ObjectId(sessionId), userId, expiresAt: { $gt: new Date(now) } },
+            { projection: { _id: 1, expiresAt: 1 } }
+        );
+        if (!session) {
+            activeCache.delete(key);
+            return false;
+        }
+        if (activeCache.size >= ACTIVE_CACHE_MAX) activeCache.clear();
+        activeCache.set(key, Math.min(now + ACTIVE_CACHE_MS, session.expiresAt.getTime()));
+        return true;
+    };
+
+    const forget = (userId, sessionId) => activeCache.delete(`${userId}:${sessionId}`);
+
+    const list = async (userId, currentSessionId) => {
+        const sessions = await sessionsCollection
+            .find({ userId, expiresAt: { $gt: new Date() } })
+            .sort({ lastSeenAt: -1 })
+            .toArray();
+        return sessions.map((session) => ({
+            id: session._id.toString(),
+            device: describeDevice(session.userAgent),
+            ip: session.ip || null,
+            createdAt: session.createdAt,
+            lastSeenAt: session.lastSeenAt,
+            current: session._id.toString() === currentSessionId,
+        }));
+    };
+
+    /**
+     * Returns false when the user has no such session.
+     */
+    const revoke = async (userId, sessionId) => {
+        if (!ObjectId.isValid(sessionId)) return false;
+        const result = await sessionsCollection.deleteOne({ _id: new ObjectId(sessionId), userId });
+        forget(userId, sessionId);
+        disconnectSockets(`session:${sessionId}`);
+        return result.deletedCount === 1;
+    };
+
+    /**
+     * Ends every session of a user, except `keepSessionId` when given.
+     */
+    const revokeAll = async (userId, keepSessionId) => {
+        const filter = { userId };
+        if (keepSessionId && ObjectId.isValid(keepSessionId)) {
+            filter._id = { $ne: new ObjectId(keepSessionId) };
+        }
+        const sessions = await sessionsCollection.find(filter, { projection: { _id: 1 } }).toArray();
+        await sessionsCollection.deleteMany(filter);
+        sessions.forEach((session) => {
+            forget(userId, session._id.toString());
+            disconnectSockets(`session:${session._id}`);
+        });
+        return sessions.length;
+    };
+
+    return { create, rotate, findByRefreshToken, isActive, list, revoke, revokeAll };
+};
@@ -0,0 +1,38 @@
+const crypto = require("crypto");
+const config = require("../config");
+
+/**
+ * Share tokens are `<shareId>.<signature>`. The signature lets the public endpoint
+ * reject guessed or tampered links before touching the database; revoking a link
+ * deletes the share document, so a validly signed token stops working too.
+ * The signature also covers what the token is for (share links, calendar feeds), so a
+ * token made for one is never valid for the other.
+ */
+
+// Share links were signed over the bare id before other purposes existed, and still are
+const PURPOSES = { share: "", calendar: "calendar:" };
+
+const sign = (shareId, purpose) => {
+    if (!(purpose in PURPOSES)) throw new Error(`Unknown share token purpose: ${purpose}`);
+    return crypto.createHmac("sha256", config.share.secret).update(PURPOSES[purpose] + shareId).digest("base64url");
+};
+
+const createShareToken = (shareId, purpose = "share") => {
+    const id = String(shareId);
+    return `${id}.${sign(id, purpose)}`;
+};
+
+// Returns the id for a well-formed token signed for `purpose`, otherwise null
+const verifyShareToken = (token, purpose = "share") => {
+    const [id, signature, ...rest] = String(token).split(".");
+    if (!id || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(sign(id, purpose));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+    return id;
+};
+
+module.exports = { createShareToken, verifyShareToken };
@@ -0,0 +1,104 @@
+const { search, findByImdbId } = require("./metadata");
+
+const MAX_CANDIDATES = 5;
+const FETCH_BATCH_SIZE = 5;
+
+const titleOf = (result) => result.title || result.name || "";
+
+const yearOf = (result) =>
+    parseInt((result.release_date || result.first_air_date || "").slice(0, 4), 10) || null;
+
+// Case, accents and punctuation differ between services ("Amélie" vs "Amelie")
+const normalizeTitle = (title) =>
+    title
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/&/g, "and")
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+
+const toCandidate = (result) => ({
+    id: result.id,
+    media_type: result.media_type,
+    title: titleOf(result),
+    year: yearOf(result),
+    poster_path: result.poster_path ?? null,
+});
+
+const scoreResult = (result, wantedTitle, year) => {
+    let score = normalizeTitle(titleOf(result)) === wantedTitle ? 2 : 0;
+    const resultYear = yearOf(result);
+    if (year && resultYear) {
+        const diff = Math.abs(resultYear - year);
+        score += diff === 0 ? 3 : diff === 1 ? 1 : -3;
+    }
+    return score;
+};
+
+/**
+ * Finds the TMDB entry for an imported row. An IMDb id is an exact lookup; otherwise
+ * we use the cached multi-search and only report a match when we're confident: the
+ * year agrees within one (festival and theatrical dates often straddle New Year), or,
+ * with no year, the title matches exactly. Everything else comes back with candidates for review.
+ */
+const matchTitle = async ({ title, year, media_type, imdbId }) => {
+    if (imdbId) {
+        const found = (await findByImdbId(imdbId)).results.filter(
+            (result) => !media_type || result.media_type === media_type
+        );
+        if (found.length > 0) {
+            const match = toCandidate(found[0]);
+            return { match, candidates: [match] };
+        }
+    }
+
+    const { results } = await search(title);
+    const pool = media_type ? results.filter((result) => result.media_type === media_type) : results;
+    if (pool.length === 0) {
+        return { match: null, candidates: [] };
+    }
+
+    const wantedTitle = normalizeTitle(title);
+    // Stable: on equal scores TMDB's relevance order wins
+    const ranked = pool
+        .map((result, index) => ({ result, index, score: scoreResult(result, wantedTitle, year) }))
+        .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    const best = ranked[0].result;
+    const bestYear = yearOf(best);
+    const confident = year
+        ? bestYear !== null && Math.abs(bestYear - year) <= 1
+        : normalizeTitle(titleOf(best)) === wantedTitle;
+
+    return {
+        match: confident ? toCandidate(best) : null,
+        candidates: ranked.slice(0, MAX_CANDIDATES).map(({ result }) => toCandidate(result)),
+    };
+};
+
+/**
+ * Resolves rows in small batches to stay friendly with TMDB's rate limit.
+ * A failed lookup is reported as unmatched rather than failing the whole batch.
+ */
+const matchTitles = async (rows) => {
+    const resolved = [];
+    for (let i = 0; i < rows.length; i += FETCH_BATCH_SIZE) {
+        const batch = rows.slice(i, i + FETCH_BATCH_SIZE);
+        resolved.push(
+            ...(await Promise.all(
+                batch.map(async (row) => {
+                    try {
+                        return await matchTitle(row);
+                    } catch (err) {
+                        console.error(`Title match failed for "${row.title}":`, err.message);
+                        return { match: null, candidates: [], error: true };
+                    }
+                })
+            ))
+        );
+    }
+    return resolved;
+};
+
+module.exports = { matchTitle, matchTitles, normalizeTitle };
@@ -0,0 +1,153 @@
+const crypto = require("crypto");
+const { ObjectId } = require("mongodb");
+const QRCode = require("qrcode");
+const totp = require("./totp");
+
+const ISSUER = "Scene Stack";
+const RECOVERY_CODE_COUNT = 10;
+// Wrong codes allowed before checks are refused for LOCKOUT_MS, whichever endpoint they come through
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Lowercase without 0/o, 1/l/i, so codes can be copied from paper
+const RECOVERY_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+const hashCode = (code) => crypto.createHash("sha256").update(code).digest("hex");
+
+// Dashes and spaces are only there for reading
+const normalizeRecoveryCode = (code) => String(code || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const generateRecoveryCodes = () =>
+    Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const chars = Array.from({ length: 10 }, () => RECOVERY_ALPHABET[crypto.randomInt(RECOVERY_ALPHABET.length)]);
+        return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+    });
+
+const isTotpCode = (code) => /^\d{6}$/.test(String(code).replace(/\s/g, ""));
+
+/**
+ * Optional TOTP two-factor authentication for registered users, kept on the user as
+ * `twoFactor`. Setup stores a pending secret that only becomes active once a code from
+ * it is confirmed. Each authenticator code is accepted once (the last used time step
+ * is stored) and recovery codes are stored hashed and removed as they are used.
+ * Too many wrong codes lock checking for a while, so a known password isn't enough
+ * to guess the rest.
+ */
+module.exports = (usersCollection) => {
+    const byId = (userId) => ({ _id: new ObjectId(userId) });
+
+    const status = (user) => ({
+        enabled: Boolean(user.twoFactor?.enabled),
+        recoveryCodesRemaining: user.twoFactor?.enabled ? user.twoFactor.recoveryCodes.length : 0,
+    });
+
+    /**
+     * Starts (or restarts) enrollment with a new secret. Returns what the authenticator app
+     * needs: the secret for typing in, the otpauth:// URI and that URI as a QR code data URL.
+     */
+    const beginSetup = async (user) => {
+        const secret = totp.generateSecret();
+        await usersCollection.updateOne(byId(user._id), {
+            $set: { "twoFactor.pendingSecret": secret },
+        });
+        const otpauthUri = totp.otpauthUri({ secret, accountName: user.email, issuer: ISSUER });
+        return { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+    };
+
+    /**
+     * Finishes enrollment if `code` matches the pending secret. Returns the recovery codes,
+     * which are only ever shown this once, or null if the code is wrong or setup wasn't started.
+     */
+    const enable = async (user, code) => {
+        const secret = user.twoFactor?.pendingSecret;
+        const step = secret ? totp.verify(secret, code) : null;
+        if (step === null) return null;
+
+        const recoveryCodes = generateRecoveryCodes();
+        const result = await usersCollection.updateOne(
+            { ...byId(user._id), "twoFactor.pendingSecret": secret },
+            {
+                $set: {
+                    twoFactor: {
+                        enabled: true,
+                        secret,
+                        recoveryCodes: recoveryCodes.map((c) => hashCode(normalizeRecoveryCode(c))),
+                        lastUsedStep: step,
+                        enabledAt: new Date(),
+                    },
+                },
+            }
+        );
+        return result.modifiedCount === 1 ? recoveryCodes : null;
+    };
+
+    const checkCode = async (user, code) => {
+        if (isTotpCode(code)) {
+            const step = totp.verify(user.twoFactor.secret, code);
+            if (step === null) return null;
+            // Conditional on the step, so two requests can't both spend the same code
+            const result = await usersCollection.updateOne(
+                { ...byId(user._id), "twoFactor.lastUsedStep": { $lt: step } },
+                { $set: { "twoFactor.lastUsedStep": step } }
+            );
+            return result.modifiedCount === 1 ? "totp" : null;
+        }
+
+        const hash = hashCode(normalizeRecoveryCode(code));
+        const result = await usersCollection.updateOne(
+            { ...byId(user._id), "twoFactor.recoveryCodes": hash },
+            { $pull: { "twoFactor.recoveryCodes": hash } }
+        );
+        return result.modifiedCount === 1 ? "recovery" : null;
+    };
+
+    /**
+     * Checks an authenticator code or, failing that, a recovery code, and uses it up.
+     * Returns "totp" or "recovery" for whichever matched, "invalid" for a wrong code, or
+     * "locked" while too many wrong codes have been tried.
+     */
+    const verify = async (user, code) => {
+        if (!user.twoFactor?.enabled) return "invalid";
+
+        // Counted before the check, so parallel guesses can't all get in under the limit
+        const now = new Date();
+        const counted = await usersCollection.findOneAndUpdate(
+            {
+                ...byId(user._id),
+                "twoFactor.enabled": true,
+                $or: [{ "twoFactor.lockedUntil": null }, { "twoFactor.lockedUntil": { $lte: now } }],
+            },
+            { $inc: { "twoFactor.failedAttempts": 1 } },
+            { returnDocument: "after" }
+        );
+        if (!counted) return "locked";
+        if (counted.twoFactor.failedAttempts > MAX_FAILED_ATTEMPTS) {
+            await usersCollection.updateOne(byId(user._id), {
+                $set: { "twoFactor.lockedUntil": new Date(now.getTime() + LOCKOUT_MS), "twoFactor.failedAttempts": 0 },
+            });
+            return "locked";
+        }
+
+        const method = await checkCode(counted, code);
+        if (!method) return "invalid";
+
+        await usersCollection.updateOne(byId(user._id), { $set: { "twoFactor.failedAttempts": 0 } });
+        return method;
+    };
+
+    /**
+     * Replaces every recovery code. Returns the new ones.
+     */
+    const regenerateRecoveryCodes = async (user) => {
+        const recoveryCodes = generateRecoveryCodes();
+        await usersCollection.updateOne(byId(user._id), {
+            $set: { "twoFactor.recoveryCodes": recoveryCodes.map((c) => hashCode(normalizeRecoveryCode(c))) },
+        });
+        return recoveryCodes;
+    };
+
+    const disable = async (user) => {
+        await usersCollection.updateOne(byId(user._id), { $unset: { twoFactor: "" } });
+    };
+
+    return { status, beginSetup, enable, verify, regenerateRecoveryCodes, disable };
+};
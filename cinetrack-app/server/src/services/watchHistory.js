@@ -0,0 +1,164 @@
+/**
+ * Watch history is an append-only log of watch/unwatch events per watchlist item.
+ * `watchedEpisodes` (TV) and `watched` (movies) on the item are derived from it.
+ */
+
+const toTime = (date) => (date ? new Date(date).getTime() : 0);
+
+// Migrated events have no timestamp and always sort before real ones
+const compareEvents = (a, b) =>
+    toTime(a.watchedAt) - toTime(b.watchedAt) || String(a._id).localeCompare(String(b._id));
+
+const deriveWatchState = (events, mediaType) => {
+    const sorted = [...events].sort(compareEvents);
+    const seasons = new Map();
+    let watched = false;
+    let lastWatchedAt = null;
+
+    for (const event of sorted) {
+        if (event.action === "watch" && event.watchedAt) {
+            lastWatchedAt = event.watchedAt;
+        }
+
+        if (mediaType === "movie") {
+            watched = event.action === "watch";
+            continue;
+        }
+
+        if (!seasons.has(event.seasonNumber)) {
+            seasons.set(event.seasonNumber, new Set());
+        }
+        const episodes = seasons.get(event.seasonNumber);
+        if (event.action === "watch") {
+            episodes.add(event.episodeNumber);
+        } else {
+            episodes.delete(event.episodeNumber);
+        }
+    }
+
+    if (mediaType === "movie") {
+        return { watched, lastWatchedAt };
+    }
+
+    const watchedEpisodes = {};
+    for (const [seasonNumber, episodes] of seasons) {
+        if (episodes.size > 0) {
+            watchedEpisodes[seasonNumber] = [...episodes].sort((a, b) => a - b);
+        }
+    }
+    return { watchedEpisodes, lastWatchedAt };
+};
+
+// TMDB show statuses that mean no more episodes are coming
+const FINISHED_SHOW_STATUSES = ["Ended", "Canceled"];
+
+const countEpisodes = (watchedEpisodes, { includeSpecials }) =>
+    Object.entries(watchedEpisodes || {})
+        .filter(([seasonNumber]) => includeSpecials || Number(seasonNumber) > 0)
+        .reduce((acc, [, eps]) => acc + (Array.isArray(eps) ? eps.length : 0), 0);
+
+/**
+ * Episodes aired so far, specials excluded. `number_of_episodes` also counts announced
+ * episodes, so work it out from the last aired episode when the item has one.
+ */
+const countAiredEpisodes = (item) => {
+    const last = item.last_episode_to_air;
+    if (!last || !Array.isArray(item.seasons)) return item.number_of_episodes || 0;
+    return item.seasons
+        .filter((season) => season.season_number > 0 && season.season_number < last.season_number)
+        .reduce((acc, season) => acc + (season.episode_count || 0), last.episode_number);
+};
+
+/**
+ * Movies are `watchlist` or `watched`. Shows are `watchlist` until an episode is watched,
+ * `watching` while aired episodes are left, then `caught_up` while the show is still
+ * airing and `watched` once it has ended. Items saved without a TMDB status count as ended.
+ * A status the user set by hand (`dropped`, `on_hold`) wins until they clear it.
+ */
+const computeWatchlistStatus = (item) => {
+    if (item.statusOverride?.status) return item.statusOverride.status;
+    if (item.media_type === "movie") {
+        return item.watched ? "watched" : "watchlist";
+    }
+    if (countEpisodes(item.watchedEpisodes, { includeSpecials: true }) === 0) return "watchlist";
+    if (countEpisodes(item.watchedEpisodes, { includeSpecials: false }) < countAiredEpisodes(item)) return "watching";
+    if (item.status && !FINISHED_SHOW_STATUSES.includes(item.status)) return "caught_up";
+    return "watched";
+};
+
+const STATUS_WRITE_ATTEMPTS = 3;
+
+/**
+ * Stores the status of `item`, the full document as an update left it. The write only applies
+ * while the item is still at that revision; if another update got in first, the status is worked
+ * out again from what is stored now. Returns the status stored, or null if the item is gone or
+ * keeps changing (whatever changes it sets the status too).
+ */
+const storeWatchlistStatus = async (itemCollection, item) => {
+    let current = item;
+    for (let attempt = 0; attempt < STATUS_WRITE_ATTEMPTS && current; attempt++) {
+        const watchlistStatus = computeWatchlistStatus(current);
+        const result = await itemCollection.updateOne(
+            { id: current.id, userId: current.userId, revision: current.revision ?? { $in: [null, 0] } },
+            { $set: { watchlistStatus } }
+        );
+        if (result.matchedCount === 1) return watchlistStatus;
+        current = await itemCollection.findOne({ id: item.id, userId: item.userId });
+    }
+    return null;
+};
+
+/**
+ * Builds the events that reproduce an item's stored watch state.
+ * Used to migrate items that were tracked before the history log existed.
+ */
+const buildSeedEvents = (item) => {
+    const base = {
+        userId: item.userId,
+        itemId: item.id,
+        media_type: item.media_type,
+        action: "watch",
+        watchedAt: null,
+        migrated: true,
+    };
+
+    if (item.media_type === "movie") {
+        return item.watched ? [{ ...base, seasonNumber: null, episodeNumber: null }] : [];
+    }
+
+    return Object.entries(item.watchedEpisodes || {}).flatMap(([seasonNumber, episodes]) =>
+        (Array.isArray(episodes) ? episodes : []).map((episodeNumber) => ({
+            ...base,
+            seasonNumber: Number(seasonNumber),
+            episodeNumber,
+        }))
+    );
+};
+
+/**
+ * Seeds the history log for an item once. Safe to call repeatedly.
+ */
+const ensureHistorySeeded = async (historyCollection, itemCollection, item, extraFields = {}) => {
+    if (item.historySeededAt) return;
+
+    const claimed = await itemCollection.updateOne(
+        { id: item.id, userId: item.userId, historySeededAt: { $exists: false } },
+        { $set: { historySeededAt: new Date() } }
+    );
+    // Another request got here first
+    if (claimed.modifiedCount !== 1) return;
+
+    const events = buildSeedEvents(item).map((event) => ({ ...event, ...extraFields }));
+    if (events.length > 0) {
+        await historyCollection.insertMany(events);
+    }
+};
+
+module.exports = {
+    deriveWatchState,
+    buildSeedEvents,
+    ensureHistorySeeded,
+    computeWatchlistStatus,
+    storeWatchlistStatus,
+    FINISHED_SHOW_STATUSES,
+};
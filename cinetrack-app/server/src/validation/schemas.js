@@ -16,17 +16,229 @@ const changePasswordSchema = z.object({
     newPassword: z.string().min(6, "New password must be at least 6 characters"),
 });
 
+const forgotPasswordSchema = z.object({
+    email: z.string().email("Invalid email format"),
+});
+
+const resetPasswordSchema = z.object({
+    token: z.string().min(1, "Reset token is required"),
+    password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+// An authenticator code or a recovery code
+const twoFactorCodeField = z.string().trim().min(1, "Code is required").max(32, "Code is too long");
+
+const loginTwoFactorSchema = z.object({
+    challenge: z.string().min(1, "Sign-in challenge is required"),
+    code: twoFactorCodeField,
+});
+
+const twoFactorSetupSchema = z.object({
+    password: z.string().min(1, "Password is required"),
+});
+
+const twoFactorCodeSchema = z.object({
+    code: twoFactorCodeField,
+});
+
+const twoFactorDisableSchema = z.object({
+    password: z.string().min(1, "Password is required"),
+    code: twoFactorCodeField,
+});
+
+// Personal ratings are 1-10, i.e. half-star steps on a five-star scale
+const ratingSchema = z.number().int().min(1, "Rating must be between 1 and 10").max(10, "Rating must be between 1 and 10");
+const reviewSchema = z.string().max(5000, "Review must be at most 5000 characters");
+const tagsSchema = z.array(z.string().trim().min(1).max(50)).max(50);
+
+// Statuses the user sets by hand; they override the computed one until cleared
+const statusOverrideSchema = z.object({
+    status: z.enum(["dropped", "on_hold"], { message: "status must be 'dropped' or 'on_hold'" }),
+    reason: z.string().trim().max(280, "Reason must be at most 280 characters").nullable().optional(),
+});
+
 const watchlistItemSchema = z.object({
     id: z.number({ message: "ID must be a number" }),
     media_type: z.enum(["movie", "tv"], { message: "media_type must be 'movie' or 'tv'" }),
+    revision: z.number().int().min(0).optional(),
+    userRating: ratingSchema.nullable().optional(),
+    review: reviewSchema.nullable().optional(),
+    seasonRatings: z.record(z.string(), ratingSchema).optional(),
+    episodeRatings: z.record(z.string(), z.record(z.string(), ratingSchema)).optional(),
+    statusOverride: statusOverrideSchema.passthrough().nullable().optional(),
 }).passthrough();
 
-const watchlistImportSchema = z.array(watchlistItemSchema);
+// Current export envelope; older versions are migrated to this before validation (services/exportFormat.js)
+const watchlistExportSchema = z.object({
+    format: z.literal("scenestack-export", { message: "Not a Scene Stack export" }),
+    version: z.literal(3),
+    exportedAt: z.string().datetime({ message: "exportedAt must be an ISO date" }).nullable(),
+    app: z.object({ name: z.string(), version: z.string() }).nullable(),
+    // The watchlist holds one item per id, so a restore would fail part way through on a repeat
+    items: z.array(watchlistItemSchema.extend({ tags: tagsSchema.optional() })).refine(
+        (items) => new Set(items.map((item) => item.id)).size === items.length,
+        { message: "The export lists the same title more than once" }
+    ),
+    metadata: z.object({
+        tags: z.array(z.string()),
+        ratings: z.object({
+            scale: z.literal(10),
+            ratedCount: z.number().int().min(0),
+        }),
+    }),
+});
+
+const watchEventSchema = z.object({
+    action: z.enum(["watch", "unwatch"], { message: "action must be 'watch' or 'unwatch'" }),
+    seasonNumber: z.number().int().min(0).optional(),
+    episodeNumber: z.number().int().min(0).optional(),
+    rewatch: z.boolean().optional(),
+    watchedAt: z.string().datetime({ message: "watchedAt must be an ISO date" }).optional(),
+});
+
+const watchEventsSchema = z.object({
+    events: z.array(watchEventSchema).min(1, "At least one event is required").max(500, "Too many events"),
+});
+
+const episodeSetSchema = z.object({
+    seasonNumber: z.number().int().min(0),
+    episodes: z.array(z.number().int().min(0)).min(1).max(500),
+});
+
+const episodesPatchSchema = z.object({
+    add: z.array(episodeSetSchema).max(100).optional(),
+    remove: z.array(episodeSetSchema).max(100).optional(),
+}).refine((body) => body.add?.length > 0 || body.remove?.length > 0, {
+    message: "Nothing to add or remove",
+}).refine((body) => {
+    const added = new Set((body.add || []).map((set) => set.seasonNumber));
+    return (body.remove || []).every((set) => !added.has(set.seasonNumber));
+}, {
+    message: "A season cannot be both added to and removed from in one request",
+});
+
+const watchlistPatchSchema = z.object({
+    tags: tagsSchema.optional(),
+    watched: z.boolean().optional(),
+    userRating: ratingSchema.nullable().optional(),
+    review: reviewSchema.nullable().optional(),
+    seasonRating: z.object({
+        seasonNumber: z.number().int().min(0),
+        rating: ratingSchema.nullable(),
+    }).optional(),
+    episodeRating: z.object({
+        seasonNumber: z.number().int().min(0),
+        episodeNumber: z.number().int().min(0),
+        rating: ratingSchema.nullable(),
+    }).optional(),
+    statusOverride: statusOverrideSchema.nullable().optional(),
+}).refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: "Nothing to update",
+});
+
+const listNameSchema = z.string().trim().min(1, "List name is required").max(80, "List name must be at most 80 characters");
+const listDescriptionSchema = z.string().max(500, "Description must be at most 500 characters");
+
+const listCreateSchema = z.object({
+    name: listNameSchema,
+    description: listDescriptionSchema.optional(),
+});
+
+const listUpdateSchema = z.object({
+    name: listNameSchema.optional(),
+    description: listDescriptionSchema.optional(),
+}).refine((body) => body.name !== undefined || body.description !== undefined, {
+    message: "Nothing to update",
+});
+
+const listItemSchema = z.object({
+    itemId: z.number({ message: "itemId must be a number" }).int(),
+});
+
+const listOrderSchema = z.object({
+    itemIds: z.array(z.number().int()).max(5000, "Too many items"),
+});
+
+const shareCreateSchema = z.object({
+    type: z.enum(["list", "watched"], { message: "type must be 'list' or 'watched'" }),
+    listId: z.string().optional(),
+}).refine((body) => body.type !== "list" || body.listId, {
+    message: "listId is required to share a list",
+});
+
+// Admin-minted codes; null limits mean unlimited
+const inviteCreateSchema = z.object({
+    code: z.string().trim().regex(/^[A-Za-z0-9-]{4,32}$/, "Codes are 4-32 letters, digits or dashes").optional(),
+    maxUses: z.number().int().min(1).max(10000).nullable().optional(),
+    expiresInDays: z.number().int().min(1).max(3650).nullable().optional(),
+    note: z.string().trim().max(200).optional(),
+});
+
+const adminUserUpdateSchema = z.object({
+    role: z.enum(["user", "admin"], { message: "role must be 'user' or 'admin'" }),
+});
+
+const demoCleanupSchema = z.object({
+    // Every demo account, not just expired ones
+    all: z.boolean().optional(),
+});
+
+const importRowSchema = z.object({
+    title: z.string().trim().min(1, "title is required").max(300),
+    year: z.number().int().min(1870).max(2100).optional(),
+    media_type: z.enum(["movie", "tv"]).optional(),
+    imdbId: z.string().regex(/^tt\d+$/, "imdbId must look like tt1234567").optional(),
+});
+
+const importResolveSchema = z.object({
+    rows: z.array(importRowSchema).min(1, "At least one row is required").max(100, "Resolve at most 100 rows at a time"),
+});
+
+const importEntrySchema = z.object({
+    id: z.number({ message: "ID must be a number" }).int(),
+    media_type: z.enum(["movie", "tv"], { message: "media_type must be 'movie' or 'tv'" }),
+    watched: z.boolean().optional(),
+    watchedAt: z.string().datetime({ message: "watchedAt must be an ISO date" }).optional(),
+    userRating: ratingSchema.optional(),
+    review: reviewSchema.optional(),
+    episodes: z.array(z.object({
+        seasonNumber: z.number().int().min(0),
+        episodeNumber: z.number().int().min(0),
+        watchedAt: z.string().datetime({ message: "watchedAt must be an ISO date" }).optional(),
+    })).max(5000, "Too many episodes").optional(),
+});
+
+const importApplySchema = z.object({
+    entries: z.array(importEntrySchema).min(1, "Nothing to import").max(500, "Import at most 500 titles at a time"),
+    dryRun: z.boolean().optional(),
+    overwriteConflicts: z.boolean().optional(),
+    // False for an import's later batches, which are covered by the first one's backup
+    snapshot: z.boolean().optional(),
+});
 
 module.exports = {
     registerSchema,
     loginSchema,
     changePasswordSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    loginTwoFactorSchema,
+    twoFactorSetupSchema,
+    twoFactorCodeSchema,
+    twoFactorDisableSchema,
     watchlistItemSchema,
-    watchlistImportSchema,
+    watchlistExportSchema,
+    watchEventsSchema,
+    episodesPatchSchema,
+    watchlistPatchSchema,
+    listCreateSchema,
+    listUpdateSchema,
+    listItemSchema,
+    listOrderSchema,
+    shareCreateSchema,
+    inviteCreateSchema,
+    adminUserUpdateSchema,
+    demoCleanupSchema,
+    importResolveSchema,
+    importApplySchema,
 };
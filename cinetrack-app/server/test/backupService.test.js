@@ -0,0 +1,42 @@
+process.env.MONGO_URI ??= "mongodb://localhost/test";
+process.env.JWT_SECRET ??= "test";
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const createBackupService = require("../src/services/backupService");
+
+// Records every call; reads find nothing and writes succeed
+const recordingCollection = (name, calls) =>
+    new Proxy({}, {
+        get: (_, method) => (...args) => {
+            calls.push(`${name}.${String(method)}`);
+            if (method === "find") return { toArray: async () => [], sort: () => ({ skip: () => ({ toArray: async () => [] }) }) };
+            return Promise.resolve({ insertedId: "backup-1", deletedCount: 0, modifiedCount: 0 });
+        },
+    });
+
+const createService = () => {
+    const calls = [];
+    const names = ["backups", "backupEntries", "watchlist", "watchHistory", "lists", "users"];
+    const service = createBackupService(...names.map((name) => recordingCollection(name, calls)));
+    return { service, calls };
+};
+
+const movie = { id: 603, media_type: "movie", title: "The Matrix", watched: true };
+
+test("a file that lists a title twice is refused before anything is deleted", async () => {
+    const { service, calls } = createService();
+    await assert.rejects(
+        service.restoreFromExport("user-1", [movie, { ...movie, watched: false }]),
+        (err) => err.statusCode === 400
+    );
+    assert.deepEqual(calls, []);
+});
+
+test("a valid file replaces the watchlist", async () => {
+    const { service, calls } = createService();
+    const { itemCount } = await service.restoreFromExport("user-1", [movie]);
+    assert.equal(itemCount, 1);
+    const deleted = calls.indexOf("watchlist.deleteMany");
+    assert.ok(deleted !== -1 && deleted < calls.indexOf("watchlist.insertMany"));
+});
@@ -0,0 +1,139 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { EXPORT_FORMAT, EXPORT_VERSION, buildExport, parseExport } = require("../src/services/exportFormat");
+
+const item = { id: 1399, media_type: "tv", name: "Game of Thrones", tags: ["fantasy"] };
+const serverFields = { _id: "65f0c0ffee", userId: "someone-else", revision: 7, historySeededAt: "2024-01-01T00:00:00.000Z" };
+
+test("a bare array is migrated from version 1", () => {
+    const result = parseExport([{ ...item, ...serverFields }]);
+    assert.equal(result.version, EXPORT_VERSION);
+    assert.deepEqual(result.items, [item]);
+});
+
+// A v1 file: watchlist documents as the database held them, tags as typed
+const v1Show = {
+    _id: "65f0c0ffee",
+    userId: "someone-else",
+    id: 1399,
+    media_type: "tv",
+    name: "Game of Thrones",
+    poster_path: "/got.jpg",
+    watchedEpisodes: { 1: [1, 2, 3] },
+    userRating: 9,
+    review: "Long.",
+    tags: [" fantasy ", "fantasy", "", "hbo", 7],
+    statusOverride: { status: "on_hold", reason: "Waiting for the books", since: "2024-02-01T00:00:00.000Z" },
+    watchlistStatus: "on_hold",
+    revision: 12,
+    historySeededAt: "2024-01-01T00:00:00.000Z",
+    metadataRefreshedAt: "2024-03-01T00:00:00.000Z",
+    lastWatchedAt: "2024-01-20T21:00:00.000Z",
+    createdAt: "2023-12-24T10:00:00.000Z",
+};
+const v1Movie = {
+    _id: "65f0c0ffef",
+    userId: "someone-else",
+    id: 603,
+    media_type: "movie",
+    title: "The Matrix",
+    watched: true,
+    watchlistStatus: "watched",
+    revision: 3,
+};
+
+const expectedShow = {
+    id: 1399,
+    media_type: "tv",
+    name: "Game of Thrones",
+    poster_path: "/got.jpg",
+    watchedEpisodes: { 1: [1, 2, 3] },
+    userRating: 9,
+    review: "Long.",
+    tags: ["fantasy", "hbo"],
+    statusOverride: { status: "on_hold", reason: "Waiting for the books", since: "2024-02-01T00:00:00.000Z" },
+    lastWatchedAt: "2024-01-20T21:00:00.000Z",
+    createdAt: "2023-12-24T10:00:00.000Z",
+};
+const expectedMovie = { id: 603, media_type: "movie", title: "The Matrix", watched: true };
+const expectedMetadata = { tags: ["fantasy", "hbo"], ratings: { scale: 10, ratedCount: 1 } };
+
+test("version 1 items come through field by field", () => {
+    const result = parseExport([v1Show, v1Movie]);
+    assert.equal(result.format, EXPORT_FORMAT);
+    assert.equal(result.version, EXPORT_VERSION);
+    assert.equal(result.exportedAt, null);
+    assert.equal(result.app, null);
+    assert.deepEqual(result.items, [expectedShow, expectedMovie]);
+    assert.deepEqual(result.metadata, expectedMetadata);
+});
+
+test("version 2 items come through field by field", () => {
+    // v2 already dropped server fields but still carried revision, the status and raw tags
+    const strip = ({ _id, userId, historySeededAt, metadataRefreshedAt, ...rest }) => rest;
+    const result = parseExport({
+        format: EXPORT_FORMAT,
+        version: 2,
+        exportedAt: "2024-04-01T12:00:00.000Z",
+        items: [strip(v1Show), strip(v1Movie)],
+    });
+    assert.equal(result.version, EXPORT_VERSION);
+    assert.equal(result.exportedAt, "2024-04-01T12:00:00.000Z");
+    assert.equal(result.app, null);
+    assert.deepEqual(result.items, [expectedShow, expectedMovie]);
+    assert.deepEqual(result.metadata, expectedMetadata);
+});
+
+test("version 3 items come through field by field", () => {
+    const file = buildExport([expectedShow, expectedMovie], new Date("2024-05-01T08:00:00.000Z"));
+    const result = parseExport(JSON.parse(JSON.stringify(file)));
+    assert.equal(result.exportedAt, "2024-05-01T08:00:00.000Z");
+    assert.deepEqual(result.app, file.app);
+    assert.deepEqual(result.items, [expectedShow, expectedMovie]);
+    assert.deepEqual(result.metadata, expectedMetadata);
+});
+
+test("a title listed twice is rejected in every version", () => {
+    const twice = [v1Movie, { ...v1Movie, watched: false }];
+    const files = [
+        twice,
+        { format: EXPORT_FORMAT, version: 2, exportedAt: null, items: twice },
+        { ...buildExport([expectedMovie]), items: [expectedMovie, expectedMovie] },
+    ];
+    for (const file of files) {
+        assert.throws(
+            () => parseExport(file),
+            (err) => err.statusCode === 400 && /more than once/.test(err.message)
+        );
+    }
+});
+
+test("envelopes must have a version from 2 up", () => {
+    for (const version of [1, 0, "3", 2.5, undefined]) {
+        assert.throws(
+            () => parseExport({ format: EXPORT_FORMAT, version, items: [item] }),
+            (err) => err.statusCode === 400,
+            `version ${version}`
+        );
+    }
+});
+
+test("newer versions are refused with 422", () => {
+    assert.throws(
+        () => parseExport({ format: EXPORT_FORMAT, version: EXPORT_VERSION + 1, items: [] }),
+        (err) => err.statusCode === 422
+    );
+});
+
+test("server-only fields are taken off imported items", () => {
+    const file = buildExport([item]);
+    file.items = [{ ...item, ...serverFields }];
+    assert.deepEqual(parseExport(file).items, [item]);
+});
+
+test("items that aren't objects fail validation instead of throwing", () => {
+    assert.throws(
+        () => parseExport({ format: EXPORT_FORMAT, version: 2, items: [null] }),
+        (err) => err.statusCode === 400
+    );
+});
@@ -0,0 +1,113 @@
+process.env.MONGO_URI ??= "mongodb://localhost/test";
+process.env.JWT_SECRET ??= "test";
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { planImport, applyImport } = require("../src/services/mergeImport");
+
+// Just enough of a Mongo collection for applyImport: equality, $in and $exists filters,
+// and the update operators it uses
+const memoryCollection = (docs = []) => {
+    const matches = (doc, filter) =>
+        Object.entries(filter).every(([field, condition]) => {
+            const value = doc[field];
+            if (condition && typeof condition === "object" && !(condition instanceof Date)) {
+                if ("$in" in condition) return condition.$in.includes(value ?? null);
+                if ("$exists" in condition) return (value !== undefined) === condition.$exists;
+            }
+            return value === condition;
+        });
+
+    const setPath = (doc, path, update) => {
+        const keys = path.split(".");
+        const last = keys.pop();
+        const parent = keys.reduce((obj, key) => (obj[key] ??= {}), doc);
+        parent[last] = update(parent[last]);
+    };
+
+    const apply = (doc, update) => {
+        for (const [path, value] of Object.entries(update.$set || {})) setPath(doc, path, () => value);
+        for (const [path, value] of Object.entries(update.$inc || {})) setPath(doc, path, (old) => (old ?? 0) + value);
+        for (const [path, value] of Object.entries(update.$max || {})) setPath(doc, path, (old) => (old == null || value > old ? value : old));
+        for (const [path, { $each }] of Object.entries(update.$addToSet || {})) {
+            setPath(doc, path, (old) => [...new Set([...(old || []), ...$each])]);
+        }
+    };
+
+    return {
+        docs,
+        findOne: async (filter) => docs.find((doc) => matches(doc, filter)) ?? null,
+        updateOne: async (filter, update) => {
+            const doc = docs.find((candidate) => matches(candidate, filter));
+            if (doc) apply(doc, update);
+            return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+        },
+        findOneAndUpdate: async (filter, update) => {
+            const doc = docs.find((candidate) => matches(candidate, filter));
+            if (!doc) return null;
+            apply(doc, update);
+            return structuredClone(doc);
+        },
+        insertMany: async (newDocs) => {
+            docs.push(...newDocs);
+        },
+    };
+};
+
+const userId = "user-1";
+const seasons = [{ season_number: 1, episode_count: 3 }];
+const show = (fields) => ({
+    userId,
+    media_type: "tv",
+    seasons,
+    number_of_episodes: 3,
+    last_episode_to_air: { season_number: 1, episode_number: 3 },
+    revision: 1,
+    historySeededAt: new Date(0),
+    ...fields,
+});
+
+// What the import route reads for planning: none of the fields the status depends on
+const asPlanned = ({ id, userId, media_type, watched, watchedEpisodes, userRating, review, lastWatchedAt, historySeededAt }) =>
+    ({ id, userId, media_type, watched, watchedEpisodes, userRating, review, lastWatchedAt, historySeededAt });
+
+const watchAll = (id) => ({
+    id,
+    media_type: "tv",
+    episodes: [1, 2, 3].map((episodeNumber) => ({ seasonNumber: 1, episodeNumber, watchedAt: "2024-05-01T20:00:00.000Z" })),
+});
+
+const runMerge = async (items, entries) => {
+    const itemCollection = memoryCollection(items);
+    const historyCollection = memoryCollection();
+    const plan = planImport(items.map(asPlanned), entries);
+    await applyImport({ itemCollection, historyCollection, userId }, plan);
+    return new Map(itemCollection.docs.map((doc) => [doc.id, doc]));
+};
+
+test("a merge keeps a dropped status the user set", async () => {
+    const items = await runMerge(
+        [show({ id: 1, status: "Ended", watchedEpisodes: { 1: [1] }, watchlistStatus: "dropped", statusOverride: { status: "dropped" } })],
+        [watchAll(1)]
+    );
+    assert.equal(items.get(1).watchlistStatus, "dropped");
+    assert.deepEqual(items.get(1).watchedEpisodes, { 1: [1, 2, 3] });
+});
+
+test("a merge leaves a show with episodes still to air as watching", async () => {
+    const items = await runMerge(
+        [show({ id: 2, status: "Returning Series", watchedEpisodes: {}, watchlistStatus: "watchlist", number_of_episodes: 10 })],
+        [{ ...watchAll(2), episodes: watchAll(2).episodes.slice(0, 2) }]
+    );
+    assert.equal(items.get(2).watchlistStatus, "watching");
+    assert.equal(items.get(2).lastWatchedAt.toISOString(), "2024-05-01T20:00:00.000Z");
+    assert.equal(items.get(2).revision, 2);
+});
+
+test("a merge that catches up on an airing show marks it caught up, not watched", async () => {
+    const items = await runMerge(
+        [show({ id: 3, status: "Returning Series", watchedEpisodes: { 1: [1] }, watchlistStatus: "watching" })],
+        [watchAll(3)]
+    );
+    assert.equal(items.get(3).watchlistStatus, "caught_up");
+});
@@ -0,0 +1,89 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const totp = require("../src/services/totp");
+
+// Shared secrets from RFC 6238 appendix B, one per hash algorithm
+const SEEDS = {
+    sha1: "12345678901234567890",
+    sha256: "12345678901234567890123456789012",
+    sha512: "1234567890123456789012345678901234567890123456789012345678901234",
+};
+
+// RFC 6238 appendix B: [time in seconds, algorithm, 8-digit code]
+const RFC6238_VECTORS = [
+    [59, "sha1", "94287082"],
+    [59, "sha256", "46119246"],
+    [59, "sha512", "90693936"],
+    [1111111109, "sha1", "07081804"],
+    [1111111109, "sha256", "68084774"],
+    [1111111109, "sha512", "25091201"],
+    [1111111111, "sha1", "14050471"],
+    [1111111111, "sha256", "67062674"],
+    [1111111111, "sha512", "99943326"],
+    [1234567890, "sha1", "89005924"],
+    [1234567890, "sha256", "91819424"],
+    [1234567890, "sha512", "93441116"],
+    [2000000000, "sha1", "69279037"],
+    [2000000000, "sha256", "90698825"],
+    [2000000000, "sha512", "38618901"],
+    [20000000000, "sha1", "65353130"],
+    [20000000000, "sha256", "77737706"],
+    [20000000000, "sha512", "47863826"],
+];
+
+// RFC 4226 appendix D: HOTP for counters 0-9
+const RFC4226_VECTORS = [
+    "755224", "287082", "359152", "969429", "338314",
+    "254676", "287922", "162583", "399871", "520489",
+];
+
+const secretFor = (algorithm) => totp.base32Encode(Buffer.from(SEEDS[algorithm]));
+
+test("matches the RFC 6238 test vectors", () => {
+    for (const [seconds, algorithm, expected] of RFC6238_VECTORS) {
+        const code = totp.generate(secretFor(algorithm), seconds * 1000, { digits: 8, algorithm });
+        assert.equal(code, expected, `${algorithm} at ${seconds}s`);
+    }
+});
+
+test("matches the RFC 4226 HOTP test vectors", () => {
+    RFC4226_VECTORS.forEach((expected, counter) => {
+        assert.equal(totp.hotp(Buffer.from(SEEDS.sha1), counter), expected, `counter ${counter}`);
+    });
+});
+
+test("base32 round-trips and matches RFC 4648", () => {
+    assert.equal(totp.base32Encode(Buffer.from("foobar")), "MZXW6YTBOI");
+    assert.equal(totp.base32Decode("mzxw 6ytb oi======").toString(), "foobar");
+
+    const secret = totp.generateSecret();
+    assert.equal(totp.base32Encode(totp.base32Decode(secret)), secret);
+    assert.throws(() => totp.base32Decode("not base32!"));
+});
+
+test("verify accepts one step of drift either side and returns the step", () => {
+    const secret = secretFor("sha1");
+    const timeMs = 1111111109 * 1000;
+    const step = Math.floor(1111111109 / 30);
+
+    assert.equal(totp.verify(secret, totp.generate(secret, timeMs), { timeMs }), step);
+    assert.equal(totp.verify(secret, totp.generate(secret, timeMs - 30000), { timeMs }), step - 1);
+    assert.equal(totp.verify(secret, totp.generate(secret, timeMs + 30000), { timeMs }), step + 1);
+    assert.equal(totp.verify(secret, totp.generate(secret, timeMs - 60000), { timeMs }), null);
+    assert.equal(totp.verify(secret, totp.generate(secret, timeMs + 60000), { timeMs }), null);
+});
+
+test("verify rejects malformed codes", () => {
+    const secret = secretFor("sha1");
+    for (const code of ["", "12345", "1234567", "12a456", null, undefined]) {
+        assert.equal(totp.verify(secret, code, { timeMs: 0 }), null);
+    }
+});
+
+test("otpauthUri encodes the label and parameters", () => {
+    const uri = totp.otpauthUri({ secret: "JBSWY3DPEHPK3PXP", accountName: "a+b@example.com", issuer: "Scene Stack" });
+    assert.equal(
+        uri,
+        "otpauth://totp/Scene%20Stack:a%2Bb%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Scene%20Stack&algorithm=SHA1&digits=6&period=30"
+    );
+});